@@ -0,0 +1,424 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Scene, SceneData, Template, Theme, DataItem, ListRecord, RenderDiagnostic, VariableValues } from './types';
+import { renderScene } from './renderer';
+import { renderSceneToSVG } from './svg-renderer';
+import { exportSceneToPDF } from './pdf-exporter';
+import { exportSceneToHTML } from './bundle-exporter';
+import { createThemeMeasurer } from './text-measure';
+import { findPlaceholders } from './variables';
+import { isTypedDataItem } from './typed-data';
+import { isTextRun } from './rich-text';
+import { escapeHTML } from './sanitize';
+
+/**
+ * Batch rendering: one scene rendered once per row of a CSV or JSON-lines
+ * file, for personalised output. Columns are data item ids (replacing the
+ * item's text or image URL) or variable names. A manifest lists every row
+ * with its files and problems; a bad row never stops the batch.
+ *
+ * Usage: node dist/batch-render.js <scene.json> <rows.csv|rows.jsonl> [--out dir] [--format html,svg,pdf] [--name column]
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BatchFormat = 'html' | 'svg' | 'pdf';
+
+/** One input row: values by column name; list data items take arrays of records (or their JSON) */
+export type BatchRow = Record<string, string | number | boolean | null | ListRecord[]>;
+
+export interface BatchOptions {
+  outDir: string;
+  formats?: BatchFormat[];    // default ['html']
+  nameColumn?: string;        // column that names each row's files (default row-0001, ...)
+  baseDir?: string;           // directory that relative image and font paths resolve against
+}
+
+export interface BatchProblem {
+  severity: RenderDiagnostic['severity'];
+  code: string;
+  path: string;               // column name or element path
+  message: string;
+}
+
+export interface BatchRowResult {
+  row: number;                // 1-based, not counting the CSV header
+  name: string;
+  status: 'ok' | 'invalid' | 'failed';   // invalid rows are rendered, failed ones are not
+  files: string[];            // relative to the output directory
+  problems: BatchProblem[];
+}
+
+export interface BatchManifest {
+  scene: string;
+  formats: BatchFormat[];
+  problems: BatchProblem[];   // problems with the columns or the scene itself, reported once
+  rows: BatchRowResult[];
+  summary: { total: number; ok: number; invalid: number; failed: number };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const FORMATS: BatchFormat[] = ['html', 'svg', 'pdf'];
+
+const MANIFEST_FILE = 'manifest.json';
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may hold commas, newlines and
+ * doubled quotes) into rows keyed by the header line. Rows with a different
+ * field count than the header are kept; missing fields are absent.
+ */
+export function parseCSV(text: string): { columns: string[]; rows: BatchRow[]; fieldCounts: number[] } {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(fields => fields.length > 1 || fields[0].trim() !== '');
+  const [header = [], ...body] = nonEmpty;
+  const columns = header.map(column => column.trim());
+
+  return {
+    columns,
+    rows: body.map(fields => Object.fromEntries(
+      fields.slice(0, columns.length).map((value, index) => [columns[index], value])
+    )),
+    fieldCounts: body.map(fields => fields.length)
+  };
+}
+
+/**
+ * Parse JSON lines (one object per line) or a JSON array of objects.
+ * Throws on lines that are not JSON objects.
+ */
+export function parseJSONRows(text: string): BatchRow[] {
+  const trimmed = text.trim();
+  const values: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(/\r?\n/).filter(line => line.trim() !== '').map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch (error: any) {
+        throw new Error(`Line ${index + 1}: ${error.message}`);
+      }
+    });
+
+  return values.map((value, index) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Row ${index + 1} is not a JSON object`);
+    }
+    return value as BatchRow;
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Scene loaded from a scene file, whose data/template/theme paths are relative to it */
+function loadSceneFile(scenePath: string): Scene {
+  const dir = path.dirname(scenePath);
+  const sceneFile = JSON.parse(fs.readFileSync(scenePath, 'utf-8'));
+  const load = (file: string) => JSON.parse(fs.readFileSync(path.resolve(dir, file), 'utf-8'));
+
+  return {
+    data: load(sceneFile.data) as SceneData,
+    template: load(sceneFile.template) as Template,
+    theme: load(sceneFile.theme) as Theme
+  };
+}
+
+/** Names of the variables the scene's text refers to or declares */
+function getVariableNames(data: SceneData): Set<string> {
+  const names = new Set((data.variables || []).map(variable => variable.name));
+  for (const item of data.data_items) {
+    const texts = [item.content || '', ...(item.runs || []).filter(isTextRun).map(run => run.text)];
+    texts.forEach(text => findPlaceholders(text).forEach(name => names.add(name)));
+  }
+  return names;
+}
+
+/** Variables that render as empty text unless every row supplies them */
+function getRequiredVariables(data: SceneData): string[] {
+  const defaults = new Set((data.variables || []).filter(variable => variable.default !== undefined).map(variable => variable.name));
+  return [...getVariableNames(data)].filter(name => !defaults.has(name));
+}
+
+/** A data item with its text, image URL, typed value or records replaced by a row value */
+function withRowValue(item: DataItem, value: Exclude<BatchRow[string], null>): DataItem {
+  if (item.type === 'list') {
+    const records = typeof value === 'string' ? JSON.parse(value) : value;
+    if (!Array.isArray(records)) throw new Error(`Column '${item.id}' must hold an array of records`);
+    return { ...item, records };
+  }
+  if (Array.isArray(value)) throw new Error(`Column '${item.id}' holds a list, but '${item.id}' is not a list data item`);
+
+  if (isTypedDataItem(item)) return { ...item, value: typeof value === 'boolean' ? String(value) : value };
+
+  value = String(value);
+  if (item.type === 'image') return { ...item, image_url: value };
+  const { runs, ...rest } = item;
+  return { ...rest, content: escapeHTML(value).replace(/\n/g, '<br>') };
+}
+
+/** The scene and variable values for one row */
+function applyRow(scene: Scene, row: BatchRow, variableNames: Set<string>): { scene: Scene; variables: VariableValues } {
+  const variables: VariableValues = {};
+  const dataItems = scene.data.data_items.map(item => {
+    const value = row[item.id];
+    return value === undefined || value === null ? item : withRowValue(item, value);
+  });
+
+  for (const [column, value] of Object.entries(row)) {
+    if (variableNames.has(column) && !Array.isArray(value)) variables[column] = value;
+  }
+
+  return { scene: { ...scene, data: { ...scene.data, data_items: dataItems } }, variables };
+}
+
+function toProblem(diagnostic: RenderDiagnostic): BatchProblem {
+  return { severity: diagnostic.severity, code: diagnostic.code, path: diagnostic.element_path, message: diagnostic.message };
+}
+
+function problemKey(problem: BatchProblem): string {
+  return `${problem.code}|${problem.path}|${problem.message}`;
+}
+
+/** A file name from a row value: letters, digits, dots, dashes and underscores */
+function toFileName(value: string): string {
+  return value.normalize('NFKD').replace(/[^\w.-]+/g, '-').replace(/^[-.]+|-+$/g, '').slice(0, 80);
+}
+
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let i = 2; used.has(name); i++) name = `${base}-${i}`;
+  used.add(name);
+  return name;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Render a scene once per row and write the outputs plus manifest.json to
+ * `options.outDir`. Returns the manifest.
+ */
+export function renderBatch(
+  scene: Scene,
+  rows: BatchRow[],
+  options: BatchOptions,
+  input: { sceneName?: string; columns?: string[]; fieldCounts?: number[] } = {}
+): BatchManifest {
+  const formats = options.formats && options.formats.length > 0 ? options.formats : ['html' as const];
+  const baseDir = options.baseDir || process.cwd();
+  const measurer = createThemeMeasurer(scene.theme, baseDir);
+  const variableNames = getVariableNames(scene.data);
+  const dataItemIds = new Set(scene.data.data_items.map(item => item.id));
+
+  fs.mkdirSync(options.outDir, { recursive: true });
+
+  // Columns are checked once, against the first row's keys for JSON input
+  const columns = input.columns || Object.keys(rows[0] || {});
+  const problems: BatchProblem[] = [];
+  for (const column of columns) {
+    if (!dataItemIds.has(column) && !variableNames.has(column) && column !== options.nameColumn) {
+      problems.push({ severity: 'warning', code: 'unknown_column', path: column,
+        message: `Column '${column}' matches no data item or variable and is ignored` });
+    }
+  }
+  for (const name of getRequiredVariables(scene.data)) {
+    if (!columns.includes(name)) {
+      problems.push({ severity: 'error', code: 'missing_column', path: name,
+        message: `No column for variable '${name}', which has no default` });
+    }
+  }
+
+  // Diagnostics of the scene itself, and of its PDF export such as remote
+  // images and fonts, are reported once, not for every row
+  const exportDiagnostics = formats.includes('pdf') ? exportSceneToPDF(scene, { baseDir }).diagnostics : [];
+  const sceneDiagnostics = [...renderScene(scene, { measurer }).diagnostics, ...exportDiagnostics]
+    .filter(diagnostic => diagnostic.code !== 'missing_variable' && diagnostic.code !== 'invalid_variable')
+    .map(toProblem)
+    .filter((problem, index, all) => all.findIndex(other => problemKey(other) === problemKey(problem)) === index);
+  problems.push(...sceneDiagnostics);
+  const sceneProblemKeys = new Set(sceneDiagnostics.map(problemKey));
+
+  const usedNames = new Set<string>();
+  const results = rows.map((row, index): BatchRowResult => {
+    const rowNumber = index + 1;
+    const nameValue = options.nameColumn ? row[options.nameColumn] : undefined;
+    const name = uniqueName(
+      (nameValue !== undefined && nameValue !== null && toFileName(String(nameValue))) || `row-${String(rowNumber).padStart(4, '0')}`,
+      usedNames
+    );
+    const result: BatchRowResult = { row: rowNumber, name, status: 'ok', files: [], problems: [] };
+
+    const fieldCount = input.fieldCounts?.[index];
+    if (fieldCount !== undefined && fieldCount !== columns.length) {
+      result.problems.push({ severity: 'error', code: 'missing_column', path: '',
+        message: `Row has ${fieldCount} fields, the header has ${columns.length}` });
+    }
+
+    try {
+      const { scene: rowScene, variables } = applyRow(scene, row, variableNames);
+      const renderOptions = { measurer, variables };
+
+      const addDiagnostics = (diagnostics: RenderDiagnostic[]) => {
+        const rowProblemKeys = new Set(result.problems.map(problemKey));
+        result.problems.push(...diagnostics
+          .map(toProblem)
+          .filter(problem => !sceneProblemKeys.has(problemKey(problem)) && !rowProblemKeys.has(problemKey(problem))));
+      };
+      addDiagnostics(renderScene(rowScene, renderOptions).diagnostics);
+
+      for (const format of formats) {
+        const file = `${name}.${format}`;
+        let output: string | Buffer;
+        if (format === 'pdf') {
+          // What the PDF cannot draw is reported with the row's other problems
+          const { pdf, diagnostics } = exportSceneToPDF(rowScene, { baseDir, title: name, variables });
+          addDiagnostics(diagnostics);
+          output = pdf;
+        } else {
+          output = format === 'html'
+            ? exportSceneToHTML(rowScene, { baseDir, title: name, renderOptions })
+            : renderSceneToSVG(rowScene, { ...renderOptions, baseDir });
+        }
+        fs.writeFileSync(path.join(options.outDir, file), output);
+        result.files.push(file);
+      }
+
+      // Info-level notes are listed but do not make the row invalid
+      if (result.problems.some(problem => problem.severity !== 'info')) result.status = 'invalid';
+    } catch (error: any) {
+      result.status = 'failed';
+      result.problems.push({ severity: 'error', code: 'render_failed', path: '', message: error.message });
+    }
+
+    return result;
+  });
+
+  const manifest: BatchManifest = {
+    scene: input.sceneName || scene.data.scene_id,
+    formats,
+    problems,
+    rows: results,
+    summary: {
+      total: results.length,
+      ok: results.filter(result => result.status === 'ok').length,
+      invalid: results.filter(result => result.status === 'invalid').length,
+      failed: results.filter(result => result.status === 'failed').length
+    }
+  };
+
+  fs.writeFileSync(path.join(options.outDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  return manifest;
+}
+
+/**
+ * Render a scene file once per row of a .csv, .jsonl or .json rows file.
+ * Relative asset paths resolve against the scene file's directory.
+ */
+export function renderBatchFiles(scenePath: string, rowsPath: string, options: BatchOptions): BatchManifest {
+  const scene = loadSceneFile(scenePath);
+  const text = fs.readFileSync(rowsPath, 'utf-8');
+  const input = path.extname(rowsPath).toLowerCase() === '.csv'
+    ? parseCSV(text)
+    : { rows: parseJSONRows(text), columns: undefined, fieldCounts: undefined };
+
+  return renderBatch(scene, input.rows, { baseDir: path.dirname(scenePath), ...options }, {
+    sceneName: path.basename(scenePath),
+    columns: input.columns,
+    fieldCounts: input.fieldCounts
+  });
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) flags[args[i].slice(2)] = args[++i] ?? '';
+    else positional.push(args[i]);
+  }
+
+  const [scenePath, rowsPath] = positional;
+  if (!scenePath || !rowsPath) {
+    console.log('Usage: node dist/batch-render.js <scene.json> <rows.csv|rows.jsonl> [--out dir] [--format html,svg,pdf] [--name column]');
+    process.exit(1);
+  }
+
+  const formats = (flags.format || 'html').split(',').map(format => format.trim().toLowerCase());
+  const unknown = formats.filter(format => !FORMATS.includes(format as BatchFormat));
+  if (unknown.length > 0) {
+    console.error(`Unknown format: ${unknown.join(', ')} (expected ${FORMATS.join(', ')})`);
+    process.exit(1);
+  }
+
+  const outDir = flags.out || 'batch-output';
+  const manifest = renderBatchFiles(scenePath, rowsPath, {
+    outDir,
+    formats: formats as BatchFormat[],
+    nameColumn: flags.name
+  });
+
+  for (const problem of manifest.problems) {
+    console.log(`[${problem.severity}] ${problem.path}: ${problem.message}`);
+  }
+  for (const row of manifest.rows) {
+    console.log(`${row.status === 'ok' ? '✓' : '✗'} Row ${row.row} (${row.name}): ${row.status}`);
+    row.problems.forEach(problem => console.log(`    [${problem.severity}] ${problem.path}: ${problem.message}`));
+  }
+
+  const { total, ok, invalid, failed } = manifest.summary;
+  console.log(`\n${total} rows: ${ok} ok, ${invalid} with problems, ${failed} failed`);
+  console.log(`Manifest: ${path.join(outDir, MANIFEST_FILE)}`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  main();
+}
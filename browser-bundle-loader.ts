@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BROWSER_GLOBAL_NAME = 'SceneRenderer';
+
+/** Where the build writes the browser bundle (see browser-bundle.ts) */
+export const BROWSER_BUNDLE_PATH = path.join(__dirname.replace(/[\\/]dist$/, ''), 'dist', 'scene-renderer.js');
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * The browser bundle generated by `npm run build`. Serving this file rather
+ * than bundling at runtime means the renderer needs no TypeScript compiler
+ * installed. Throws when the bundle has not been built.
+ */
+export function readBrowserBundle(bundlePath: string = BROWSER_BUNDLE_PATH): string {
+  try {
+    return fs.readFileSync(bundlePath, 'utf-8');
+  } catch {
+    throw new Error(`Browser bundle not found at ${bundlePath}; run npm run build to generate it`);
+  }
+}
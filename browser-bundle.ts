@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { BROWSER_GLOBAL_NAME, BROWSER_BUNDLE_PATH } from './browser-bundle-loader';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BrowserBundleOptions {
+  entry?: string;        // entry module, relative to rootDir (defaults to renderer.ts)
+  rootDir?: string;      // directory the modules live in
+  globalName?: string;   // global the entry module's exports are assigned to
+}
+
+interface BundledModule {
+  id: string;
+  code: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_ENTRY = 'renderer.ts';
+
+// ============================================================================
+// MODULE COLLECTION
+// ============================================================================
+
+/** Module id for a source file: its path relative to rootDir without extension, e.g. "./layout" */
+function moduleId(filePath: string, rootDir: string): string {
+  const relative = path.relative(rootDir, filePath).replace(/\\/g, '/').replace(/\.ts$/, '');
+  return `./${relative}`;
+}
+
+function resolveImport(specifier: string, fromFile: string): string {
+  if (!specifier.startsWith('.')) {
+    throw new Error(
+      `Browser bundle: '${path.basename(fromFile)}' imports '${specifier}', ` +
+      'which is not a local module and cannot run in the browser'
+    );
+  }
+
+  const resolved = path.resolve(path.dirname(fromFile), specifier);
+  for (const candidate of [`${resolved}.ts`, path.join(resolved, 'index.ts')]) {
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  throw new Error(`Browser bundle: cannot resolve '${specifier}' from '${path.basename(fromFile)}'`);
+}
+
+/**
+ * Transpile a module and everything it requires at runtime. Type-only
+ * imports are dropped by the transpiler, so they never reach the bundle.
+ */
+function collectModules(entryFile: string, rootDir: string): BundledModule[] {
+  const modules: BundledModule[] = [];
+  const seen = new Set<string>();
+
+  const visit = (filePath: string): void => {
+    if (seen.has(filePath)) return;
+    seen.add(filePath);
+
+    const source = fs.readFileSync(filePath, 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      fileName: filePath,
+      compilerOptions: {
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.CommonJS,
+        esModuleInterop: true,
+        removeComments: true
+      }
+    });
+
+    // Rewrite each require() to the id of the module it resolves to
+    const dependencies: string[] = [];
+    const code = outputText
+      .replace(/\/\/# sourceMappingURL=.*$/m, '')
+      .replace(/\brequire\((["'])([^"']+)\1\)/g, (match, quote: string, specifier: string) => {
+        const dependency = resolveImport(specifier, filePath);
+        dependencies.push(dependency);
+        return `require(${JSON.stringify(moduleId(dependency, rootDir))})`;
+      });
+
+    modules.push({ id: moduleId(filePath, rootDir), code: code.trim() });
+    dependencies.forEach(visit);
+  };
+
+  visit(entryFile);
+  return modules;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Bundle renderer.ts and the modules it depends on into one browser script.
+ * Loading the script assigns the renderer's exports to a global
+ * (window.SceneRenderer by default), so the browser calls exactly the same
+ * renderScene as the server. This runs at build time, as it needs the
+ * TypeScript compiler; at runtime the built file is read with
+ * readBrowserBundle.
+ */
+export function buildBrowserBundle(options: BrowserBundleOptions = {}): string {
+  const rootDir = path.resolve(options.rootDir || __dirname.replace(/[\\/]dist$/, ''));
+  const entryFile = path.resolve(rootDir, options.entry || DEFAULT_ENTRY);
+  const globalName = options.globalName || BROWSER_GLOBAL_NAME;
+  const modules = collectModules(entryFile, rootDir);
+
+  const definitions = modules.map(module =>
+    `  ${JSON.stringify(module.id)}: function (exports, require, module) {\n${module.code}\n  }`
+  ).join(',\n');
+
+  return `/* Scene renderer browser bundle, generated from ${path.basename(entryFile)}. Do not edit. */
+(function (root) {
+  "use strict";
+  var definitions = {
+${definitions}
+  };
+  var cache = {};
+  function require(id) {
+    if (cache[id]) return cache[id].exports;
+    if (!definitions[id]) throw new Error("Scene renderer bundle: unknown module " + id);
+    var module = cache[id] = { exports: {} };
+    definitions[id].call(module.exports, module.exports, require, module);
+    return module.exports;
+  }
+  root[${JSON.stringify(globalName)}] = require(${JSON.stringify(modules[0].id)});
+})(typeof window !== "undefined" ? window : globalThis);
+`;
+}
+
+/**
+ * Write the browser bundle to a file (dist/scene-renderer.js by default)
+ */
+export function writeBrowserBundle(outputPath: string = BROWSER_BUNDLE_PATH, options: BrowserBundleOptions = {}): void {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, buildBrowserBundle(options), 'utf-8');
+}
+
+if (require.main === module) {
+  const outputPath = process.argv[2] || BROWSER_BUNDLE_PATH;
+  writeBrowserBundle(outputPath);
+  console.log(`Browser bundle written to ${outputPath}`);
+}
@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import type { Scene, Element, DataItem, RenderOptions } from './types';
+import { renderScene } from './renderer';
+import { createThemeMeasurer } from './text-measure';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BundleOptions {
+  baseDir?: string;               // directory that relative image and font paths resolve against
+  title?: string;                 // page title (defaults to the template name)
+  pageBackground?: string;        // CSS background around the scene
+  renderOptions?: RenderOptions;
+}
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+/** Maps an original asset URL to its bundled replacement, or null to keep it */
+type AssetResolver = (url: string) => string | null;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  otf: 'font/otf',
+  ttf: 'font/ttf',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
+const ASSETS_DIR = 'assets';
+
+// ============================================================================
+// ASSET RESOLUTION
+// ============================================================================
+
+/** True for paths on disk: no URL scheme (other than file:) and not protocol-relative. */
+function isLocalPath(url: string): boolean {
+  if (!url || url.startsWith('//')) return false;
+  if (url.startsWith('file://')) return true;
+  return !/^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+function readLocalAsset(url: string, baseDir: string): Buffer | null {
+  const filePath = path.resolve(baseDir, decodeURI(url.replace(/^file:\/\//, '').split(/[?#]/)[0]));
+  try {
+    return fs.readFileSync(filePath);
+  } catch {
+    console.warn(`Bundle export: cannot read '${filePath}', keeping the original URL`);
+    return null;
+  }
+}
+
+function getMimeType(url: string): string {
+  const ext = path.extname(url.split(/[?#]/)[0]).slice(1).toLowerCase();
+  return MIME_TYPES[ext] || 'application/octet-stream';
+}
+
+/** Record fields shown by image elements in repeater item templates, by list id */
+function getImageFields(elements: Element[], fields: Map<string, Set<string>> = new Map(), listId?: string): Map<string, Set<string>> {
+  for (const element of elements) {
+    if (listId && element.field && element.element_type === 'image') {
+      if (!fields.has(listId)) fields.set(listId, new Set());
+      fields.get(listId)!.add(element.field);
+    }
+    if (element.children) getImageFields(element.children, fields, listId);
+    if (element.item_template) getImageFields([element.item_template], fields, element.data_item_id);
+    if (element.empty_template) getImageFields([element.empty_template], fields);
+  }
+  return fields;
+}
+
+/**
+ * Replace every local image and font URL in a scene. Remote URLs are left
+ * as they are. The input scene is not modified.
+ */
+function rewriteSceneAssets(scene: Scene, resolve: AssetResolver): Scene {
+  const rewrite = (url: string | undefined): string | undefined => {
+    if (!url || !isLocalPath(url)) return url;
+    return resolve(url) ?? url;
+  };
+
+  const rewriteSvg = (svgContent: string): string =>
+    svgContent.replace(
+      /(\s(?:xlink:)?href\s*=\s*)(["'])([^"']*)\2/g,
+      (match, prefix: string, quote: string, url: string) => `${prefix}${quote}${rewrite(url)}${quote}`
+    );
+
+  const rewriteElement = (element: Element): Element => ({
+    ...element,
+    ...(element.image_url !== undefined ? { image_url: rewrite(element.image_url) } : {}),
+    ...(element.svg_content !== undefined ? { svg_content: rewriteSvg(element.svg_content) } : {}),
+    ...(element.children ? { children: element.children.map(rewriteElement) } : {}),
+    ...(element.item_template ? { item_template: rewriteElement(element.item_template) } : {}),
+    ...(element.empty_template ? { empty_template: rewriteElement(element.empty_template) } : {})
+  });
+
+  // List record fields that repeaters show as images hold image URLs too
+  const imageFields = getImageFields(scene.template.elements);
+  const rewriteRecords = (item: DataItem): DataItem => {
+    const fields = imageFields.get(item.id);
+    if (!fields || !Array.isArray(item.records)) return item;
+    return {
+      ...item,
+      records: item.records.map(record => {
+        if (!record || typeof record !== 'object') return record;
+        const rewritten = { ...record };
+        for (const field of fields) {
+          if (typeof record[field] === 'string') rewritten[field] = rewrite(record[field] as string) as string;
+        }
+        return rewritten;
+      })
+    };
+  };
+
+  return {
+    data: {
+      ...scene.data,
+      data_items: scene.data.data_items.map(item =>
+        item.image_url !== undefined ? { ...item, image_url: rewrite(item.image_url) } : rewriteRecords(item)
+      )
+    },
+    template: {
+      ...scene.template,
+      elements: scene.template.elements.map(rewriteElement)
+    },
+    theme: {
+      ...scene.theme,
+      font_palette: scene.theme.font_palette.map(font => ({
+        ...font,
+        font_url: rewrite(font.font_url) || '',
+        ...(font.faces ? { faces: font.faces.map(face => ({ ...face, url: rewrite(face.url) || '' })) } : {})
+      }))
+    }
+  };
+}
+
+// ============================================================================
+// ZIP WRITING
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/** MS-DOS date and time fields used by zip headers. */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Write a zip archive. Entries are deflated unless that makes them larger
+ * (already-compressed images and WOFF fonts are usually stored).
+ */
+function createZip(entries: ZipEntry[]): Buffer {
+  const { time, date } = dosDateTime(new Date());
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const deflated = zlib.deflateRawSync(entry.data);
+    const useDeflate = deflated.length < entry.data.length;
+    const body = useDeflate ? deflated : entry.data;
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034B50, 0);
+    local.writeUInt16LE(20, 4);                  // version needed
+    local.writeUInt16LE(0x0800, 6);              // UTF-8 names
+    local.writeUInt16LE(useDeflate ? 8 : 0, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014B50, 0);
+    central.writeUInt16LE(20, 4);                // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(useDeflate ? 8 : 0, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054B50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Wrap rendered scene HTML and CSS in a standalone page
+ */
+export function createHTMLPage(title: string, css: string, html: string, pageBackground: string = '#f5f5f5'): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</title>
+  <style>
+body {
+  margin: 0;
+  padding: 40px;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  min-height: 100vh;
+  background: ${pageBackground};
+  font-family: sans-serif;
+}
+
+${css}
+  </style>
+</head>
+<body>
+${html}
+</body>
+</html>`;
+}
+
+/**
+ * Render options measuring text with the scene's own font files, unless the
+ * caller supplied a measurer
+ */
+function withThemeMeasurer(scene: Scene, options: BundleOptions): RenderOptions {
+  return { measurer: createThemeMeasurer(scene.theme, options.baseDir), ...options.renderOptions };
+}
+
+/**
+ * Copy of a scene with every local image and font embedded as a data URI
+ */
+export function inlineSceneAssets(scene: Scene, baseDir: string = process.cwd()): Scene {
+  const cache = new Map<string, string | null>();
+
+  return rewriteSceneAssets(scene, url => {
+    if (!cache.has(url)) {
+      const data = readLocalAsset(url, baseDir);
+      cache.set(url, data ? `data:${getMimeType(url)};base64,${data.toString('base64')}` : null);
+    }
+    return cache.get(url)!;
+  });
+}
+
+/**
+ * Render a scene to a single self-contained HTML page. Local images and
+ * fonts are embedded as data URIs; remote fonts and images still load from
+ * their URLs.
+ */
+export function exportSceneToHTML(scene: Scene, options: BundleOptions = {}): string {
+  const bundled = inlineSceneAssets(scene, options.baseDir);
+  const { html, css } = renderScene(bundled, withThemeMeasurer(scene, options));
+  return createHTMLPage(options.title || scene.template.template_name, css, html, options.pageBackground);
+}
+
+/**
+ * Render a scene to a zip archive holding index.html and an assets/ folder
+ * with every local image and font the scene uses.
+ */
+export function exportSceneToZip(scene: Scene, options: BundleOptions = {}): Buffer {
+  const baseDir = options.baseDir || process.cwd();
+  const assets = new Map<string, ZipEntry | null>();
+  const usedNames = new Set<string>();
+
+  const bundled = rewriteSceneAssets(scene, url => {
+    if (!assets.has(url)) {
+      const data = readLocalAsset(url, baseDir);
+      if (!data) {
+        assets.set(url, null);
+      } else {
+        // Keep file names readable; disambiguate same-named files from different folders
+        const parsed = path.parse(url.split(/[?#]/)[0]);
+        let name = `${parsed.name}${parsed.ext}`;
+        for (let i = 2; usedNames.has(name); i++) name = `${parsed.name}-${i}${parsed.ext}`;
+        usedNames.add(name);
+        assets.set(url, { name: `${ASSETS_DIR}/${name}`, data });
+      }
+    }
+    const entry = assets.get(url);
+    return entry ? encodeURI(entry.name) : null;
+  });
+
+  const { html, css } = renderScene(bundled, withThemeMeasurer(scene, options));
+  const page = createHTMLPage(options.title || scene.template.template_name, css, html, options.pageBackground);
+
+  return createZip([
+    { name: 'index.html', data: Buffer.from(page, 'utf8') },
+    ...[...assets.values()].filter((entry): entry is ZipEntry => entry !== null)
+  ]);
+}
@@ -1,4 +1,7 @@
 import { renderScene } from './renderer';
+import { renderSceneToSVG } from './svg-renderer';
+import { exportSceneToPDF } from './pdf-exporter';
+import { exportSceneToHTML, exportSceneToZip } from './bundle-exporter';
 import type { Scene, SceneData, Template, Theme } from './types';
 
 async function loadJsonFile(filename: string): Promise<unknown> {
@@ -19,39 +22,31 @@ async function main() {
   // Render
   const result = renderScene(scene);
 
-  // Create full HTML
-  const fullHTML = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Debug - ${sceneId}</title>
-  <style>
-body {
-  margin: 0;
-  padding: 40px;
-  display: flex;
-  justify-content: center;
-  align-items: center;
-  min-height: 100vh;
-  background-color: #f5f5f5;
-  font-family: sans-serif;
-}
+  // Write a self-contained page with local images and fonts embedded
+  await Bun.write('debug.html', exportSceneToHTML(scene, { title: `Debug - ${sceneId}` }));
+  console.log('Written to debug.html');
 
-${result.css}
-  </style>
-</head>
-<body>
-${result.html}
-</body>
-</html>`;
+  await Bun.write('debug.zip', exportSceneToZip(scene, { title: `Debug - ${sceneId}` }));
+  console.log('Written to debug.zip');
 
-  await Bun.write('debug.html', fullHTML);
-  console.log('Written to debug.html');
+  await Bun.write('debug.svg', renderSceneToSVG(scene));
+  console.log('Written to debug.svg');
+
+  const { pdf, diagnostics: pdfDiagnostics } = exportSceneToPDF(scene);
+  await Bun.write('debug.pdf', pdf);
+  console.log('Written to debug.pdf');
   console.log('\n--- CSS ---');
   console.log(result.css);
   console.log('\n--- HTML ---');
   console.log(result.html);
+
+  const diagnostics = [...result.diagnostics, ...pdfDiagnostics];
+  if (diagnostics.length > 0) {
+    console.log('\n--- DIAGNOSTICS ---');
+    for (const diagnostic of diagnostics) {
+      console.log(`[${diagnostic.severity}] ${diagnostic.element_path}: ${diagnostic.message} (${diagnostic.code})`);
+    }
+  }
 }
 
 main().catch(console.error);
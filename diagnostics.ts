@@ -0,0 +1,408 @@
+import type {
+  Scene,
+  Element,
+  ElementStyle,
+  DataItem,
+  Gradient,
+  RenderDiagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  VariableValues
+} from './types';
+import { layoutPreparedScene, parseLength, LayoutBox, SceneLayout } from './layout';
+import { isValidFilter, BLEND_MODES } from './effects';
+import { getRunStyle, isTextRun } from './rich-text';
+import { bindVariables } from './variables';
+import { expandRepeaters } from './repeaters';
+import { applyVisibility } from './visibility';
+import { getCurvature } from './text-arc';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ELEMENT_TYPES = new Set(['data_item', 'shape', 'svg', 'container', 'image', 'repeater']);
+
+const COLOR_KEYS: (keyof ElementStyle)[] = ['color', 'fill', 'stroke', 'background_color', 'border_color'];
+
+// Style keys holding one length, or a 1-4 value box shorthand
+const LENGTH_KEYS = new Set<keyof ElementStyle>([
+  'width', 'height', 'margin_top', 'margin_bottom', 'margin_left', 'margin_right',
+  'top', 'left', 'right', 'bottom', 'font_size', 'letter_spacing', 'gap', 'stroke_width', 'max_width',
+  'min_font_size', 'max_font_size'
+]);
+const SHORTHAND_LENGTH_KEYS = new Set<keyof ElementStyle>(['padding', 'border_radius']);
+
+const LENGTH_KEYWORDS = new Set([
+  'auto', 'normal', 'inherit', 'initial', 'unset',
+  'fit-content', 'max-content', 'min-content',
+  'xx-small', 'x-small', 'small', 'medium', 'large', 'x-large', 'xx-large', 'smaller', 'larger'
+]);
+
+const KEYWORD_VALUES: Partial<Record<keyof ElementStyle, string[]>> = {
+  display: ['block', 'inline', 'inline-block', 'flex', 'inline-flex', 'grid', 'inline-grid', 'none', 'contents'],
+  position: ['static', 'relative', 'absolute', 'fixed', 'sticky'],
+  flex_direction: ['row', 'row-reverse', 'column', 'column-reverse'],
+  justify_content: ['flex-start', 'flex-end', 'start', 'end', 'center', 'space-between', 'space-around', 'space-evenly', 'normal'],
+  align_items: ['flex-start', 'flex-end', 'start', 'end', 'center', 'baseline', 'stretch', 'normal'],
+  font_style: ['normal', 'italic', 'oblique'],
+  font_weight: ['normal', 'bold', 'bolder', 'lighter', '100', '200', '300', '400', '500', '600', '700', '800', '900'],
+  text_align: ['left', 'center', 'right', 'justify', 'start', 'end'],
+  text_transform: ['none', 'uppercase', 'lowercase', 'capitalize'],
+  white_space: ['normal', 'nowrap', 'pre', 'pre-wrap', 'pre-line', 'break-spaces'],
+  object_fit: ['fill', 'contain', 'cover', 'none', 'scale-down'],
+  text_fit: ['none', 'shrink', 'fill'],
+  blend_mode: BLEND_MODES
+};
+
+const GLOBAL_KEYWORDS = ['inherit', 'initial', 'unset'];
+
+// Text may overhang its box by this much (px) before it counts as overflowing
+const OVERFLOW_TOLERANCE = 1;
+
+// CSS named colors, so literal colors are not reported as unknown theme ids
+const NAMED_COLORS = new Set((
+  'aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue blueviolet brown ' +
+  'burlywood cadetblue chartreuse chocolate coral cornflowerblue cornsilk crimson cyan darkblue darkcyan ' +
+  'darkgoldenrod darkgray darkgreen darkgrey darkkhaki darkmagenta darkolivegreen darkorange darkorchid ' +
+  'darkred darksalmon darkseagreen darkslateblue darkslategray darkslategrey darkturquoise darkviolet ' +
+  'deeppink deepskyblue dimgray dimgrey dodgerblue firebrick floralwhite forestgreen fuchsia gainsboro ' +
+  'ghostwhite gold goldenrod gray green greenyellow grey honeydew hotpink indianred indigo ivory khaki ' +
+  'lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan lightgoldenrodyellow ' +
+  'lightgray lightgreen lightgrey lightpink lightsalmon lightseagreen lightskyblue lightslategray ' +
+  'lightslategrey lightsteelblue lightyellow lime limegreen linen magenta maroon mediumaquamarine ' +
+  'mediumblue mediumorchid mediumpurple mediumseagreen mediumslateblue mediumspringgreen mediumturquoise ' +
+  'mediumvioletred midnightblue mintcream mistyrose moccasin navajowhite navy oldlace olive olivedrab ' +
+  'orange orangered orchid palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff peru ' +
+  'pink plum powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon sandybrown ' +
+  'seagreen seashell sienna silver skyblue slateblue slategray slategrey snow springgreen steelblue tan ' +
+  'teal thistle tomato turquoise violet wheat white whitesmoke yellow yellowgreen ' +
+  'transparent currentcolor inherit initial unset none'
+).split(' '));
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isLiteralColor(value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  return NAMED_COLORS.has(normalized) ||
+    /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(normalized) ||
+    /^(rgb|rgba|hsl|hsla|hwb|lab|lch|oklab|oklch|color)\(.*\)$/.test(normalized) ||
+    /^var\(--[\w-]+.*\)$/.test(normalized);
+}
+
+function isValidLength(value: string, allowUnitless: boolean): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (LENGTH_KEYWORDS.has(normalized)) return true;
+  if (/^(calc|min|max|clamp|var)\(.*\)$/.test(normalized)) return true;
+  if (allowUnitless && /^-?(\d+\.?\d*|\.\d+)$/.test(normalized)) return true;
+  return parseLength(normalized, 0) !== null || /^-?(\d+\.?\d*|\.\d+)(vw|vh|vmin|vmax|ch|ex|cm|mm|in|pt|pc)$/.test(normalized);
+}
+
+/**
+ * Why a style value is invalid, or null if it looks valid. Only properties
+ * with a known value grammar are checked.
+ */
+function checkStyleValue(key: keyof ElementStyle, value: string): string | null {
+  if (/[<>{};]/.test(value)) {
+    return `contains characters not allowed in a CSS value`;
+  }
+
+  if (LENGTH_KEYS.has(key)) {
+    return isValidLength(value, false) ? null : `'${value}' is not a valid length`;
+  }
+
+  if (SHORTHAND_LENGTH_KEYS.has(key)) {
+    const parts = value.trim().split(/\s+/);
+    if (parts.length > 4 || !parts.every(part => isValidLength(part, false))) {
+      return `'${value}' is not a valid ${key} shorthand`;
+    }
+    return null;
+  }
+
+  if (key === 'line_height') {
+    return isValidLength(value, true) ? null : `'${value}' is not a valid line height`;
+  }
+
+  if (key === 'opacity') {
+    const match = value.trim().match(/^(\d+\.?\d*|\.\d+)(%?)$/);
+    const opacity = match ? parseFloat(match[1]) / (match[2] ? 100 : 1) : NaN;
+    return opacity >= 0 && opacity <= 1 ? null : `'${value}' is not an opacity between 0 and 1`;
+  }
+
+  if (key === 'rotation') {
+    return /^-?(\d+\.?\d*|\.\d+)(deg|rad|turn)?$/.test(value.trim()) ? null : `'${value}' is not a valid angle`;
+  }
+
+  if (key === 'z_index') {
+    return /^(-?\d+|auto)$/.test(value.trim()) ? null : `'${value}' is not a valid z-index`;
+  }
+
+  const keywords = KEYWORD_VALUES[key];
+  if (keywords && !keywords.includes(value.trim()) && !GLOBAL_KEYWORDS.includes(value.trim())) {
+    return `'${value}' is not one of ${keywords.join(', ')}`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// COLLECTION
+// ============================================================================
+
+interface DiagnosticContext {
+  dataItemIds: Set<string>;
+  colorIds: Set<string>;
+  fontIds: Set<string>;
+  diagnostics: RenderDiagnostic[];
+}
+
+function report(
+  context: DiagnosticContext,
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  elementPath: string,
+  message: string
+): void {
+  context.diagnostics.push({ severity, code, element_path: elementPath, message });
+}
+
+function checkStyle(style: ElementStyle, elementPath: string, context: DiagnosticContext): void {
+  for (const [key, value] of Object.entries(style) as [keyof ElementStyle, string | undefined][]) {
+    if (value === undefined) continue;
+
+    if (key === 'filters') {
+      const filters: unknown = value;
+      if (!Array.isArray(filters)) {
+        report(context, 'warning', 'invalid_css_value', elementPath, `Style 'filters' must be a list of filters`);
+      } else {
+        filters.filter(filter => !isValidFilter(filter)).forEach(filter => {
+          report(context, 'warning', 'invalid_css_value', elementPath,
+            `Style 'filters': ${JSON.stringify(filter)} is not a valid filter; it is ignored`);
+        });
+      }
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      report(context, 'warning', 'invalid_css_value', elementPath, `Style '${key}' must be a string`);
+      continue;
+    }
+
+    if (COLOR_KEYS.includes(key)) {
+      if (!context.colorIds.has(value) && !isLiteralColor(value)) {
+        report(context, 'warning', 'unknown_color', elementPath,
+          `Style '${key}' references unknown color '${value}'`);
+      }
+      continue;
+    }
+
+    if (key === 'font') {
+      if (!context.fontIds.has(value)) {
+        report(context, 'warning', 'unknown_font', elementPath,
+          `Style 'font' references unknown font '${value}'`);
+      }
+      continue;
+    }
+
+    const problem = checkStyleValue(key, value);
+    if (problem) {
+      report(context, 'warning', 'invalid_css_value', elementPath, `Style '${key}': ${problem}`);
+    }
+  }
+}
+
+function checkElement(element: Element, parentPath: string, context: DiagnosticContext): void {
+  const elementPath = parentPath ? `${parentPath}/${element.element_id}` : element.element_id;
+
+  if (!ELEMENT_TYPES.has(element.element_type)) {
+    report(context, 'error', 'unknown_element_type', elementPath,
+      `Unknown element type '${element.element_type}'; the element is not rendered`);
+  }
+
+  if (element.element_type === 'data_item') {
+    if (!element.data_item_id) {
+      report(context, 'error', 'missing_data_item', elementPath, 'Data item element has no data_item_id');
+    } else if (!context.dataItemIds.has(element.data_item_id)) {
+      report(context, 'error', 'missing_data_item', elementPath,
+        `Data item '${element.data_item_id}' does not exist; the element is not rendered`);
+    }
+  }
+
+  if (element.style) {
+    checkStyle(element.style, elementPath, context);
+  }
+
+  element.children?.forEach(child => checkElement(child, elementPath, context));
+}
+
+/** Check the styles of rich text runs like element styles; entries that are not runs are skipped. */
+function checkDataItems(dataItems: DataItem[], context: DiagnosticContext): void {
+  for (const dataItem of dataItems) {
+    if (dataItem.type !== 'text' || !Array.isArray(dataItem.runs)) continue;
+    dataItem.runs.forEach((run, index) => {
+      const runPath = `data_items/${dataItem.id}/runs/${index}`;
+      if (isTextRun(run)) {
+        checkStyle(getRunStyle(run), runPath, context);
+      } else {
+        report(context, 'error', 'invalid_data_value', runPath, 'Run is not an object with text; it is skipped');
+      }
+    });
+  }
+}
+
+/** Report gradient stops that are neither palette colors nor CSS colors. */
+function checkGradients(gradients: Gradient[], paletteColorIds: Set<string>, context: DiagnosticContext): void {
+  for (const gradient of gradients) {
+    for (const stop of gradient.stops) {
+      if (!paletteColorIds.has(stop.color) && !isLiteralColor(stop.color)) {
+        report(context, 'warning', 'unknown_color', `gradient_palette/${gradient.id}`,
+          `Gradient stop references unknown color '${stop.color}'`);
+      }
+    }
+  }
+}
+
+function hasDeclaredHeight(element: Element): boolean {
+  const height = element.style?.height;
+  return height !== undefined && height !== 'auto';
+}
+
+/**
+ * How far a text box's lines reach past its edges, in px (0 when they fit).
+ * Boxes without a declared height grow with their text, so they are checked
+ * against `bottom`: the bottom edge of the nearest ancestor with a declared
+ * height, or of the canvas.
+ */
+function getTextOverflow(box: LayoutBox, bottom: number): number {
+  if (!box.lines || box.lines.length === 0 || getCurvature(box.element) !== 0) return 0;
+
+  let overflow = 0;
+  for (const line of box.lines) {
+    overflow = Math.max(overflow, box.x - line.x, line.x + line.width - (box.x + box.width));
+    // Rich text lines vary in height, so only plain lines are checked vertically
+    if (!line.segments) {
+      overflow = Math.max(overflow, line.y + box.textStyle.lineHeight - (box.y + box.height));
+    }
+  }
+  if (!hasDeclaredHeight(box.element)) {
+    overflow = Math.max(overflow, box.y + box.height - bottom);
+  }
+  return overflow > OVERFLOW_TOLERANCE ? overflow : 0;
+}
+
+/**
+ * Report boxes lying entirely outside the canvas, whose children are
+ * skipped, and text that does not fit its box, its text_fit size range or
+ * the ancestor that holds it (whose bottom edge is `bottom`).
+ */
+function checkLayoutBoxes(
+  boxes: LayoutBox[],
+  parentPath: string,
+  layout: SceneLayout,
+  context: DiagnosticContext,
+  bottom: number = layout.height
+): void {
+  for (const box of boxes) {
+    const elementPath = parentPath ? `${parentPath}/${box.element.element_id}` : box.element.element_id;
+    if (box.element.style?.display === 'none') continue;
+
+    // A box without width or height (e.g. an empty auto-height container) at the edge is inside
+    const outside = box.x >= layout.width || box.y >= layout.height ||
+      (box.width > 0 ? box.x + box.width <= 0 : box.x < 0) ||
+      (box.height > 0 ? box.y + box.height <= 0 : box.y < 0);
+    const empty = box.width <= 0 && box.height <= 0;
+
+    if (outside && !empty) {
+      report(context, 'warning', 'outside_canvas', elementPath,
+        `Element lies entirely outside the ${layout.width}x${layout.height} canvas ` +
+        `(at ${Math.round(box.x)}, ${Math.round(box.y)})`);
+      continue;
+    }
+
+    const overflow = getTextOverflow(box, bottom);
+    if (box.fitFailed) {
+      // Without a declared height, text_fit keeps each paragraph on one line
+      const size = `the smallest text_fit size (${Math.round(box.textStyle.fontSize * 10) / 10}px)`;
+      report(context, 'warning', 'text_overflow', elementPath, hasDeclaredHeight(box.element)
+        ? `Text does not fit its ${Math.round(box.width)}x${Math.round(box.height)} box at ${size}`
+        : `Text does not fit its ${Math.round(box.width)}px width at ${size} and wraps onto ${box.lines?.length ?? 0} lines`);
+    } else if (overflow > 0) {
+      report(context, 'warning', 'text_overflow', elementPath,
+        `Text overflows its ${Math.round(box.width)}x${Math.round(box.height)} box by ${Math.round(overflow)}px`);
+    }
+
+    checkLayoutBoxes(box.children, elementPath, layout, context,
+      hasDeclaredHeight(box.element) ? Math.min(bottom, box.y + box.height) : bottom);
+  }
+}
+
+/** Ids of the data items that elements show */
+function collectDataItemIds(elements: Element[], ids: Set<string> = new Set()): Set<string> {
+  for (const element of elements) {
+    if (element.data_item_id) ids.add(element.data_item_id);
+    if (element.children) collectDataItemIds(element.children, ids);
+  }
+  return ids;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Check a prepared scene (see prepareScene) for problems that make its
+ * rendering differ from what the template describes. Element paths are
+ * slash-separated element ids.
+ */
+export function collectRenderDiagnostics(scene: Scene, layout?: SceneLayout): RenderDiagnostic[] {
+  const gradients = scene.theme.gradient_palette || [];
+  const paletteColorIds = new Set(scene.theme.color_palette.map(color => color.id));
+  const context: DiagnosticContext = {
+    dataItemIds: new Set(scene.data.data_items.map(item => item.id)),
+    // Color-bearing style keys may reference gradients as well as colors
+    colorIds: new Set([...paletteColorIds, ...gradients.map(gradient => gradient.id)]),
+    fontIds: new Set(scene.theme.font_palette.map(font => font.font_id)),
+    diagnostics: []
+  };
+
+  checkGradients(gradients, paletteColorIds, context);
+  checkDataItems(scene.data.data_items, context);
+
+  scene.template.elements.forEach(element => checkElement(element, '', context));
+
+  const sceneLayout = layout || layoutPreparedScene(scene);
+  checkLayoutBoxes(sceneLayout.boxes, '', sceneLayout, context);
+
+  return context.diagnostics;
+}
+
+/**
+ * Report {{ variable }} placeholders in text content that have no value
+ * (from `values` or a declared default), or whose value does not fit the
+ * declared type or formatters. Missing values of data items only shown by
+ * elements that visible_when hides are expected and not reported. Paths
+ * are data_items/<id>.
+ */
+export function collectVariableDiagnostics(scene: Scene, values?: VariableValues): RenderDiagnostic[] {
+  const diagnostics: RenderDiagnostic[] = [];
+  const bound = expandRepeaters(bindVariables(scene, values));
+  const shownIds = collectDataItemIds(applyVisibility(bound, values).template.elements);
+  const hiddenIds = [...collectDataItemIds(bound.template.elements)].filter(id => !shownIds.has(id));
+
+  bindVariables(scene, values, problem => {
+    if (problem.kind === 'missing' && hiddenIds.includes(problem.dataItemId)) return;
+    const diagnostic: RenderDiagnostic = {
+      severity: 'warning',
+      code: problem.kind === 'missing' ? 'missing_variable' : problem.kind === 'locale' ? 'invalid_locale' : 'invalid_variable',
+      element_path: `data_items/${problem.dataItemId}`,
+      message: problem.message
+    };
+    // An invalid locale is reported once per data item, not per placeholder
+    if (problem.kind === 'locale' && diagnostics.some(other =>
+      other.code === diagnostic.code && other.element_path === diagnostic.element_path)) return;
+    diagnostics.push(diagnostic);
+  });
+  return diagnostics;
+}
@@ -0,0 +1,49 @@
+import type { FilterType, StyleFilter } from './types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const FILTER_TYPES: FilterType[] = ['blur', 'brightness', 'contrast', 'saturate', 'grayscale', 'sepia'];
+
+/** CSS mix-blend-mode values accepted for `blend_mode` */
+export const BLEND_MODES = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function isValidFilter(filter: unknown): filter is StyleFilter {
+  const candidate = filter as StyleFilter;
+  return typeof candidate === 'object' && candidate !== null &&
+    FILTER_TYPES.includes(candidate.type) &&
+    typeof candidate.value === 'number' && Number.isFinite(candidate.value) && candidate.value >= 0;
+}
+
+/**
+ * CSS filter value for a style's filter list, e.g. "blur(4px) sepia(0.5)".
+ * Invalid entries are skipped, so the result is always safe to emit.
+ */
+export function filtersToCSS(filters: StyleFilter[] | undefined): string | undefined {
+  if (!Array.isArray(filters)) return undefined;
+
+  const functions = filters
+    .filter(isValidFilter)
+    .map(filter => filter.type === 'blur' ? `blur(${filter.value}px)` : `${filter.type}(${filter.value})`);
+
+  return functions.length > 0 ? functions.join(' ') : undefined;
+}
+
+/**
+ * Opacity as a number from 0 to 1; accepts "0.5" or "50%", defaults to 1
+ */
+export function parseOpacity(value: string | undefined): number {
+  if (value === undefined) return 1;
+  const match = String(value).trim().match(/^(\d+\.?\d*|\.\d+)(%?)$/);
+  if (!match) return 1;
+  const opacity = parseFloat(match[1]) / (match[2] ? 100 : 1);
+  return Math.min(1, Math.max(0, opacity));
+}
@@ -1,43 +1,63 @@
 import { renderScene } from './renderer';
+import { createThemeMeasurer } from './text-measure';
+import { exportSceneToHTML, inlineSceneAssets } from './bundle-exporter';
 import type { Scene } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
 
 /**
- * Helper function to generate HTML with body styling
+ * Helper function to generate a page showing several scenes side by side.
+ * Each scene keeps its own <style> so its @import rules stay valid.
  */
-function createFullHTML(sceneId: string, css: string, html: string): string {
+function createComparisonHTML(title: string, results: { label: string; css: string; html: string }[]): string {
+  const styles = results.map(result => `  <style>\n${result.css}  </style>`).join('\n');
+  const panels = results.map(result => `<figure>
+<figcaption>${result.label}</figcaption>
+${result.html}
+</figure>`).join('\n');
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${sceneId}</title>
+  <title>${title}</title>
   <style>
 body {
   margin: 0;
   padding: 40px;
   display: flex;
+  flex-wrap: wrap;
   justify-content: center;
-  align-items: center;
+  align-items: flex-start;
+  gap: 40px;
   min-height: 100vh;
   background-color: #f5f5f5;
   font-family: sans-serif;
 }
 
-${css}
+figure {
+  margin: 0;
+}
+
+figcaption {
+  margin-bottom: 12px;
+  color: #666;
+  text-align: center;
+}
   </style>
+${styles}
 </head>
 <body>
-${html}
+${panels}
 </body>
 </html>`;
 }
 
 /**
- * Render a scene with a specific theme
+ * Load the wedding invitation scene with a specific theme
  */
-function renderWithTheme(themeFile: string, outputFile: string) {
+function loadScene(themeFile: string): Scene {
   const rootDir = path.join(__dirname, '..');
 
   // Load data and template (same for both)
@@ -54,23 +74,27 @@ function renderWithTheme(themeFile: string, outputFile: string) {
     fs.readFileSync(path.join(rootDir, themeFile), 'utf-8')
   );
 
-  // Create the scene object
-  const scene: Scene = {
+  return {
     data,
     template,
     theme
   };
+}
 
-  // Render the scene
-  const result = renderScene(scene);
+/**
+ * Render a scene with a specific theme
+ */
+function renderWithTheme(themeFile: string, outputFile: string) {
+  const rootDir = path.join(__dirname, '..');
+  const scene = loadScene(themeFile);
 
-  // Create full HTML
-  const fullHTML = createFullHTML(scene.data.scene_id, result.css, result.html);
+  // Render to a self-contained page
+  const fullHTML = exportSceneToHTML(scene, { baseDir: rootDir, title: scene.data.scene_id });
 
   // Write the output
   fs.writeFileSync(path.join(rootDir, outputFile), fullHTML, 'utf-8');
 
-  console.log(`✓ ${theme.theme_name} rendered successfully!`);
+  console.log(`✓ ${scene.theme.theme_name} rendered successfully!`);
   console.log(`  Output: ${outputFile}`);
 }
 
@@ -87,4 +111,30 @@ renderWithTheme(
   'wedding-invitation-modern.html'
 );
 
+/**
+ * Render every theme onto one page; namespaces keep the scenes' classes apart
+ */
+function renderComparison(themes: { file: string; namespace: string }[], outputFile: string) {
+  const rootDir = path.join(__dirname, '..');
+
+  const results = themes.map(({ file, namespace }) => {
+    const scene = inlineSceneAssets(loadScene(file), rootDir);
+    const result = renderScene(scene, { namespace, measurer: createThemeMeasurer(scene.theme, rootDir) });
+    return { label: scene.theme.theme_name, ...result };
+  });
+
+  fs.writeFileSync(path.join(rootDir, outputFile), createComparisonHTML('Theme comparison', results), 'utf-8');
+
+  console.log(`✓ Theme comparison rendered successfully!`);
+  console.log(`  Output: ${outputFile}`);
+}
+
+renderComparison(
+  [
+    { file: 'wedding-invitation-theme.json', namespace: 'elegant' },
+    { file: 'wedding-invitation-theme-modern.json', namespace: 'modern' }
+  ],
+  'wedding-invitation-comparison.html'
+);
+
 console.log('\nAll invitations generated successfully!');
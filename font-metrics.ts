@@ -0,0 +1,89 @@
+import type { RenderDiagnostic } from './types';
+import { loadFontFile, ParsedFont } from './opentype';
+import { findFont, findFace } from './font-registry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Vertical font metrics, as fractions of the font size */
+export interface FontMetrics {
+  ascent: number;     // ascender / unitsPerEm, from OS/2 or hhea (see metricsFromFont)
+  descent: number;    // abs(descender) / unitsPerEm (positive)
+  capHeight: number;  // sCapHeight / unitsPerEm
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Used for fonts without a readable file */
+export const DEFAULT_FONT_METRICS: FontMetrics = { ascent: 0.9, descent: 0.2, capHeight: 0.71 };
+
+// Metrics by font file; the parse error when the file cannot be parsed
+const metricsCache = new Map<string, FontMetrics | Error>();
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Metrics of a parsed font, as browsers lay out its lines: from the OS/2
+ * typo metrics when the font sets USE_TYPO_METRICS, from hhea otherwise.
+ * Text measurement and font lookups both read metrics here.
+ */
+export function metricsFromFont(font: ParsedFont): FontMetrics {
+  const ascender = font.useTypoMetrics ? font.typoAscender : font.ascender;
+  const descender = font.useTypoMetrics ? font.typoDescender : font.descender;
+  return {
+    ascent: ascender / font.unitsPerEm,
+    descent: Math.abs(descender) / font.unitsPerEm,
+    capHeight: font.capHeight / font.unitsPerEm
+  };
+}
+
+/**
+ * Metrics of a font family from the regular face's file in the font
+ * registry, or null when the family has no local file or it cannot be
+ * parsed, which is passed to `onProblem`. Results are cached, so each file
+ * is only read once.
+ */
+export function lookupFontMetrics(
+  fontName: string,
+  onProblem: (diagnostic: RenderDiagnostic) => void = () => {}
+): FontMetrics | null {
+  const font = findFont(fontName);
+  const url = font?.source === 'local' ? findFace(font)?.url : undefined;
+  if (!url) return null;
+
+  if (!metricsCache.has(url)) {
+    try {
+      metricsCache.set(url, metricsFromFont(loadFontFile(url)));
+    } catch (error: any) {
+      metricsCache.set(url, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  const metrics = metricsCache.get(url)!;
+  if (metrics instanceof Error) {
+    onProblem({
+      severity: 'warning',
+      code: 'font_fallback',
+      element_path: url,
+      message: `Cannot parse font '${url}' for '${fontName}': ${metrics.message}; default metrics are used`
+    });
+    return null;
+  }
+  return metrics;
+}
+
+/**
+ * Metrics of a font family, falling back to DEFAULT_FONT_METRICS when no
+ * readable file for it is found
+ */
+export function getFontMetrics(
+  fontName: string,
+  onProblem: (diagnostic: RenderDiagnostic) => void = () => {}
+): FontMetrics {
+  return lookupFontMetrics(fontName, onProblem) ?? DEFAULT_FONT_METRICS;
+}
@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadFontFile } from './opentype';
+import type { Font, FontFaceSource } from './types';
+import { matchFontFace, getCategoryFallback } from './font-stack';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RegisteredFace {
+  weight: number;              // 100-900
+  style: 'normal' | 'italic';
+  url?: string;                // font file, for local fonts
+}
+
+/**
+ * A font family the registry can supply: from a file in the fonts directory,
+ * from the Google Fonts catalog, or a web-safe system font
+ */
+export interface RegisteredFont {
+  family: string;
+  source: 'local' | 'google' | 'system';
+  category?: string;           // Google Fonts category, e.g. 'serif' or 'handwriting'
+  faces: RegisteredFace[];
+}
+
+export interface FontRegistryOptions {
+  fontsDir?: string;           // directory scanned for .otf/.ttf files (default 'fonts')
+  catalog?: string | false;    // Google Fonts catalog JSON (default: the bundled one; false for none)
+}
+
+/** Catalog entries, in the Google Fonts Developer API format */
+interface CatalogEntry {
+  family: string;
+  category?: string;
+  variants?: string[];         // 'regular', 'italic', '700', '700italic', ...
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const FONT_EXTENSIONS = ['.otf', '.ttf'];
+
+// The catalog shipped at the repository root, found from dist/ or the sources
+const DEFAULT_CATALOG = path.join(__dirname.replace(/[\\/]dist$/, ''), 'google-fonts-catalog.json');
+
+// Fonts every renderer can be expected to have, so no font file is referenced
+const SYSTEM_FONTS: Array<[string, string]> = [
+  ['Arial', 'sans-serif'], ['Helvetica', 'sans-serif'], ['Verdana', 'sans-serif'],
+  ['Tahoma', 'sans-serif'], ['Trebuchet MS', 'sans-serif'], ['Times New Roman', 'serif'],
+  ['Times', 'serif'], ['Georgia', 'serif'], ['Courier New', 'monospace'], ['Courier', 'monospace']
+];
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let options: Required<FontRegistryOptions> = { fontsDir: 'fonts', catalog: DEFAULT_CATALOG };
+
+// Families by lowercased name, built on first use
+let index: Map<string, RegisteredFont> | null = null;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function listFontFiles(dir: string): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  return entries.flatMap(entry => {
+    const filePath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listFontFiles(filePath);
+    return FONT_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()) ? [filePath] : [];
+  });
+}
+
+/** Families in the fonts directory, with one face per font file */
+function scanFontsDir(fontsDir: string): RegisteredFont[] {
+  const families = new Map<string, RegisteredFont>();
+
+  for (const filePath of listFontFiles(fontsDir)) {
+    let font;
+    try {
+      font = loadFontFile(filePath);
+    } catch (error: any) {
+      console.warn(`Font registry: cannot parse '${filePath}': ${error.message}`);
+      continue;
+    }
+    if (!font.familyName) continue;
+
+    const key = font.familyName.toLowerCase();
+    const family = families.get(key) || { family: font.familyName, source: 'local' as const, faces: [] };
+    families.set(key, family);
+
+    const face: RegisteredFace = {
+      weight: font.weightClass,
+      style: font.isItalic ? 'italic' : 'normal',
+      url: filePath.split(path.sep).join('/')
+    };
+    if (!family.faces.some(existing => existing.weight === face.weight && existing.style === face.style)) {
+      family.faces.push(face);
+    }
+  }
+
+  return [...families.values()];
+}
+
+function parseVariant(variant: string): RegisteredFace {
+  const match = variant.match(/^(\d+)?(regular|italic)?$/);
+  return {
+    weight: match?.[1] ? parseInt(match[1], 10) : 400,
+    style: match?.[2] === 'italic' ? 'italic' : 'normal'
+  };
+}
+
+function loadCatalog(catalogPath: string): RegisteredFont[] {
+  let catalog: { items?: CatalogEntry[] } | CatalogEntry[];
+  try {
+    catalog = JSON.parse(fs.readFileSync(catalogPath, 'utf-8'));
+  } catch (error: any) {
+    console.warn(`Font registry: cannot load catalog '${catalogPath}': ${error.message}`);
+    return [];
+  }
+
+  const entries = Array.isArray(catalog) ? catalog : catalog.items || [];
+  return entries
+    .filter(entry => typeof entry?.family === 'string')
+    .map(entry => ({
+      family: entry.family,
+      source: 'google' as const,
+      category: entry.category,
+      faces: (entry.variants || ['regular']).map(parseVariant)
+    }));
+}
+
+function getIndex(): Map<string, RegisteredFont> {
+  if (index) return index;
+
+  index = new Map();
+  const register = (fonts: RegisteredFont[]) => fonts.forEach(font => {
+    const key = font.family.toLowerCase();
+    if (!index!.has(key)) index!.set(key, font);
+  });
+
+  // Local files take precedence over the catalog, which takes precedence
+  // over system fonts
+  register(scanFontsDir(options.fontsDir));
+  if (options.catalog) register(loadCatalog(options.catalog));
+  register(SYSTEM_FONTS.map(([family, category]) => ({
+    family,
+    source: 'system' as const,
+    category,
+    faces: [{ weight: 400, style: 'normal' as const }]
+  })));
+
+  return index;
+}
+
+function googleFontsURL(font: RegisteredFont): string {
+  const family = font.family.replace(/\s+/g, '+');
+  const faces = [...font.faces].sort((a, b) => (a.style === b.style ? 0 : a.style === 'italic' ? 1 : -1) || a.weight - b.weight);
+  const isRegularOnly = faces.length === 1 && faces[0].weight === 400 && faces[0].style === 'normal';
+
+  if (isRegularOnly) return `https://fonts.googleapis.com/css2?family=${family}&display=swap`;
+  if (faces.some(face => face.style === 'italic')) {
+    const axes = faces.map(face => `${face.style === 'italic' ? 1 : 0},${face.weight}`).join(';');
+    return `https://fonts.googleapis.com/css2?family=${family}:ital,wght@${axes}&display=swap`;
+  }
+  return `https://fonts.googleapis.com/css2?family=${family}:wght@${faces.map(face => face.weight).join(';')}&display=swap`;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Set where fonts are looked up. The fonts directory is rescanned on the
+ * next lookup.
+ */
+export function configureFontRegistry(config: FontRegistryOptions): void {
+  options = { ...options, ...config };
+  index = null;
+}
+
+/** The fonts directory the registry scans */
+export function getFontsDir(): string {
+  return options.fontsDir;
+}
+
+/** A family by name (case-insensitive), or null when no source has it */
+export function findFont(fontName: string): RegisteredFont | null {
+  return getIndex().get(fontName.trim().toLowerCase()) || null;
+}
+
+/** Every family the registry knows, sorted by name */
+export function listFonts(): RegisteredFont[] {
+  return [...getIndex().values()].sort((a, b) => a.family.localeCompare(b.family));
+}
+
+/** The face closest to the requested weight and style, as browsers match them */
+export function findFace(
+  font: RegisteredFont,
+  weight: number = 400,
+  style: 'normal' | 'italic' = 'normal'
+): RegisteredFace | undefined {
+  return matchFontFace(font.faces, face => ({ weight: face.weight, italic: face.style === 'italic' }), weight, style === 'italic');
+}
+
+/**
+ * URL for a theme font entry: the regular face's file for local fonts, a
+ * Google Fonts stylesheet loading every catalog face, or '' for system
+ * fonts. Null when the font is not registered.
+ */
+export function resolveFontUrl(fontName: string): string | null {
+  const font = findFont(fontName);
+  if (!font) return null;
+
+  switch (font.source) {
+    case 'local':
+      return findFace(font)?.url || null;
+    case 'google':
+      return googleFontsURL(font);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Theme font fields for a registered family: its URL, every further local
+ * face by weight and style, and the fallback stack for its category
+ */
+export function getThemeFont(font: RegisteredFont): Omit<Font, 'font_id'> {
+  const fontUrl = resolveFontUrl(font.family) ?? '';
+  const faces: FontFaceSource[] = font.source === 'local'
+    ? font.faces
+      .filter(face => face.url && face.url !== fontUrl)
+      .map(face => ({ url: face.url!, weight: face.weight, style: face.style }))
+    : [];
+
+  return {
+    font_name: font.family,
+    font_url: fontUrl,
+    ...(faces.length > 0 ? { faces } : {}),
+    fallback: getCategoryFallback(font.family, font.category)
+  };
+}
@@ -0,0 +1,113 @@
+import type { Font, FontFaceSource } from './types';
+import { escapeCSSString } from './sanitize';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fallback stacks by font category (the Google Fonts categories) */
+export const CATEGORY_FALLBACKS: Record<string, string[]> = {
+  'serif': ['Georgia', 'Times New Roman', 'Times', 'serif'],
+  'sans-serif': ['Arial', 'Helvetica', 'sans-serif'],
+  'display': ['Arial', 'Helvetica', 'sans-serif'],
+  'handwriting': ['Brush Script MT', 'Segoe Script', 'cursive'],
+  'monospace': ['Courier New', 'Courier', 'monospace']
+};
+
+// Categories guessed from font names, in order of precedence
+const NAME_CATEGORIES: { pattern: RegExp; category: string }[] = [
+  {
+    pattern: /mono|code|courier|consol/i,
+    category: 'monospace'
+  },
+  {
+    pattern: /script|vibes|allura|pacifico|dancing|hand|brush|calligraph|parisienne|sacramento|satisfy|tangerine|signature/i,
+    category: 'handwriting'
+  },
+  {
+    pattern: /sans|grotesk|grotesque|helvetica|arial|roboto|montserrat|raleway|lato|open|inter|poppins|nunito|verdana|tahoma|trebuchet/i,
+    category: 'sans-serif'
+  },
+  {
+    pattern: /serif|garamond|playfair|times|georgia|baskerville|bodoni|lora|merriweather|cormorant|didot|caslon|crimson|abril|slab|roman/i,
+    category: 'serif'
+  }
+];
+
+const DEFAULT_CATEGORY = 'sans-serif';
+
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Numeric weight (100-900) of a CSS font-weight value; unknown values are 400 */
+export function parseFontWeight(weight: string | number | undefined): number {
+  if (weight === 'bold' || weight === 'bolder') return 700;
+  if (weight === 'lighter') return 300;
+  const value = typeof weight === 'number' ? weight : parseInt(String(weight), 10);
+  return Number.isFinite(value) ? Math.min(900, Math.max(100, value)) : 400;
+}
+
+/** Fallback stack for a font category, guessed from the name when not given */
+export function getCategoryFallback(fontName: string, category?: string): string[] {
+  const guessed = NAME_CATEGORIES.find(({ pattern }) => pattern.test(fontName))?.category;
+  return CATEGORY_FALLBACKS[category || ''] || CATEGORY_FALLBACKS[guessed || DEFAULT_CATEGORY];
+}
+
+/** The families tried after a font: its own fallback list, or its category's */
+export function getFallbackStack(font: Font): string[] {
+  return Array.isArray(font.fallback) && font.fallback.length > 0
+    ? font.fallback.filter(name => typeof name === 'string' && name.trim() !== '')
+    : getCategoryFallback(font.font_name);
+}
+
+/** CSS font-family value for a font: its name, then its fallback stack */
+export function getFontStack(font: Font): string {
+  const names = [font.font_name, ...getFallbackStack(font)];
+  return names
+    .filter((name, index) => names.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index)
+    .map(name => GENERIC_FAMILIES.has(name) ? name : `'${escapeCSSString(name)}'`)
+    .join(', ');
+}
+
+/**
+ * Every face of a font with its weight and style filled in: font_url as the
+ * regular face, then the listed faces
+ */
+export function getFontFaces(font: Font): Required<FontFaceSource>[] {
+  const faces: Required<FontFaceSource>[] = font.font_url
+    ? [{ url: font.font_url, weight: 400, style: 'normal' }]
+    : [];
+
+  for (const face of font.faces || []) {
+    if (!face || typeof face.url !== 'string' || !face.url) continue;
+    faces.push({
+      url: face.url,
+      weight: parseFontWeight(face.weight),
+      style: face.style === 'italic' ? 'italic' : 'normal'
+    });
+  }
+  return faces;
+}
+
+/**
+ * The face that best matches a weight and style, as browsers pick them: the
+ * same style when there is one, then the nearest weight (heavier on ties for
+ * bold requests, lighter otherwise)
+ */
+export function matchFontFace<T>(
+  faces: T[],
+  describe: (face: T) => { weight: number; italic: boolean },
+  weight: number,
+  italic: boolean
+): T | undefined {
+  const score = (face: T) => {
+    const { weight: faceWeight, italic: faceItalic } = describe(face);
+    const difference = faceWeight - weight;
+    const tieBreak = (weight > 400 ? difference < 0 : difference > 0) ? 0.5 : 0;
+    return (faceItalic === italic ? 0 : 10000) + Math.abs(difference) + tieBreak;
+  };
+  return faces.reduce<T | undefined>((best, face) => best === undefined || score(face) < score(best) ? face : best, undefined);
+}
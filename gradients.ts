@@ -0,0 +1,127 @@
+import type { Theme, Color, Gradient, GradientStop } from './types';
+import { escapeHTML } from './sanitize';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Turns a literal (non-palette) stop color into output-safe text */
+export type LiteralColor = (value: string) => string;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_LINEAR_ANGLE = 180;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function cssColor(value: string, colorMap: Map<string, Color>, literal: LiteralColor): string {
+  const color = colorMap.get(value);
+  return color ? `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})` : literal(value);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function buildGradientMap(theme: Theme): Map<string, Gradient> {
+  return new Map((theme.gradient_palette || []).map(gradient => [gradient.id, gradient]));
+}
+
+/**
+ * Stops in offset order with offsets clamped to 0-1
+ */
+export function getGradientStops(gradient: Gradient): GradientStop[] {
+  return gradient.stops
+    .map(stop => ({ color: stop.color, offset: Math.min(1, Math.max(0, stop.offset)) }))
+    .sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Solid color reference to use where a gradient cannot be drawn (the first stop)
+ */
+export function getFallbackColor(gradient: Gradient): string | undefined {
+  return getGradientStops(gradient)[0]?.color;
+}
+
+/**
+ * CSS linear-gradient() or radial-gradient() image for a palette gradient
+ */
+export function gradientToCSS(gradient: Gradient, colorMap: Map<string, Color>, literal: LiteralColor): string {
+  const stops = getGradientStops(gradient)
+    .map(stop => `${cssColor(stop.color, colorMap, literal)} ${round(stop.offset * 100)}%`)
+    .join(', ');
+
+  return gradient.type === 'radial'
+    ? `radial-gradient(ellipse farthest-corner at 50% 50%, ${stops})`
+    : `linear-gradient(${round(gradient.angle ?? DEFAULT_LINEAR_ANGLE)}deg, ${stops})`;
+}
+
+/**
+ * Start and end of a linear gradient over a box, matching CSS: the line runs
+ * through the center at the given angle and is long enough that the corners
+ * receive the first and last stop colors.
+ */
+export function linearGradientLine(
+  angle: number | undefined,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): { x1: number; y1: number; x2: number; y2: number } {
+  const radians = (angle ?? DEFAULT_LINEAR_ANGLE) * Math.PI / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+
+  return { x1: cx - dx * half, y1: cy - dy * half, x2: cx + dx * half, y2: cy + dy * half };
+}
+
+/**
+ * Radii of a radial gradient's final ellipse over a box (CSS's default
+ * farthest-corner ellipse, which keeps the box's aspect ratio)
+ */
+export function radialGradientRadii(width: number, height: number): { rx: number; ry: number } {
+  return { rx: width / 2 * Math.SQRT2, ry: height / 2 * Math.SQRT2 };
+}
+
+/**
+ * SVG <linearGradient> or <radialGradient> definition in user space, laid
+ * over the given box
+ */
+export function renderSVGGradient(
+  id: string,
+  gradient: Gradient,
+  box: { x: number; y: number; width: number; height: number },
+  colorMap: Map<string, Color>,
+  literal: LiteralColor
+): string {
+  const stops = getGradientStops(gradient).map(stop => {
+    const color = colorMap.get(stop.color);
+    const paint = color
+      ? `stop-color="rgb(${color.r}, ${color.g}, ${color.b})"${color.a < 1 ? ` stop-opacity="${color.a}"` : ''}`
+      : `stop-color="${escapeHTML(literal(stop.color))}"`;
+    return `<stop offset="${round(stop.offset)}" ${paint} />`;
+  }).join('');
+
+  if (gradient.type === 'radial') {
+    const { rx, ry } = radialGradientRadii(box.width, box.height);
+    return `<radialGradient id="${escapeHTML(id)}" gradientUnits="userSpaceOnUse" cx="0" cy="0" r="1" ` +
+      `gradientTransform="translate(${round(box.x + box.width / 2)} ${round(box.y + box.height / 2)}) scale(${round(rx)} ${round(ry)})">` +
+      `${stops}</radialGradient>`;
+  }
+
+  const line = linearGradientLine(gradient.angle, box.x, box.y, box.width, box.height);
+  return `<linearGradient id="${escapeHTML(id)}" gradientUnits="userSpaceOnUse" ` +
+    `x1="${round(line.x1)}" y1="${round(line.y1)}" x2="${round(line.x2)}" y2="${round(line.y2)}">` +
+    `${stops}</linearGradient>`;
+}
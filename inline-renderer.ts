@@ -0,0 +1,553 @@
+import type { Scene, Color, Font, Gradient, ElementStyle, RenderResult, RenderOptions } from './types';
+import {
+  layoutPreparedScene,
+  parseEdges,
+  parseBorderWidth,
+  parseLength,
+  getBaselineOffset,
+  approximateMeasurer,
+  LayoutBox,
+  TextMeasurer
+} from './layout';
+import { escapeHTML, sanitizeTextContent, sanitizeSVG, sanitizeCSSValue, escapeCSSString } from './sanitize';
+import { isVectorShape, getShapePaint, buildShapeOutline, renderShapeSVG } from './shapes';
+import { buildGradientMap, gradientToCSS, getFallbackColor, renderSVGGradient } from './gradients';
+import { filtersToCSS, parseOpacity } from './effects';
+import { getCurvature, buildTextArc, renderArcTextSVG } from './text-arc';
+import { getTextRuns, renderRunsHTML } from './rich-text';
+import { getFontStack } from './font-stack';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface InlineRenderContext {
+  colorMap: Map<string, Color>;
+  gradientMap: Map<string, Gradient>;
+  fontMap: Map<string, Font>;
+  measurer: TextMeasurer;
+  trusted: boolean;
+}
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Boxes whose vertical extents overlap, laid out as one table row */
+interface Band {
+  top: number;
+  bottom: number;
+  boxes: LayoutBox[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Attributes that stop email clients from adding spacing around layout tables
+const TABLE_ATTRIBUTES = 'role="presentation" cellpadding="0" cellspacing="0" border="0"';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+/** Build a style attribute from declarations, skipping empty ones. */
+function styleAttribute(declarations: (string | false | undefined)[]): string {
+  const css = declarations.filter(Boolean).join('; ');
+  // Quotes in font stacks are single quotes, so only the delimiter needs escaping
+  return css ? ` style="${css.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')}"` : '';
+}
+
+/**
+ * Resolve a theme color id to a literal color; other values pass through.
+ * Gradient ids resolve to their first stop, which is also what email clients
+ * without gradient support show.
+ */
+function resolveColor(value: string | undefined, context: InlineRenderContext): string | undefined {
+  if (!value) return undefined;
+
+  const gradient = context.gradientMap.get(value);
+  if (gradient) {
+    const fallback = getFallbackColor(gradient);
+    return fallback && !context.gradientMap.has(fallback) ? resolveColor(fallback, context) : undefined;
+  }
+
+  const color = context.colorMap.get(value);
+  if (!color) return context.trusted ? value : sanitizeCSSValue(value);
+
+  // Hex is the most widely supported notation in email clients
+  if (color.a >= 1) {
+    return '#' + [color.r, color.g, color.b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+  }
+  return `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})`;
+}
+
+/** CSS gradient image for a theme gradient id, if the value is one */
+function resolveGradient(value: string | undefined, context: InlineRenderContext): string | undefined {
+  const gradient = value ? context.gradientMap.get(value) : undefined;
+  if (!gradient) return undefined;
+  return gradientToCSS(gradient, context.colorMap, color => context.trusted ? color : sanitizeCSSValue(color));
+}
+
+function literal(value: string | undefined, context: InlineRenderContext): string | undefined {
+  if (value === undefined) return undefined;
+  return context.trusted ? value : sanitizeCSSValue(value);
+}
+
+/** Opacity, blend mode and filter declarations, which apply to every kind of box. */
+function getEffectDeclarations(style: ElementStyle, context: InlineRenderContext): (string | false | undefined)[] {
+  const opacity = parseOpacity(style.opacity);
+  const filter = filtersToCSS(style.filters);
+  return [
+    opacity < 1 && `opacity: ${opacity}`,
+    style.blend_mode && `mix-blend-mode: ${literal(style.blend_mode, context)}`,
+    filter && `filter: ${filter}`
+  ];
+}
+
+function getBackground(box: LayoutBox): string | undefined {
+  // Vector shapes paint their fill in SVG
+  if (isVectorShape(box.element)) return undefined;
+  const style = box.element.style || {};
+  return box.element.element_type === 'shape' ? style.fill || style.background_color : style.background_color;
+}
+
+/** The `border` shorthand with its color resolved to a literal. */
+function getBorderDeclaration(style: ElementStyle, context: InlineRenderContext): string | undefined {
+  const width = parseBorderWidth(style.border);
+  if (width === 0) return undefined;
+
+  const parts = style.border!.trim().split(/\s+/);
+  const lineStyle = parts.find(part => ['solid', 'dashed', 'dotted', 'double'].includes(part)) || 'solid';
+  const literalColor = parts.find(part => !/^[\d.]/.test(part) && !['solid', 'dashed', 'dotted', 'double'].includes(part));
+  const color = resolveColor(style.border_color || literalColor, context) || 'black';
+
+  return `border: ${px(width)} ${lineStyle} ${color}`;
+}
+
+/** Elements that paint something of their own besides their children. */
+function hasDecoration(box: LayoutBox): boolean {
+  return !!getBackground(box) || parseBorderWidth(box.element.style?.border) > 0;
+}
+
+function covers(box: LayoutBox, region: Region): boolean {
+  const tolerance = 0.5;
+  return box.x <= region.x + tolerance &&
+    box.y <= region.y + tolerance &&
+    box.x + box.width >= region.x + region.width - tolerance &&
+    box.y + box.height >= region.y + region.height - tolerance;
+}
+
+function getImageUrl(box: LayoutBox): string | undefined {
+  if (box.element.element_type === 'image') return box.element.image_url;
+  if (box.dataItem?.type === 'image') return box.dataItem.image_url;
+  return undefined;
+}
+
+// ============================================================================
+// LAYOUT FLATTENING
+// ============================================================================
+
+/**
+ * Collect the boxes to place in a region, in paint order. Undecorated
+ * containers are dissolved into their children; decorated ones stay whole
+ * and lay out their children in a nested region.
+ */
+function flattenBoxes(boxes: LayoutBox[], result: LayoutBox[] = []): LayoutBox[] {
+  boxes
+    .map((box, index) => ({ box, index }))
+    .sort((a, b) => a.box.zIndex - b.box.zIndex || a.index - b.index)
+    .forEach(({ box }) => {
+      if (box.element.style?.display === 'none') return;
+      if (box.element.element_type === 'container' && !hasDecoration(box)) {
+        flattenBoxes(box.children, result);
+      } else {
+        result.push(box);
+      }
+    });
+
+  return result;
+}
+
+/** Group boxes into rows of vertically overlapping boxes. */
+function groupBands(boxes: LayoutBox[]): Band[] {
+  const sorted = [...boxes].sort((a, b) => a.y - b.y);
+  const bands: Band[] = [];
+
+  for (const box of sorted) {
+    const current = bands[bands.length - 1];
+    if (current && box.y < current.bottom) {
+      current.boxes.push(box);
+      current.bottom = Math.max(current.bottom, box.y + box.height);
+    } else {
+      bands.push({ top: box.y, bottom: box.y + box.height, boxes: [box] });
+    }
+  }
+
+  return bands;
+}
+
+/** Group a band's boxes into columns of horizontally overlapping boxes. */
+function groupColumns(boxes: LayoutBox[]): { left: number; right: number; boxes: LayoutBox[] }[] {
+  const sorted = [...boxes].sort((a, b) => a.x - b.x);
+  const columns: { left: number; right: number; boxes: LayoutBox[] }[] = [];
+
+  for (const box of sorted) {
+    const current = columns[columns.length - 1];
+    if (current && box.x < current.right) {
+      current.boxes.push(box);
+      current.right = Math.max(current.right, box.x + box.width);
+    } else {
+      columns.push({ left: box.x, right: box.x + box.width, boxes: [box] });
+    }
+  }
+
+  return columns;
+}
+
+// ============================================================================
+// ELEMENT RENDERING
+// ============================================================================
+
+function spacerRow(height: number, indent: string): string {
+  return `${indent}<tr><td height="${Math.round(height)}"${styleAttribute([
+    `height: ${px(height)}`, 'font-size: 0', 'line-height: 0'
+  ])}>&nbsp;</td></tr>\n`;
+}
+
+function spacerCell(width: number): string {
+  return `<td width="${Math.round(width)}"${styleAttribute([`width: ${px(width)}`, 'font-size: 0', 'line-height: 0'])}>&nbsp;</td>`;
+}
+
+/**
+ * Inline declarations for a text run's style. Email clients cannot clip
+ * gradients to text, so gradient colors show their first stop.
+ */
+function getRunDeclarations(style: ElementStyle, context: InlineRenderContext): string[] {
+  const font = style.font ? context.fontMap.get(style.font) : undefined;
+  const color = resolveColor(style.color, context);
+  return [
+    font && `font-family: ${getFontStack(font)}`,
+    style.font_size && `font-size: ${literal(style.font_size, context)}`,
+    style.font_weight && `font-weight: ${literal(style.font_weight, context)}`,
+    style.font_style && `font-style: ${literal(style.font_style, context)}`,
+    color && `color: ${color}`
+  ].filter((declaration): declaration is string => Boolean(declaration));
+}
+
+/** Declarations for a text box's resolved text style, plus its sanitized content. */
+function renderText(box: LayoutBox, context: InlineRenderContext): { declarations: (string | false | undefined)[]; html: string } {
+  const textStyle = box.textStyle;
+  const style = box.element.style || {};
+  const font = textStyle.font ? context.fontMap.get(textStyle.font) : undefined;
+
+  const declarations = [
+    font && `font-family: ${getFontStack(font)}`,
+    `font-size: ${px(textStyle.fontSize)}`,
+    textStyle.fontWeight !== 'normal' && `font-weight: ${literal(textStyle.fontWeight, context)}`,
+    textStyle.fontStyle !== 'normal' && `font-style: ${literal(textStyle.fontStyle, context)}`,
+    `line-height: ${px(textStyle.lineHeight)}`,
+    textStyle.letterSpacing !== 0 && `letter-spacing: ${px(textStyle.letterSpacing)}`,
+    `text-align: ${literal(textStyle.textAlign, context)}`,
+    textStyle.textTransform !== 'none' && `text-transform: ${literal(textStyle.textTransform, context)}`,
+    textStyle.whiteSpace !== 'normal' && `white-space: ${literal(textStyle.whiteSpace, context)}`,
+    style.text_shadow && `text-shadow: ${literal(style.text_shadow, context)}`,
+    `color: ${resolveColor(textStyle.color, context) || 'black'}`
+  ];
+
+  const stroke = style.stroke ? resolveColor(style.stroke, context) : undefined;
+  const strokeWidth = parseLength(style.stroke_width, 0) ?? 1;
+  const curvature = getCurvature(box.element);
+  const runs = getTextRuns(box.dataItem);
+
+  // Curved text is an SVG text path that inherits the font declarations
+  if (curvature !== 0 && box.lines?.length) {
+    const padding = parseEdges(style.padding, box.width, textStyle.fontSize);
+    const border = parseBorderWidth(style.border);
+    const width = Math.max(0, box.width - padding.left - padding.right - border * 2);
+    const height = Math.max(0, box.height - padding.top - padding.bottom - border * 2);
+    const baseline = getBaselineOffset(textStyle, context.measurer.getMetrics(textStyle));
+    const arc = buildTextArc(box.lines[0], box.lines[0].baseline ?? baseline, curvature);
+    const attributes = ' fill="currentColor"' +
+      (stroke ? ` stroke="${escapeHTML(stroke)}" stroke-width="${strokeWidth}" paint-order="stroke"` : '');
+    const content = runs
+      ? renderRunsHTML(runs, runStyle => getRunDeclarations(runStyle, context), true)
+      : escapeHTML(box.lines[0].text);
+    const html = `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * 100) / 100}" height="${Math.round(height * 100) / 100}" ` +
+      'style="display: block; overflow: visible">' +
+      renderArcTextSVG(arc, content, `${box.path}-arc`, attributes,
+        -(box.x + padding.left + border), -(box.y + padding.top + border)) +
+      '</svg>';
+    return { declarations, html };
+  }
+
+  if (stroke) {
+    declarations.push(`-webkit-text-stroke: ${strokeWidth}px ${stroke}`, 'paint-order: stroke fill');
+  }
+
+  if (runs) {
+    return { declarations, html: renderRunsHTML(runs, runStyle => getRunDeclarations(runStyle, context)) };
+  }
+
+  const content = box.dataItem?.content || '';
+  return { declarations, html: context.trusted ? content : sanitizeTextContent(content) };
+}
+
+/**
+ * Render one box at its laid-out size. Sizes are content-box, since
+ * box-sizing is not reliably supported by email clients.
+ */
+function renderBox(box: LayoutBox, context: InlineRenderContext, indent: string): string {
+  const element = box.element;
+  const style = element.style || {};
+
+  if (isVectorShape(element)) {
+    const paint = getShapePaint(element);
+    const outline = buildShapeOutline(element, box.width, box.height, paint.strokeWidth);
+    let defs = '';
+    const resolvePaint = (value: string | undefined, role: 'fill' | 'stroke'): string | undefined => {
+      const gradient = value ? context.gradientMap.get(value) : undefined;
+      if (!gradient) return resolveColor(value, context);
+      const id = `${box.path}-${role}`;
+      defs += renderSVGGradient(id, gradient, { x: 0, y: 0, width: box.width, height: box.height }, context.colorMap,
+        color => context.trusted ? color : sanitizeCSSValue(color));
+      return `url(#${id})`;
+    };
+    const svg = renderShapeSVG(outline, box.width, box.height, {
+      fill: resolvePaint(paint.fill, 'fill'),
+      stroke: resolvePaint(paint.stroke, 'stroke'),
+      strokeWidth: paint.strokeWidth,
+      defs
+    }, false);
+    return `${indent}<div${styleAttribute([
+      `width: ${px(box.width)}`,
+      `height: ${px(box.height)}`,
+      box.rotation !== 0 && `transform: rotate(${Math.round(box.rotation * 100) / 100}deg)`,
+      ...getEffectDeclarations(style, context),
+      'font-size: 0',
+      'line-height: 0'
+    ])}>${svg}</div>\n`;
+  }
+  const border = parseBorderWidth(style.border);
+  const padding = parseEdges(style.padding, box.width, box.textStyle.fontSize);
+
+  const contentWidth = Math.max(0, box.width - border * 2 - padding.left - padding.right);
+  const contentHeight = Math.max(0, box.height - border * 2 - padding.top - padding.bottom);
+
+  const background = resolveColor(getBackground(box), context);
+  const backgroundGradient = resolveGradient(getBackground(box), context);
+  const boxDeclarations = [
+    background && `background-color: ${background}`,
+    backgroundGradient && `background-image: ${backgroundGradient}`,
+    getBorderDeclaration(style, context),
+    style.border_radius && `border-radius: ${literal(style.border_radius, context)}`,
+    style.box_shadow && `box-shadow: ${literal(style.box_shadow, context)}`,
+    (padding.top > 0 || padding.right > 0 || padding.bottom > 0 || padding.left > 0) &&
+      `padding: ${px(padding.top)} ${px(padding.right)} ${px(padding.bottom)} ${px(padding.left)}`,
+    box.rotation !== 0 && `transform: rotate(${Math.round(box.rotation * 100) / 100}deg)`,
+    ...getEffectDeclarations(style, context)
+  ];
+
+  const imageUrl = getImageUrl(box);
+  if (imageUrl !== undefined) {
+    const size = contentWidth > 0 && contentHeight > 0
+      ? ` width="${Math.round(contentWidth)}" height="${Math.round(contentHeight)}"`
+      : '';
+    const alt = box.dataItem?.display_name || '';
+    return `${indent}<img src="${escapeHTML(imageUrl)}" alt="${escapeHTML(alt)}"${size}${styleAttribute([
+      'display: block',
+      'border: 0',
+      size && `width: ${px(contentWidth)}`,
+      size && `height: ${px(contentHeight)}`,
+      style.object_fit && `object-fit: ${literal(style.object_fit, context)}`,
+      ...boxDeclarations.filter(declaration => declaration && !declaration.startsWith('border:'))
+    ])} />\n`;
+  }
+
+  const sizeDeclarations = [`width: ${px(contentWidth)}`, `height: ${px(contentHeight)}`];
+
+  switch (element.element_type) {
+    case 'data_item': {
+      if (box.dataItem?.type !== 'text') return '';
+      const text = renderText(box, context);
+      return `${indent}<div${styleAttribute([`width: ${px(contentWidth)}`, ...boxDeclarations, ...text.declarations])}>` +
+        `${text.html}</div>\n`;
+    }
+
+    case 'svg': {
+      const svgContent = context.trusted ? element.svg_content || '' : sanitizeSVG(element.svg_content || '');
+      return `${indent}<div${styleAttribute([...sizeDeclarations, ...boxDeclarations])}>${svgContent}</div>\n`;
+    }
+
+    case 'container': {
+      // Children keep their canvas positions inside the container's content box
+      const inner: Region = {
+        x: box.x + border + padding.left,
+        y: box.y + border + padding.top,
+        width: contentWidth,
+        height: contentHeight
+      };
+      return `${indent}<div${styleAttribute([...sizeDeclarations, ...boxDeclarations])}>\n` +
+        renderRegion(box.children, inner, context, indent + '  ') +
+        `${indent}</div>\n`;
+    }
+
+    default:
+      // Shapes: an empty block needs content and zero line height to keep its size
+      return `${indent}<div${styleAttribute([...sizeDeclarations, ...boxDeclarations, 'font-size: 0', 'line-height: 0'])}>&nbsp;</div>\n`;
+  }
+}
+
+/** One column of a band; overlapping boxes are stacked, as tables cannot overlap. */
+function renderColumn(boxes: LayoutBox[], left: number, top: number, context: InlineRenderContext, indent: string): string {
+  let html = '';
+  let cursor = top;
+
+  [...boxes].sort((a, b) => a.y - b.y).forEach(box => {
+    const offsetTop = Math.max(0, box.y - cursor);
+    const offsetLeft = Math.max(0, box.x - left);
+    const offset = styleAttribute([
+      offsetTop > 0 && `margin-top: ${px(offsetTop)}`,
+      offsetLeft > 0 && `margin-left: ${px(offsetLeft)}`
+    ]);
+
+    const rendered = renderBox(box, context, offset ? indent + '  ' : indent);
+    if (!rendered) return;
+
+    html += offset ? `${indent}<div${offset}>\n${rendered}${indent}</div>\n` : rendered;
+    cursor = Math.max(cursor, box.y + box.height);
+  });
+
+  return html;
+}
+
+/**
+ * Lay out boxes inside a region as a table: one row per band of vertically
+ * overlapping boxes, with spacer cells reproducing the absolute offsets.
+ * Boxes covering the whole region become the table's background.
+ */
+function renderRegion(boxes: LayoutBox[], region: Region, context: InlineRenderContext, indent: string): string {
+  const items = flattenBoxes(boxes);
+
+  let backgroundColor: string | undefined;
+  let backgroundGradient: string | undefined;
+  let backgroundImage: string | undefined;
+  const placed: LayoutBox[] = [];
+
+  items.forEach(box => {
+    // Table backgrounds cannot carry effects, so boxes with effects stay boxes
+    const isBackground = covers(box, region) && !getEffectDeclarations(box.element.style || {}, context).some(Boolean) &&
+      ((box.element.element_type === 'shape' && !isVectorShape(box.element)) || getImageUrl(box) !== undefined);
+    if (!isBackground) {
+      placed.push(box);
+      return;
+    }
+
+    const imageUrl = getImageUrl(box);
+    if (imageUrl) {
+      backgroundImage = imageUrl;
+    } else {
+      backgroundColor = resolveColor(getBackground(box), context) || backgroundColor;
+      backgroundGradient = resolveGradient(getBackground(box), context);
+    }
+  });
+
+  const backgroundAttributes = [
+    backgroundColor && backgroundColor.startsWith('#') ? ` bgcolor="${backgroundColor}"` : '',
+    backgroundImage ? ` background="${escapeHTML(backgroundImage)}"` : ''
+  ].join('');
+
+  let html = `${indent}<table ${TABLE_ATTRIBUTES} width="${Math.round(region.width)}"${backgroundAttributes}${styleAttribute([
+    `width: ${px(region.width)}`,
+    `height: ${px(region.height)}`,
+    'border-collapse: collapse',
+    backgroundColor && `background-color: ${backgroundColor}`,
+    backgroundImage && `background-image: url('${escapeCSSString(backgroundImage)}')`,
+    !backgroundImage && backgroundGradient && `background-image: ${backgroundGradient}`,
+    backgroundImage && 'background-size: cover',
+    backgroundImage && 'background-position: center'
+  ])}>\n`;
+
+  let cursorY = region.y;
+  for (const band of groupBands(placed)) {
+    if (band.top - cursorY >= 0.5) {
+      html += spacerRow(band.top - cursorY, indent + '  ');
+    }
+
+    const top = Math.max(band.top, cursorY);
+    html += `${indent}  <tr><td valign="top">\n`;
+    html += `${indent}    <table ${TABLE_ATTRIBUTES} width="${Math.round(region.width)}"${styleAttribute([
+      `width: ${px(region.width)}`, 'border-collapse: collapse'
+    ])}><tr>\n`;
+
+    let cursorX = region.x;
+    for (const column of groupColumns(band.boxes)) {
+      const left = Math.max(column.left, cursorX);
+      if (left - cursorX >= 0.5) {
+        html += `${indent}      ${spacerCell(left - cursorX)}\n`;
+      }
+      html += `${indent}      <td valign="top" width="${Math.round(column.right - left)}">\n`;
+      html += renderColumn(column.boxes, left, top, context, indent + '        ');
+      html += `${indent}      </td>\n`;
+      cursorX = Math.max(cursorX, column.right);
+    }
+
+    if (region.x + region.width - cursorX >= 0.5) {
+      html += `${indent}      ${spacerCell(region.x + region.width - cursorX)}\n`;
+    }
+
+    html += `${indent}    </tr></table>\n`;
+    html += `${indent}  </td></tr>\n`;
+    cursorY = Math.max(cursorY, band.bottom);
+  }
+
+  if (region.y + region.height - cursorY >= 0.5) {
+    html += spacerRow(region.y + region.height - cursorY, indent + '  ');
+  }
+
+  html += `${indent}</table>\n`;
+  return html;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Render a scene as a single HTML fragment with every style inlined, for
+ * email clients that strip <style> blocks and web font imports.
+ *
+ * Positions come from the shared box layout and are reproduced with nested
+ * layout tables; theme colors are resolved to literal values and each theme
+ * font gets a web-safe fallback stack. The scene is one that prepareScene
+ * prepared, as renderScene passes it.
+ */
+export function renderSceneInline(scene: Scene, options: RenderOptions = {}): Omit<RenderResult, 'diagnostics'> {
+  const { template, theme } = scene;
+
+  const context: InlineRenderContext = {
+    colorMap: new Map(theme.color_palette.map(color => [color.id, color])),
+    gradientMap: buildGradientMap(theme),
+    fontMap: new Map(theme.font_palette.map(font => [font.font_id, font])),
+    measurer: options.measurer || approximateMeasurer,
+    trusted: options.trusted === true
+  };
+
+  const layout = layoutPreparedScene(scene, { measurer: context.measurer });
+  const canvas: Region = { x: 0, y: 0, width: template.canvas.width, height: template.canvas.height };
+
+  const html = `<div${styleAttribute([
+    `width: ${px(canvas.width)}`,
+    `height: ${px(canvas.height)}`,
+    'overflow: hidden'
+  ])}>\n${renderRegion(layout.boxes, canvas, context, '  ')}</div>`;
+
+  return { html, css: '' };
+}
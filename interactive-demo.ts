@@ -1,190 +1,6 @@
-import { renderScene } from './renderer';
-import type { Scene } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
-
-/**
- * Generate browser-compatible renderer code
- */
-function generateBrowserRenderer(): string {
-  // Read the TypeScript renderer source and convert to browser-compatible JS
-  return `
-    function renderScene(scene) {
-      const { data, template, theme } = scene;
-
-      const dataItemMap = new Map();
-      data.data_items.forEach(item => dataItemMap.set(item.id, item));
-
-      const colorMap = new Map();
-      theme.color_palette.forEach(color => colorMap.set(color.id, color));
-
-      const fontMap = new Map();
-      theme.font_palette.forEach(font => fontMap.set(font.font_id, font));
-
-      const css = generateCSS(theme, template, fontMap, colorMap);
-      const html = generateHTML(template, dataItemMap, scene);
-
-      return { html, css };
-    }
-
-    function generateCSS(theme, template, fontMap, colorMap) {
-      let css = '';
-
-      const fontImports = theme.font_palette.map(font =>
-        \`@import url('\${font.font_url}');\`
-      ).join('\\n');
-
-      css += fontImports + '\\n\\n';
-
-      css += \`.scene-container {
-  width: \${template.canvas.width}px;
-  height: \${template.canvas.height}px;
-  position: relative;
-  overflow: hidden;
-  box-sizing: border-box;
-}\\n\\n\`;
-
-      css += \`.scene-container * {
-  box-sizing: border-box;
-}\\n\\n\`;
-
-      template.elements.forEach(element => {
-        css += generateElementCSS(element, fontMap, colorMap);
-      });
-
-      return css;
-    }
-
-    function generateElementCSS(element, fontMap, colorMap, prefix = '') {
-      let css = '';
-      const className = prefix ? \`\${prefix}-\${element.element_id}\` : element.element_id;
-
-      if (element.style) {
-        const styles = convertStyleToCSS(element.style, fontMap, colorMap);
-        if (styles) {
-          css += \`.\${className} {\\n\${styles}}\\n\\n\`;
-        }
-      }
-
-      if (element.children) {
-        element.children.forEach(child => {
-          css += generateElementCSS(child, fontMap, colorMap, className);
-        });
-      }
-
-      return css;
-    }
-
-    function convertStyleToCSS(style, fontMap, colorMap, isBackgroundElement = false) {
-      let css = '';
-
-      const isFullSize = style.width === '100%' && style.height === '100%';
-
-      if (isFullSize) {
-        // This is a background element - position it absolutely
-        css += '  position: absolute;\\n';
-        css += '  top: 0;\\n';
-        css += '  left: 0;\\n';
-        css += '  z-index: 0;\\n';
-      } else {
-        // All other elements should stack above the background
-        css += '  position: relative;\\n';
-        css += '  z-index: 1;\\n';
-      }
-
-      for (const [key, value] of Object.entries(style)) {
-        if (value === undefined) continue;
-
-        let cssProperty = key.replace(/_/g, '-');
-        let cssValue = value;
-
-        if (key === 'font' && fontMap.has(value)) {
-          const font = fontMap.get(value);
-          css += \`  font-family: '\${font.font_name}', serif;\\n\`;
-          continue;
-        }
-
-        if (key === 'fill') {
-          cssProperty = 'background-color';
-        }
-
-        if ((key === 'color' || key === 'fill' || key === 'background_color' || key === 'border_color') && colorMap.has(value)) {
-          const color = colorMap.get(value);
-          cssValue = \`rgba(\${color.r}, \${color.g}, \${color.b}, \${color.a})\`;
-        }
-
-        css += \`  \${cssProperty}: \${cssValue};\\n\`;
-      }
-
-      return css;
-    }
-
-    function generateHTML(template, dataItemMap, scene) {
-      let html = '<div class="scene-container">\\n';
-
-      template.elements.forEach(element => {
-        html += generateElementHTML(element, dataItemMap, scene, 1);
-      });
-
-      html += '</div>';
-      return html;
-    }
-
-    function generateElementHTML(element, dataItemMap, scene, indentLevel, parentPrefix = '') {
-      const indent = '  '.repeat(indentLevel);
-      const className = parentPrefix ? \`\${parentPrefix}-\${element.element_id}\` : element.element_id;
-      let html = '';
-
-      switch (element.element_type) {
-        case 'data_item':
-          html += generateDataItemHTML(element, dataItemMap, className, indent);
-          break;
-        case 'shape':
-          html += \`\${indent}<div class="\${className}"></div>\\n\`;
-          break;
-        case 'container':
-          html += generateContainerHTML(element, dataItemMap, scene, className, indent, indentLevel);
-          break;
-        case 'image':
-          html += \`\${indent}<img class="\${className}" src="\${element.image_url || ''}" alt="" />\\n\`;
-          break;
-        case 'svg':
-          html += \`\${indent}<div class="\${className}">\${element.svg_content || ''}</div>\\n\`;
-          break;
-      }
-
-      return html;
-    }
-
-    function generateDataItemHTML(element, dataItemMap, className, indent) {
-      if (!element.data_item_id) return '';
-
-      const dataItem = dataItemMap.get(element.data_item_id);
-      if (!dataItem) return '';
-
-      if (dataItem.type === 'text') {
-        return \`\${indent}<div class="\${className}">\${dataItem.content || ''}</div>\\n\`;
-      } else if (dataItem.type === 'image') {
-        return \`\${indent}<img class="\${className}" src="\${dataItem.image_url || ''}" alt="\${dataItem.display_name}" />\\n\`;
-      }
-
-      return '';
-    }
-
-    function generateContainerHTML(element, dataItemMap, scene, className, indent, indentLevel) {
-      let html = \`\${indent}<div class="\${className}">\\n\`;
-
-      if (element.children) {
-        element.children.forEach(child => {
-          html += generateElementHTML(child, dataItemMap, scene, indentLevel + 1, className);
-        });
-      }
-
-      html += \`\${indent}</div>\\n\`;
-      return html;
-    }
-  `;
-}
+import { readBrowserBundle } from './browser-bundle-loader';
 
 /**
  * Generate an interactive demo page with live editing
@@ -340,6 +156,73 @@ function generateInteractiveDemo() {
       min-height: 60px;
     }
 
+    .data-item select {
+      width: 100%;
+      padding: 6px 8px;
+      background: #3c3c3c;
+      border: 1px solid #555;
+      border-radius: 4px;
+      color: #fff;
+      font-size: 12px;
+    }
+
+    .data-item .run {
+      padding: 10px 0;
+      border-top: 1px solid #3e3e42;
+    }
+
+    .data-item .run textarea {
+      min-height: 36px;
+      margin-bottom: 6px;
+    }
+
+    .run-controls {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 6px;
+      align-items: center;
+    }
+
+    .run-controls label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin: 0;
+    }
+
+    .run-controls input[type="checkbox"] {
+      width: auto;
+    }
+
+    .data-item .checkbox-label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .checkbox-label input[type="checkbox"] {
+      width: auto;
+    }
+
+    .data-item button {
+      padding: 5px 10px;
+      margin-top: 8px;
+      background: #3c3c3c;
+      border: 1px solid #555;
+      border-radius: 4px;
+      color: #fff;
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    .data-item button:hover {
+      border-color: #0e639c;
+    }
+
+    .run-controls button {
+      margin-top: 0;
+    }
+
     .preview-panel {
       flex: 1;
       display: flex;
@@ -441,8 +324,11 @@ function generateInteractiveDemo() {
 
     let currentTheme = 'elegant';
 
-    // Inline renderer (browser-compatible version)
-    ${generateBrowserRenderer()}
+    // Values for the scene's {{ variable }} placeholders
+    const variableValues = {};
+
+    // Shared scene renderer (browser bundle of renderer.ts)
+    ${readBrowserBundle()}
 
     // Initialize editor
     function initializeEditor() {
@@ -458,11 +344,35 @@ function generateInteractiveDemo() {
         const valueKey = isText ? 'content' : 'image_url';
         const label = isText ? 'Content' : 'Image URL';
 
-        itemDiv.innerHTML = \`
+        const header = \`
           <div class="data-item-header">
             <span class="data-item-title">\${item.display_name}</span>
             <span class="data-item-type">\${item.type}</span>
           </div>
+        \`;
+
+        if (item.type === 'list') {
+          itemDiv.innerHTML = header + renderListEditor(item);
+          editorContent.appendChild(itemDiv);
+          bindListEditor(itemDiv, item);
+          return;
+        }
+
+        if (TYPED_INPUTS[item.type]) {
+          itemDiv.innerHTML = header + renderTypedEditor(item);
+          editorContent.appendChild(itemDiv);
+          bindTypedEditor(itemDiv, item);
+          return;
+        }
+
+        if (isText && item.runs && item.runs.length > 0) {
+          itemDiv.innerHTML = header + renderRunsEditor(item);
+          editorContent.appendChild(itemDiv);
+          bindRunsEditor(itemDiv, item);
+          return;
+        }
+
+        itemDiv.innerHTML = header + \`
           <label for="item-\${item.id}">\${label}:</label>
           <\${inputType}
             id="item-\${item.id}"
@@ -470,6 +380,7 @@ function generateInteractiveDemo() {
             data-index="\${index}"
           >\${item[valueKey] || ''}</\${inputType}>
           <div class="update-info">Updates automatically on change</div>
+          \${isText ? '<button data-action="style-runs">Style parts of the text</button>' : ''}
         \`;
 
         editorContent.appendChild(itemDiv);
@@ -477,6 +388,354 @@ function generateInteractiveDemo() {
         // Add event listener
         const input = itemDiv.querySelector(\`#item-\${item.id}\`);
         input.addEventListener('input', handleDataChange);
+
+        const styleButton = itemDiv.querySelector('[data-action="style-runs"]');
+        if (styleButton) {
+          styleButton.addEventListener('click', () => {
+            item.runs = [{ text: contentToText(item.content || '') }];
+            initializeEditor();
+          });
+        }
+      });
+
+      // Variables: one input per declared variable, defaulting to its default
+      (sceneData.variables || []).forEach(variable => {
+        const variableDiv = document.createElement('div');
+        variableDiv.className = 'data-item';
+
+        const inputType = { date: 'date', number: 'number', boolean: 'checkbox' }[variable.type] || 'text';
+        const value = variableValues[variable.name] ?? '';
+        const header = \`
+          <div class="data-item-header">
+            <span class="data-item-title">\${escapeMarkup(variable.display_name || variable.name)}</span>
+            <span class="data-item-type">variable</span>
+          </div>
+        \`;
+
+        // Booleans are checkboxes, starting from the default; visible_when
+        // conditions on them are re-evaluated on every change
+        if (inputType === 'checkbox') {
+          const checked = variableValues[variable.name] ?? [true, 'true', 'yes', 'on', 1, '1'].includes(variable.default);
+          variableDiv.innerHTML = header + \`
+            <label class="checkbox-label">
+              <input type="checkbox" id="variable-\${escapeMarkup(variable.name)}" \${checked ? 'checked' : ''}>
+              {{ \${escapeMarkup(variable.name)} }}
+            </label>
+          \`;
+        } else {
+          variableDiv.innerHTML = header + \`
+            <label for="variable-\${escapeMarkup(variable.name)}">{{ \${escapeMarkup(variable.name)} }}:</label>
+            <input
+              type="\${inputType}"
+              id="variable-\${escapeMarkup(variable.name)}"
+              value="\${escapeMarkup(value)}"
+              placeholder="\${escapeMarkup(variable.default ?? '')}"
+            >
+            <div class="update-info">Empty uses the default</div>
+          \`;
+        }
+
+        editorContent.appendChild(variableDiv);
+
+        const input = variableDiv.querySelector('input');
+        input.addEventListener(inputType === 'checkbox' ? 'change' : 'input', () => {
+          variableValues[variable.name] = inputType === 'checkbox' ? input.checked : input.value;
+          renderPreview();
+        });
+      });
+
+      // Theme fonts: fallback stacks and extra faces
+      themes[currentTheme].font_palette.forEach(font => {
+        const fontDiv = document.createElement('div');
+        fontDiv.className = 'data-item';
+        fontDiv.innerHTML = renderFontEditor(font);
+        editorContent.appendChild(fontDiv);
+        bindFontEditor(fontDiv, font);
+      });
+    }
+
+    // Escape a value for use in markup
+    function escapeMarkup(value) {
+      return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+
+    // Plain text of HTML content, with <br> tags as newlines
+    function contentToText(content) {
+      const div = document.createElement('div');
+      div.innerHTML = content.replace(/<br\\s*\\/?>/gi, '\\n');
+      return div.textContent;
+    }
+
+    // Keep a rich text item's content in step with its runs
+    function syncContent(item) {
+      item.content = item.runs.map(run => escapeMarkup(run.text).replace(/\\n/g, '<br>')).join('');
+    }
+
+    function renderOptions(options, selected, emptyLabel) {
+      return \`<option value="">\${emptyLabel}</option>\` + options.map(option =>
+        \`<option value="\${escapeMarkup(option.value)}"\${option.value === selected ? ' selected' : ''}>\${escapeMarkup(option.label)}</option>\`
+      ).join('');
+    }
+
+    // Styled runs editor: fonts and colors come from the current theme
+    function renderRunsEditor(item) {
+      const theme = themes[currentTheme];
+      const fonts = theme.font_palette.map(font => ({ value: font.font_id, label: font.font_name }));
+      const colors = [
+        ...theme.color_palette.map(color => ({ value: color.id, label: color.name || color.id })),
+        ...(theme.gradient_palette || []).map(gradient => ({ value: gradient.id, label: gradient.name || gradient.id }))
+      ];
+      const weights = ['300', '400', '600', '700'].map(weight => ({ value: weight, label: weight }));
+
+      const runs = item.runs.map((run, runIndex) => \`
+        <div class="run" data-run="\${runIndex}">
+          <textarea data-field="text">\${escapeMarkup(run.text)}</textarea>
+          <div class="run-controls">
+            <select data-field="font">\${renderOptions(fonts, run.font, 'Element font')}</select>
+            <select data-field="color">\${renderOptions(colors, run.color, 'Element color')}</select>
+            <input data-field="font_size" placeholder="Size, e.g. 24px" value="\${escapeMarkup(run.font_size || '')}">
+            <select data-field="font_weight">\${renderOptions(weights, run.font_weight, 'Element weight')}</select>
+            <label><input type="checkbox" data-field="font_style"\${run.font_style === 'italic' ? ' checked' : ''}> Italic</label>
+            <button data-action="remove-run">Remove run</button>
+          </div>
+        </div>
+      \`).join('');
+
+      return \`
+        <label>Styled runs:</label>
+        \${runs}
+        <button data-action="add-run">Add run</button>
+        <button data-action="plain-text">Remove styling</button>
+      \`;
+    }
+
+    function bindRunsEditor(itemDiv, item) {
+      itemDiv.querySelectorAll('.run').forEach(runDiv => {
+        const run = item.runs[parseInt(runDiv.dataset.run)];
+
+        runDiv.querySelectorAll('[data-field]').forEach(field => {
+          field.addEventListener(field.tagName === 'SELECT' || field.type === 'checkbox' ? 'change' : 'input', () => {
+            const key = field.dataset.field;
+            const value = key === 'font_style'
+              ? (field.checked ? 'italic' : '')
+              : key === 'text' ? field.value : field.value.trim();
+
+            if (value === '' && key !== 'text') delete run[key];
+            else run[key] = value;
+
+            syncContent(item);
+            renderPreview();
+          });
+        });
+
+        runDiv.querySelector('[data-action="remove-run"]').addEventListener('click', () => {
+          item.runs.splice(item.runs.indexOf(run), 1);
+          if (item.runs.length === 0) delete item.runs;
+          else syncContent(item);
+          initializeEditor();
+          renderPreview();
+        });
+      });
+
+      itemDiv.querySelector('[data-action="add-run"]').addEventListener('click', () => {
+        item.runs.push({ text: ' ' });
+        syncContent(item);
+        initializeEditor();
+        renderPreview();
+      });
+
+      itemDiv.querySelector('[data-action="plain-text"]').addEventListener('click', () => {
+        delete item.runs;
+        initializeEditor();
+        renderPreview();
+      });
+    }
+
+    // Typed data items: an input matching the value type, and its format
+    const TYPED_INPUTS = { date: 'date', number: 'number', url: 'url', email: 'email' };
+    const TYPED_FORMATS = {
+      date: ['short', 'medium', 'long', 'full', 'iso'],
+      number: ['decimal', 'currency', 'percent']
+    };
+
+    // Date-time inputs hold no offset; it is kept on the value as written
+    const DATE_OFFSET = /(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})$/;
+
+    function renderTypedEditor(item) {
+      const withTime = item.type === 'date' && String(item.value ?? '').includes('T');
+      const value = withTime ? String(item.value).replace(DATE_OFFSET, '') : String(item.value ?? '');
+      const inputType = withTime ? 'datetime-local' : TYPED_INPUTS[item.type];
+      const formats = TYPED_FORMATS[item.type];
+      const format = item.format || (item.type === 'date' ? 'long' : 'decimal');
+      // Custom date patterns stay selectable next to the named formats
+      const options = formats && !formats.includes(format) ? [...formats, format] : formats;
+
+      return \`
+        <label for="item-\${escapeMarkup(item.id)}">Value:</label>
+        <input
+          type="\${inputType}"
+          id="item-\${escapeMarkup(item.id)}"
+          data-field="value"
+          value="\${escapeMarkup(value)}"
+          \${item.type === 'number' ? 'step="any"' : ''}
+        >
+        \${options ? \`
+          <label>Format:</label>
+          <select data-field="format">
+            \${options.map(option => \`<option value="\${escapeMarkup(option)}"\${option === format ? ' selected' : ''}>\${escapeMarkup(option)}</option>\`).join('')}
+          </select>
+        \` : ''}
+        \${item.type === 'number' ? \`
+          <label>Currency:</label>
+          <input data-field="currency" placeholder="EUR" value="\${escapeMarkup(item.currency || '')}">
+        \` : ''}
+        \${withTime ? \`
+          <label>Time zone:</label>
+          <input data-field="time_zone" placeholder="Europe/Paris" value="\${escapeMarkup(item.time_zone || '')}">
+        \` : ''}
+        <div class="update-info">Formatted for \${escapeMarkup(item.locale || sceneData.locale || 'en-US')} when rendered</div>
+      \`;
+    }
+
+    function bindTypedEditor(itemDiv, item) {
+      itemDiv.querySelectorAll('[data-field]').forEach(field => {
+        field.addEventListener(field.tagName === 'SELECT' ? 'change' : 'input', () => {
+          const name = field.dataset.field;
+          if (field.value === '') {
+            delete item[name];
+          } else if (name === 'value' && item.type === 'number') {
+            item.value = Number(field.value);
+          } else if (name === 'value' && field.type === 'datetime-local') {
+            const offset = String(item.value ?? '').match(DATE_OFFSET);
+            item.value = field.value + (offset ? offset[3] : '');
+          } else {
+            item[name] = field.value;
+          }
+          renderPreview();
+        });
+      });
+    }
+
+    // List records editor: one input per field of each record
+    function listFields(item) {
+      const fields = [];
+      (item.records || []).forEach(record => Object.keys(record).forEach(field => {
+        if (!fields.includes(field)) fields.push(field);
+      }));
+      return fields;
+    }
+
+    function renderListEditor(item) {
+      const fields = listFields(item);
+      const records = (item.records || []).map((record, recordIndex) => \`
+        <div class="run" data-record="\${recordIndex}">
+          \${fields.map(field => \`
+            <input data-field="\${escapeMarkup(field)}" placeholder="\${escapeMarkup(field)}" value="\${escapeMarkup(record[field] ?? '')}">
+          \`).join('')}
+          <div class="run-controls">
+            <button data-action="remove-record">Remove record</button>
+          </div>
+        </div>
+      \`).join('');
+
+      return \`
+        <label>Records:</label>
+        \${records || '<div class="update-info">No records; repeaters show their empty state</div>'}
+        <button data-action="add-record">Add record</button>
+      \`;
+    }
+
+    function bindListEditor(itemDiv, item) {
+      itemDiv.querySelectorAll('[data-record]').forEach(recordDiv => {
+        const record = item.records[parseInt(recordDiv.dataset.record)];
+
+        recordDiv.querySelectorAll('[data-field]').forEach(input => {
+          input.addEventListener('input', () => {
+            record[input.dataset.field] = input.value;
+            renderPreview();
+          });
+        });
+
+        recordDiv.querySelector('[data-action="remove-record"]').addEventListener('click', () => {
+          item.records.splice(item.records.indexOf(record), 1);
+          initializeEditor();
+          renderPreview();
+        });
+      });
+
+      itemDiv.querySelector('[data-action="add-record"]').addEventListener('click', () => {
+        const fields = listFields(item);
+        item.records = [...(item.records || []), Object.fromEntries(fields.map(field => [field, '']))];
+        initializeEditor();
+        renderPreview();
+      });
+    }
+
+    // Theme font editor: the fallback stack and a face per weight and style
+    function renderFontEditor(font) {
+      const weights = ['100', '200', '300', '400', '500', '600', '700', '800', '900']
+        .map(weight => ({ value: weight, label: weight }));
+
+      const faces = (font.faces || []).map((face, faceIndex) => \`
+        <div class="run" data-face="\${faceIndex}">
+          <input data-field="url" placeholder="Font file URL" value="\${escapeMarkup(face.url || '')}">
+          <div class="run-controls">
+            <select data-field="weight">\${renderOptions(weights, String(face.weight || 400), 'Weight')}</select>
+            <label><input type="checkbox" data-field="style"\${face.style === 'italic' ? ' checked' : ''}> Italic</label>
+            <button data-action="remove-face">Remove face</button>
+          </div>
+        </div>
+      \`).join('');
+
+      return \`
+        <div class="data-item-header">
+          <span class="data-item-title">\${escapeMarkup(font.font_name)}</span>
+          <span class="data-item-type">font</span>
+        </div>
+        <label>Fallback fonts:</label>
+        <input data-field="fallback" placeholder="Default for the font's category" value="\${escapeMarkup((font.fallback || []).join(', '))}">
+        <label>Faces:</label>
+        \${faces}
+        <button data-action="add-face">Add face</button>
+      \`;
+    }
+
+    function bindFontEditor(fontDiv, font) {
+      fontDiv.querySelector('[data-field="fallback"]').addEventListener('input', event => {
+        const fallback = event.target.value.split(',').map(name => name.trim()).filter(Boolean);
+        if (fallback.length > 0) font.fallback = fallback;
+        else delete font.fallback;
+        renderPreview();
+      });
+
+      fontDiv.querySelectorAll('.run').forEach(faceDiv => {
+        const face = font.faces[parseInt(faceDiv.dataset.face)];
+
+        faceDiv.querySelectorAll('[data-field]').forEach(field => {
+          field.addEventListener(field.tagName === 'SELECT' || field.type === 'checkbox' ? 'change' : 'input', () => {
+            const key = field.dataset.field;
+            if (key === 'weight') face.weight = parseInt(field.value) || 400;
+            else if (key === 'style') face.style = field.checked ? 'italic' : 'normal';
+            else face.url = field.value.trim();
+            renderPreview();
+          });
+        });
+
+        faceDiv.querySelector('[data-action="remove-face"]').addEventListener('click', () => {
+          font.faces.splice(font.faces.indexOf(face), 1);
+          if (font.faces.length === 0) delete font.faces;
+          initializeEditor();
+          renderPreview();
+        });
+      });
+
+      fontDiv.querySelector('[data-action="add-face"]').addEventListener('click', () => {
+        font.faces = [...(font.faces || []), { url: '', weight: 700, style: 'normal' }];
+        initializeEditor();
       });
     }
 
@@ -495,25 +754,20 @@ function generateInteractiveDemo() {
     // Handle theme change
     document.getElementById('theme-select').addEventListener('change', (event) => {
       currentTheme = event.target.value;
+      // Run font and color choices list the selected theme's palette
+      initializeEditor();
       renderPreview();
     });
 
     // Render preview
     function renderPreview() {
-      console.log('Rendering with theme:', currentTheme);
-
       const scene = {
         data: sceneData,
         template: sceneTemplate,
         theme: themes[currentTheme]
       };
 
-      console.log('Theme colors:', scene.theme.color_palette.map(c => c.name));
-
-      const result = renderScene(scene);
-
-      console.log('Generated CSS length:', result.css.length);
-      console.log('Generated HTML length:', result.html.length);
+      const result = SceneRenderer.renderScene(scene, { variables: variableValues });
 
       const previewContainer = document.getElementById('preview-container');
       previewContainer.innerHTML = result.html;
@@ -526,12 +780,9 @@ function generateInteractiveDemo() {
         document.head.appendChild(styleTag);
       }
       styleTag.textContent = result.css;
-
-      console.log('Preview rendered successfully');
     }
 
     // Initialize
-    console.log('Initializing interactive demo...');
     initializeEditor();
     renderPreview();
   </script>
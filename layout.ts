@@ -0,0 +1,1205 @@
+import type { Scene, Element, ElementStyle, DataItem, VariableValues } from './types';
+import { getCurvature, getArcExtent } from './text-arc';
+import { getTextRuns, getRunStyle } from './rich-text';
+import { prepareScene } from './prepare-scene';
+import { decodeHTMLEntities } from './sanitize';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Text properties resolved for an element, including values inherited
+ * from ancestor containers (as CSS would)
+ */
+export interface ResolvedTextStyle {
+  font?: string;          // font_id from theme
+  fontSize: number;       // px
+  fontWeight: string;
+  fontStyle: string;
+  lineHeight: number;     // px
+  letterSpacing: number;  // px
+  textAlign: string;
+  textTransform: string;
+  whiteSpace: string;
+  color?: string;         // color id from theme, or a literal CSS color
+}
+
+/** Part of a rich text line set in one run's style */
+export interface TextSegment {
+  text: string;
+  x: number;        // left edge of the segment
+  width: number;
+  textStyle: ResolvedTextStyle;
+}
+
+export interface TextLine {
+  text: string;
+  x: number;        // left edge of the line
+  y: number;        // top of the line box
+  width: number;
+  baseline?: number;          // offset from y, for rich text lines (plain lines use the box's text style)
+  segments?: TextSegment[];   // for rich text
+}
+
+export interface FontMetricsInfo {
+  ascent: number;     // fraction of font size above the baseline
+  descent: number;    // fraction of font size below the baseline (positive)
+  capHeight: number;  // fraction of font size covered by flat capitals
+}
+
+/**
+ * Measures text for layout. The default implementation approximates glyph
+ * widths; a font-file-backed measurer can be supplied for exact results.
+ */
+export interface TextMeasurer {
+  measureWidth(text: string, style: ResolvedTextStyle): number;
+  getMetrics(style: ResolvedTextStyle): FontMetricsInfo;
+}
+
+export interface LayoutBox {
+  element: Element;
+  path: string;           // parent-prefixed class name, as used by the HTML renderer
+  x: number;              // border box, in canvas pixels, before transforms
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;       // degrees, around the box center
+  zIndex: number;
+  textStyle: ResolvedTextStyle;
+  dataItem?: DataItem;
+  lines?: TextLine[];     // for text data items
+  fitFailed?: boolean;    // text_fit text that does not fit even at min_font_size
+  children: LayoutBox[];
+}
+
+export interface SceneLayout {
+  width: number;
+  height: number;
+  boxes: LayoutBox[];
+}
+
+export interface LayoutOptions {
+  measurer?: TextMeasurer;
+  variables?: VariableValues;  // values for the scene's {{ variable }} placeholders
+}
+
+interface LayoutContext {
+  scene: Scene;
+  dataItemMap: Map<string, DataItem>;
+  measurer: TextMeasurer;
+}
+
+/** Text in one resolved style, before line breaking */
+interface StyledText {
+  text: string;
+  textStyle: ResolvedTextStyle;
+}
+
+/** Broken rich text line, before positioning */
+interface RichLine {
+  text: string;
+  width: number;
+  height: number;
+  baseline: number;
+  segments: Array<{ text: string; offset: number; width: number; textStyle: ResolvedTextStyle }>;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Edges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_FONT_SIZE = 16;
+const NORMAL_LINE_HEIGHT = 1.2;
+
+const ROOT_TEXT_STYLE: ResolvedTextStyle = {
+  fontSize: DEFAULT_FONT_SIZE,
+  fontWeight: 'normal',
+  fontStyle: 'normal',
+  lineHeight: DEFAULT_FONT_SIZE * NORMAL_LINE_HEIGHT,
+  letterSpacing: 0,
+  textAlign: 'left',
+  textTransform: 'none',
+  whiteSpace: 'normal'
+};
+
+// Font size range searched by text_fit, in px
+const MIN_FIT_FONT_SIZE = 8;
+const MAX_FIT_FONT_SIZE = 1000;
+const FIT_PRECISION = 0.1;
+
+// Approximate advance widths in em, used when no font file is available
+const NARROW_CHARS = new Set("il|!.,:;'`ijfrt()[]{} ");
+const WIDE_CHARS = new Set('MWmw@%');
+
+/**
+ * Glyph-width approximation used when no font-file measurer is supplied
+ */
+export const approximateMeasurer: TextMeasurer = {
+  measureWidth(text: string, style: ResolvedTextStyle): number {
+    let em = 0;
+    for (const ch of text) {
+      if (NARROW_CHARS.has(ch)) em += 0.3;
+      else if (WIDE_CHARS.has(ch)) em += 0.85;
+      else if (ch >= 'A' && ch <= 'Z') em += 0.68;
+      else em += 0.52;
+    }
+    const weightFactor = isBold(style.fontWeight) ? 1.05 : 1;
+    return em * style.fontSize * weightFactor + style.letterSpacing * [...text].length;
+  },
+
+  getMetrics(): FontMetricsInfo {
+    return { ascent: 0.9, descent: 0.22, capHeight: 0.7 };
+  }
+};
+
+// ============================================================================
+// VALUE PARSING
+// ============================================================================
+
+/** True for CSS font weights that render bold. */
+export function isBold(weight: string): boolean {
+  return weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600;
+}
+
+/**
+ * Parse a CSS length into pixels.
+ * Supports px, %, em, rem, unitless zero and simple calc() sums.
+ * Returns null for 'auto', missing or unparseable values.
+ */
+export function parseLength(value: string | undefined, reference: number, fontSize: number = DEFAULT_FONT_SIZE): number | null {
+  if (value === undefined) return null;
+  const trimmed = value.trim();
+  if (trimmed === '' || trimmed === 'auto' || trimmed === 'none') return null;
+
+  const calcMatch = trimmed.match(/^calc\((.*)\)$/);
+  if (calcMatch) {
+    const terms = calcMatch[1].match(/[+-]?\s*[^\s+-]+/g);
+    if (!terms) return null;
+    let total = 0;
+    for (const term of terms) {
+      const compact = term.replace(/\s+/g, '');
+      const parsed = parseLength(compact.replace(/^\+/, ''), reference, fontSize);
+      if (parsed === null) return null;
+      total += parsed;
+    }
+    return total;
+  }
+
+  const match = trimmed.match(/^(-?[\d.]+)(px|%|em|rem)?$/);
+  if (!match) return null;
+
+  const number = parseFloat(match[1]);
+  if (isNaN(number)) return null;
+
+  switch (match[2]) {
+    case '%':
+      return number / 100 * reference;
+    case 'em':
+      return number * fontSize;
+    case 'rem':
+      return number * DEFAULT_FONT_SIZE;
+    case 'px':
+      return number;
+    default:
+      return number === 0 ? 0 : null;
+  }
+}
+
+/** Parse a 1-4 value CSS box shorthand such as padding. */
+export function parseEdges(value: string | undefined, reference: number, fontSize: number): Edges {
+  if (!value) return { top: 0, right: 0, bottom: 0, left: 0 };
+
+  const parts = value.trim().split(/\s+/).map(part => parseLength(part, reference, fontSize) ?? 0);
+  const [top, right = top, bottom = top, left = right] = parts;
+  return { top, right, bottom, left };
+}
+
+/** Border width from a `border` shorthand such as "2px solid". */
+export function parseBorderWidth(value: string | undefined): number {
+  if (!value || value.trim() === 'none') return 0;
+  for (const part of value.trim().split(/\s+/)) {
+    const width = parseLength(part, 0);
+    if (width !== null) return width;
+  }
+  return value.includes('solid') || value.includes('dashed') || value.includes('dotted') ? 3 : 0;
+}
+
+/**
+ * Extract translate offsets and rotation from a style's CSS transform and
+ * `rotation`. Percentages in translate() resolve against the element's own box.
+ */
+function parseTransform(
+  style: ElementStyle | undefined,
+  width: number,
+  height: number
+): { dx: number; dy: number; rotation: number } {
+  const result = { dx: 0, dy: 0, rotation: parseAngle(style?.rotation) };
+  const value = style?.transform;
+  if (!value) return result;
+
+  const fnRegex = /(translate[XY]?|rotate)\(((?:[^()]|\([^()]*\))*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = fnRegex.exec(value)) !== null) {
+    const args = splitArguments(match[2]);
+    switch (match[1]) {
+      case 'translate':
+        result.dx += parseLength(args[0], width) ?? 0;
+        result.dy += parseLength(args[1], height) ?? 0;
+        break;
+      case 'translateX':
+        result.dx += parseLength(args[0], width) ?? 0;
+        break;
+      case 'translateY':
+        result.dy += parseLength(args[0], height) ?? 0;
+        break;
+      case 'rotate':
+        result.rotation += parseAngle(args[0]);
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Distance from the top of a line box to the baseline, placed the way CSS
+ * does: half-leading above the font's content area
+ */
+export function getBaselineOffset(textStyle: ResolvedTextStyle, metrics: FontMetricsInfo): number {
+  const contentArea = (metrics.ascent + metrics.descent) * textStyle.fontSize;
+  return (textStyle.lineHeight - contentArea) / 2 + metrics.ascent * textStyle.fontSize;
+}
+
+/** Width limited by the style's max_width, as CSS max-width does. */
+function applyMaxWidth(width: number, style: ElementStyle, reference: number, fontSize: number): number {
+  const maxWidth = parseLength(style.max_width, reference, fontSize);
+  return maxWidth !== null ? Math.min(width, maxWidth) : width;
+}
+
+/** Split function arguments on top-level commas. */
+function splitArguments(args: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of args) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) result.push(current.trim());
+  return result;
+}
+
+/** Parse a CSS angle into degrees. */
+export function parseAngle(value: string | undefined): number {
+  if (!value) return 0;
+  const match = value.trim().match(/^(-?[\d.]+)(deg|rad|turn)?$/);
+  if (!match) return 0;
+  const number = parseFloat(match[1]);
+  if (match[2] === 'rad') return number * 180 / Math.PI;
+  if (match[2] === 'turn') return number * 360;
+  return number;
+}
+
+/**
+ * Convert text data item content into plain lines.
+ * `<br>` tags become line breaks, other markup is dropped and entities decoded.
+ */
+export function getPlainTextLines(content: string): string[] {
+  return content
+    .split(/<br\s*\/?>/i)
+    .map(line => decodeHTMLEntities(line.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim());
+}
+
+export function applyTextTransform(text: string, transform: string): string {
+  switch (transform) {
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    case 'capitalize':
+      return text.replace(/(^|\s)(\S)/g, (_, space: string, ch: string) => space + ch.toUpperCase());
+    default:
+      return text;
+  }
+}
+
+// ============================================================================
+// TEXT LAYOUT
+// ============================================================================
+
+/**
+ * Text style of an element, inheriting what it does not set from `parent`
+ * (the canvas defaults when omitted)
+ */
+export function resolveTextStyle(style: ElementStyle | undefined, parent: ResolvedTextStyle = ROOT_TEXT_STYLE): ResolvedTextStyle {
+  if (!style) return { ...parent };
+
+  const fontSize = parseLength(style.font_size, parent.fontSize, parent.fontSize) ?? parent.fontSize;
+
+  let lineHeight = parent.lineHeight / parent.fontSize * fontSize;
+  if (style.line_height !== undefined) {
+    const unitless = style.line_height.trim().match(/^[\d.]+$/);
+    lineHeight = style.line_height.trim() === 'normal'
+      ? fontSize * NORMAL_LINE_HEIGHT
+      : unitless
+        ? parseFloat(style.line_height) * fontSize
+        : parseLength(style.line_height, fontSize, fontSize) ?? lineHeight;
+  }
+
+  return {
+    font: style.font ?? parent.font,
+    fontSize,
+    fontWeight: style.font_weight ?? parent.fontWeight,
+    fontStyle: style.font_style ?? parent.fontStyle,
+    lineHeight,
+    letterSpacing: style.letter_spacing !== undefined
+      ? parseLength(style.letter_spacing, fontSize, fontSize) ?? 0
+      : parent.letterSpacing,
+    textAlign: style.text_align ?? parent.textAlign,
+    textTransform: style.text_transform ?? parent.textTransform,
+    whiteSpace: style.white_space ?? parent.whiteSpace,
+    color: style.color ?? parent.color
+  };
+}
+
+/**
+ * Break text into lines that fit the available width.
+ * Pass Infinity as maxWidth to only break at explicit line breaks.
+ */
+export function breakLines(
+  paragraphs: string[],
+  maxWidth: number,
+  textStyle: ResolvedTextStyle,
+  measurer: TextMeasurer
+): Array<{ text: string; width: number }> {
+  const lines: Array<{ text: string; width: number }> = [];
+  const wrap = textStyle.whiteSpace !== 'nowrap' && textStyle.whiteSpace !== 'pre';
+
+  for (const paragraph of paragraphs) {
+    const text = applyTextTransform(paragraph, textStyle.textTransform);
+    if (!wrap || !isFinite(maxWidth)) {
+      lines.push({ text, width: measurer.measureWidth(text, textStyle) });
+      continue;
+    }
+
+    const words = text.split(' ');
+    let current = '';
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && measurer.measureWidth(candidate, textStyle) > maxWidth) {
+        lines.push({ text: current, width: measurer.measureWidth(current, textStyle) });
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push({ text: current, width: measurer.measureWidth(current, textStyle) });
+  }
+
+  return lines;
+}
+
+/** Curved text is set as a single line, whatever its line breaks. */
+function curvedLine(paragraphs: string[], textStyle: ResolvedTextStyle, measurer: TextMeasurer): { text: string; width: number } {
+  return breakLines([paragraphs.join(' ')], Infinity, textStyle, measurer)[0];
+}
+
+/** Widest unwrapped line, used for shrink-to-fit sizing. */
+function maxContentWidth(paragraphs: string[], textStyle: ResolvedTextStyle, measurer: TextMeasurer): number {
+  return breakLines(paragraphs, Infinity, textStyle, measurer)
+    .reduce((max, line) => Math.max(max, line.width), 0);
+}
+
+/**
+ * Break styled paragraphs into lines that fit the available width. Words may
+ * span several runs; each line's height and baseline fit its tallest run,
+ * as CSS aligns inline boxes on their baselines.
+ */
+function breakRichLines(
+  paragraphs: StyledText[][],
+  maxWidth: number,
+  textStyle: ResolvedTextStyle,
+  measurer: TextMeasurer
+): RichLine[] {
+  const lines: RichLine[] = [];
+  const wrap = textStyle.whiteSpace !== 'nowrap' && textStyle.whiteSpace !== 'pre' && isFinite(maxWidth);
+
+  for (const paragraph of paragraphs) {
+    // Split at spaces; each word keeps the style of the space before it
+    const words: Array<{ space?: ResolvedTextStyle; parts: StyledText[] }> = [{ parts: [] }];
+    for (const fragment of paragraph) {
+      applyTextTransform(fragment.text, fragment.textStyle.textTransform).split(' ').forEach((part, index) => {
+        if (index > 0) words.push({ space: fragment.textStyle, parts: [] });
+        if (part) words[words.length - 1].parts.push({ text: part, textStyle: fragment.textStyle });
+      });
+    }
+
+    let current: StyledText[] = [];
+    let width = 0;
+    for (const word of words.filter(candidate => candidate.parts.length > 0)) {
+      const wordWidth = word.parts.reduce((sum, part) => sum + measurer.measureWidth(part.text, part.textStyle), 0);
+      let spaceWidth = current.length > 0 && word.space ? measurer.measureWidth(' ', word.space) : 0;
+      if (wrap && current.length > 0 && width + spaceWidth + wordWidth > maxWidth) {
+        lines.push(buildRichLine(current, textStyle, measurer));
+        current = [];
+        width = 0;
+        spaceWidth = 0;
+      }
+      if (spaceWidth > 0) current.push({ text: ' ', textStyle: word.space! });
+      current.push(...word.parts);
+      width += spaceWidth + wordWidth;
+    }
+    lines.push(buildRichLine(current, textStyle, measurer));
+  }
+
+  return lines;
+}
+
+/** Merge a line's fragments into segments and size the line box. */
+function buildRichLine(fragments: StyledText[], textStyle: ResolvedTextStyle, measurer: TextMeasurer): RichLine {
+  const merged: StyledText[] = [];
+  for (const fragment of fragments) {
+    const last = merged[merged.length - 1];
+    if (last && last.textStyle === fragment.textStyle) last.text += fragment.text;
+    else merged.push({ ...fragment });
+  }
+
+  // The element's own style acts as the strut every line box starts from
+  let above = getBaselineOffset(textStyle, measurer.getMetrics(textStyle));
+  let below = textStyle.lineHeight - above;
+  let offset = 0;
+  const segments = merged.map(fragment => {
+    const baseline = getBaselineOffset(fragment.textStyle, measurer.getMetrics(fragment.textStyle));
+    above = Math.max(above, baseline);
+    below = Math.max(below, fragment.textStyle.lineHeight - baseline);
+    const width = measurer.measureWidth(fragment.text, fragment.textStyle);
+    const segment = { text: fragment.text, offset, width, textStyle: fragment.textStyle };
+    offset += width;
+    return segment;
+  });
+
+  return {
+    text: merged.map(fragment => fragment.text).join(''),
+    width: offset,
+    height: above + below,
+    baseline: above,
+    segments
+  };
+}
+
+/** Curved rich text is set as a single line, with paragraphs joined by spaces. */
+function curvedRichLine(paragraphs: StyledText[][], textStyle: ResolvedTextStyle, measurer: TextMeasurer): RichLine {
+  const joined = paragraphs.flatMap((paragraph, index) => index > 0 && paragraph.length > 0
+    ? [{ text: ' ', textStyle: paragraph[0].textStyle }, ...paragraph]
+    : paragraph);
+  return breakRichLines([joined], Infinity, textStyle, measurer)[0];
+}
+
+/** Position rich lines in a content rect, stacking them by their own heights. */
+function positionRichLines(lines: RichLine[], content: Rect, textStyle: ResolvedTextStyle): TextLine[] {
+  let y = content.y;
+  return lines.map(line => {
+    let x = content.x;
+    if (textStyle.textAlign === 'center') x += (content.width - line.width) / 2;
+    else if (textStyle.textAlign === 'right') x += content.width - line.width;
+    const positioned: TextLine = {
+      text: line.text,
+      x,
+      y,
+      width: line.width,
+      baseline: line.baseline,
+      segments: line.segments.map(segment => ({
+        text: segment.text,
+        x: x + segment.offset,
+        width: segment.width,
+        textStyle: segment.textStyle
+      }))
+    };
+    y += line.height;
+    return positioned;
+  });
+}
+
+function positionLines(
+  lines: Array<{ text: string; width: number }>,
+  content: Rect,
+  textStyle: ResolvedTextStyle
+): TextLine[] {
+  return lines.map((line, index) => {
+    let x = content.x;
+    if (textStyle.textAlign === 'center') x += (content.width - line.width) / 2;
+    else if (textStyle.textAlign === 'right') x += content.width - line.width;
+    return { text: line.text, x, y: content.y + index * textStyle.lineHeight, width: line.width };
+  });
+}
+
+/** Intrinsic size of an svg element, from the root tag's width/height attributes. */
+function getSvgIntrinsicSize(svgContent: string | undefined): { width: number; height: number } {
+  const rootTag = svgContent?.match(/<svg\b[^>]*>/i)?.[0];
+  if (!rootTag) return { width: 0, height: 0 };
+  const width = parseFloat(rootTag.match(/\swidth\s*=\s*["']([\d.]+)/)?.[1] || '0');
+  const height = parseFloat(rootTag.match(/\sheight\s*=\s*["']([\d.]+)/)?.[1] || '0');
+  return { width, height };
+}
+
+// ============================================================================
+// BOX LAYOUT
+// ============================================================================
+
+function isAbsolute(style: ElementStyle | undefined): boolean {
+  if (!style) return false;
+  if (style.position === 'absolute' || style.position === 'fixed') return true;
+  // The HTML renderer pins full-size elements without a position to the canvas
+  return style.position === undefined && style.width === '100%' && style.height === '100%';
+}
+
+/**
+ * Stacking level matching the HTML renderer: full-size backgrounds sit at 0,
+ * elements without an explicit position are raised to 1.
+ */
+function getZIndex(style: ElementStyle): number {
+  const explicit = parseInt(style.z_index || '', 10);
+  if (!isNaN(explicit)) return explicit;
+  return style.position !== undefined || isAbsolute(style) ? 0 : 1;
+}
+
+function isFlex(style: ElementStyle | undefined): boolean {
+  return style?.display === 'flex' || style?.display === 'inline-flex';
+}
+
+function getTextParagraphs(element: Element, context: LayoutContext): string[] | null {
+  if (element.element_type !== 'data_item' || !element.data_item_id) return null;
+  const dataItem = context.dataItemMap.get(element.data_item_id);
+  if (!dataItem || dataItem.type !== 'text') return null;
+  return getPlainTextLines(dataItem.content || '');
+}
+
+/** A rich text item's runs in their resolved styles, split into paragraphs at newlines. */
+function getRichParagraphs(element: Element, textStyle: ResolvedTextStyle, context: LayoutContext): StyledText[][] | null {
+  if (element.element_type !== 'data_item' || !element.data_item_id) return null;
+  const runs = getTextRuns(context.dataItemMap.get(element.data_item_id));
+  if (!runs) return null;
+
+  const paragraphs: StyledText[][] = [[]];
+  for (const run of runs) {
+    const runStyle = resolveTextStyle(getRunStyle(run), textStyle);
+    String(run.text ?? '').split('\n').forEach((part, index) => {
+      if (index > 0) paragraphs.push([]);
+      const text = part.replace(/\s+/g, ' ');
+      if (text) paragraphs[paragraphs.length - 1].push({ text, textStyle: runStyle });
+    });
+  }
+  return paragraphs;
+}
+
+/**
+ * Size of an element's text in a given style: the widest line and the total
+ * height, with lines broken at `maxWidth` (Infinity for explicit breaks only)
+ */
+function measureTextBlock(
+  element: Element,
+  textStyle: ResolvedTextStyle,
+  maxWidth: number,
+  context: LayoutContext
+): { width: number; height: number } {
+  const curvature = getCurvature(element);
+  const richParagraphs = getRichParagraphs(element, textStyle, context);
+
+  if (richParagraphs) {
+    const lines = curvature !== 0
+      ? [curvedRichLine(richParagraphs, textStyle, context.measurer)]
+      : breakRichLines(richParagraphs, maxWidth, textStyle, context.measurer);
+    const width = lines.reduce((max, line) => Math.max(max, line.width), 0);
+    const height = lines.reduce((sum, line) => sum + line.height, 0);
+    if (curvature === 0) return { width, height };
+    const extent = getArcExtent(width, curvature);
+    return { width: extent.width, height: height + extent.sagitta };
+  }
+
+  const paragraphs = getTextParagraphs(element, context) || [];
+  if (curvature !== 0) {
+    const line = curvedLine(paragraphs, textStyle, context.measurer);
+    const extent = getArcExtent(line.width, curvature);
+    return { width: extent.width, height: textStyle.lineHeight + extent.sagitta };
+  }
+
+  const lines = breakLines(paragraphs, maxWidth, textStyle, context.measurer);
+  return {
+    width: lines.reduce((max, line) => Math.max(max, line.width), 0),
+    height: lines.length * textStyle.lineHeight
+  };
+}
+
+/** The style's text_fit mode; unknown values count as 'none'. */
+export function getTextFit(style: ElementStyle | undefined): 'none' | 'shrink' | 'fill' {
+  const fit = style?.text_fit;
+  return fit === 'shrink' || fit === 'fill' ? fit : 'none';
+}
+
+/**
+ * Text style at the font size text_fit picks: the largest size in range
+ * whose text fits the content box. With a definite height the text may wrap
+ * and must fit the height; without one, each paragraph must fit on one line.
+ * 'shrink' never grows past font_size. Text that does not fit at the
+ * smallest size is set at that size, with `fits` false.
+ */
+function fitTextStyle(
+  element: Element,
+  textStyle: ResolvedTextStyle,
+  contentWidth: number,
+  contentHeight: number | null,
+  context: LayoutContext
+): { textStyle: ResolvedTextStyle; fits: boolean } {
+  const style = element.style || {};
+  const fit = getTextFit(style);
+  const fontSize = textStyle.fontSize;
+
+  const maxSize = parseLength(style.max_font_size, fontSize, fontSize) ?? (fit === 'fill' ? MAX_FIT_FONT_SIZE : fontSize);
+  const upper = fit === 'shrink' ? Math.min(fontSize, maxSize) : maxSize;
+  const lower = Math.min(parseLength(style.min_font_size, fontSize, fontSize) ?? MIN_FIT_FONT_SIZE, upper);
+
+  // Scale the line height with the font size, as a unitless line height does
+  const sized = (size: number) => resolveTextStyle({ font_size: `${size}px` }, textStyle);
+  const fits = (size: number) => {
+    const block = measureTextBlock(element, sized(size), contentHeight === null ? Infinity : contentWidth + 0.5, context);
+    return block.width <= contentWidth + 0.5 && (contentHeight === null || block.height <= contentHeight + 0.5);
+  };
+
+  if (fits(upper)) return { textStyle: sized(upper), fits: true };
+  if (!fits(lower)) return { textStyle: sized(lower), fits: false };
+
+  let low = lower;
+  let high = upper;
+  while (high - low > FIT_PRECISION) {
+    const middle = (low + high) / 2;
+    if (fits(middle)) low = middle;
+    else high = middle;
+  }
+  return { textStyle: sized(Math.floor(low / FIT_PRECISION) * FIT_PRECISION), fits: true };
+}
+
+/**
+ * Width an element takes when sized to its content, for shrink-to-fit
+ * (absolutely positioned elements and flex items).
+ */
+function measureMaxContentWidth(
+  element: Element,
+  textStyle: ResolvedTextStyle,
+  containingWidth: number,
+  context: LayoutContext
+): number {
+  const style = element.style || {};
+  const explicit = parseLength(style.width, containingWidth, textStyle.fontSize);
+  if (explicit !== null) return explicit;
+
+  const padding = parseEdges(style.padding, containingWidth, textStyle.fontSize);
+  const border = parseBorderWidth(style.border) * 2;
+  const extra = padding.left + padding.right + border;
+
+  const richParagraphs = getRichParagraphs(element, textStyle, context);
+  if (richParagraphs) {
+    const lines = getCurvature(element) !== 0
+      ? [curvedRichLine(richParagraphs, textStyle, context.measurer)]
+      : breakRichLines(richParagraphs, Infinity, textStyle, context.measurer);
+    const width = lines.reduce((max, line) => Math.max(max, line.width), 0);
+    return (getCurvature(element) !== 0 ? getArcExtent(width, getCurvature(element)).width : width) + extra;
+  }
+
+  const paragraphs = getTextParagraphs(element, context);
+  if (paragraphs && getCurvature(element) !== 0) {
+    const line = curvedLine(paragraphs, textStyle, context.measurer);
+    return getArcExtent(line.width, getCurvature(element)).width + extra;
+  }
+  if (paragraphs) {
+    return maxContentWidth(paragraphs, textStyle, context.measurer) + extra;
+  }
+
+  if (element.element_type === 'svg') {
+    return getSvgIntrinsicSize(element.svg_content).width + extra;
+  }
+
+  if (element.element_type === 'container' && element.children) {
+    const childWidths = element.children
+      .filter(child => !isAbsolute(child.style))
+      .map(child => {
+        const childStyle = resolveTextStyle(child.style, textStyle);
+        const marginLeft = parseLength(child.style?.margin_left, containingWidth, childStyle.fontSize) ?? 0;
+        const marginRight = parseLength(child.style?.margin_right, containingWidth, childStyle.fontSize) ?? 0;
+        return measureMaxContentWidth(child, childStyle, containingWidth, context) + marginLeft + marginRight;
+      });
+
+    const isRow = isFlex(style) && !(style.flex_direction || 'row').startsWith('column');
+    const gap = parseLength(style.gap, containingWidth, textStyle.fontSize) ?? 0;
+    const content = isRow
+      ? childWidths.reduce((sum, w) => sum + w, 0) + gap * Math.max(0, childWidths.length - 1)
+      : childWidths.reduce((max, w) => Math.max(max, w), 0);
+    return content + extra;
+  }
+
+  return extra;
+}
+
+/**
+ * Lay out an element whose border-box width is already known, computing
+ * its height and laying out its children. Position is set by the caller.
+ */
+function layoutElement(
+  element: Element,
+  path: string,
+  width: number,
+  explicitHeight: number | null,
+  elementTextStyle: ResolvedTextStyle,
+  context: LayoutContext
+): LayoutBox {
+  const style = element.style || {};
+  const padding = parseEdges(style.padding, width, elementTextStyle.fontSize);
+  const border = parseBorderWidth(style.border);
+  const contentWidth = Math.max(0, width - padding.left - padding.right - border * 2);
+
+  const isText = element.element_type === 'data_item' && getTextParagraphs(element, context) !== null;
+  const fit = isText && getTextFit(style) !== 'none'
+    ? fitTextStyle(element, elementTextStyle, contentWidth,
+      explicitHeight !== null ? Math.max(0, explicitHeight - padding.top - padding.bottom - border * 2) : null, context)
+    : { textStyle: elementTextStyle, fits: true };
+  const textStyle = fit.textStyle;
+
+  const box: LayoutBox = {
+    element,
+    path,
+    x: 0,
+    y: 0,
+    width,
+    height: explicitHeight ?? 0,
+    rotation: 0,
+    zIndex: getZIndex(style),
+    textStyle,
+    children: []
+  };
+  if (!fit.fits) box.fitFailed = true;
+
+  if (element.element_type === 'data_item' && element.data_item_id) {
+    box.dataItem = context.dataItemMap.get(element.data_item_id);
+  }
+
+  let contentHeight = 0;
+  const richParagraphs = getRichParagraphs(element, textStyle, context);
+  const paragraphs = richParagraphs ? null : getTextParagraphs(element, context);
+
+  if (richParagraphs && getCurvature(element) !== 0) {
+    const line = curvedRichLine(richParagraphs, textStyle, context.measurer);
+    box.lines = positionRichLines([line], {
+      x: padding.left + border,
+      y: padding.top + border,
+      width: contentWidth,
+      height: 0
+    }, { ...textStyle, textAlign: 'center' });
+    contentHeight = line.height + getArcExtent(line.width, getCurvature(element)).sagitta;
+  } else if (richParagraphs) {
+    const lines = breakRichLines(richParagraphs, contentWidth + 0.5, textStyle, context.measurer);
+    box.lines = positionRichLines(lines, { x: padding.left + border, y: padding.top + border, width: contentWidth, height: 0 }, textStyle);
+    contentHeight = lines.reduce((sum, line) => sum + line.height, 0);
+  } else if (paragraphs && getCurvature(element) !== 0) {
+    // The line box holds the straight line, centered; renderers bend it along
+    // the arc, which needs room for the ends to drop (or the middle to sag)
+    const line = curvedLine(paragraphs, textStyle, context.measurer);
+    box.lines = [{
+      text: line.text,
+      x: padding.left + border + (contentWidth - line.width) / 2,
+      y: padding.top + border,
+      width: line.width
+    }];
+    contentHeight = textStyle.lineHeight + getArcExtent(line.width, getCurvature(element)).sagitta;
+  } else if (paragraphs) {
+    const lines = breakLines(paragraphs, contentWidth + 0.5, textStyle, context.measurer);
+    box.lines = positionLines(lines, { x: 0, y: 0, width: contentWidth, height: 0 }, textStyle)
+      .map(line => ({ ...line, x: line.x + padding.left + border, y: line.y + padding.top + border }));
+    contentHeight = lines.length * textStyle.lineHeight;
+  } else if (element.element_type === 'svg' && explicitHeight === null) {
+    contentHeight = getSvgIntrinsicSize(element.svg_content).height;
+  } else if (element.element_type === 'container' && element.children) {
+    const content: Rect = {
+      x: padding.left + border,
+      y: padding.top + border,
+      width: contentWidth,
+      height: explicitHeight !== null
+        ? Math.max(0, explicitHeight - padding.top - padding.bottom - border * 2)
+        : NaN
+    };
+    const paddingBox: Rect = {
+      x: border,
+      y: border,
+      width: Math.max(0, width - border * 2),
+      height: explicitHeight !== null ? Math.max(0, explicitHeight - border * 2) : NaN
+    };
+    const result = layoutChildren(element.children, path, content, paddingBox, style, textStyle, context);
+    box.children = result.boxes;
+    contentHeight = result.contentHeight;
+  }
+
+  if (explicitHeight === null) {
+    box.height = contentHeight + padding.top + padding.bottom + border * 2;
+  }
+
+  // Children were laid out relative to this box; position them once the box height is final
+  box.children.forEach(child => resolveAbsoluteChild(child, box, border));
+
+  return box;
+}
+
+/**
+ * Children of a container are laid out relative to its top-left corner.
+ * Absolutely positioned children that depend on the final height (bottom: ...)
+ * are resolved here.
+ */
+function resolveAbsoluteChild(child: LayoutBox, parent: LayoutBox, border: number): void {
+  const style = child.element.style;
+  if (!isAbsolute(style) || !style) return;
+
+  const cbHeight = parent.height - border * 2;
+  const top = parseLength(style.top, cbHeight, child.textStyle.fontSize);
+  const bottom = parseLength(style.bottom, cbHeight, child.textStyle.fontSize);
+  const marginTop = parseLength(style.margin_top, parent.width, child.textStyle.fontSize) ?? 0;
+  const marginBottom = parseLength(style.margin_bottom, parent.width, child.textStyle.fontSize) ?? 0;
+
+  if (style.height === '100%' && style.position === undefined) {
+    child.height = cbHeight;
+  } else if (parseLength(style.height, cbHeight, child.textStyle.fontSize) !== null) {
+    child.height = parseLength(style.height, cbHeight, child.textStyle.fontSize)!;
+  } else if (top !== null && bottom !== null) {
+    child.height = Math.max(0, cbHeight - top - bottom - marginTop - marginBottom);
+  }
+
+  const y = top !== null
+    ? border + top + marginTop
+    : bottom !== null
+      ? border + cbHeight - bottom - marginBottom - child.height
+      : child.y;
+
+  const transform = parseTransform(style, child.width, child.height);
+  child.y = y + transform.dy;
+}
+
+/**
+ * Lay out a list of sibling elements inside a content rect. Absolutely
+ * positioned siblings are placed against the parent's padding box.
+ * Returned boxes are positioned relative to the parent's border box.
+ */
+function layoutChildren(
+  elements: Element[],
+  parentPath: string,
+  content: Rect,
+  containingBlock: Rect,
+  parentStyle: ElementStyle | undefined,
+  parentTextStyle: ResolvedTextStyle,
+  context: LayoutContext
+): { boxes: LayoutBox[]; contentHeight: number } {
+  const boxes: LayoutBox[] = [];
+  const flowElements: Element[] = [];
+  const absoluteElements: Element[] = [];
+
+  elements.forEach(element => {
+    if (isAbsolute(element.style)) absoluteElements.push(element);
+    else flowElements.push(element);
+  });
+
+  const pathOf = (element: Element) => parentPath ? `${parentPath}-${element.element_id}` : element.element_id;
+
+  const flow = isFlex(parentStyle)
+    ? layoutFlexItems(flowElements, pathOf, content, parentStyle!, parentTextStyle, context)
+    : layoutBlockFlow(flowElements, pathOf, content, parentTextStyle, context);
+
+  const flowBoxes = new Map<Element, LayoutBox>();
+  flow.boxes.forEach(box => flowBoxes.set(box.element, box));
+
+  // Absolutely positioned boxes: horizontal placement now, vertical once the parent height is known
+  const absoluteBoxes = new Map<Element, LayoutBox>();
+  absoluteElements.forEach(element => {
+    const style = element.style!;
+    const textStyle = resolveTextStyle(style, parentTextStyle);
+    const cb = containingBlock;
+    const fontSize = textStyle.fontSize;
+
+    const left = parseLength(style.left, cb.width, fontSize);
+    const right = parseLength(style.right, cb.width, fontSize);
+    const marginLeft = parseLength(style.margin_left, cb.width, fontSize) ?? 0;
+    const marginRight = parseLength(style.margin_right, cb.width, fontSize) ?? 0;
+
+    let width = parseLength(style.width, cb.width, fontSize);
+    if (width === null) {
+      if (left !== null && right !== null) {
+        width = Math.max(0, cb.width - left - right - marginLeft - marginRight);
+      } else {
+        const available = Math.max(0, cb.width - (left ?? right ?? 0) - marginLeft - marginRight);
+        width = Math.min(measureMaxContentWidth(element, textStyle, cb.width, context), available);
+      }
+    }
+    width = applyMaxWidth(width, style, cb.width, fontSize);
+
+    const height = parseLength(style.height, isNaN(cb.height) ? 0 : cb.height, fontSize);
+    const box = layoutElement(element, pathOf(element), width, isNaN(cb.height) && style.height?.endsWith('%') ? null : height, textStyle, context);
+
+    const x = left !== null
+      ? cb.x + left + marginLeft
+      : right !== null
+        ? cb.x + cb.width - right - marginRight - width
+        : content.x + marginLeft;
+
+    const transform = parseTransform(style, box.width, box.height);
+    box.x = x + transform.dx;
+    // Static position until resolved against the parent's final height
+    box.y = content.y;
+    box.rotation = transform.rotation;
+    absoluteBoxes.set(element, box);
+  });
+
+  // Preserve document order (it determines paint order)
+  elements.forEach(element => {
+    const box = flowBoxes.get(element) || absoluteBoxes.get(element);
+    if (box) boxes.push(box);
+  });
+
+  return { boxes, contentHeight: flow.contentHeight };
+}
+
+/** Normal block flow: vertical stacking with collapsing sibling margins. */
+function layoutBlockFlow(
+  elements: Element[],
+  pathOf: (element: Element) => string,
+  content: Rect,
+  parentTextStyle: ResolvedTextStyle,
+  context: LayoutContext
+): { boxes: LayoutBox[]; contentHeight: number } {
+  const boxes: LayoutBox[] = [];
+  let cursor = content.y;
+  let previousMarginBottom = 0;
+
+  elements.forEach((element, index) => {
+    const style = element.style || {};
+    const textStyle = resolveTextStyle(style, parentTextStyle);
+    const fontSize = textStyle.fontSize;
+
+    const marginTop = parseLength(style.margin_top, content.width, fontSize) ?? 0;
+    const marginBottom = parseLength(style.margin_bottom, content.width, fontSize) ?? 0;
+    const marginLeftAuto = style.margin_left?.trim() === 'auto';
+    const marginRightAuto = style.margin_right?.trim() === 'auto';
+    let marginLeft = parseLength(style.margin_left, content.width, fontSize) ?? 0;
+    let marginRight = parseLength(style.margin_right, content.width, fontSize) ?? 0;
+
+    const width = applyMaxWidth(
+      parseLength(style.width, content.width, fontSize) ?? Math.max(0, content.width - marginLeft - marginRight),
+      style, content.width, fontSize
+    );
+    if (marginLeftAuto && marginRightAuto) {
+      marginLeft = marginRight = (content.width - width) / 2;
+    } else if (marginLeftAuto) {
+      marginLeft = content.width - width - marginRight;
+    }
+
+    const height = isNaN(content.height) && style.height?.endsWith('%')
+      ? null
+      : parseLength(style.height, isNaN(content.height) ? 0 : content.height, fontSize);
+    const box = layoutElement(element, pathOf(element), width, height, textStyle, context);
+
+    // Adjacent vertical margins collapse to the larger of the two
+    const gap = index === 0 ? marginTop : Math.max(previousMarginBottom, marginTop);
+    cursor += index === 0 ? gap : gap - previousMarginBottom;
+
+    box.x = content.x + marginLeft;
+    box.y = cursor;
+
+    // position: relative offsets shift the box without affecting siblings
+    if (style.position === 'relative') {
+      box.x += parseLength(style.left, content.width, fontSize) ?? -(parseLength(style.right, content.width, fontSize) ?? 0);
+      box.y += parseLength(style.top, content.height || 0, fontSize) ?? -(parseLength(style.bottom, content.height || 0, fontSize) ?? 0);
+    }
+
+    const transform = parseTransform(style, box.width, box.height);
+    box.x += transform.dx;
+    box.y += transform.dy;
+    box.rotation = transform.rotation;
+
+    cursor += box.height + marginBottom;
+    previousMarginBottom = marginBottom;
+    boxes.push(box);
+  });
+
+  return { boxes, contentHeight: cursor - content.y };
+}
+
+/** Single-line flexbox layout (no wrapping, no grow/shrink). */
+function layoutFlexItems(
+  elements: Element[],
+  pathOf: (element: Element) => string,
+  content: Rect,
+  containerStyle: ElementStyle,
+  parentTextStyle: ResolvedTextStyle,
+  context: LayoutContext
+): { boxes: LayoutBox[]; contentHeight: number } {
+  const direction = containerStyle.flex_direction || 'row';
+  const isRow = !direction.startsWith('column');
+  const reverse = direction.endsWith('reverse');
+  const gap = parseLength(containerStyle.gap, content.width, parentTextStyle.fontSize) ?? 0;
+  const justify = containerStyle.justify_content || 'flex-start';
+  const align = containerStyle.align_items || 'stretch';
+
+  // Size each item along both axes
+  const items = elements.map(element => {
+    const style = element.style || {};
+    const textStyle = resolveTextStyle(style, parentTextStyle);
+    const fontSize = textStyle.fontSize;
+    const margins: Edges = {
+      top: parseLength(style.margin_top, content.width, fontSize) ?? 0,
+      right: parseLength(style.margin_right, content.width, fontSize) ?? 0,
+      bottom: parseLength(style.margin_bottom, content.width, fontSize) ?? 0,
+      left: parseLength(style.margin_left, content.width, fontSize) ?? 0
+    };
+
+    const stretch = align === 'stretch';
+    let width = parseLength(style.width, content.width, fontSize);
+    if (width === null) {
+      width = !isRow && stretch
+        ? Math.max(0, content.width - margins.left - margins.right)
+        : Math.min(measureMaxContentWidth(element, textStyle, content.width, context), content.width);
+    }
+    width = applyMaxWidth(width, style, content.width, fontSize);
+
+    const height = isNaN(content.height) && style.height?.endsWith('%')
+      ? null
+      : parseLength(style.height, isNaN(content.height) ? 0 : content.height, fontSize);
+    const box = layoutElement(element, pathOf(element), width, height, textStyle, context);
+    return { box, margins, stretch: stretch && (isRow ? height === null : style.width === undefined) };
+  });
+
+  if (reverse) items.reverse();
+
+  const mainSize = (item: typeof items[number]) => isRow
+    ? item.box.width + item.margins.left + item.margins.right
+    : item.box.height + item.margins.top + item.margins.bottom;
+  const crossSize = (item: typeof items[number]) => isRow
+    ? item.box.height + item.margins.top + item.margins.bottom
+    : item.box.width + item.margins.left + item.margins.right;
+
+  const usedMain = items.reduce((sum, item) => sum + mainSize(item), 0) + gap * Math.max(0, items.length - 1);
+  const containerMain = isRow ? content.width : (isNaN(content.height) ? usedMain : content.height);
+  const maxCross = items.reduce((max, item) => Math.max(max, crossSize(item)), 0);
+  const containerCross = isRow ? (isNaN(content.height) ? maxCross : content.height) : content.width;
+
+  const free = Math.max(0, containerMain - usedMain);
+  let offset = 0;
+  let spacing = gap;
+  if (justify === 'center') offset = free / 2;
+  else if (justify === 'flex-end' || justify === 'end') offset = free;
+  else if (justify === 'space-between' && items.length > 1) spacing += free / (items.length - 1);
+  else if (justify === 'space-around' && items.length > 0) { spacing += free / items.length; offset = free / items.length / 2; }
+  else if (justify === 'space-evenly' && items.length > 0) { spacing += free / (items.length + 1); offset = free / (items.length + 1); }
+
+  let cursor = offset;
+  items.forEach(({ box, margins, stretch }) => {
+    if (isRow) {
+      if (stretch) box.height = Math.max(box.height, containerCross - margins.top - margins.bottom);
+      const crossFree = containerCross - box.height - margins.top - margins.bottom;
+      const crossOffset = align === 'center' ? crossFree / 2 : align === 'flex-end' || align === 'end' ? crossFree : 0;
+      box.x = content.x + cursor + margins.left;
+      box.y = content.y + crossOffset + margins.top;
+    } else {
+      const crossFree = containerCross - box.width - margins.left - margins.right;
+      const crossOffset = align === 'center' ? crossFree / 2 : align === 'flex-end' || align === 'end' ? crossFree : 0;
+      box.x = content.x + crossOffset + margins.left;
+      box.y = content.y + cursor + margins.top;
+    }
+
+    const transform = parseTransform(box.element.style, box.width, box.height);
+    box.x += transform.dx;
+    box.y += transform.dy;
+    box.rotation = transform.rotation;
+
+    cursor += (isRow ? box.width + margins.left + margins.right : box.height + margins.top + margins.bottom) + spacing;
+  });
+
+  return { boxes: items.map(item => item.box), contentHeight: isRow ? containerCross : usedMain };
+}
+
+/** Convert parent-relative box positions into canvas coordinates. */
+function toAbsolute(box: LayoutBox, originX: number, originY: number): void {
+  box.x += originX;
+  box.y += originY;
+  box.lines?.forEach(line => {
+    line.x += box.x;
+    line.y += box.y;
+    line.segments?.forEach(segment => {
+      segment.x += box.x;
+    });
+  });
+  box.children.forEach(child => toAbsolute(child, box.x, box.y));
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Compute absolute positions and sizes for every element in a scene.
+ *
+ * This approximates the browser's layout of the HTML renderer's output
+ * (block flow, single-line flexbox and absolute positioning) so that
+ * non-HTML outputs can place elements without a browser.
+ */
+export function layoutScene(scene: Scene, options: LayoutOptions = {}): SceneLayout {
+  return layoutPreparedScene(prepareScene(scene, options.variables), options);
+}
+
+/**
+ * Layout of a scene that prepareScene already prepared, as the renderers
+ * draw it. Boxes refer to the prepared scene's elements.
+ */
+export function layoutPreparedScene(scene: Scene, options: LayoutOptions = {}): SceneLayout {
+  const { template } = scene;
+  const context: LayoutContext = {
+    scene,
+    dataItemMap: new Map(scene.data.data_items.map(item => [item.id, item])),
+    measurer: options.measurer || approximateMeasurer
+  };
+
+  const canvas: Rect = { x: 0, y: 0, width: template.canvas.width, height: template.canvas.height };
+  const root = layoutChildren(template.elements, '', canvas, canvas, undefined, ROOT_TEXT_STYLE, context);
+
+  // The canvas acts as the containing block for top-level absolute elements
+  const rootBox: LayoutBox = {
+    element: { element_id: '', element_type: 'container' },
+    path: '',
+    x: 0,
+    y: 0,
+    width: canvas.width,
+    height: canvas.height,
+    rotation: 0,
+    zIndex: 0,
+    textStyle: ROOT_TEXT_STYLE,
+    children: root.boxes
+  };
+  root.boxes.forEach(box => resolveAbsoluteChild(box, rootBox, 0));
+  root.boxes.forEach(box => toAbsolute(box, 0, 0));
+
+  return { width: canvas.width, height: canvas.height, boxes: root.boxes };
+}
@@ -0,0 +1,300 @@
+import * as fs from 'fs';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The subset of an OpenType/TrueType font needed for layout and embedding
+ */
+export interface ParsedFont {
+  data: Buffer;
+  isCFF: boolean;            // 'OTTO' fonts carry CFF outlines instead of glyf
+  unitsPerEm: number;
+  numGlyphs: number;
+  ascender: number;          // font units, from hhea
+  descender: number;         // font units (negative), from hhea
+  typoAscender: number;      // font units, from OS/2
+  typoDescender: number;     // font units (negative), from OS/2
+  useTypoMetrics: boolean;   // OS/2 fsSelection USE_TYPO_METRICS: the typo metrics set line spacing
+  capHeight: number;         // font units, from OS/2 (estimated when absent)
+  xHeight: number;
+  bbox: [number, number, number, number];
+  italicAngle: number;
+  weightClass: number;       // 100-900
+  isItalic: boolean;
+  familyName: string;
+  subfamilyName: string;
+  fullName: string;
+  postscriptName: string;
+  advanceWidths: number[];   // indexed by glyph id
+  cmap: Map<number, number>; // unicode code point -> glyph id
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+// ============================================================================
+// TABLE PARSING
+// ============================================================================
+
+function readTableDirectory(data: Buffer): Map<string, TableRecord> {
+  const tables = new Map<string, TableRecord>();
+  const numTables = data.readUInt16BE(4);
+
+  for (let i = 0; i < numTables; i++) {
+    const recordOffset = 12 + i * 16;
+    const tag = data.toString('latin1', recordOffset, recordOffset + 4);
+    tables.set(tag, {
+      offset: data.readUInt32BE(recordOffset + 8),
+      length: data.readUInt32BE(recordOffset + 12)
+    });
+  }
+
+  return tables;
+}
+
+function readFixed(data: Buffer, offset: number): number {
+  return data.readInt16BE(offset) + data.readUInt16BE(offset + 2) / 65536;
+}
+
+/**
+ * Read the best unicode cmap subtable (format 12 preferred, then format 4).
+ */
+function parseCmap(data: Buffer, table: TableRecord): Map<number, number> {
+  const map = new Map<number, number>();
+  const numSubtables = data.readUInt16BE(table.offset + 2);
+
+  let format4Offset = -1;
+  let format12Offset = -1;
+
+  for (let i = 0; i < numSubtables; i++) {
+    const record = table.offset + 4 + i * 8;
+    const platformId = data.readUInt16BE(record);
+    const encodingId = data.readUInt16BE(record + 2);
+    const subtableOffset = table.offset + data.readUInt32BE(record + 4);
+    const format = data.readUInt16BE(subtableOffset);
+
+    const isUnicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+    if (!isUnicode) continue;
+
+    if (format === 12) format12Offset = subtableOffset;
+    if (format === 4 && format4Offset === -1) format4Offset = subtableOffset;
+  }
+
+  if (format12Offset !== -1) {
+    const numGroups = data.readUInt32BE(format12Offset + 12);
+    for (let i = 0; i < numGroups; i++) {
+      const group = format12Offset + 16 + i * 12;
+      const startCode = data.readUInt32BE(group);
+      const endCode = data.readUInt32BE(group + 4);
+      const startGlyph = data.readUInt32BE(group + 8);
+      for (let code = startCode; code <= endCode; code++) {
+        map.set(code, startGlyph + (code - startCode));
+      }
+    }
+    return map;
+  }
+
+  if (format4Offset !== -1) {
+    const segCount = data.readUInt16BE(format4Offset + 6) / 2;
+    const endCodes = format4Offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    for (let seg = 0; seg < segCount; seg++) {
+      const endCode = data.readUInt16BE(endCodes + seg * 2);
+      const startCode = data.readUInt16BE(startCodes + seg * 2);
+      const idDelta = data.readInt16BE(idDeltas + seg * 2);
+      const rangeOffsetPos = idRangeOffsets + seg * 2;
+      const idRangeOffset = data.readUInt16BE(rangeOffsetPos);
+
+      for (let code = startCode; code <= endCode && code !== 0xFFFF; code++) {
+        let glyphId: number;
+        if (idRangeOffset === 0) {
+          glyphId = (code + idDelta) & 0xFFFF;
+        } else {
+          const glyphPos = rangeOffsetPos + idRangeOffset + (code - startCode) * 2;
+          if (glyphPos + 2 > data.length) continue;
+          glyphId = data.readUInt16BE(glyphPos);
+          if (glyphId !== 0) glyphId = (glyphId + idDelta) & 0xFFFF;
+        }
+        if (glyphId !== 0) map.set(code, glyphId);
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Read a string from the name table, preferring Windows Unicode English entries.
+ */
+function readName(data: Buffer, table: TableRecord | undefined, nameId: number): string {
+  if (!table) return '';
+
+  const count = data.readUInt16BE(table.offset + 2);
+  const stringOffset = table.offset + data.readUInt16BE(table.offset + 4);
+  let fallback = '';
+
+  for (let i = 0; i < count; i++) {
+    const record = table.offset + 6 + i * 12;
+    const platformId = data.readUInt16BE(record);
+    const languageId = data.readUInt16BE(record + 4);
+    const id = data.readUInt16BE(record + 6);
+    if (id !== nameId) continue;
+
+    const length = data.readUInt16BE(record + 8);
+    const offset = stringOffset + data.readUInt16BE(record + 10);
+    const raw = data.subarray(offset, offset + length);
+
+    if (platformId === 3 || platformId === 0) {
+      // UTF-16BE
+      let value = '';
+      for (let j = 0; j + 1 < raw.length; j += 2) {
+        value += String.fromCharCode(raw.readUInt16BE(j));
+      }
+      if (platformId === 3 && languageId === 0x0409) return value;
+      if (!fallback) fallback = value;
+    } else if (platformId === 1 && !fallback) {
+      fallback = raw.toString('latin1');
+    }
+  }
+
+  return fallback;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Parse an OpenType (.otf) or TrueType (.ttf) font file.
+ * Collections (.ttc) and WOFF containers are not supported.
+ */
+export function parseFont(data: Buffer): ParsedFont {
+  const signature = data.readUInt32BE(0);
+  const isCFF = signature === 0x4F54544F;  // 'OTTO'
+  if (!isCFF && signature !== 0x00010000 && signature !== 0x74727565) {
+    throw new Error('Unsupported font format (expected OpenType or TrueType)');
+  }
+
+  const tables = readTableDirectory(data);
+  const require = (tag: string): TableRecord => {
+    const table = tables.get(tag);
+    if (!table) throw new Error(`Font is missing required '${tag}' table`);
+    return table;
+  };
+
+  const head = require('head');
+  const hhea = require('hhea');
+  const hmtx = require('hmtx');
+  const maxp = require('maxp');
+  const cmapTable = require('cmap');
+  const os2 = tables.get('OS/2');
+  const post = tables.get('post');
+  const name = tables.get('name');
+
+  const unitsPerEm = data.readUInt16BE(head.offset + 18);
+  const bbox: [number, number, number, number] = [
+    data.readInt16BE(head.offset + 36),
+    data.readInt16BE(head.offset + 38),
+    data.readInt16BE(head.offset + 40),
+    data.readInt16BE(head.offset + 42)
+  ];
+  const macStyle = data.readUInt16BE(head.offset + 44);
+
+  const ascender = data.readInt16BE(hhea.offset + 4);
+  const descender = data.readInt16BE(hhea.offset + 6);
+  const numberOfHMetrics = data.readUInt16BE(hhea.offset + 34);
+  const numGlyphs = data.readUInt16BE(maxp.offset + 4);
+
+  // Glyphs past numberOfHMetrics repeat the last advance width
+  const advanceWidths: number[] = new Array(numGlyphs);
+  let lastAdvance = 0;
+  for (let i = 0; i < numGlyphs; i++) {
+    if (i < numberOfHMetrics) {
+      lastAdvance = data.readUInt16BE(hmtx.offset + i * 4);
+    }
+    advanceWidths[i] = lastAdvance;
+  }
+
+  let typoAscender = ascender;
+  let typoDescender = descender;
+  let useTypoMetrics = false;
+  let capHeight = Math.round(unitsPerEm * 0.7);
+  let xHeight = Math.round(unitsPerEm * 0.5);
+  let weightClass = macStyle & 1 ? 700 : 400;
+  let isItalic = (macStyle & 2) !== 0;
+
+  if (os2) {
+    const version = data.readUInt16BE(os2.offset);
+    weightClass = data.readUInt16BE(os2.offset + 4);
+    const fsSelection = data.readUInt16BE(os2.offset + 62);
+    isItalic = (fsSelection & 1) !== 0;
+    useTypoMetrics = (fsSelection & 0x80) !== 0;
+    typoAscender = data.readInt16BE(os2.offset + 68);
+    typoDescender = data.readInt16BE(os2.offset + 70);
+    if (version >= 2 && os2.length >= 90) {
+      xHeight = data.readInt16BE(os2.offset + 86) || xHeight;
+      capHeight = data.readInt16BE(os2.offset + 88) || capHeight;
+    }
+  }
+
+  const italicAngle = post ? readFixed(data, post.offset + 4) : 0;
+
+  const familyName = readName(data, name, 16) || readName(data, name, 1);
+  const subfamilyName = readName(data, name, 17) || readName(data, name, 2);
+
+  return {
+    data,
+    isCFF,
+    unitsPerEm,
+    numGlyphs,
+    ascender,
+    descender,
+    typoAscender,
+    typoDescender,
+    useTypoMetrics,
+    capHeight,
+    xHeight,
+    bbox,
+    italicAngle,
+    weightClass,
+    isItalic,
+    familyName,
+    subfamilyName,
+    fullName: readName(data, name, 4) || familyName,
+    postscriptName: readName(data, name, 6) || familyName.replace(/\s+/g, ''),
+    advanceWidths,
+    cmap: parseCmap(data, cmapTable)
+  };
+}
+
+/**
+ * Read and parse a font file from disk.
+ */
+export function loadFontFile(filePath: string): ParsedFont {
+  return parseFont(fs.readFileSync(filePath));
+}
+
+/**
+ * Glyph id for a code point (0 = .notdef when the font has no glyph for it)
+ */
+export function getGlyphId(font: ParsedFont, codePoint: number): number {
+  return font.cmap.get(codePoint) ?? 0;
+}
+
+/**
+ * Advance width of a string in font units, without kerning.
+ */
+export function getAdvanceWidth(font: ParsedFont, text: string): number {
+  let width = 0;
+  for (const ch of text) {
+    width += font.advanceWidths[getGlyphId(font, ch.codePointAt(0)!)] ?? 0;
+  }
+  return width;
+}
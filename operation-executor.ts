@@ -14,10 +14,12 @@ import {
 import { SceneData, Template, Theme, Scene } from './types';
 import { resolveParameters } from './scene-builder';
 import { renderScene } from './renderer';
+import { createThemeMeasurer } from './text-measure';
 import {
   handleCreateCanvas,
   handleAddImageLayer,
   handleAddTextLayer,
+  handleAddShapeLayer,
   handleEditTextLayer,
   handleSetLayerVisibility,
   handleDeleteLayer,
@@ -39,6 +41,7 @@ const OPERATION_HANDLERS: Record<string, OperationHandler> = {
   create_canvas: handleCreateCanvas,
   add_image_layer: handleAddImageLayer,
   add_text_layer: handleAddTextLayer,
+  add_shape_layer: handleAddShapeLayer,
   edit_text_layer: handleEditTextLayer,
   set_layer_visibility: handleSetLayerVisibility,
   delete_layer: handleDeleteLayer,
@@ -144,7 +147,7 @@ export async function executeOperations(
       theme: context.theme
     };
 
-    const preview = renderScene(scene);
+    const preview = renderScene(scene, { measurer: createThemeMeasurer(scene.theme) });
 
     // Send completion message
     const completion: ExecutionComplete = {
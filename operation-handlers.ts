@@ -1,4 +1,4 @@
-import { Element, DataItem, SceneData, Template, Theme, ElementStyle } from './types';
+import { Element, DataItem, SceneData, Template, Theme, ElementStyle, ShapeType } from './types';
 import { ExecutionContext, OperationResult, ValidationError, ReferenceError as OpReferenceError } from './operation-types';
 import {
   generateId,
@@ -8,10 +8,22 @@ import {
   findElement,
   removeElementFromTemplate,
   addElementToContainer,
-  calculateAnchorPosition
+  calculateAnchorPosition,
+  applyLayerEffects,
+  applyTextLayout,
+  applyShapeParameters,
+  buildTextRuns,
+  parsePageSize,
+  parseVisibilityConditions
 } from './scene-builder';
+import { runsToContent } from './rich-text';
+import { layoutScene, LayoutBox } from './layout';
+import { createThemeMeasurer, measureText } from './text-measure';
+import { pageSizeToPixels, resolvePhysicalUnits, getCanvasDPI, DEFAULT_DPI } from './units';
 import { runReplicateImageCreator } from './ck_backend';
 
+const SHAPE_TYPES: ShapeType[] = ['rectangle', 'circle', 'ellipse', 'polygon', 'star', 'line', 'arrow'];
+
 // ============================================================================
 // CANVAS & LAYER MANAGEMENT
 // ============================================================================
@@ -23,16 +35,25 @@ export async function handleCreateCanvas(
   context: ExecutionContext,
   params: any
 ): Promise<OperationResult> {
-  const { width, height, background_color } = params;
+  const { dpi, page_size, background_color } = params;
+
+  // A page size sets the canvas dimensions at the canvas DPI, unless they
+  // are given explicitly
+  const pageSize = page_size ? parsePageSize(page_size) : undefined;
+  const pagePixels = pageSize ? pageSizeToPixels(pageSize, dpi || DEFAULT_DPI) : undefined;
+  const width = params.width || pagePixels?.width;
+  const height = params.height || pagePixels?.height;
 
   if (!width || !height) {
-    throw new ValidationError('Canvas width and height are required');
+    throw new ValidationError('Canvas width and height, or a page_size, are required');
   }
 
   // Initialize template with canvas dimensions
   context.template.canvas = {
     width,
-    height
+    height,
+    ...(dpi ? { dpi } : {}),
+    ...(pageSize ? { page_size: pageSize } : {})
   };
 
   // If background color is specified, add a background rectangle
@@ -55,7 +76,7 @@ export async function handleCreateCanvas(
 
   return {
     success: true,
-    output: { width, height }
+    output: { width, height, dpi, ...(pageSize ? { page_size: pageSize } : {}) }
   };
 }
 
@@ -73,7 +94,17 @@ export async function handleAddImageLayer(
     y = 0,
     width,
     height,
-    opacity = 1
+    opacity = 1,
+    rotation = 0,
+    blend_mode = 'normal',
+    filters,
+    shadow_enabled = false,
+    shadow_color = '#000000',
+    shadow_offset_x = 2,
+    shadow_offset_y = 2,
+    shadow_blur = 4,
+    shadow_opacity = 0.5,
+    border_radius = 0
   } = params;
 
   if (!layer_name || !input_image) {
@@ -109,6 +140,19 @@ export async function handleAddImageLayer(
     style.height = typeof height === 'number' ? `${height}px` : height;
   }
 
+  applyLayerEffects(style, { opacity, rotation, blend_mode, filters });
+
+  if (border_radius) {
+    style.border_radius = typeof border_radius === 'number' ? `${border_radius}px` : border_radius;
+  }
+
+  // Add drop shadow if enabled
+  if (shadow_enabled) {
+    const shadow = hexToRGBA(shadow_color);
+    style.box_shadow = `${shadow_offset_x}px ${shadow_offset_y}px ${shadow_blur}px ` +
+      `rgba(${shadow.r}, ${shadow.g}, ${shadow.b}, ${shadow.a * shadow_opacity})`;
+  }
+
   const element: Element = {
     element_id: elementId,
     element_type: 'data_item',
@@ -149,10 +193,19 @@ export async function handleAddTextLayer(
     font_size,
     color = '#000000',
     opacity = 1,
+    rotation = 0,
     alignment,
     text_align,
     bold = false,
     italic = false,
+    max_width,
+    line_height,
+    stroke_color,
+    stroke_width,
+    curvature,
+    text_fit,
+    min_font_size,
+    max_font_size,
     shadow_enabled = false,
     shadow_color = '#000000',
     shadow_offset_x = 0,
@@ -213,16 +266,22 @@ export async function handleAddTextLayer(
         elementTop = `calc(100% - ${offset_y}px)`;
       }
     } else {
-      // For other anchors, calculate pixel positions
-      const estimatedWidth = 100;  // Text auto-sizes, this is approximate
-      const estimatedHeight = typeof sizeValue === 'number' ? sizeValue : 16;
+      // For other anchors, calculate pixel positions from the text's size
+      // in the theme's font
+      const measured = measureText(textValue, {
+        font: fontId,
+        font_size: typeof sizeValue === 'number' ? `${sizeValue}px` : sizeValue,
+        font_weight: bold ? 'bold' : undefined,
+        font_style: italic ? 'italic' : undefined,
+        line_height: typeof line_height === 'number' ? String(line_height) : undefined
+      }, createThemeMeasurer(context.theme), typeof max_width === 'number' && max_width > 0 ? max_width : Infinity);
 
       const position = calculateAnchorPosition(
         anchor,
         canvasWidth,
         canvasHeight,
-        estimatedWidth,
-        estimatedHeight,
+        measured.width,
+        measured.height,
         offset_x,
         offset_y
       );
@@ -271,6 +330,8 @@ export async function handleAddTextLayer(
     style.transform = elementTransform;
   }
 
+  applyLayerEffects(style, { opacity, rotation });
+
   // Add text shadow if enabled
   if (shadow_enabled) {
     // Ensure shadow color is in theme (we still need to do this for consistency)
@@ -290,6 +351,10 @@ export async function handleAddTextLayer(
     style
   };
 
+  applyTextLayout(element, context.theme, {
+    max_width, line_height, stroke_color, stroke_width, curvature, text_fit, min_font_size, max_font_size
+  });
+
   context.template.elements.push(element);
 
   // Track layer in layerMap
@@ -301,6 +366,91 @@ export async function handleAddTextLayer(
   };
 }
 
+/**
+ * Add shape layer to scene
+ */
+export async function handleAddShapeLayer(
+  context: ExecutionContext,
+  params: any
+): Promise<OperationResult> {
+  const {
+    layer_name,
+    shape_type,
+    x = 0,
+    y = 0,
+    width = 100,
+    height = 100,
+    fill,
+    stroke,
+    stroke_width,
+    sides,
+    points,
+    inner_radius,
+    corner_radius,
+    line_direction,
+    arrow_head,
+    opacity,
+    rotation
+  } = params;
+
+  if (!layer_name || !shape_type) {
+    throw new ValidationError('layer_name and shape_type are required');
+  }
+
+  if (!SHAPE_TYPES.includes(shape_type)) {
+    throw new ValidationError(`Unknown shape_type: ${shape_type} (expected one of ${SHAPE_TYPES.join(', ')})`);
+  }
+
+  const style: ElementStyle = {
+    position: 'absolute',
+    left: `${x}px`,
+    top: `${y}px`,
+    width: typeof width === 'number' ? `${width}px` : width,
+    height: typeof height === 'number' ? `${height}px` : height
+  };
+
+  // Lines have no fill
+  if (fill && shape_type !== 'line' && shape_type !== 'arrow') {
+    style.fill = ensureColorInTheme(context.theme, fill);
+  }
+
+  if (stroke) {
+    style.stroke = ensureColorInTheme(context.theme, stroke);
+  }
+
+  if (stroke_width !== undefined) {
+    style.stroke_width = typeof stroke_width === 'number' ? `${stroke_width}px` : stroke_width;
+  }
+
+  applyLayerEffects(style, { opacity, rotation });
+
+  const elementId = generateId('elem');
+
+  const element: Element = {
+    element_id: elementId,
+    element_type: 'shape',
+    shape_type,
+    style
+  };
+
+  applyShapeParameters(element, { sides, points, inner_radius });
+  if (corner_radius !== undefined) {
+    element.corner_radius = typeof corner_radius === 'number' ? `${corner_radius}px` : corner_radius;
+  }
+  if (line_direction) element.line_direction = line_direction;
+  if (arrow_head) element.arrow_head = arrow_head;
+
+  context.template.elements.push(element);
+
+  // Track layer in layerMap
+  context.layerMap.set(layer_name, elementId);
+
+  return {
+    success: true,
+    output: { elementId }
+  };
+}
+
 /**
  * Edit text layer properties
  */
@@ -310,12 +460,26 @@ export async function handleEditTextLayer(
 ): Promise<OperationResult> {
   const {
     layer_name,
+    text,
     text_content,
+    font,
     font_name,
+    size,
     font_size,
     color,
     opacity,
-    text_align
+    rotation,
+    alignment,
+    text_align,
+    max_width,
+    line_height,
+    stroke_color,
+    stroke_width,
+    curvature,
+    text_fit,
+    min_font_size,
+    max_font_size,
+    runs
   } = params;
 
   if (!layer_name) {
@@ -343,9 +507,29 @@ export async function handleEditTextLayer(
     throw new ValidationError(`Layer ${layer_name} is not a text layer`);
   }
 
-  // Update text content
-  if (text_content !== undefined) {
-    dataItem.content = text_content;
+  // Accept both "text" and "text_content", "font" and "font_name",
+  // "size" and "font_size", "alignment" and "text_align"
+  const textValue = text ?? text_content;
+  const fontValue = font ?? font_name;
+  const sizeValue = size ?? font_size;
+  const alignValue = alignment ?? text_align;
+
+  // Update text content; plain text replaces any styled runs
+  if (textValue !== undefined) {
+    dataItem.content = textValue;
+    delete dataItem.runs;
+  }
+
+  // Styled runs replace the content, which keeps the plain equivalent;
+  // an empty list goes back to plain text
+  if (runs !== undefined && runs !== null) {
+    const textRuns = await buildTextRuns(context.theme, runs);
+    if (textRuns.length > 0) {
+      dataItem.runs = textRuns;
+      dataItem.content = runsToContent(textRuns);
+    } else {
+      delete dataItem.runs;
+    }
   }
 
   // Update styles
@@ -353,13 +537,13 @@ export async function handleEditTextLayer(
     element.style = {};
   }
 
-  if (font_name !== undefined) {
-    const fontId = await ensureFontInTheme(context.theme, font_name);
+  if (fontValue !== undefined) {
+    const fontId = await ensureFontInTheme(context.theme, fontValue);
     element.style.font = fontId;
   }
 
-  if (font_size !== undefined) {
-    element.style.font_size = font_size;
+  if (sizeValue !== undefined) {
+    element.style.font_size = typeof sizeValue === 'number' ? `${sizeValue}px` : sizeValue;
   }
 
   if (color !== undefined) {
@@ -367,10 +551,15 @@ export async function handleEditTextLayer(
     element.style.color = colorId;
   }
 
-  if (text_align !== undefined) {
-    element.style.text_align = text_align;
+  if (alignValue !== undefined) {
+    element.style.text_align = alignValue;
   }
 
+  applyLayerEffects(element.style, { opacity, rotation });
+  applyTextLayout(element, context.theme, {
+    max_width, line_height, stroke_color, stroke_width, curvature, text_fit, min_font_size, max_font_size
+  });
+
   return {
     success: true,
     output: { elementId }
@@ -384,10 +573,10 @@ export async function handleSetLayerVisibility(
   context: ExecutionContext,
   params: any
 ): Promise<OperationResult> {
-  const { layer_name, visible } = params;
+  const { layer_name, visible, visible_when } = params;
 
-  if (!layer_name || visible === undefined) {
-    throw new ValidationError('layer_name and visible are required');
+  if (!layer_name || (visible === undefined && visible_when === undefined)) {
+    throw new ValidationError('layer_name and visible or visible_when are required');
   }
 
   // Find element
@@ -401,16 +590,25 @@ export async function handleSetLayerVisibility(
     throw new OpReferenceError(`Element not found: ${elementId}`);
   }
 
-  // Update visibility
-  if (!element.style) {
-    element.style = {};
+  // Conditions are evaluated when the scene renders; null removes them
+  if (visible_when === null) {
+    delete element.visible_when;
+  } else if (visible_when !== undefined) {
+    element.visible_when = parseVisibilityConditions(visible_when);
   }
 
-  element.style.display = visible ? 'block' : 'none';
+  // Update visibility
+  if (visible !== undefined) {
+    if (!element.style) {
+      element.style = {};
+    }
+
+    element.style.display = visible ? 'block' : 'none';
+  }
 
   return {
     success: true,
-    output: { elementId, visible }
+    output: { elementId, visible, visible_when: element.visible_when }
   };
 }
 
@@ -596,6 +794,23 @@ export async function handleSegment(
 // LAYOUT OPERATIONS
 // ============================================================================
 
+/**
+ * Layout boxes of every element in the scene by element id, measured with
+ * the theme's fonts
+ */
+function measureLayerBoxes(context: ExecutionContext): Map<string, LayoutBox> {
+  const scene = { data: context.data, template: context.template, theme: context.theme };
+  const layout = layoutScene(scene, { measurer: createThemeMeasurer(context.theme) });
+
+  const boxes = new Map<string, LayoutBox>();
+  const collect = (list: LayoutBox[]) => list.forEach(box => {
+    boxes.set(box.element.element_id, box);
+    collect(box.children);
+  });
+  collect(layout.boxes);
+  return boxes;
+}
+
 /**
  * Set layer anchor position
  */
@@ -629,10 +844,14 @@ export async function handleSetLayerAnchor(
   // Get canvas dimensions
   const canvasWidth = context.template.canvas?.width || 800;
   const canvasHeight = context.template.canvas?.height || 600;
+  const dpi = getCanvasDPI(context.template);
 
-  // Get element dimensions (default to 100x100 if not specified)
-  const elementWidth = parseFloat(element.style?.width || '100');
-  const elementHeight = parseFloat(element.style?.height || '100');
+  // Laid-out sizes, so text and other auto-sized layers anchor by their
+  // real bounding boxes
+  const boxes = measureLayerBoxes(context);
+  const elementBox = boxes.get(element.element_id);
+  const elementWidth = elementBox?.width ?? parseFloat(element.style?.width || '100');
+  const elementHeight = elementBox?.height ?? parseFloat(element.style?.height || '100');
 
   let baseWidth = canvasWidth;
   let baseHeight = canvasHeight;
@@ -651,10 +870,11 @@ export async function handleSetLayerAnchor(
       throw new OpReferenceError(`Relative element not found: ${relativeElementId}`);
     }
 
-    baseWidth = parseFloat(relativeElement.style?.width || '100');
-    baseHeight = parseFloat(relativeElement.style?.height || '100');
-    baseX = parseFloat(relativeElement.style?.left || '0');
-    baseY = parseFloat(relativeElement.style?.top || '0');
+    const relativeBox = boxes.get(relativeElement.element_id);
+    baseWidth = relativeBox?.width ?? parseFloat(relativeElement.style?.width || '100');
+    baseHeight = relativeBox?.height ?? parseFloat(relativeElement.style?.height || '100');
+    baseX = parseFloat(resolvePhysicalUnits(relativeElement.style?.left || '0', dpi));
+    baseY = parseFloat(resolvePhysicalUnits(relativeElement.style?.top || '0', dpi));
   }
 
   // Calculate position
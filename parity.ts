@@ -0,0 +1,1463 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vm from 'vm';
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+import { renderScene } from './renderer';
+import { renderSceneToSVG } from './svg-renderer';
+import { exportSceneToPDF } from './pdf-exporter';
+import { renderBatch, parseCSV, parseJSONRows } from './batch-render';
+import { convertSvgToScene } from './svg-converter';
+import { exportSceneToHTML, exportSceneToZip } from './bundle-exporter';
+import { createFontMeasurer, createThemeMeasurer, measureText } from './text-measure';
+import { metricsFromFont } from './font-metrics';
+import { resolveTextStyle, layoutScene } from './layout';
+import { buildBrowserBundle } from './browser-bundle';
+import { readBrowserBundle, BROWSER_GLOBAL_NAME, BROWSER_BUNDLE_PATH } from './browser-bundle-loader';
+import type { Scene, Element, DataItem, RenderOptions, RenderResult } from './types';
+import { parseFont, getAdvanceWidth } from './opentype';
+import { configureFontRegistry, findFont, resolveFontUrl, getThemeFont } from './font-registry';
+import { getCategoryFallback } from './font-stack';
+import { getPageSize, resolvePhysicalUnits } from './units';
+import { applyShapeParameters } from './scene-builder';
+import type { ParsedFont } from './opentype';
+
+/**
+ * Parity check: render the sample scenes with the Node renderer and with the
+ * built browser bundle, the file the server ships (run in a sandbox without
+ * any Node globals), and confirm the results are identical.
+ * The bundle must also be up to date with the sources. Then run the
+ * regression cases, grouped by feature: small scenes that pin down the
+ * behavior each feature was built for.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RegressionCase {
+  name: string;
+  run: () => void;   // throws (e.g. an AssertionError) when the behavior is broken
+}
+
+/** Regression cases of one feature, reported as "name (feature)" like the sample scene variants */
+interface RegressionGroup {
+  feature: string;
+  cases: RegressionCase[];
+}
+
+type BrowserRenderer = (scene: Scene, options?: RenderOptions) => RenderResult;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const rootDir = __dirname.replace(/[\\/]dist$/, '');
+
+function loadJson(fileName: string): any {
+  return JSON.parse(fs.readFileSync(path.join(rootDir, fileName), 'utf-8'));
+}
+
+function loadSampleScenes(): { name: string; scene: Scene }[] {
+  const data = loadJson('wedding-invitation-data.json');
+  const template = loadJson('wedding-invitation-template.json');
+
+  return [
+    { name: 'elegant', scene: { data, template, theme: loadJson('wedding-invitation-theme.json') } },
+    { name: 'modern', scene: { data, template, theme: loadJson('wedding-invitation-theme-modern.json') } }
+  ];
+}
+
+/**
+ * Evaluate the built bundle in a fresh context that only has a window
+ * object and the URL class every browser provides, the way a page loads it
+ * with a script tag
+ */
+function loadBrowserRenderer(): BrowserRenderer {
+  const sandbox: Record<string, any> = { URL };
+  sandbox.window = sandbox;
+  vm.runInNewContext(readBrowserBundle(), sandbox, { filename: 'scene-renderer.js' });
+  return sandbox[BROWSER_GLOBAL_NAME].renderScene;
+}
+
+let browserRenderer: BrowserRenderer | null = null;
+
+/** Render with the browser bundle; the result is plain data like the Node renderer's */
+function renderInBrowser(scene: Scene, options: RenderOptions = {}): RenderResult {
+  browserRenderer ??= loadBrowserRenderer();
+  // Round-trip through JSON so the sandbox's objects compare like plain data
+  return JSON.parse(JSON.stringify(browserRenderer(JSON.parse(JSON.stringify(scene)), options)));
+}
+
+/** Position and surrounding text of the first difference between two strings */
+function describeDifference(expected: string, actual: string): string {
+  let i = 0;
+  while (i < expected.length && expected[i] === actual[i]) i++;
+  const context = (text: string) => JSON.stringify(text.slice(Math.max(0, i - 30), i + 30));
+  return `first difference at ${i}: expected ${context(expected)}, got ${context(actual)}`;
+}
+
+/** Differences between the Node and browser renderings of a scene */
+function compareRenderings(server: RenderResult, browser: RenderResult): string[] {
+  const problems: string[] = [];
+  if (server.html !== browser.html) problems.push(`html ${describeDifference(server.html, browser.html)}`);
+  if (server.css !== browser.css) problems.push(`css ${describeDifference(server.css, browser.css)}`);
+  if (JSON.stringify(server.diagnostics) !== JSON.stringify(browser.diagnostics)) {
+    problems.push('diagnostics differ');
+  }
+  return problems;
+}
+
+/** Render with Node and the browser bundle, which must agree; returns the Node result */
+function render(scene: Scene, options: RenderOptions = {}): RenderResult {
+  const server = renderScene(scene, options);
+  const problems = compareRenderings(server, renderInBrowser(scene, options));
+  assert.deepStrictEqual(problems, [], 'browser and server renderings differ');
+  return server;
+}
+
+/** A small scene: the given elements and data items on a 400x300 canvas with a two-color theme */
+function caseScene(elements: Element[], dataItems: DataItem[] = []): Scene {
+  return {
+    data: { scene_id: 'case', data_items: dataItems },
+    template: { template_id: 'case', template_name: 'Case', canvas: { width: 400, height: 300 }, elements },
+    theme: {
+      theme_id: 'case',
+      theme_name: 'Case',
+      color_palette: [
+        { id: 'ink', name: 'Ink', r: 20, g: 20, b: 20, a: 1 },
+        { id: 'paper', name: 'Paper', r: 250, g: 245, b: 235, a: 1 }
+      ],
+      font_palette: []
+    }
+  };
+}
+
+function textItem(id: string, content: string): DataItem {
+  return { id, type: 'text', display_name: id, content };
+}
+
+/** Names too long for `shrinkingNames` even at its smallest text_fit size */
+const LONG_NAMES = 'Alexandria Catherine Montgomery-Whitfield & Maximilian Bartholomew Fitzgerald-Ashworth III';
+
+/** The 'names' item in a 400px box, shrinking from 64px down to 32px to fit */
+function shrinkingNames(): Element {
+  return {
+    element_id: 'names', element_type: 'data_item', data_item_id: 'names',
+    style: { width: '400px', font_size: '64px', text_fit: 'shrink', min_font_size: '32px' }
+  };
+}
+
+function svgElement(svgContent: string): Element {
+  return { element_id: 'art', element_type: 'svg', svg_content: svgContent, style: { width: '100px', height: '100px' } };
+}
+
+/** Markup of the element with the given class in classes-mode HTML */
+function elementHTML(html: string, className: string): string {
+  const match = html.match(new RegExp(`<div class="${className}">([\\s\\S]*?)</div>\\n`));
+  assert.ok(match, `no element with class ${className}`);
+  return match[1];
+}
+
+/** Drawing operators of a PDF: every compressed stream, inflated */
+function pdfOperators(pdf: Buffer): string {
+  const raw = pdf.toString('latin1');
+  const streams = raw.matchAll(/\/FlateDecode[^>]*>>\s*stream\r?\n/g);
+  return [...streams].map(match => {
+    const start = match.index! + match[0].length;
+    return zlib.inflateSync(Buffer.from(raw.slice(start, raw.indexOf('endstream', start)), 'latin1')).toString('latin1');
+  }).join('\n');
+}
+
+/**
+ * A minimal TrueType file: a 1000-unit em with ascender 800, descender -200
+ * and cap height 700, a glyph of the given advance width per character and,
+ * when given, a family name
+ */
+function buildTestFont(
+  advances: Record<string, number>,
+  options: { family?: string; weight?: number; italic?: boolean } = {}
+): Buffer {
+  const chars = Object.keys(advances);
+  const numGlyphs = chars.length + 1;
+
+  const head = Buffer.alloc(54);
+  head.writeUInt32BE(0x00010000, 0);
+  head.writeUInt16BE(1000, 18);
+  head.writeInt16BE(800, 42);
+
+  const hhea = Buffer.alloc(36);
+  hhea.writeUInt32BE(0x00010000, 0);
+  hhea.writeInt16BE(800, 4);
+  hhea.writeInt16BE(-200, 6);
+  hhea.writeUInt16BE(numGlyphs, 34);
+
+  const maxp = Buffer.alloc(6);
+  maxp.writeUInt32BE(0x00005000, 0);
+  maxp.writeUInt16BE(numGlyphs, 4);
+
+  const hmtx = Buffer.alloc(numGlyphs * 4);
+  hmtx.writeUInt16BE(500, 0);
+  chars.forEach((char, i) => hmtx.writeUInt16BE(advances[char], (i + 1) * 4));
+
+  // One format 4 segment per character, then the closing 0xFFFF segment
+  const codes = [...chars.map(char => char.codePointAt(0)!), 0xFFFF];
+  const segments = Buffer.alloc(codes.length * 8 + 2);
+  codes.forEach((code, i) => {
+    segments.writeUInt16BE(code, i * 2);
+    segments.writeUInt16BE(code, (codes.length + i) * 2 + 2);
+    segments.writeInt16BE(code === 0xFFFF ? 1 : ((i + 1 - code) << 16) >> 16, (codes.length * 2 + i) * 2 + 2);
+  });
+  const cmap = Buffer.alloc(12 + 14 + segments.length);
+  cmap.writeUInt16BE(1, 2);
+  cmap.writeUInt16BE(3, 4);
+  cmap.writeUInt16BE(1, 6);
+  cmap.writeUInt32BE(12, 8);
+  cmap.writeUInt16BE(4, 12);
+  cmap.writeUInt16BE(14 + segments.length, 14);
+  cmap.writeUInt16BE(codes.length * 2, 18);
+  segments.copy(cmap, 26);
+
+  const os2 = Buffer.alloc(96);
+  os2.writeUInt16BE(2, 0);
+  os2.writeUInt16BE(options.weight ?? 400, 4);
+  os2.writeUInt16BE(options.italic ? 1 : 0x40, 62);
+  os2.writeInt16BE(800, 68);
+  os2.writeInt16BE(-200, 70);
+  os2.writeInt16BE(500, 86);
+  os2.writeInt16BE(700, 88);
+
+  const tables: [string, Buffer][] = [['OS/2', os2], ['cmap', cmap], ['head', head], ['hhea', hhea], ['hmtx', hmtx], ['maxp', maxp]];
+  if (options.family) {
+    // One Windows English family name (name id 1), in UTF-16BE
+    const family = Buffer.from(options.family, 'utf16le').swap16();
+    const name = Buffer.alloc(18);
+    name.writeUInt16BE(1, 2);
+    name.writeUInt16BE(18, 4);
+    name.writeUInt16BE(3, 6);
+    name.writeUInt16BE(1, 8);
+    name.writeUInt16BE(0x0409, 10);
+    name.writeUInt16BE(1, 12);
+    name.writeUInt16BE(family.length, 14);
+    tables.push(['name', Buffer.concat([name, family])]);
+  }
+  const directory = Buffer.alloc(12 + tables.length * 16);
+  directory.writeUInt32BE(0x00010000, 0);
+  directory.writeUInt16BE(tables.length, 4);
+  let offset = directory.length;
+  const padded = tables.map(([tag, table], i) => {
+    directory.write(tag, 12 + i * 16, 'latin1');
+    directory.writeUInt32BE(offset, 12 + i * 16 + 8);
+    directory.writeUInt32BE(table.length, 12 + i * 16 + 12);
+    const data = Buffer.concat([table, Buffer.alloc((4 - table.length % 4) % 4)]);
+    offset += data.length;
+    return data;
+  });
+  return Buffer.concat([directory, ...padded]);
+}
+
+/** Files of a zip archive by name, read from its local file headers */
+/** Run a case in a fresh temporary directory, removed afterwards */
+function withTempDir(prefix: string, run: (dir: string) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  try {
+    run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function zipEntries(zip: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034B50) {
+    const method = zip.readUInt16LE(offset + 8);
+    const size = zip.readUInt32LE(offset + 18);
+    const nameEnd = offset + 30 + zip.readUInt16LE(offset + 26);
+    const dataStart = nameEnd + zip.readUInt16LE(offset + 28);
+    const data = zip.subarray(dataStart, dataStart + size);
+    entries.set(zip.toString('utf8', offset + 30, nameEnd), method === 8 ? zlib.inflateRawSync(data) : data);
+    offset = dataStart + size;
+  }
+  return entries;
+}
+
+// ============================================================================
+// REGRESSION CASES
+// ============================================================================
+
+const REGRESSION_GROUPS: RegressionGroup[] = [
+  {
+    feature: 'SVG import',
+    cases: [
+      {
+        name: 'viewBox coordinates are scaled onto the canvas and rounded rects stay shapes',
+        run: () => {
+          const { template } = convertSvgToScene(
+            '<svg width="400" height="200" viewBox="0 0 200 100">' +
+            '<rect x="10" y="10" width="50" height="20" rx="4" fill="red" />' +
+            '<circle cx="100" cy="50" r="10" fill="blue" /></svg>',
+            'import'
+          );
+          assert.deepStrictEqual(template.canvas, { width: 400, height: 200 });
+          assert.deepStrictEqual(
+            template.elements.map(element => [element.shape_type, element.corner_radius, element.style?.left, element.style?.width]),
+            [['rectangle', '8px', '20px', '100px'], ['circle', undefined, '180px', '40px']]
+          );
+
+          const stretched = convertSvgToScene(
+            '<svg width="400" height="100" viewBox="0 0 100 100" preserveAspectRatio="none">' +
+            '<circle cx="50" cy="50" r="10" fill="blue" /></svg>',
+            'import'
+          );
+          assert.deepStrictEqual(
+            stretched.template.elements.map(element => [element.shape_type, element.style?.width, element.style?.height]),
+            [['ellipse', '80px', '20px']]
+          );
+        }
+      },
+      {
+        name: 'fonts that cannot be found are reported instead of inventing font files',
+        run: () => {
+          const { theme, diagnostics } = convertSvgToScene(
+            '<svg width="100" height="100"><text x="0" y="50" font-family="Nowhere Sans, Georgia">Hi</text></svg>',
+            'import'
+          );
+          assert.deepStrictEqual(theme.font_palette, [
+            { font_id: 'font_nowhere_sans', font_name: 'Nowhere Sans', font_url: '', fallback: ['Georgia'] }
+          ]);
+          assert.deepStrictEqual(
+            diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path]),
+            [['unknown_font', 'font_palette/font_nowhere_sans']]
+          );
+        }
+      },
+      {
+        name: 'SVG kept as raw markup escapes inherited attributes and gives each copy of its definitions its own ids',
+        run: () => {
+          const svg = '<svg width="100" height="100"><defs><linearGradient id="fade"><stop offset="0" stop-color="red" /></linearGradient></defs>' +
+            '<g font-family="&quot;A&amp;B&quot; &lt;Serif&gt;">' +
+            '<rect id="box" transform="rotate(10)" width="10" height="10" fill="url(#fade)" />' +
+            '<use transform="scale(2)" href="#box" /></g></svg>';
+          const first = convertSvgToScene(svg, 'my invite').template.elements;
+          const second = convertSvgToScene(svg, 'other').template.elements;
+
+          const contents = [...first, ...second].map(element => element.svg_content!);
+          assert.deepStrictEqual(contents.map(content => content.match(/ id="[^"]*"/g)), [
+            [' id="my_invite-svg_1-fade"', ' id="box"'],
+            [' id="my_invite-svg_2-fade"'],
+            [' id="other-svg_1-fade"', ' id="box"'],
+            [' id="other-svg_2-fade"']
+          ]);
+          assert.ok(contents[0].includes('<g font-family="&quot;A&amp;B&quot; &lt;Serif&gt;"><rect id="box" transform="rotate(10)" ' +
+            'width="10" height="10" fill="url(#my_invite-svg_1-fade)" /></g>'), contents[0]);
+          // Ids outside the definitions are kept, so references between elements still work
+          assert.ok(contents[1].includes('<use transform="scale(2)" href="#box" />'), contents[1]);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'SVG export',
+    cases: [
+      {
+        name: 'local images and fonts are embedded as data URIs',
+        run: () => {
+          withTempDir('svg-case-', baseDir => {
+            fs.writeFileSync(path.join(baseDir, 'photo.png'), Buffer.from('89504e470d0a1a0a', 'hex'));
+            fs.writeFileSync(path.join(baseDir, 'script.ttf'), Buffer.from('font'));
+            const scene = caseScene([
+              { element_id: 'photo', element_type: 'image', image_url: 'photo.png', style: { width: '50px', height: '50px' } },
+              svgElement('<svg><image href="photo.png" width="10" height="10" /></svg>')
+            ]);
+            scene.theme.font_palette = [{ font_id: 'script', font_name: 'Script', font_url: 'script.ttf' }];
+
+            const svg = renderSceneToSVG(scene, { baseDir });
+            assert.ok(!/(href|url\()=?["']?(photo\.png|script\.ttf)/.test(svg), svg);
+            assert.strictEqual(svg.split('data:image/png;base64,iVBORw0KGgo=').length - 1, 2, svg);
+            assert.ok(svg.includes(`data:font/ttf;base64,${Buffer.from('font').toString('base64')}`), svg);
+          });
+        }
+      },
+      {
+        name: 'font CSS and trusted SVG content stay well-formed',
+        run: () => {
+          const scene = caseScene([svgElement('<svg><g><rect disabled>&nbsp;<br></svg>')]);
+          scene.theme.font_palette = [{ font_id: 'odd', font_name: 'Odd', font_url: 'https://example.com/odd]]>.woff2' }];
+
+          const svg = renderSceneToSVG(scene, { trusted: true });
+          const cdata = svg.match(/<style><!\[CDATA\[([\s\S]*?)\]\]><\/style>/);
+          assert.ok(cdata && cdata[1].includes('odd]]]]><![CDATA[>.woff2'), svg);
+          assert.ok(svg.includes('<svg width="100" height="100"><g><rect disabled="">&#160;<br></br></rect></g></svg>'), svg);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'PDF export',
+    cases: [
+      {
+        name: 'svg elements are drawn in PDF as their basic shapes',
+        run: () => {
+          const { pdf, diagnostics } = exportSceneToPDF(caseScene([svgElement(
+            '<svg viewBox="0 0 50 50"><rect width="50" height="25" fill="#ff0000" />' +
+            '<circle cx="25" cy="37.5" r="12.5" fill="none" stroke="blue" stroke-width="2" /></svg>'
+          )]));
+          assert.deepStrictEqual(diagnostics, []);
+          const operators = pdfOperators(pdf);
+          // The viewBox doubles everything: a 100x50 red rectangle and a circle stroked 4px wide
+          assert.ok(operators.includes('1 0 0 rg\n0 0 m\n100 0 l\n100 50 l\n0 50 l\nh\nf'), operators);
+          assert.ok(operators.includes('0 0 1 RG\n4 w\n75 75 m\n'), operators);
+        }
+      },
+      {
+        name: 'what cannot be drawn is returned as diagnostics',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { font: 'lora' } },
+            { element_id: 'photo', element_type: 'image', image_url: 'https://example.com/photo.jpg' },
+            svgElement('<svg><text>Hi</text><rect width="10" height="10" /></svg>')
+          ], [textItem('names', 'Emma & Caden')]);
+          scene.theme.font_palette = [{ font_id: 'lora', font_name: 'Lora', font_url: 'https://fonts.googleapis.com/css2?family=Lora' }];
+
+          const { diagnostics } = exportSceneToPDF(scene);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.element_path]), [
+            ['warning', 'font_fallback', 'font_palette/lora'],
+            ['error', 'missing_resource', 'photo'],
+            ['error', 'unsupported_feature', 'art']
+          ]);
+        }
+      },
+      {
+        name: 'PDF pages are sized at the print DPI with bleed and crop marks, and the xref table points at every object',
+        run: () => {
+          const scene = caseScene([]);
+          scene.template.canvas.dpi = 144;
+          const boxes = (pdf: Buffer) => pdf.toString('latin1').match(/\/MediaBox (\[[^\]]*\]) \/BleedBox (\[[^\]]*\]) \/TrimBox (\[[^\]]*\])/)!.slice(1);
+
+          // 400x300px at 144 DPI is a 200x150pt trim box; 3mm of bleed is 8.504pt
+          const { pdf } = exportSceneToPDF(scene, { bleed: 3 });
+          assert.deepStrictEqual(boxes(pdf), ['[0 0 217.008 167.008]', '[0 0 217.008 167.008]', '[8.504 8.504 208.504 158.504]']);
+
+          // Crop marks sit in a 10mm slug around the bleed
+          const marked = exportSceneToPDF(scene, { bleed: 3, cropMarks: true }).pdf;
+          assert.deepStrictEqual(boxes(marked)[2], '[36.85 36.85 236.85 186.85]');
+
+          const raw = pdf.toString('latin1');
+          assert.ok(raw.startsWith('%PDF-1.7'), raw.slice(0, 20));
+          const xref = Number(raw.match(/startxref\s+(\d+)\s+%%EOF\s*$/)![1]);
+          assert.ok(raw.startsWith('xref', xref), 'startxref does not point at the xref table');
+          const offsets = [...raw.slice(xref).matchAll(/^(\d{10}) 00000 n\s*$/gm)].map(match => Number(match[1]));
+          offsets.forEach((offset, index) => assert.ok(raw.startsWith(`${index + 1} 0 obj`, offset), `object ${index + 1} is not at ${offset}`));
+        }
+      }
+    ]
+  },
+  {
+    feature: 'sanitizing',
+    cases: [
+      {
+        name: 'unterminated tags in SVG content are escaped',
+        run: () => {
+          const scene = caseScene([svgElement('<svg><img src=x onerror=alert(1)//')]);
+          for (const mode of ['classes', 'inline'] as const) {
+            const { html } = render(scene, { mode });
+            assert.ok(!/<img/i.test(html), `${mode}: raw <img> tag in ${html}`);
+            assert.ok(html.includes('<svg>&lt;img src=x onerror=alert(1)//</svg>'), `${mode}: ${html}`);
+          }
+        }
+      },
+      {
+        name: 'style, script and non-SVG elements are removed or escaped',
+        run: () => {
+          const { html } = render(caseScene([svgElement(
+            '<svg><style>body { display: none }</style><script>alert(1)</script>' +
+            '<div>text</div><title><img src=x onerror=alert(1)></title><rect width="10" height="10" /></svg>'
+          )]));
+          const svg = elementHTML(html, 'art');
+          assert.ok(!/<(style|script|div|img)\b/i.test(svg), svg);
+          assert.strictEqual(
+            svg,
+            '<svg>&lt;div&gt;text&lt;/div&gt;<title>&lt;img src=x onerror=alert(1)&gt;</title><rect width="10" height="10" /></svg>'
+          );
+        }
+      },
+      {
+        name: 'attribute quoting tricks cannot add event handlers or script URLs',
+        run: () => {
+          const { html } = render(caseScene([svgElement(
+            '<svg><rect x="1"onload="alert(1)" title=\'a>b" onclick="x\' /><circle/onload=alert(1) r="2" />' +
+            '<a href="jav&#x09;ascript:alert(1)"><text>go</text></a><rect title=\'unterminated onload=alert(1)></svg>'
+          )]));
+          const svg = elementHTML(html, 'art');
+          for (const tag of svg.match(/<[a-zA-Z][^>]*>/g) || []) {
+            assert.ok(!/\son\w+=/i.test(tag.replace(/"[^"]*"/g, '""')), `event handler attribute in ${tag}`);
+          }
+          assert.ok(!/javascript/i.test(svg), svg);
+          assert.ok(svg.includes('<rect x="1" title="a&gt;b&quot; onclick=&quot;x" />'), svg);
+          assert.ok(svg.includes('&lt;rect title=\'unterminated onload=alert(1)&gt;'), svg);
+        }
+      },
+      {
+        name: 'text content keeps inline formatting and escapes other markup',
+        run: () => {
+          const { html } = render(caseScene(
+            [{ element_id: 'line', element_type: 'data_item', data_item_id: 'line' }],
+            [textItem('line', 'Emma <b>&amp;</b> Caden<br/><img src=x onerror=alert(1)><script>alert(1)</script>')]
+          ));
+          assert.strictEqual(
+            elementHTML(html, 'line'),
+            'Emma <b>&amp;</b> Caden<br>&lt;img src=x onerror=alert(1)&gt;&lt;script&gt;alert(1)&lt;/script&gt;'
+          );
+        }
+      },
+      {
+        name: 'sanitized SVG content is well-formed XML in SVG exports',
+        run: () => {
+          const svg = renderSceneToSVG(caseScene([svgElement('<svg><g><rect disabled>&nbsp;<img src=x')]));
+          assert.ok(svg.includes('<svg width="100" height="100"><g><rect disabled="">&#160;&lt;img src=x</rect></g></svg>'), svg);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'HTML output',
+    cases: [
+      {
+        name: 'namespaced scenes prefix every class and scope every selector to their root',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'card', element_type: 'container', style: { width: '200px', background_color: 'paper' }, children: [
+              { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { color: 'ink' } }
+            ] }
+          ], [textItem('names', 'Emma & Caden')]);
+
+          const first = render(scene, { namespace: 'guest-1' });
+          const second = render(scene, { namespace: 'guest-2' });
+          assert.ok(first.html.startsWith('<div class="scene-container guest-1">'), first.html);
+          const classes = (html: string) => [...html.matchAll(/class="([^"]*)"/g)].map(match => match[1]);
+          assert.deepStrictEqual(classes(first.html), ['scene-container guest-1', 'guest-1-card', 'guest-1-card-names']);
+          assert.deepStrictEqual(classes(second.html), ['scene-container guest-2', 'guest-2-card', 'guest-2-card-names']);
+
+          const selectors = [...first.css.matchAll(/^([^\s{}][^{}]*?)\s*\{/gm)].map(match => match[1]);
+          assert.ok(selectors.length > 0 && selectors.every(selector => /^(\.scene-container\.guest-1|\.guest-1 )/.test(selector)), selectors.join('\n'));
+        }
+      },
+      {
+        name: 'inline mode lays positioned elements out in tables with every style inlined',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'band', element_type: 'shape', shape_type: 'rectangle',
+              style: { position: 'absolute', left: '0px', top: '0px', width: '400px', height: '40px', fill: 'ink' } },
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names',
+              style: { position: 'absolute', left: '100px', top: '100px', width: '200px', color: 'ink', text_align: 'center' } }
+          ], [textItem('names', 'Emma &amp; <b>Caden</b>')]);
+
+          const { html, css } = render(scene, { mode: 'inline' });
+          assert.strictEqual(css, '');
+          assert.ok(!/class=|position:|<style/.test(html), html);
+          // 60px of space between the band and the names, which sit in a 200px cell between 100px spacers
+          assert.ok(html.includes('<td height="60" style="height: 60px; font-size: 0; line-height: 0">&nbsp;</td>'), html);
+          assert.ok(html.includes('<td width="100" style="width: 100px; font-size: 0; line-height: 0">&nbsp;</td>\n' +
+            '        <td valign="top" width="200">'), html);
+          assert.ok(html.includes('text-align: center; color: #141414">Emma &amp; <b>Caden</b></div>'), html);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'bundles',
+    cases: [
+      {
+        name: 'HTML bundles embed local images and fonts, zip bundles collect them under assets/',
+        run: () => {
+          withTempDir('bundle-case-', baseDir => {
+            const png = Buffer.from('89504e470d0a1a0a', 'hex');
+            fs.mkdirSync(path.join(baseDir, 'pics'));
+            fs.writeFileSync(path.join(baseDir, 'photo.png'), png);
+            fs.writeFileSync(path.join(baseDir, 'pics', 'photo.png'), png);
+            fs.writeFileSync(path.join(baseDir, 'script.ttf'), Buffer.from('font'));
+            const scene = caseScene([
+              { element_id: 'photo', element_type: 'image', image_url: 'photo.png', style: { width: '50px', height: '50px' } },
+              { element_id: 'other', element_type: 'image', image_url: 'pics/photo.png', style: { width: '50px', height: '50px' } },
+              { element_id: 'remote', element_type: 'image', image_url: 'https://example.com/remote.png', style: { width: '50px', height: '50px' } }
+            ]);
+            scene.theme.font_palette = [{ font_id: 'script', font_name: 'Script', font_url: 'script.ttf' }];
+
+            const page = exportSceneToHTML(scene, { baseDir });
+            assert.strictEqual(page.split('data:image/png;base64,iVBORw0KGgo=').length - 1, 2, page);
+            assert.ok(page.includes('data:font/ttf;base64,Zm9udA=='), page);
+            assert.ok(page.includes('https://example.com/remote.png'), page);
+
+            const entries = zipEntries(exportSceneToZip(scene, { baseDir }));
+            assert.deepStrictEqual([...entries.keys()], ['index.html', 'assets/photo.png', 'assets/photo-2.png', 'assets/script.ttf']);
+            assert.deepStrictEqual(entries.get('assets/photo-2.png'), png);
+            const index = entries.get('index.html')!.toString('utf8');
+            assert.ok(['assets/photo.png', 'assets/photo-2.png', 'assets/script.ttf', 'https://example.com/remote.png']
+              .every(url => index.includes(url)), index);
+          });
+        }
+      },
+      {
+        name: 'bundles collect the images of repeater templates and of list records shown as images',
+        run: () => {
+          withTempDir('bundle-case-', baseDir => {
+            for (const file of ['frame.png', 'empty.png', 'ana.png']) fs.writeFileSync(path.join(baseDir, file), Buffer.from(file));
+            const repeater = (elementId: string, listId: string): Element => ({
+              element_id: elementId, element_type: 'repeater', data_item_id: listId,
+              item_template: { element_id: 'guest', element_type: 'container', children: [
+                { element_id: 'frame', element_type: 'image', image_url: 'frame.png' },
+                { element_id: 'photo', element_type: 'image', field: 'photo' },
+                { element_id: 'name', element_type: 'data_item', field: 'name' }
+              ] },
+              empty_template: { element_id: 'nobody', element_type: 'image', image_url: 'empty.png' }
+            });
+            const scene = caseScene([repeater('guest_list', 'guests'), repeater('empty_list', 'nobody')], [
+              { id: 'guests', type: 'list', display_name: 'Guests', records: [{ name: 'ana.png', photo: 'ana.png' }] },
+              { id: 'nobody', type: 'list', display_name: 'Nobody', records: [] }
+            ]);
+
+            const entries = zipEntries(exportSceneToZip(scene, { baseDir }));
+            assert.deepStrictEqual([...entries.keys()], ['index.html', 'assets/ana.png', 'assets/frame.png', 'assets/empty.png']);
+            const index = entries.get('index.html')!.toString('utf8');
+            assert.ok(index.includes('src="assets/ana.png"') && index.includes('>ana.png</div>'), index);
+          });
+        }
+      }
+    ]
+  },
+  {
+    feature: 'diagnostics',
+    cases: [
+      {
+        name: 'text that text_fit cannot fit at min_font_size is reported',
+        run: () => {
+          const fitting = render(caseScene([shrinkingNames()], [textItem('names', 'Emma & Caden')]));
+          assert.deepStrictEqual(fitting.diagnostics, []);
+
+          const { diagnostics } = render(caseScene([shrinkingNames()], [textItem('names', LONG_NAMES)]));
+          assert.strictEqual(diagnostics.length, 1, JSON.stringify(diagnostics));
+          assert.strictEqual(diagnostics[0].code, 'text_overflow');
+          assert.strictEqual(diagnostics[0].element_path, 'names');
+          assert.match(diagnostics[0].message, /smallest text_fit size \(32px\) and wraps onto \d+ lines/);
+        }
+      },
+      {
+        name: 'wrapped text growing past a container with a declared height is reported',
+        run: () => {
+          const scene = caseScene([{
+            element_id: 'card', element_type: 'container', style: { width: '200px', height: '60px' },
+            children: [{ element_id: 'message', element_type: 'data_item', data_item_id: 'message', style: { font_size: '16px' } }]
+          }], [textItem('message', 'Join us for an evening of dinner, dancing and celebration under the stars '.repeat(3))]);
+
+          const { diagnostics } = render(scene);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path]),
+            [['text_overflow', 'card/message']]);
+        }
+      },
+      {
+        name: 'diagnostics name the problem element by its path and skip empty boxes on the canvas edge',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'card', element_type: 'container', style: { width: '200px' }, children: [
+              { element_id: 'names', element_type: 'data_item', data_item_id: 'nowhere' },
+              { element_id: 'dot', element_type: 'shape', shape_type: 'circle', style: { fill: 'gilt', font: 'lora', width: 'wide' } }
+            ] },
+            { element_id: 'far', element_type: 'shape', shape_type: 'rectangle',
+              style: { position: 'absolute', left: '500px', top: '0px', width: '10px', height: '10px', fill: 'ink' } }
+          ]);
+
+          const { diagnostics } = render(scene);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.element_path]), [
+            ['error', 'missing_data_item', 'card/names'],
+            ['warning', 'unknown_color', 'card/dot'],
+            ['warning', 'unknown_font', 'card/dot'],
+            ['warning', 'invalid_css_value', 'card/dot'],
+            ['warning', 'outside_canvas', 'far']
+          ]);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'shapes',
+    cases: [
+      {
+        name: 'shapes render as SVG outlines inset by half their stroke',
+        run: () => {
+          const shape = (id: string, fields: Partial<Element>): Element => ({
+            element_id: id, element_type: 'shape', style: { width: '100px', height: '50px', fill: 'ink', stroke: 'ink', stroke_width: '2px' }, ...fields
+          });
+          const { html } = render(caseScene([
+            shape('rounded', { shape_type: 'rectangle', corner_radius: '10px 0' }),
+            shape('hex', { shape_type: 'polygon', sides: 6 }),
+            shape('star', { shape_type: 'star', points: 5 }),
+            shape('arrow', { shape_type: 'arrow', line_direction: 'diagonal_down' })
+          ]));
+          const paths = (className: string) => [...elementHTML(html, className).matchAll(/ d="([^"]*)"/g)].map(match => match[1]);
+
+          // '10px 0' rounds the top-left and bottom-right corners
+          assert.deepStrictEqual(paths('rounded'), ['M10 1 L99 1 L99 40 C99 44.97 94.97 49 90 49 L1 49 L1 10 C1 5.03 5.03 1 10 1 Z']);
+          assert.deepStrictEqual(paths('hex'), ['M50 1 L92.44 13 L92.44 37 L50 49 L7.56 37 L7.56 13 Z']);
+          assert.strictEqual(paths('star')[0].split(/[ML]/).filter(Boolean).length, 10);
+          // The line stops short of the corner, where the arrow head ends
+          assert.deepStrictEqual(paths('arrow'), ['M0 0 L92.84 46.42', 'M100 50 L91.06 50 L94.63 42.84 Z']);
+        }
+      },
+      {
+        name: 'shape operations reject polygons and stars that cannot be drawn',
+        run: () => {
+          const star: Element = { element_id: 'star', element_type: 'shape', shape_type: 'star' };
+          applyShapeParameters(star, { points: 7, inner_radius: 0.25 });
+          assert.deepStrictEqual([star.points, star.inner_radius], [7, 0.25]);
+
+          assert.throws(() => applyShapeParameters({ ...star }, { sides: 2 }), /^ValidationError: sides must be a whole number of at least 3, got 2$/);
+          assert.throws(() => applyShapeParameters({ ...star }, { points: 4.5 }), /^ValidationError: points must be a whole number of at least 3, got 4.5$/);
+          assert.throws(() => applyShapeParameters({ ...star }, { inner_radius: -0.5 }), /^ValidationError: inner_radius must be a number between 0 and 1, got -0.5$/);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'fills and effects',
+    cases: [
+      {
+        name: 'gradients fill shapes and text in HTML, SVG and PDF output',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'band', element_type: 'shape', shape_type: 'rectangle', style: { width: '100px', height: '50px', fill: 'dawn' } },
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { color: 'dawn' } }
+          ], [textItem('names', 'Emma & Caden')]);
+          scene.theme.gradient_palette = [
+            { id: 'dawn', name: 'Dawn', type: 'linear', angle: 90, stops: [{ color: 'paper', offset: 1 }, { color: 'ink', offset: 0 }] },
+            { id: 'glow', name: 'Glow', type: 'radial', stops: [{ color: 'gilt', offset: 0 }] }
+          ];
+
+          const { css, diagnostics } = render(scene);
+          // Stops are sorted by offset
+          const gradient = 'linear-gradient(90deg, rgba(20, 20, 20, 1) 0%, rgba(250, 245, 235, 1) 100%)';
+          assert.ok(css.includes(`.band {\n  position: relative;\n  z-index: 1;\n  width: 100px;\n  height: 50px;\n  background-image: ${gradient};`), css);
+          assert.ok(css.includes(`background-image: ${gradient};\n  -webkit-background-clip: text;\n  background-clip: text;`), css);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path]), [['unknown_color', 'gradient_palette/glow']]);
+
+          const svg = renderSceneToSVG(scene);
+          assert.ok(svg.includes('<linearGradient id="band-fill" gradientUnits="userSpaceOnUse" x1="0" y1="25" x2="100" y2="25">'), svg);
+          assert.ok(svg.includes('<rect x="0" y="0" width="100" height="50" fill="url(#band-fill)" />'), svg);
+          assert.ok(/<text [^>]*fill="url\(#names-text\)"/.test(svg), svg);
+
+          // PDF draws the band with an axial shading clipped to it
+          const { pdf } = exportSceneToPDF(scene);
+          assert.ok(/\/ShadingType 2/.test(pdf.toString('latin1')), 'no axial shading in the PDF');
+          assert.ok(/\/Sh1 sh/.test(pdfOperators(pdf)), pdfOperators(pdf));
+        }
+      },
+      {
+        name: 'opacity, rotation, blend modes and filters reach CSS and SVG, and invalid values are reported',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'card', element_type: 'shape', shape_type: 'rectangle', style: {
+              width: '100px', height: '50px', fill: 'ink', opacity: '0.5', rotation: '15', blend_mode: 'multiply',
+              filters: [{ type: 'blur', value: 2 }, { type: 'grayscale', value: 1 }]
+            } },
+            { element_id: 'odd', element_type: 'shape', shape_type: 'rectangle', style: {
+              width: '10px', height: '10px', fill: 'ink', opacity: '2', blend_mode: 'dodge', filters: [{ type: 'glow' as any, value: 1 }]
+            } }
+          ]);
+
+          const { css, diagnostics } = render(scene);
+          assert.ok(css.includes('  opacity: 0.5;\n  transform: rotate(15deg);\n  mix-blend-mode: multiply;\n  filter: blur(2px) grayscale(1);\n}'), css);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message.split(':')[0]]), [
+            ['invalid_css_value', 'odd', "Style 'opacity'"],
+            ['invalid_css_value', 'odd', "Style 'blend_mode'"],
+            ['invalid_css_value', 'odd', "Style 'filters'"]
+          ]);
+
+          // SVG rotates around the element's center
+          const svg = renderSceneToSVG(scene);
+          assert.ok(svg.includes('<g id="card" transform="rotate(15, 50, 25)" opacity="0.5" style="mix-blend-mode: multiply; filter: blur(2px) grayscale(1)">'), svg);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'text layout',
+    cases: [
+      {
+        name: 'text outlines, max width and curved text; shape outlines never become text strokes',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'outlined', element_type: 'data_item', data_item_id: 'names', style: { color: 'ink', stroke: 'paper', stroke_width: '2px', max_width: '60px' } },
+            { element_id: 'arc', element_type: 'data_item', data_item_id: 'names', curvature: 90, style: { width: '200px', color: 'ink', stroke: 'paper' } },
+            { element_id: 'dot', element_type: 'shape', shape_type: 'circle', style: { width: '10px', height: '10px', fill: 'ink', stroke: 'paper', stroke_width: '2px' } }
+          ], [textItem('names', 'Emma')]);
+
+          const { html, css, diagnostics } = render(scene);
+          assert.deepStrictEqual(diagnostics, []);
+          assert.ok(css.includes('  -webkit-text-stroke: 2px rgba(250, 245, 235, 1);\n  paint-order: stroke fill;\n  max-width: 60px;\n}'), css);
+          assert.strictEqual(css.match(/-webkit-text-stroke/g)?.length, 1, css);
+
+          // Curved text is an SVG text path, outlined with stroke attributes
+          const arc = elementHTML(html, 'arc');
+          assert.ok(/^<svg [^>]*><path id="arc-arc" d="M[\d. ]+ A[\d. ]+ 0 0 1 [\d. ]+" fill="none" \/>/.test(arc), arc);
+          assert.ok(arc.includes('stroke="rgba(250, 245, 235, 1)" stroke-width="1" paint-order="stroke"><textPath href="#arc-arc" startOffset="50%" text-anchor="middle">Emma</textPath>'), arc);
+
+          const svg = renderSceneToSVG(scene);
+          assert.ok(svg.includes('fill="rgb(20, 20, 20)" stroke="rgb(250, 245, 235)" stroke-width="2" paint-order="stroke"'), svg);
+          assert.ok(svg.includes('<textPath href="#arc-arc" startOffset="50%" text-anchor="middle">Emma</textPath>'), svg);
+        }
+      },
+      {
+        name: 'text_fit shrinks and fills within its size range and reports text that cannot fit',
+        run: () => {
+          const fitted = (style: Element['style']): Element => ({ element_id: '', element_type: 'data_item', data_item_id: 'names', style });
+          const scene = caseScene([
+            { ...fitted({ width: '120px', font_size: '40px', text_fit: 'shrink' }), element_id: 'shrunk' },
+            { ...fitted({ width: '300px', font_size: '12px', text_fit: 'shrink' }), element_id: 'kept' },
+            { ...fitted({ width: '200px', height: '40px', text_fit: 'fill', max_font_size: '30px' }), element_id: 'filled' },
+            { ...fitted({ width: '20px', text_fit: 'shrink', min_font_size: '10px' }), element_id: 'cramped' },
+            { ...fitted({ text_fit: 'squeeze' }), element_id: 'odd' }
+          ], [textItem('names', 'Emma and Caden')]);
+
+          const { css, diagnostics } = render(scene);
+          const fontSize = (className: string) => css.match(new RegExp(`\\.${className} \\{[^}]*?font-size: ([\\d.]+px);\\n  line-height: 1\\.2;`))?.[1];
+          assert.deepStrictEqual(['shrunk', 'kept', 'filled', 'cramped'].map(fontSize), ['15.3px', '12px', '25.6px', '10px'], css);
+          assert.ok(!/text[-_]fit|min[-_]font/.test(css), css);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['invalid_css_value', 'odd', "Style 'text_fit': 'squeeze' is not one of none, shrink, fill"],
+            ['text_overflow', 'cramped', 'Text does not fit its 20px width at the smallest text_fit size (10px) and wraps onto 3 lines']
+          ]);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'rich text',
+    cases: [
+      {
+        name: 'rich text runs become escaped spans and tspans, break at newlines and report their own styles',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { color: 'ink', font_size: '16px' } }
+          ], [{
+            id: 'names', type: 'text', display_name: 'Names', content: 'Emma & <Caden>\nJune',
+            runs: [
+              { text: 'Emma ' },
+              { text: '&', color: 'paper', font_style: 'italic', font_size: '24px' },
+              { text: ' <Caden>\nJune', font_weight: 'bold', color: 'rose' }
+            ]
+          }]);
+
+          const { html, diagnostics } = render(scene);
+          assert.strictEqual(elementHTML(html, 'names'),
+            'Emma <span style="color: rgba(250, 245, 235, 1); font-size: 24px; font-style: italic">&amp;</span>' +
+            '<span style="color: rose; font-weight: bold"> &lt;Caden&gt;<br>June</span>');
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path]), [
+            ['unknown_color', 'data_items/names/runs/2']
+          ]);
+
+          const inline = render(scene, { mode: 'inline' }).html;
+          assert.ok(inline.includes('color: #141414">Emma <span style="font-size: 24px; font-style: italic; color: #faf5eb">&amp;</span>'), inline);
+
+          // Each line is its own tspan; a run crossing a line break is split in two
+          const svg = renderSceneToSVG(scene);
+          assert.ok(svg.includes('<tspan font-weight="bold" fill="rose"> &lt;Caden&gt;</tspan></tspan>'), svg);
+          assert.ok(/<tspan x="0" y="[\d.]+"><tspan font-weight="bold" fill="rose">June<\/tspan><\/tspan>/.test(svg), svg);
+        }
+      },
+      {
+        name: 'runs entries that are not objects with text are skipped and reported',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', visible_when: { data_item_id: 'names', operator: 'not_empty' } }
+          ], [{
+            id: 'names', type: 'text', display_name: 'Names', content: 'Emma & Caden',
+            runs: [null, { text: 'Emma ' }, 'and', { color: 'ink' }, { text: '& {{ partner }}', font_style: 'italic' }] as any
+          }]);
+          scene.data.variables = [{ name: 'partner', default: 'Caden' }];
+
+          const { html, diagnostics } = render(scene);
+          assert.strictEqual(elementHTML(html, 'names'), 'Emma <span style="font-style: italic">&amp; Caden</span>');
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['invalid_data_value', 'data_items/names/runs/0', 'Run is not an object with text; it is skipped'],
+            ['invalid_data_value', 'data_items/names/runs/2', 'Run is not an object with text; it is skipped'],
+            ['invalid_data_value', 'data_items/names/runs/3', 'Run is not an object with text; it is skipped']
+          ]);
+
+          assert.ok(renderSceneToSVG(scene).includes('<tspan font-style="italic">&amp; Caden</tspan>'));
+          assert.deepStrictEqual(exportSceneToPDF(scene).diagnostics, []);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'fonts',
+    cases: [
+      {
+        name: 'theme font files give advance widths, line breaks, vertical metrics and layout sizes',
+        run: () => {
+          const fontFile = buildTestFont({ ' ': 250, A: 600, B: 700 });
+          const font = parseFont(fontFile);
+          assert.deepStrictEqual([font.unitsPerEm, font.numGlyphs, getAdvanceWidth(font, 'AB BA'), getAdvanceWidth(font, 'Z')], [1000, 4, 2850, 500]);
+
+          const scene = caseScene([
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { width: '57px', font: 'case', font_size: '40px', text_fit: 'shrink' } }
+          ], [textItem('names', 'AB BA')]);
+          scene.theme.font_palette = [{ font_id: 'case', font_name: 'Case', font_url: `data:font/ttf;base64,${fontFile.toString('base64')}` }];
+          const measurer = createThemeMeasurer(scene.theme);
+
+          const measured = measureText('AB BA', { font: 'case', font_size: '10px' }, measurer);
+          assert.deepStrictEqual([measured.width, measured.lines.length, measured.ascent, measured.descent, measured.capHeight], [28.5, 1, 8, 2, 7]);
+          assert.deepStrictEqual(measureText('AB BA', { font: 'case', font_size: '10px' }, measurer, 20).lines, [
+            { text: 'AB', width: 13 },
+            { text: 'BA', width: 13 }
+          ]);
+
+          // 'AB BA' is 2.85em wide: 57px fits it at 20px, plus the layout's half-pixel tolerance
+          const { css } = render(scene, { measurer });
+          assert.ok(css.includes("  width: 57px;\n  font-family: 'Case', 'Arial', 'Helvetica', sans-serif;\n  font-size: 20.1px;"), css);
+        }
+      },
+      {
+        name: 'text measurement and font lookups read the same metrics, from OS/2 only with USE_TYPO_METRICS',
+        run: () => {
+          const font = {
+            unitsPerEm: 1000, ascender: 950, descender: -250, typoAscender: 800, typoDescender: -200,
+            useTypoMetrics: false, capHeight: 700
+          } as ParsedFont;
+          const style = resolveTextStyle({ font: 'case', font_size: '10px' });
+          const measured = (parsed: ParsedFont) =>
+            createFontMeasurer(new Map([['case', [{ weight: 400, italic: false, font: parsed }]]])).getMetrics(style);
+
+          assert.deepStrictEqual(metricsFromFont(font), { ascent: 0.95, descent: 0.25, capHeight: 0.7 });
+          assert.deepStrictEqual(measured(font), metricsFromFont(font));
+
+          const typo = { ...font, useTypoMetrics: true };
+          assert.deepStrictEqual(metricsFromFont(typo), { ascent: 0.8, descent: 0.2, capHeight: 0.7 });
+          assert.deepStrictEqual(measured(typo), metricsFromFont(typo));
+        }
+      },
+      {
+        name: 'the font registry indexes local font files, the catalog and system fonts without the network',
+        run: () => {
+          const fontsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fonts-case-'));
+          try {
+            fs.mkdirSync(path.join(fontsDir, 'case'));
+            fs.writeFileSync(path.join(fontsDir, 'case', 'CaseSans-Regular.ttf'), buildTestFont({ A: 600 }, { family: 'Case Sans' }));
+            fs.writeFileSync(path.join(fontsDir, 'case', 'CaseSans-Bold.ttf'), buildTestFont({ A: 650 }, { family: 'Case Sans', weight: 700 }));
+            const catalog = path.join(fontsDir, 'catalog.json');
+            fs.writeFileSync(catalog, JSON.stringify({ items: [
+              { family: 'Lora', category: 'serif', variants: ['regular', '700', 'italic'] },
+              { family: 'Case Sans', category: 'serif', variants: ['regular'] }
+            ] }));
+            configureFontRegistry({ fontsDir, catalog });
+
+            const dir = fontsDir.split(path.sep).join('/');
+            const caseSans = findFont('case sans')!;
+            assert.deepStrictEqual([caseSans.source, caseSans.faces.length], ['local', 2]);
+            assert.deepStrictEqual(getThemeFont(caseSans), {
+              font_name: 'Case Sans',
+              font_url: `${dir}/case/CaseSans-Regular.ttf`,
+              faces: [{ url: `${dir}/case/CaseSans-Bold.ttf`, weight: 700, style: 'normal' }],
+              fallback: getCategoryFallback('Case Sans')
+            });
+            assert.strictEqual(resolveFontUrl('Lora'), 'https://fonts.googleapis.com/css2?family=Lora:ital,wght@0,400;0,700;1,400&display=swap');
+            assert.strictEqual(resolveFontUrl('georgia'), '');
+            assert.strictEqual(resolveFontUrl('Nowhere Sans'), null);
+          } finally {
+            configureFontRegistry({ fontsDir: 'fonts', catalog: path.join(rootDir, 'google-fonts-catalog.json') });
+            fs.rmSync(fontsDir, { recursive: true, force: true });
+          }
+        }
+      },
+      {
+        name: 'fonts declare one @font-face per face, use their fallback stacks and measure with the matching face',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { font: 'body', font_weight: 'bold' } },
+            { element_id: 'sans', element_type: 'data_item', data_item_id: 'names', style: { font: 'sans' } }
+          ], [textItem('names', 'AA')]);
+          scene.theme.font_palette = [
+            {
+              font_id: 'body', font_name: 'Case Serif', font_url: 'fonts/CaseSerif-Regular.ttf',
+              faces: [{ url: 'fonts/CaseSerif-Bold.ttf', weight: 700 }, { url: 'fonts/CaseSerif-Italic.ttf', style: 'italic' }],
+              fallback: ['Georgia', 'serif']
+            },
+            { font_id: 'sans', font_name: 'Open Sans', font_url: '' }
+          ];
+
+          const { css } = render(scene);
+          assert.deepStrictEqual([...css.matchAll(/font-weight: (\d+);\n  font-style: (\w+);\n  src: url\('([^']+)'\)/g)].map(match => match.slice(1)), [
+            ['400', 'normal', 'fonts/CaseSerif-Regular.ttf'],
+            ['700', 'normal', 'fonts/CaseSerif-Bold.ttf'],
+            ['400', 'italic', 'fonts/CaseSerif-Italic.ttf']
+          ]);
+          assert.ok(css.includes("  font-family: 'Case Serif', 'Georgia', serif;\n  font-weight: bold;"), css);
+          // Sans-serif fonts without a fallback list fall back to sans-serif families
+          assert.ok(css.includes("  font-family: 'Open Sans', 'Arial', 'Helvetica', sans-serif;"), css);
+
+          const dataURI = (advance: number, weight: number) =>
+            `data:font/ttf;base64,${buildTestFont({ A: advance }, { weight }).toString('base64')}`;
+          const measurer = createThemeMeasurer({
+            ...scene.theme,
+            font_palette: [{ font_id: 'body', font_name: 'Case Serif', font_url: dataURI(500, 400), faces: [{ url: dataURI(700, 700), weight: 700 }] }]
+          });
+          assert.deepStrictEqual(['400', '600', 'bold'].map(font_weight => measureText('AA', { font: 'body', font_size: '10px', font_weight }, measurer).width), [10, 14, 14]);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'page sizes',
+    cases: [
+      {
+        name: 'page sizes set the canvas and physical lengths become pixels at the canvas DPI',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { margin_top: '10mm', padding: '0.5in 1cm', font_size: '1.2em', border: '1pt solid' } }
+          ], [{ ...textItem('names', 'Emma'), runs: [{ text: 'Emma', font_size: '12pt' }] }]);
+          scene.template.canvas = { width: 400, height: 300, dpi: 150, page_size: getPageSize('A6')! };
+
+          const { html, css } = render(scene);
+          assert.ok(css.includes('.scene-container {\n  width: 620px;\n  height: 874px;'), css);
+          assert.ok(css.includes('  margin-top: 59.055px;\n  padding: 75px 59.055px;\n  font-size: 1.2em;\n  border: 2.083px solid;'), css);
+          assert.strictEqual(elementHTML(html, 'names'), '<span style="font-size: 25px">Emma</span>');
+
+          assert.deepStrictEqual(getPageSize('letter landscape'), { width: 11, height: 8.5, unit: 'in' });
+          assert.strictEqual(getPageSize('B5'), null);
+          // Only numbers with a unit change: not words, colors or URLs
+          assert.strictEqual(resolvePhysicalUnits('1in inset #10mm0 12pt', 300), '300px inset #10mm0 50px');
+          assert.strictEqual(resolvePhysicalUnits('url(border-2mm.png) 2mm', 300), 'url(border-2mm.png) 2mm');
+        }
+      }
+    ]
+  },
+  {
+    feature: 'variables',
+    cases: [
+      {
+        name: 'an invalid locale is reported once and variables are formatted for en-US',
+        run: () => {
+          const scene = caseScene(
+            [{ element_id: 'when', element_type: 'data_item', data_item_id: 'when' }],
+            [textItem('when', '{{ day }} ({{ day | upper }})')]
+          );
+          scene.data.locale = 'en_US';
+          scene.data.variables = [{ name: 'day', type: 'date' }];
+
+          const { html, diagnostics } = render(scene, { variables: { day: '2026-05-01' } });
+          assert.strictEqual(elementHTML(html, 'when'), 'May 1, 2026 (MAY 1, 2026)');
+          assert.deepStrictEqual(
+            diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path]),
+            [['invalid_locale', 'data_items/when']]
+          );
+        }
+      },
+      {
+        name: 'formatters chain in the data locale, escape values and report unknown formatters and wrong types once',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'greeting', element_type: 'data_item', data_item_id: 'greeting' },
+            { element_id: 'details', element_type: 'data_item', data_item_id: 'details' }
+          ], [
+            textItem('greeting', 'Dear {{ guest | title }}, {{ guest | default: "Friend" | upper }}'),
+            textItem('details', '{{ seats | number: 2 }} / {{ day | date: "dddd, D. MMMM YYYY" }} / {{ guest | shout }}')
+          ]);
+          scene.data.locale = 'de-DE';
+          scene.data.variables = [{ name: 'guest' }, { name: 'seats', type: 'number' }, { name: 'day', type: 'date', default: '2026-05-01' }];
+
+          const given = render(scene, { variables: { guest: "émile <o'brien>\njr", seats: 1234.5 } });
+          assert.strictEqual(elementHTML(given.html, 'greeting'), 'Dear Émile &lt;o&#39;brien&gt;<br>Jr, ÉMILE &lt;O&#39;BRIEN&gt;<br>JR');
+          assert.strictEqual(elementHTML(given.html, 'details'), '1.234,50 / Freitag, 1. Mai 2026 / émile &lt;o&#39;brien&gt;<br>jr');
+          assert.deepStrictEqual(given.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.message]), [
+            ['invalid_variable', "Unknown formatter 'shout' for variable 'guest'"]
+          ]);
+
+          // A default silences the missing value; a wrong type is shown as written, reported once
+          const missing = render(scene, { variables: { seats: 'many' } });
+          assert.strictEqual(elementHTML(missing.html, 'greeting'), 'Dear , FRIEND');
+          assert.deepStrictEqual(missing.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['missing_variable', 'data_items/greeting', "Variable 'guest' has no value; it renders as empty text"],
+            ['invalid_variable', 'data_items/details', "Variable 'seats' should be a number, got 'many'"],
+            ['invalid_variable', 'data_items/details', "Unknown formatter 'shout' for variable 'guest'"],
+            ['missing_variable', 'data_items/details', "Variable 'guest' has no value; it renders as empty text"]
+          ]);
+        }
+      },
+      {
+        name: 'layout measures text with its variables filled in and hides elements by variable, as rendered',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { width: '120px', font_size: '40px', text_fit: 'shrink' } },
+            { element_id: 'partner', element_type: 'data_item', data_item_id: 'names', visible_when: { variable: 'partner', operator: 'not_empty' } }
+          ], [textItem('names', '{{ couple }}')]);
+          scene.data.variables = [{ name: 'couple' }, { name: 'partner' }];
+          const variables = { couple: 'Emma and Caden' };
+
+          const layout = layoutScene(scene, { variables });
+          assert.deepStrictEqual(layout.boxes.map(box => [box.element.element_id, box.lines?.map(line => line.text)]), [['names', ['Emma and Caden']]]);
+          const fontSize = Math.round(layout.boxes[0].textStyle.fontSize * 100) / 100;
+          assert.ok(render(scene, { variables }).css.includes(`  width: 120px;\n  font-size: ${fontSize}px;`), String(fontSize));
+        }
+      }
+    ]
+  },
+  {
+    feature: 'batch rendering',
+    cases: [
+      {
+        name: 'the batch manifest records each row\'s text overflow and PDF problems, and the scene\'s own once',
+        run: () => {
+          const scene = caseScene([
+            {
+              element_id: 'guest_list', element_type: 'repeater', data_item_id: 'guests', max_count: 1,
+              item_template: { element_id: 'guest', element_type: 'data_item', field: 'name' }
+            },
+            shrinkingNames(),
+            { element_id: 'photo', element_type: 'data_item', data_item_id: 'photo', style: { width: '100px', height: '100px' } },
+            { element_id: 'frame', element_type: 'data_item', data_item_id: 'frame', style: { width: '100px', height: '100px' } }
+          ], [
+            textItem('names', 'Emma & Caden'),
+            { id: 'photo', type: 'image', display_name: 'photo', image_url: '' },
+            { id: 'frame', type: 'image', display_name: 'frame', image_url: 'https://example.com/frame.png' },
+            { id: 'guests', type: 'list', display_name: 'Guests', records: [] }
+          ]);
+          withTempDir('batch-case-', outDir => {
+            renderBatch(scene, [
+              { names: 'Emma & Caden', guests: [{ name: 'Ana' }, { name: 'Bo' }] },
+              { names: LONG_NAMES, photo: 'https://example.com/photo.jpg' }
+            ], { outDir, formats: ['html', 'pdf'] });
+
+            const manifest = JSON.parse(fs.readFileSync(path.join(outDir, 'manifest.json'), 'utf-8'));
+            assert.deepStrictEqual(manifest.problems.map((problem: any) => [problem.code, problem.path]), [['missing_resource', 'frame']]);
+            assert.deepStrictEqual(manifest.rows.map((row: any) => row.status), ['ok', 'invalid']);
+            assert.deepStrictEqual(manifest.rows[0].problems.map((problem: any) => [problem.severity, problem.code]), [['info', 'list_truncated']]);
+            assert.deepStrictEqual(manifest.rows[1].problems.map((problem: any) => [problem.code, problem.path]), [
+              ['text_overflow', 'names'],
+              ['missing_resource', 'photo']
+            ]);
+          });
+        }
+      },
+      {
+        name: 'batch rows come from quoted CSV with short rows, JSON lines or a JSON array',
+        run: () => {
+          assert.deepStrictEqual(parseCSV('\uFEFFnames,note\r\n"Emma, ""Em"" & Caden","two\nlines"\r\n\r\nBo\n'), {
+            columns: ['names', 'note'],
+            rows: [{ names: 'Emma, "Em" & Caden', note: 'two\nlines' }, { names: 'Bo' }],
+            fieldCounts: [2, 1]
+          });
+          assert.deepStrictEqual(parseJSONRows('{"names":"Emma"}\n\n{"names":"Bo","seats":2}\n'), [{ names: 'Emma' }, { names: 'Bo', seats: 2 }]);
+          assert.deepStrictEqual(parseJSONRows('[{"guests":[{"name":"Ana"}]}]'), [{ guests: [{ name: 'Ana' }] }]);
+          assert.throws(() => parseJSONRows('{"names":"Emma"}\n["Bo"]'), /^Error: Row 2 is not a JSON object$/);
+          assert.throws(() => parseJSONRows('{"names":"Emma"}\n{names}'), /^Error: Line 2: /);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'repeaters',
+    cases: [
+      {
+        name: 'repeaters copy their item template per record up to max_count, or show their empty template',
+        run: () => {
+          const scene = caseScene([
+            {
+              element_id: 'guest_list', element_type: 'repeater', data_item_id: 'guests', max_count: 2, style: { display: 'flex', gap: '4px' },
+              item_template: { element_id: 'guest', element_type: 'container', children: [
+                { element_id: 'name', element_type: 'data_item', field: 'name' },
+                { element_id: 'seat', element_type: 'data_item', field: 'seat' }
+              ] }
+            },
+            {
+              element_id: 'gift_list', element_type: 'repeater', data_item_id: 'gifts',
+              item_template: { element_id: 'gift', element_type: 'data_item', field: 'name' },
+              empty_template: { element_id: 'no_gifts', element_type: 'data_item', data_item_id: 'note' }
+            },
+            { element_id: 'broken', element_type: 'repeater', data_item_id: 'note', item_template: { element_id: 'gift', element_type: 'data_item', field: 'name' } }
+          ], [
+            { id: 'guests', type: 'list', display_name: 'Guests', records: [{ name: 'Ana <B>', seat: 1 }, { name: 'Bo', seat: 2 }, { name: 'Cy', seat: 3 }] },
+            { id: 'gifts', type: 'list', display_name: 'Gifts', records: [] },
+            textItem('note', 'No gifts yet')
+          ]);
+
+          const { html, diagnostics } = render(scene);
+          assert.deepStrictEqual([...html.matchAll(/<div class="([\w-]+)">([^<\n]*)<\/div>/g)].map(match => match.slice(1)), [
+            ['guest_list-guest_1-name_1', 'Ana &lt;B&gt;'],
+            ['guest_list-guest_1-seat_1', '1'],
+            ['guest_list-guest_2-name_2', 'Bo'],
+            ['guest_list-guest_2-seat_2', '2'],
+            ['gift_list-no_gifts', 'No gifts yet']
+          ]);
+          assert.ok(html.includes('<div class="broken">\n  </div>'), html);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['info', 'list_truncated', 'guest_list', "List 'guests' has 3 records; the first 2 are shown"],
+            ['error', 'invalid_repeater', 'broken', "Repeater data item 'note' is not a list; it renders as empty"]
+          ]);
+        }
+      },
+      {
+        name: 'repeaters report records that are not an array of objects and a max_count that is not a whole number',
+        run: () => {
+          const repeater = (elementId: string, listId: string, maxCount?: number): Element => ({
+            element_id: elementId, element_type: 'repeater', data_item_id: listId, ...(maxCount !== undefined ? { max_count: maxCount } : {}),
+            item_template: { element_id: 'guest', element_type: 'data_item', field: 'name' }
+          });
+          const scene = caseScene([
+            repeater('not_array', 'not_array'),
+            repeater('mixed', 'guests'),
+            repeater('negative', 'guests', -1),
+            repeater('fraction', 'guests', 1.5)
+          ], [
+            { id: 'not_array', type: 'list', display_name: 'Not array', records: { name: 'Ana' } as any },
+            { id: 'guests', type: 'list', display_name: 'Guests', records: [{ name: 'Ana' }, null, 'Bo', { name: 'Cy' }] as any }
+          ]);
+
+          const { html, diagnostics } = render(scene);
+          assert.deepStrictEqual([...html.matchAll(/<div class="([\w-]+)">([^<\n]*)<\/div>/g)].map(match => match.slice(1)), [
+            ['mixed-guest_1', 'Ana'], ['mixed-guest_2', 'Cy'],
+            ['negative-guest_1', 'Ana'], ['negative-guest_2', 'Cy'],
+            ['fraction-guest_1', 'Ana'], ['fraction-guest_2', 'Cy']
+          ]);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['invalid_data_value', 'not_array', "List 'not_array' records must be an array of objects; it renders as empty"],
+            ['invalid_data_value', 'mixed', "List 'guests' has 2 records that are not objects; they are left out"],
+            ['invalid_data_value', 'negative', "List 'guests' has 2 records that are not objects; they are left out"],
+            ['invalid_data_value', 'negative', 'max_count must be a whole number of 0 or more, got -1; every record is shown'],
+            ['invalid_data_value', 'fraction', "List 'guests' has 2 records that are not objects; they are left out"],
+            ['invalid_data_value', 'fraction', 'max_count must be a whole number of 0 or more, got 1.5; every record is shown']
+          ]);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'visibility',
+    cases: [
+      {
+        name: 'visible_when hides elements by data item or variable, and missing values of hidden text are expected',
+        run: () => {
+          const shown = (elementId: string, visibleWhen: Element['visible_when']): Element =>
+            ({ element_id: elementId, element_type: 'data_item', data_item_id: 'names', visible_when: visibleWhen });
+          const scene = caseScene([
+            shown('if_names', { data_item_id: 'names', operator: 'not_empty' }),
+            shown('if_no_photo', { data_item_id: 'photo', operator: 'empty' }),
+            shown('if_guests', { data_item_id: 'guests', operator: 'truthy' }),
+            shown('if_plus_one', { variable: 'plus_one', operator: 'truthy' }),
+            shown('if_alone', { variable: 'plus_one', operator: 'falsy' }),
+            shown('if_evening', [{ variable: 'time', operator: 'equals', value: 'evening' }, { variable: 'table', operator: 'not_equals', value: 3 }]),
+            shown('if_unknown', { variable: 'time', operator: 'matches' as any }),
+            {
+              element_id: 'partner_box', element_type: 'container', visible_when: { variable: 'partner', operator: 'not_empty' },
+              children: [{ element_id: 'partner', element_type: 'data_item', data_item_id: 'partner' }]
+            }
+          ], [
+            textItem('names', 'Emma &amp; Caden'),
+            { id: 'photo', type: 'image', display_name: 'Photo', image_url: '' },
+            { id: 'guests', type: 'list', display_name: 'Guests', records: [] },
+            textItem('partner', 'With {{ partner }}')
+          ]);
+          scene.data.variables = [{ name: 'plus_one', type: 'boolean', default: 'no' }, { name: 'time' }, { name: 'table', type: 'number' }, { name: 'partner' }];
+
+          const visible = (variables: RenderOptions['variables']) => {
+            const { html, diagnostics } = render(scene, { variables });
+            // Element classes after the scene container's
+            return { classes: [...html.matchAll(/<div class="([\w-]+)">/g)].map(match => match[1]).slice(1), diagnostics };
+          };
+
+          const evening = visible({ time: 'evening', table: 4 });
+          assert.deepStrictEqual(evening.classes, ['if_names', 'if_no_photo', 'if_alone', 'if_evening', 'if_unknown']);
+          assert.deepStrictEqual(evening.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['invalid_condition', 'if_unknown',
+              "Unknown visibility operator 'matches' (expected one of empty, not_empty, equals, not_equals, truthy, falsy); the element is shown"]
+          ]);
+
+          const partnered = visible({ plus_one: 'yes', partner: 'Sam', time: 'evening', table: 3 });
+          assert.deepStrictEqual(partnered.classes, ['if_names', 'if_no_photo', 'if_plus_one', 'if_unknown', 'partner_box', 'partner_box-partner']);
+        }
+      },
+      {
+        name: 'visible_when tests typed items by their value as written, not their formatted text',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'two_seats', element_type: 'data_item', data_item_id: 'price', visible_when: { data_item_id: 'seats', operator: 'equals', value: 2 } },
+            { element_id: 'may_day', element_type: 'data_item', data_item_id: 'day', visible_when: { data_item_id: 'day', operator: 'equals', value: '2026-05-01' } },
+            { element_id: 'free', element_type: 'data_item', data_item_id: 'price', visible_when: { data_item_id: 'price', operator: 'equals', value: 0 } }
+          ], [
+            { id: 'seats', type: 'number', display_name: 'Seats', value: '2.00', format: 'currency', currency: 'USD' },
+            { id: 'price', type: 'number', display_name: 'Price', value: 12.5, format: 'currency', currency: 'USD' },
+            { id: 'day', type: 'date', display_name: 'Day', value: '2026-05-01' }
+          ]);
+
+          const { html, diagnostics } = render(scene);
+          assert.deepStrictEqual([...html.matchAll(/<div class="(\w+)">([^<]*)<\/div>/g)].map(match => match.slice(1)), [
+            ['two_seats', '$12.50'],
+            ['may_day', 'May 1, 2026']
+          ]);
+          assert.deepStrictEqual(diagnostics, []);
+        }
+      }
+    ]
+  },
+  {
+    feature: 'typed data',
+    cases: [
+      {
+        name: 'number, URL and email values are formatted, and values that do not fit their type are shown as written',
+        run: () => {
+          const items: DataItem[] = [
+            { id: 'price', type: 'number', display_name: 'Price', value: 1234.5, format: 'currency', currency: 'eur', locale: 'de-DE' },
+            { id: 'share', type: 'number', display_name: 'Share', value: '0.256', format: 'percent', decimals: 1 },
+            { id: 'count', type: 'number', display_name: 'Count', value: 1200 },
+            { id: 'site', type: 'url', display_name: 'Site', value: 'https://example.com/rsvp/' },
+            { id: 'mail', type: 'email', display_name: 'Mail', value: 'emma@example.com' },
+            { id: 'day', type: 'date', display_name: 'Day', value: '2026-05-01', format: 'MMMM Do, YYYY' },
+            { id: 'unset', type: 'date', display_name: 'Unset' },
+            { id: 'bad_url', type: 'url', display_name: 'Bad URL', value: 'javascript:alert(1)' },
+            { id: 'bad_price', type: 'number', display_name: 'Bad price', value: 5, format: 'currency' },
+            { id: 'bad_mail', type: 'email', display_name: 'Bad mail', value: 'emma<at>example' }
+          ];
+          const scene = caseScene(items.map(item => ({ element_id: item.id, element_type: 'data_item', data_item_id: item.id })), items);
+
+          const { html, diagnostics } = render(scene);
+          assert.deepStrictEqual(items.map(item => elementHTML(html, item.id)), [
+            '1.234,50 €', '25.6%', '1,200', 'example.com/rsvp', 'emma@example.com', 'May 1st, 2026', '',
+            'javascript:alert(1)', '5', 'emma&lt;at&gt;example'
+          ]);
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['invalid_data_value', 'data_items/bad_url', "'javascript:alert(1)' is not an http or https URL; it is shown as written"],
+            ['invalid_data_value', 'data_items/bad_price', 'The currency format needs a three-letter currency code, e.g. EUR; it is shown as written'],
+            ['invalid_data_value', 'data_items/bad_mail', "'emma<at>example' is not an email address; it is shown as written"]
+          ]);
+        }
+      },
+      {
+        name: 'date-times with an offset show the time written, or the time in the item\'s time zone',
+        run: () => {
+          const dateItem = (id: string, value: string, timeZone?: string): DataItem => ({
+            id, type: 'date', display_name: id, value, format: 'YYYY-MM-DD HH:mm', ...(timeZone ? { time_zone: timeZone } : {})
+          });
+          const scene = caseScene(
+            ['written', 'utc', 'zoned', 'unknown'].map(id => ({ element_id: id, element_type: 'data_item' as const, data_item_id: id })),
+            [
+              dateItem('written', '2026-05-01T16:30+02:00'),
+              dateItem('utc', '2026-05-01T23:30Z'),
+              dateItem('zoned', '2026-05-01T16:30+02:00', 'America/New_York'),
+              dateItem('unknown', '2026-05-01T16:30Z', 'Mars/Base')
+            ]
+          );
+
+          const { html, diagnostics } = render(scene);
+          assert.deepStrictEqual(
+            ['written', 'utc', 'zoned', 'unknown'].map(id => elementHTML(html, id)),
+            ['2026-05-01 16:30', '2026-05-01 23:30', '2026-05-01 10:30', '2026-05-01T16:30Z']
+          );
+          assert.deepStrictEqual(
+            diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path]),
+            [['invalid_data_value', 'data_items/unknown']]
+          );
+        }
+      },
+      {
+        name: 'impossible calendar dates are reported and shown as written instead of rolling over',
+        run: () => {
+          const scene = caseScene([
+            { element_id: 'item', element_type: 'data_item', data_item_id: 'item' },
+            { element_id: 'formatted', element_type: 'data_item', data_item_id: 'formatted' }
+          ], [
+            { id: 'item', type: 'date', display_name: 'Day', value: '2026-02-30' },
+            textItem('formatted', '{{ day | date: "YYYY-MM-DD" }}')
+          ]);
+          scene.data.variables = [{ name: 'day', type: 'date' }];
+
+          const { html, diagnostics } = render(scene, { variables: { day: '2026-04-31T10:00' } });
+          assert.strictEqual(elementHTML(html, 'item'), '2026-02-30');
+          assert.strictEqual(elementHTML(html, 'formatted'), '2026-04-31T10:00');
+          assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.element_path, diagnostic.message]), [
+            ['invalid_variable', 'data_items/formatted', "Variable 'day' should be a date, got '2026-04-31T10:00'"],
+            ['invalid_data_value', 'data_items/item', "'2026-02-30' is not a day of the calendar; it is shown as written"]
+          ]);
+
+          // Leap days exist only in leap years
+          const leap = render(scene, { variables: { day: '2028-02-29' } });
+          assert.strictEqual(elementHTML(leap.html, 'formatted'), '2028-02-29');
+        }
+      }
+    ]
+  }
+];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Whether the built bundle is the one the current sources produce */
+export function checkBundleIsCurrent(): boolean {
+  let current = false;
+  try {
+    current = readBrowserBundle() === buildBrowserBundle();
+  } catch (error: any) {
+    console.log(`✗ ${error.message}`);
+    return false;
+  }
+
+  console.log(current
+    ? `✓ ${path.relative(rootDir, BROWSER_BUNDLE_PATH)} is up to date`
+    : `✗ ${path.relative(rootDir, BROWSER_BUNDLE_PATH)} is out of date; run npm run build`);
+  return current;
+}
+
+export function checkRendererParity(): boolean {
+  const variants: { name: string; options: RenderOptions }[] = [
+    { name: 'classes', options: {} },
+    { name: 'namespaced', options: { namespace: 'parity' } },
+    { name: 'inline', options: { mode: 'inline' } }
+  ];
+  let allMatch = true;
+
+  for (const { name, scene } of loadSampleScenes()) {
+    for (const variant of variants) {
+      const problems = compareRenderings(renderScene(scene, variant.options), renderInBrowser(scene, variant.options));
+
+      const label = `${name} (${variant.name})`;
+      if (problems.length === 0) {
+        console.log(`✓ ${label}`);
+      } else {
+        allMatch = false;
+        console.log(`✗ ${label}`);
+        problems.forEach(problem => console.log(`  - ${problem}`));
+      }
+    }
+  }
+
+  return allMatch;
+}
+
+/** Run every regression case; a case fails when it throws */
+export function checkRegressionCases(): boolean {
+  let allPass = true;
+
+  for (const { feature, cases } of REGRESSION_GROUPS) {
+    for (const regressionCase of cases) {
+      const label = `${regressionCase.name} (${feature})`;
+      try {
+        regressionCase.run();
+        console.log(`✓ ${label}`);
+      } catch (error: any) {
+        allPass = false;
+        console.log(`✗ ${label}`);
+        console.log(`  - ${error.message}`);
+      }
+    }
+  }
+
+  return allPass;
+}
+
+if (require.main === module) {
+  const allMatch = checkBundleIsCurrent() && checkRendererParity();
+  console.log('\n' + (allMatch ? 'Browser and server renderers match.' : 'Browser and server renderers differ.') + '\n');
+  const allPass = checkRegressionCases();
+  console.log('\n' + (allPass ? 'All regression cases pass.' : 'Some regression cases fail.'));
+  process.exit(allMatch && allPass ? 0 : 1);
+}
@@ -0,0 +1,1301 @@
+import * as zlib from 'zlib';
+import type {
+  Scene,
+  Color,
+  Font,
+  Gradient,
+  ElementStyle,
+  VariableValues,
+  RenderDiagnostic,
+  DiagnosticSeverity,
+  DiagnosticCode
+} from './types';
+import {
+  layoutPreparedScene,
+  parseLength,
+  getBaselineOffset,
+  isBold,
+  TextMeasurer,
+  LayoutBox,
+  TextLine,
+  TextSegment,
+  ResolvedTextStyle
+} from './layout';
+import { getGlyphId, getAdvanceWidth, ParsedFont } from './opentype';
+import { isRemoteURL, readLocalResource, loadThemeFonts, createFontMeasurer, selectFace, LoadedFace } from './text-measure';
+import { getFontFaces } from './font-stack';
+import { isVectorShape, getShapePaint, buildShapeOutline, PathCommand } from './shapes';
+import { getSVGShapes } from './svg-shapes';
+import { sanitizeSVG } from './sanitize';
+import {
+  buildGradientMap,
+  getGradientStops,
+  getFallbackColor,
+  linearGradientLine,
+  radialGradientRadii
+} from './gradients';
+import { parseOpacity } from './effects';
+import { getCurvature, buildTextArc, pointOnArc, TextArc } from './text-arc';
+import { getCanvasDPI, physicalToPixels } from './units';
+import { prepareScene } from './prepare-scene';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PDFExportOptions {
+  dpi?: number;          // defaults to template.canvas.dpi, then 72; ignored when the canvas has a page size
+  bleed?: number;        // bleed on each side, in millimetres
+  cropMarks?: boolean;   // draw trim marks in a slug area outside the bleed
+  baseDir?: string;      // directory that relative font and image paths resolve against
+  title?: string;        // document title (defaults to the template name)
+  measurer?: TextMeasurer;
+  variables?: VariableValues;  // values for {{ variable }} placeholders
+}
+
+/** A PDF file and the problems met while drawing it */
+export interface PDFExportResult {
+  pdf: Buffer;
+  diagnostics: RenderDiagnostic[];
+}
+
+interface PDFDocument {
+  objects: (Buffer | null)[];
+}
+
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface PDFFont {
+  resourceName: string;
+  parsed?: ParsedFont;                  // embedded font file
+  standardName?: string;                // standard 14 fallback
+  usedGlyphs: Map<number, number>;      // glyph id -> unicode code point
+}
+
+interface PDFImage {
+  resourceName: string;
+  ref: number;
+  width: number;
+  height: number;
+}
+
+interface PDFRenderContext {
+  doc: PDFDocument;
+  colorMap: Map<string, Color>;
+  gradientMap: Map<string, Gradient>;
+  parsedFonts: Map<string, LoadedFace[]>;  // font_id -> parsed face files
+  measurer: TextMeasurer;
+  baseDir: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  bleed: number;                          // px
+  fonts: Map<string, PDFFont>;
+  images: Map<string, PDFImage | null>;
+  extGStates: Map<number, string>;        // alpha -> resource name
+  shadings: string[];                     // shading dictionaries, named Sh1, Sh2, ...
+  opacity: number;                        // combined opacity of the boxes being drawn
+  fontFallbacks: Map<string, string>;     // font_id -> why the font has no embedded file
+  elementPath: string;                    // path of the element being drawn
+  diagnostics: RenderDiagnostic[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+const CROP_MARK_OFFSET_MM = 3;   // gap between the bleed edge and the marks
+const CROP_MARK_LENGTH_MM = 5;
+const CROP_MARK_WIDTH_PT = 0.25;
+
+// Synthesized styles for fonts without a matching face
+const SYNTHETIC_BOLD_STROKE = 0.03;  // em
+const SYNTHETIC_ITALIC_SKEW = 0.2;
+
+// Characters in the 0x80-0x9F range of WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20AC: 0x80, 0x201A: 0x82, 0x0192: 0x83, 0x201E: 0x84, 0x2026: 0x85,
+  0x2020: 0x86, 0x2021: 0x87, 0x02C6: 0x88, 0x2030: 0x89, 0x0160: 0x8A,
+  0x2039: 0x8B, 0x0152: 0x8C, 0x017D: 0x8E, 0x2018: 0x91, 0x2019: 0x92,
+  0x201C: 0x93, 0x201D: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97,
+  0x02DC: 0x98, 0x2122: 0x99, 0x0161: 0x9A, 0x203A: 0x9B, 0x0153: 0x9C,
+  0x017E: 0x9E, 0x0178: 0x9F
+};
+
+const NAMED_COLORS: Record<string, RGBA> = {
+  black: { r: 0, g: 0, b: 0, a: 1 },
+  white: { r: 255, g: 255, b: 255, a: 1 },
+  red: { r: 255, g: 0, b: 0, a: 1 },
+  green: { r: 0, g: 128, b: 0, a: 1 },
+  blue: { r: 0, g: 0, b: 255, a: 1 },
+  gray: { r: 128, g: 128, b: 128, a: 1 },
+  grey: { r: 128, g: 128, b: 128, a: 1 },
+  transparent: { r: 0, g: 0, b: 0, a: 0 }
+};
+
+// ============================================================================
+// PDF OBJECT WRITING
+// ============================================================================
+
+function allocateObject(doc: PDFDocument): number {
+  doc.objects.push(null);
+  return doc.objects.length;
+}
+
+function setObject(doc: PDFDocument, ref: number, content: string | Buffer): void {
+  doc.objects[ref - 1] = typeof content === 'string' ? Buffer.from(content, 'latin1') : content;
+}
+
+function addObject(doc: PDFDocument, content: string): number {
+  const ref = allocateObject(doc);
+  setObject(doc, ref, content);
+  return ref;
+}
+
+/** Add a stream object. `dict` holds extra entries without the surrounding << >>. */
+function addStream(doc: PDFDocument, dict: string, data: Buffer, compress: boolean = true): number {
+  const body = compress ? zlib.deflateSync(data) : data;
+  const filter = compress ? ' /Filter /FlateDecode' : '';
+  const ref = allocateObject(doc);
+  setObject(doc, ref, Buffer.concat([
+    Buffer.from(`<< ${dict}${filter} /Length ${body.length} >>\nstream\n`, 'latin1'),
+    body,
+    Buffer.from('\nendstream', 'latin1')
+  ]));
+  return ref;
+}
+
+function serializeDocument(doc: PDFDocument, catalogRef: number, infoRef: number): Buffer {
+  // Binary comment marks the file as containing 8-bit data
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  doc.objects.forEach((content, index) => {
+    if (!content) throw new Error(`PDF object ${index + 1} was never written`);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      content,
+      Buffer.from('\nendobj\n', 'latin1')
+    ]);
+    offsets.push(offset);
+    offset += chunk.length;
+    chunks.push(chunk);
+  });
+
+  let xref = `xref\n0 ${doc.objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(objectOffset => {
+    xref += `${String(objectOffset).padStart(10, '0')} 00000 n \n`;
+  });
+  xref += `trailer\n<< /Size ${doc.objects.length + 1} /Root ${catalogRef} 0 R /Info ${infoRef} 0 R >>\n`;
+  xref += `startxref\n${offset}\n%%EOF\n`;
+  chunks.push(Buffer.from(xref, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
+
+/** Encode a text string (e.g. document title) as UTF-16BE hex. */
+function pdfTextString(value: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/** Make a string safe for use as a PDF name. */
+function pdfName(value: string): string {
+  return value.replace(/[^A-Za-z0-9_.+-]/g, '') || 'Font';
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+// ============================================================================
+// DIAGNOSTICS
+// ============================================================================
+
+/** Record a problem once, at the element being drawn unless a path is given */
+function report(
+  context: PDFRenderContext,
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+  elementPath: string = context.elementPath
+): void {
+  const exists = context.diagnostics.some(diagnostic =>
+    diagnostic.code === code && diagnostic.element_path === elementPath && diagnostic.message === message);
+  if (!exists) context.diagnostics.push({ severity, code, element_path: elementPath, message });
+}
+
+// ============================================================================
+// COLORS
+// ============================================================================
+
+function parseCSSColor(value: string): RGBA | null {
+  const trimmed = value.trim().toLowerCase();
+
+  if (NAMED_COLORS[trimmed]) return NAMED_COLORS[trimmed];
+
+  const hex = trimmed.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map(d => d + d).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  const rgb = trimmed.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    let alpha = rgb[4] === undefined ? 1 : parseFloat(rgb[4]);
+    if (rgb[4]?.endsWith('%')) alpha /= 100;
+    return { r: parseFloat(rgb[1]), g: parseFloat(rgb[2]), b: parseFloat(rgb[3]), a: alpha };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a theme color id or literal CSS color. Gradient ids resolve to
+ * their first stop, for places a gradient cannot be drawn.
+ */
+function resolveColor(value: string | undefined, context: PDFRenderContext): RGBA | null {
+  if (!value || value === 'none') return null;
+
+  const color = context.colorMap.get(value);
+  if (color) return color;
+
+  const gradient = context.gradientMap.get(value);
+  if (gradient) {
+    const fallback = getFallbackColor(gradient);
+    return fallback && !context.gradientMap.has(fallback) ? resolveColor(fallback, context) : null;
+  }
+
+  const parsed = parseCSSColor(value);
+  if (!parsed) {
+    report(context, 'warning', 'unsupported_feature', `Color '${value}' is not supported in PDF and was left out`);
+  }
+  return parsed;
+}
+
+/** Graphics state resource name for a fill/stroke opacity. */
+function getExtGState(alpha: number, context: PDFRenderContext): string {
+  const key = Math.round(alpha * 1000) / 1000;
+  let name = context.extGStates.get(key);
+  if (!name) {
+    name = `GS${context.extGStates.size + 1}`;
+    context.extGStates.set(key, name);
+  }
+  return name;
+}
+
+function setFillColor(color: RGBA, context: PDFRenderContext): string {
+  const alpha = color.a * context.opacity;
+  let ops = `${num(color.r / 255)} ${num(color.g / 255)} ${num(color.b / 255)} rg\n`;
+  if (alpha < 1) ops += `/${getExtGState(alpha, context)} gs\n`;
+  return ops;
+}
+
+function setStrokeColor(color: RGBA, context: PDFRenderContext): string {
+  const alpha = color.a * context.opacity;
+  let ops = `${num(color.r / 255)} ${num(color.g / 255)} ${num(color.b / 255)} RG\n`;
+  if (alpha < 1) ops += `/${getExtGState(alpha, context)} gs\n`;
+  return ops;
+}
+
+// ============================================================================
+// GRADIENTS
+// ============================================================================
+
+/**
+ * Sampled color function for a gradient: one linear segment per pair of
+ * stops, stitched together, with stops pinned at 0 and 1 so the ends are flat
+ */
+function gradientFunction(stops: { offset: number; color: RGBA }[]): string {
+  const pinned = [...stops];
+  if (pinned[0].offset > 0) pinned.unshift({ ...pinned[0], offset: 0 });
+  if (pinned[pinned.length - 1].offset < 1) pinned.push({ ...pinned[pinned.length - 1], offset: 1 });
+
+  const rgb = (color: RGBA) => `[${num(color.r / 255)} ${num(color.g / 255)} ${num(color.b / 255)}]`;
+  const segments = pinned.slice(1).map((stop, i) =>
+    `<< /FunctionType 2 /Domain [0 1] /C0 ${rgb(pinned[i].color)} /C1 ${rgb(stop.color)} /N 1 >>`
+  );
+  if (segments.length === 1) return segments[0];
+
+  const bounds = pinned.slice(1, -1).map(stop => num(stop.offset)).join(' ');
+  const encode = segments.map(() => '0 1').join(' ');
+  return `<< /FunctionType 3 /Domain [0 1] /Functions [${segments.join(' ')}] /Bounds [${bounds}] /Encode [${encode}] >>`;
+}
+
+/**
+ * Operators that paint a gradient over a rect, to be used inside a clip.
+ * PDF shadings have no per-stop alpha, so the stops' average alpha applies
+ * to the whole gradient.
+ */
+function paintGradient(gradient: Gradient, rect: Rect, context: PDFRenderContext): string {
+  const stops = getGradientStops(gradient)
+    .map(stop => ({ offset: stop.offset, color: context.gradientMap.has(stop.color) ? null : resolveColor(stop.color, context) }))
+    .filter((stop): stop is { offset: number; color: RGBA } => stop.color !== null);
+  if (stops.length === 0) return '';
+
+  const alpha = stops.reduce((sum, stop) => sum + stop.color.a, 0) / stops.length * context.opacity;
+  if (alpha === 0) return '';
+
+  const name = `Sh${context.shadings.length + 1}`;
+  let ops = alpha < 1 ? `/${getExtGState(alpha, context)} gs\n` : '';
+
+  if (gradient.type === 'radial') {
+    // Unit circle at the origin, mapped onto the box's ellipse
+    const { rx, ry } = radialGradientRadii(rect.width, rect.height);
+    context.shadings.push(`<< /ShadingType 3 /ColorSpace /DeviceRGB /Coords [0 0 0 0 0 1] ` +
+      `/Function ${gradientFunction(stops)} /Extend [true true] >>`);
+    ops += `${num(rx)} 0 0 ${num(ry)} ${num(rect.x + rect.width / 2)} ${num(rect.y + rect.height / 2)} cm\n`;
+  } else {
+    const line = linearGradientLine(gradient.angle, rect.x, rect.y, rect.width, rect.height);
+    context.shadings.push(`<< /ShadingType 2 /ColorSpace /DeviceRGB ` +
+      `/Coords [${num(line.x1)} ${num(line.y1)} ${num(line.x2)} ${num(line.y2)}] ` +
+      `/Function ${gradientFunction(stops)} /Extend [true true] >>`);
+  }
+
+  return ops + `/${name} sh\n`;
+}
+
+// ============================================================================
+// RESOURCE LOADING
+// ============================================================================
+
+/** How a URL is named in messages: data: URIs are cut short */
+function describeURL(url: string): string {
+  return url.length > 80 ? `${url.slice(0, 77)}...` : url;
+}
+
+/**
+ * Why each theme font without a loaded file falls back to Helvetica, by
+ * font_id
+ */
+function getFontFallbacks(fonts: Font[], parsedFonts: Map<string, LoadedFace[]>): Map<string, string> {
+  const fallbacks = new Map<string, string>();
+  for (const font of fonts) {
+    if (parsedFonts.has(font.font_id)) continue;
+    const faces = getFontFaces(font);
+    const reason = faces.length === 0 ? 'has no font file'
+      : faces.every(face => isRemoteURL(face.url)) ? 'is loaded from a remote URL, which is not embedded'
+      : 'has no readable TrueType or OpenType file';
+    fallbacks.set(font.font_id, `Font '${font.font_name}' ${reason}; its text is set in Helvetica`);
+  }
+  return fallbacks;
+}
+
+function getPDFFont(textStyle: ResolvedTextStyle, context: PDFRenderContext): PDFFont {
+  const faces = textStyle.font ? context.parsedFonts.get(textStyle.font) : undefined;
+  const parsed = selectFace(faces, textStyle);
+
+  let key: string;
+  let standardName: string | undefined;
+  if (parsed) {
+    key = `embedded:${textStyle.font}:${faces!.findIndex(face => face.font === parsed)}`;
+  } else {
+    const bold = isBold(textStyle.fontWeight);
+    const italic = textStyle.fontStyle === 'italic' || textStyle.fontStyle === 'oblique';
+    standardName = bold && italic ? 'Helvetica-BoldOblique'
+      : bold ? 'Helvetica-Bold'
+      : italic ? 'Helvetica-Oblique'
+      : 'Helvetica';
+    key = `standard:${standardName}`;
+
+    const fallback = textStyle.font ? context.fontFallbacks.get(textStyle.font) : undefined;
+    if (fallback) report(context, 'warning', 'font_fallback', fallback, `font_palette/${textStyle.font}`);
+  }
+
+  let font = context.fonts.get(key);
+  if (!font) {
+    font = {
+      resourceName: `F${context.fonts.size + 1}`,
+      parsed,
+      standardName,
+      usedGlyphs: new Map()
+    };
+    context.fonts.set(key, font);
+  }
+
+  return font;
+}
+
+/** Encode text for a font: glyph ids for embedded fonts, WinAnsi bytes otherwise. */
+function encodeText(font: PDFFont, text: string): string {
+  let hex = '';
+
+  for (const ch of text) {
+    const codePoint = ch.codePointAt(0)!;
+
+    if (font.parsed) {
+      const glyphId = getGlyphId(font.parsed, codePoint);
+      if (!font.usedGlyphs.has(glyphId)) font.usedGlyphs.set(glyphId, codePoint);
+      hex += glyphId.toString(16).padStart(4, '0');
+    } else {
+      let code = codePoint;
+      if (WIN_ANSI_EXTRAS[codePoint]) code = WIN_ANSI_EXTRAS[codePoint];
+      else if (codePoint > 0xFF || (codePoint >= 0x80 && codePoint < 0xA0)) code = 0x3F;  // '?'
+      hex += code.toString(16).padStart(2, '0');
+    }
+  }
+
+  return `<${hex.toUpperCase()}>`;
+}
+
+/** ToUnicode CMap so text copied out of the PDF maps back to the source characters. */
+function buildToUnicodeCMap(usedGlyphs: Map<number, number>): string {
+  const entries = [...usedGlyphs.entries()].sort((a, b) => a[0] - b[0]);
+  let cmap = '/CIDInit /ProcSet findresource begin\n12 dict begin\nbegincmap\n' +
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def\n' +
+    '/CMapName /Adobe-Identity-UCS def\n/CMapType 2 def\n' +
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange\n';
+
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    cmap += `${chunk.length} beginbfchar\n`;
+    for (const [glyphId, codePoint] of chunk) {
+      const unicode = String.fromCodePoint(codePoint);
+      let utf16 = '';
+      for (let j = 0; j < unicode.length; j++) {
+        utf16 += unicode.charCodeAt(j).toString(16).padStart(4, '0');
+      }
+      cmap += `<${glyphId.toString(16).padStart(4, '0')}> <${utf16}>\n`;
+    }
+    cmap += 'endbfchar\n';
+  }
+
+  return cmap + 'endcmap\nCMapName currentdict /CMap defineresource pop\nend\nend\n';
+}
+
+/** Write the font dictionaries once all text has been encoded. */
+function writeFont(font: PDFFont, doc: PDFDocument): number {
+  if (!font.parsed) {
+    return addObject(doc,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font.standardName} /Encoding /WinAnsiEncoding >>`);
+  }
+
+  const parsed = font.parsed;
+  const scale = 1000 / parsed.unitsPerEm;
+  const baseFont = pdfName(parsed.postscriptName);
+
+  // Whole font files are embedded; OpenType CFF fonts need PDF 1.6 FontFile3
+  const fontFileRef = parsed.isCFF
+    ? addStream(doc, '/Subtype /OpenType', parsed.data)
+    : addStream(doc, `/Length1 ${parsed.data.length}`, parsed.data);
+
+  let flags = 32;  // nonsymbolic
+  if (parsed.isItalic) flags |= 64;
+
+  const descriptorRef = addObject(doc,
+    `<< /Type /FontDescriptor /FontName /${baseFont} /Flags ${flags} ` +
+    `/FontBBox [${parsed.bbox.map(v => Math.round(v * scale)).join(' ')}] ` +
+    `/ItalicAngle ${num(parsed.italicAngle)} /Ascent ${Math.round(parsed.ascender * scale)} ` +
+    `/Descent ${Math.round(parsed.descender * scale)} /CapHeight ${Math.round(parsed.capHeight * scale)} ` +
+    `/StemV ${parsed.weightClass >= 600 ? 120 : 80} ` +
+    `/${parsed.isCFF ? 'FontFile3' : 'FontFile2'} ${fontFileRef} 0 R >>`);
+
+  const widths = [...font.usedGlyphs.keys()]
+    .sort((a, b) => a - b)
+    .map(glyphId => `${glyphId} [${Math.round((parsed.advanceWidths[glyphId] ?? 0) * scale)}]`)
+    .join(' ');
+
+  const cidFontRef = addObject(doc,
+    `<< /Type /Font /Subtype /${parsed.isCFF ? 'CIDFontType0' : 'CIDFontType2'} /BaseFont /${baseFont} ` +
+    `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+    `/FontDescriptor ${descriptorRef} 0 R /DW 1000 /W [${widths}]` +
+    `${parsed.isCFF ? '' : ' /CIDToGIDMap /Identity'} >>`);
+
+  const toUnicodeRef = addStream(doc, '', Buffer.from(buildToUnicodeCMap(font.usedGlyphs), 'latin1'));
+
+  return addObject(doc,
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H ` +
+    `/DescendantFonts [${cidFontRef} 0 R] /ToUnicode ${toUnicodeRef} 0 R >>`);
+}
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+function embedJPEG(data: Buffer, doc: PDFDocument): { ref: number; width: number; height: number } | null {
+  let offset = 2;
+  let isAdobe = false;
+
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xFF) return null;
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+
+    if (marker === 0xEE && data.toString('latin1', offset + 4, offset + 9) === 'Adobe') {
+      isAdobe = true;
+    }
+
+    // SOF markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+      const height = data.readUInt16BE(offset + 5);
+      const width = data.readUInt16BE(offset + 7);
+      const components = data[offset + 9];
+      const colorSpace = components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+      // Adobe CMYK JPEGs store inverted values
+      const decode = components === 4 && isAdobe ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+
+      const ref = addStream(doc,
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} ` +
+        `/ColorSpace /${colorSpace} /BitsPerComponent 8${decode} /Filter /DCTDecode`,
+        data, false);
+      return { ref, width, height };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+/** Reverse PNG scanline filtering. */
+function unfilterPNG(data: Buffer, width: number, height: number, bitsPerPixel: number): Buffer {
+  const bytesPerPixel = Math.max(1, Math.ceil(bitsPerPixel / 8));
+  const rowBytes = Math.ceil(width * bitsPerPixel / 8);
+  const output = Buffer.alloc(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (rowBytes + 1)];
+    const input = y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    const previous = row - rowBytes;
+
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[input + x];
+      const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? output[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default: value = raw;
+      }
+      output[row + x] = value & 0xFF;
+    }
+  }
+
+  return output;
+}
+
+function embedPNG(data: Buffer, doc: PDFDocument): { ref: number; width: number; height: number } | null {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlaced = chunk[12] === 1;
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  if (interlaced) throw new Error('interlaced PNG images are not supported');
+
+  const compressed = Buffer.concat(idat);
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (!channels || !width || !height) return null;
+
+  const colorSpace = colorType === 3 && palette
+    ? `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${palette.toString('hex')}>]`
+    : colorType === 0 || colorType === 4 ? '/DeviceGray' : '/DeviceRGB';
+
+  // Without an alpha channel the PNG data can be passed through with the PNG predictor
+  if (colorType !== 4 && colorType !== 6) {
+    const colors = colorType === 2 ? 3 : 1;
+    let mask = '';
+
+    if (transparency && colorType === 3) {
+      const pixels = unfilterPNG(zlib.inflateSync(compressed), width, height, bitDepth);
+      const rowBytes = Math.ceil(width * bitDepth / 8);
+      const alpha = Buffer.alloc(width * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const bit = x * bitDepth;
+          const index = (pixels[y * rowBytes + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+          alpha[y * width + x] = index < transparency.length ? transparency[index] : 255;
+        }
+      }
+      const maskRef = addStream(doc,
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8`,
+        alpha);
+      mask = ` /SMask ${maskRef} 0 R`;
+    } else if (transparency) {
+      // Color-key transparency: one sample per channel
+      const keys: number[] = [];
+      for (let i = 0; i + 1 < transparency.length; i += 2) {
+        const key = transparency.readUInt16BE(i);
+        keys.push(key, key);
+      }
+      mask = ` /Mask [${keys.join(' ')}]`;
+    }
+
+    const ref = addStream(doc,
+      `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} ` +
+      `/BitsPerComponent ${bitDepth}${mask} /Filter /FlateDecode ` +
+      `/DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+      compressed, false);
+    return { ref, width, height };
+  }
+
+  // Split interleaved alpha into a soft mask; 16-bit samples keep their high byte
+  const pixels = unfilterPNG(zlib.inflateSync(compressed), width, height, channels * bitDepth);
+  const sampleBytes = bitDepth / 8;
+  const colorChannels = channels - 1;
+  const color = Buffer.alloc(width * height * colorChannels);
+  const alpha = Buffer.alloc(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const pixel = i * channels * sampleBytes;
+    for (let c = 0; c < colorChannels; c++) {
+      color[i * colorChannels + c] = pixels[pixel + c * sampleBytes];
+    }
+    alpha[i] = pixels[pixel + colorChannels * sampleBytes];
+  }
+
+  const maskRef = addStream(doc,
+    `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8`,
+    alpha);
+  const ref = addStream(doc,
+    `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} ` +
+    `/BitsPerComponent 8 /SMask ${maskRef} 0 R`,
+    color);
+  return { ref, width, height };
+}
+
+function getImage(url: string, context: PDFRenderContext): PDFImage | null {
+  if (context.images.has(url)) return context.images.get(url)!;
+
+  if (isRemoteURL(url)) {
+    report(context, 'error', 'missing_resource', `Remote image '${describeURL(url)}' is not embedded and was left out`);
+    context.images.set(url, null);
+    return null;
+  }
+
+  const data = readLocalResource(url, context.baseDir);
+  let embedded: { ref: number; width: number; height: number } | null = null;
+  let problem: string | null = null;
+
+  if (!data) {
+    problem = 'the file cannot be read';
+  } else {
+    try {
+      if (data[0] === 0xFF && data[1] === 0xD8) {
+        embedded = embedJPEG(data, context.doc);
+      } else if (data.toString('latin1', 1, 4) === 'PNG') {
+        embedded = embedPNG(data, context.doc);
+      } else {
+        problem = 'only JPEG and PNG images are supported';
+      }
+    } catch (error: any) {
+      problem = error.message;
+    }
+    if (!embedded && !problem) problem = 'the file is damaged';
+  }
+
+  if (problem) {
+    report(context, 'error', data ? 'unsupported_feature' : 'missing_resource',
+      `Cannot embed image '${describeURL(url)}' (${problem}); it was left out`);
+  }
+
+  const image = embedded ? { resourceName: `Im${context.images.size + 1}`, ...embedded } : null;
+  context.images.set(url, image);
+  return image;
+}
+
+// ============================================================================
+// ELEMENT RENDERING
+// ============================================================================
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Extend edges that touch the canvas edge into the bleed area, so
+ * full-bleed backgrounds and images survive trimming.
+ */
+function bleedRect(box: LayoutBox, context: PDFRenderContext): Rect {
+  const rect = { x: box.x, y: box.y, width: box.width, height: box.height };
+  if (!context.bleed || box.rotation) return rect;
+
+  const tolerance = 0.5;
+  if (rect.x <= tolerance) {
+    rect.width += rect.x + context.bleed;
+    rect.x = -context.bleed;
+  }
+  if (rect.y <= tolerance) {
+    rect.height += rect.y + context.bleed;
+    rect.y = -context.bleed;
+  }
+  if (rect.x + rect.width >= context.canvasWidth - tolerance) {
+    rect.width = context.canvasWidth + context.bleed - rect.x;
+  }
+  if (rect.y + rect.height >= context.canvasHeight - tolerance) {
+    rect.height = context.canvasHeight + context.bleed - rect.y;
+  }
+
+  return rect;
+}
+
+function getBorder(style: ElementStyle): { width: number; color?: string } {
+  if (!style.border || style.border.trim() === 'none') return { width: 0 };
+
+  const parts = style.border.trim().split(/\s+/);
+  let width = 0;
+  let literalColor: string | undefined;
+
+  for (const part of parts) {
+    const length = parseLength(part, 0);
+    if (length !== null) width = length;
+    else if (!['solid', 'dashed', 'dotted', 'double'].includes(part)) literalColor = part;
+  }
+
+  if (width === 0 && parts.some(part => ['solid', 'dashed', 'dotted', 'double'].includes(part))) {
+    width = 3;  // CSS 'medium'
+  }
+
+  return { width, color: style.border_color || literalColor || 'black' };
+}
+
+/** PDF path construction operators for box-local path commands */
+function shapePath(path: PathCommand[], offsetX: number, offsetY: number): string {
+  return path.map(command => {
+    switch (command.type) {
+      case 'M':
+        return `${num(command.x + offsetX)} ${num(command.y + offsetY)} m\n`;
+      case 'L':
+        return `${num(command.x + offsetX)} ${num(command.y + offsetY)} l\n`;
+      case 'C':
+        return `${num(command.x1 + offsetX)} ${num(command.y1 + offsetY)} ` +
+          `${num(command.x2 + offsetX)} ${num(command.y2 + offsetY)} ` +
+          `${num(command.x + offsetX)} ${num(command.y + offsetY)} c\n`;
+      case 'Z':
+        return 'h\n';
+    }
+  }).join('');
+}
+
+function renderBoxBackground(box: LayoutBox, context: PDFRenderContext): string {
+  const style = box.element.style || {};
+  const backgroundValue = box.element.element_type === 'shape'
+    ? style.fill || style.background_color
+    : style.background_color;
+  const backgroundGradient = backgroundValue ? context.gradientMap.get(backgroundValue) : undefined;
+  const background = backgroundGradient ? null : resolveColor(backgroundValue, context);
+  const border = getBorder(style);
+  const borderColor = border.width > 0 ? resolveColor(border.color, context) : null;
+  const rect = bleedRect(box, context);
+  let ops = '';
+
+  // Vector shapes keep their own geometry; they are not stretched into the bleed
+  if (isVectorShape(box.element)) {
+    const paint = getShapePaint(box.element);
+    const outline = buildShapeOutline(box.element, box.width, box.height, paint.strokeWidth);
+    const fillGradient = outline.closed && paint.fill ? context.gradientMap.get(paint.fill) : undefined;
+    const fill = outline.closed && !fillGradient ? resolveColor(paint.fill, context) : null;
+    // Strokes are drawn in a gradient's first stop color
+    const stroke = paint.strokeWidth > 0 ? resolveColor(paint.stroke, context) : null;
+    const shape = shapePath(outline.path, box.x, box.y);
+
+    if (fillGradient) {
+      const gradientOps = paintGradient(fillGradient, box, context);
+      if (gradientOps) ops += `q\n${shape}W\nn\n${gradientOps}Q\n`;
+    }
+    if (fill && fill.a > 0) {
+      ops += `q\n${setFillColor(fill, context)}${shape}f\nQ\n`;
+    }
+    if (stroke && stroke.a > 0) {
+      ops += `q\n${setStrokeColor(stroke, context)}${num(paint.strokeWidth)} w\n${shape}S\n`;
+      outline.arrowHeads.forEach(head => {
+        ops += `${setFillColor(stroke, context)}${shapePath(head, box.x, box.y)}f\n`;
+      });
+      ops += 'Q\n';
+    }
+    return ops;
+  }
+
+  if (backgroundGradient) {
+    const gradientOps = paintGradient(backgroundGradient, rect, context);
+    if (gradientOps) {
+      ops += `q\n${num(rect.x)} ${num(rect.y)} ${num(rect.width)} ${num(rect.height)} re\nW\nn\n${gradientOps}Q\n`;
+    }
+  }
+
+  if (background && background.a > 0) {
+    ops += `q\n${setFillColor(background, context)}` +
+      `${num(rect.x)} ${num(rect.y)} ${num(rect.width)} ${num(rect.height)} re\nf\nQ\n`;
+  }
+
+  if (borderColor && borderColor.a > 0) {
+    // CSS borders sit inside the border box; PDF strokes are centered on the path
+    const inset = border.width / 2;
+    ops += `q\n${setStrokeColor(borderColor, context)}${num(border.width)} w\n` +
+      `${num(box.x + inset)} ${num(box.y + inset)} ` +
+      `${num(Math.max(0, box.width - border.width))} ${num(Math.max(0, box.height - border.width))} re\nS\nQ\n`;
+  }
+
+  return ops;
+}
+
+/**
+ * Text positioning and showing operators for one line segment (a whole line
+ * of plain text). Straight text is shown whole; curved text is shown glyph
+ * by glyph along its arc.
+ */
+function textRuns(
+  segment: TextSegment,
+  line: TextLine,
+  baseline: number,
+  arc: TextArc | undefined,
+  font: PDFFont,
+  skew: number,
+  context: PDFRenderContext
+): string {
+  const textStyle = segment.textStyle;
+  const fontSize = textStyle.fontSize;
+  const advance = (text: string) => font.parsed
+    ? getAdvanceWidth(font.parsed, text) / font.parsed.unitsPerEm * fontSize + textStyle.letterSpacing * [...text].length
+    : context.measurer.measureWidth(text, textStyle);
+
+  if (arc) {
+    const glyphs = [...segment.text];
+    const total = glyphs.reduce((sum, glyph) => sum + advance(glyph), 0);
+    let distance = segment.x - line.x + (segment.width - total) / 2;
+    let ops = '';
+
+    for (const glyph of glyphs) {
+      const width = advance(glyph);
+      // Rotate each glyph to the baseline's direction at its center
+      const point = pointOnArc(arc, distance + width / 2);
+      const ux = Math.cos(point.angle);
+      const uy = Math.sin(point.angle);
+      const x = point.x - ux * width / 2;
+      const y = point.y - uy * width / 2;
+      ops += `${num(ux)} ${num(uy)} ${num(skew * ux + uy)} ${num(skew * uy - ux)} ${num(x)} ${num(y)} Tm\n` +
+        `${encodeText(font, glyph)} Tj\n`;
+      distance += width;
+    }
+    return ops;
+  }
+
+  // Embedded fonts know their real advance; re-align against the segment box
+  const width = font.parsed ? advance(segment.text) : segment.width;
+  const x = textStyle.textAlign === 'center' ? segment.x + (segment.width - width) / 2
+    : textStyle.textAlign === 'right' ? segment.x + segment.width - width
+    : segment.x;
+
+  // Flip text space back upright inside the y-down page transform
+  return `1 0 ${num(skew)} -1 ${num(x)} ${num(line.y + baseline)} Tm\n` +
+    `${encodeText(font, segment.text)} Tj\n`;
+}
+
+/** Text object drawing a box's segments that share one resolved style. */
+function renderTextObject(
+  box: LayoutBox,
+  textStyle: ResolvedTextStyle,
+  pieces: Array<{ segment: TextSegment; line: TextLine; baseline: number }>,
+  arc: TextArc | undefined,
+  context: PDFRenderContext
+): string {
+  const gradient = textStyle.color ? context.gradientMap.get(textStyle.color) : undefined;
+  const color = resolveColor(textStyle.color || 'black', context);
+  if (!color || (color.a === 0 && !gradient)) return '';
+
+  const font = getPDFFont(textStyle, context);
+  const fontSize = textStyle.fontSize;
+
+  const syntheticBold = font.parsed && isBold(textStyle.fontWeight) && font.parsed.weightClass < 600;
+  const syntheticItalic = font.parsed && textStyle.fontStyle !== 'normal' && !font.parsed.isItalic;
+  const skew = syntheticItalic ? SYNTHETIC_ITALIC_SKEW : 0;
+
+  const runs = pieces.map(piece => textRuns(piece.segment, piece.line, piece.baseline, arc, font, skew, context)).join('');
+  const textObject = (mode: number) => `BT\n/${font.resourceName} ${num(fontSize)} Tf\n` +
+    (textStyle.letterSpacing ? `${num(textStyle.letterSpacing)} Tc\n` : '') +
+    (mode ? `${mode} Tr\n` : '') +
+    `${runs}ET\n`;
+
+  // Outlines are stroked first and the fill drawn over them, so only their
+  // outer half shows (like paint-order: stroke)
+  let ops = '';
+  const style = box.element.style || {};
+  const stroke = style.stroke ? resolveColor(style.stroke, context) : null;
+  if (stroke && stroke.a > 0) {
+    const strokeWidth = parseLength(style.stroke_width, 0) ?? 1;
+    ops += `q\n${setStrokeColor(stroke, context)}${num(strokeWidth)} w\n${textObject(1)}Q\n`;
+  }
+
+  // Gradient text is drawn by clipping to the glyph outlines (mode 7) and
+  // painting the gradient over the box
+  if (gradient) {
+    return ops + `q\n${textObject(7)}${paintGradient(gradient, box, context)}Q\n`;
+  }
+
+  ops += `q\n${setFillColor(color, context)}`;
+  if (syntheticBold) {
+    ops += `${setStrokeColor(color, context)}${num(fontSize * SYNTHETIC_BOLD_STROKE)} w\n`;
+  }
+  return ops + textObject(syntheticBold ? 2 : 0) + 'Q\n';
+}
+
+function renderText(box: LayoutBox, context: PDFRenderContext): string {
+  if (!box.lines || box.lines.length === 0) return '';
+
+  const metrics = context.measurer.getMetrics(box.textStyle);
+  const baselineOffset = getBaselineOffset(box.textStyle, metrics);
+  const curvature = getCurvature(box.element);
+  const arc = curvature !== 0
+    ? buildTextArc(box.lines[0], box.lines[0].baseline ?? baselineOffset, curvature)
+    : undefined;
+
+  // Rich text lines hold one segment per run; each style gets a text object
+  const groups = new Map<ResolvedTextStyle, Array<{ segment: TextSegment; line: TextLine; baseline: number }>>();
+  for (const line of box.lines) {
+    const segments = line.segments || [{ text: line.text, x: line.x, width: line.width, textStyle: box.textStyle }];
+    for (const segment of segments) {
+      const pieces = groups.get(segment.textStyle) || [];
+      pieces.push({ segment, line, baseline: line.baseline ?? baselineOffset });
+      groups.set(segment.textStyle, pieces);
+    }
+  }
+
+  return [...groups].map(([textStyle, pieces]) => renderTextObject(box, textStyle, pieces, arc, context)).join('');
+}
+
+function renderImage(url: string | undefined, box: LayoutBox, context: PDFRenderContext): string {
+  if (!url) return '';
+
+  const image = getImage(url, context);
+  if (!image) return '';
+
+  const style = box.element.style || {};
+  const rect = bleedRect(box, context);
+
+  // Images without a laid-out size fall back to their intrinsic size
+  if (rect.width <= 0 && rect.height <= 0) {
+    rect.width = image.width;
+    rect.height = image.height;
+  } else if (rect.width <= 0) {
+    rect.width = rect.height * image.width / image.height;
+  } else if (rect.height <= 0) {
+    rect.height = rect.width * image.height / image.width;
+  }
+
+  let drawWidth = rect.width;
+  let drawHeight = rect.height;
+  const fitScale = {
+    contain: Math.min(rect.width / image.width, rect.height / image.height),
+    'scale-down': Math.min(1, rect.width / image.width, rect.height / image.height),
+    cover: Math.max(rect.width / image.width, rect.height / image.height),
+    none: 1
+  }[style.object_fit || 'fill'];
+
+  if (fitScale !== undefined) {
+    drawWidth = image.width * fitScale;
+    drawHeight = image.height * fitScale;
+  }
+
+  const drawX = rect.x + (rect.width - drawWidth) / 2;
+  const drawY = rect.y + (rect.height - drawHeight) / 2;
+
+  // Image space is a bottom-up unit square; flip it into the y-down page space
+  const opacity = context.opacity < 1 ? `/${getExtGState(context.opacity, context)} gs\n` : '';
+  return `q\n${opacity}${num(rect.x)} ${num(rect.y)} ${num(rect.width)} ${num(rect.height)} re\nW\nn\n` +
+    `${num(drawWidth)} 0 0 ${num(-drawHeight)} ${num(drawX)} ${num(drawY + drawHeight)} cm\n` +
+    `/${image.resourceName} Do\nQ\n`;
+}
+
+/**
+ * Inline SVG content as PDF paths: basic shapes are drawn, clipped to the
+ * box; anything else (text, images, gradient paints) is reported and left
+ * out
+ */
+function renderSVGContent(box: LayoutBox, context: PDFRenderContext): string {
+  const svgContent = sanitizeSVG(box.element.svg_content || '');
+  const { shapes, skipped } = getSVGShapes(svgContent, box.width, box.height);
+  if (skipped.length > 0) {
+    report(context, 'error', 'unsupported_feature',
+      `Parts of the SVG content cannot be drawn in PDF and were left out: ${skipped.join(', ')}`);
+  }
+  if (shapes.length === 0) return '';
+
+  let ops = `q\n${num(box.x)} ${num(box.y)} ${num(box.width)} ${num(box.height)} re\nW\nn\n`;
+  for (const shape of shapes) {
+    const path = shapePath(shape.path, box.x, box.y);
+    const fill = resolveColor(shape.fill, context);
+    const stroke = resolveColor(shape.stroke, context);
+
+    if (fill && fill.a * shape.fillOpacity > 0) {
+      ops += `q\n${setFillColor({ ...fill, a: fill.a * shape.fillOpacity }, context)}${path}${shape.evenOdd ? 'f*' : 'f'}\nQ\n`;
+    }
+    if (stroke && stroke.a * shape.strokeOpacity > 0) {
+      ops += `q\n${setStrokeColor({ ...stroke, a: stroke.a * shape.strokeOpacity }, context)}` +
+        `${num(shape.strokeWidth)} w\n${path}S\nQ\n`;
+    }
+  }
+  return ops + 'Q\n';
+}
+
+function renderBox(box: LayoutBox, context: PDFRenderContext): string {
+  const element = box.element;
+  if (element.style?.display === 'none') return '';
+
+  const parentPath = context.elementPath;
+  context.elementPath = parentPath ? `${parentPath}/${element.element_id}` : element.element_id;
+
+  if (element.style?.filters?.length || (element.style?.blend_mode && element.style.blend_mode !== 'normal')) {
+    report(context, 'warning', 'unsupported_feature', 'Filters and blend modes are not supported in PDF and were ignored');
+  }
+
+  // Opacity multiplies into every color drawn for the box and its children
+  const parentOpacity = context.opacity;
+  context.opacity *= parseOpacity(element.style?.opacity);
+  let content = renderBoxBackground(box, context);
+
+  switch (element.element_type) {
+    case 'data_item':
+      if (box.dataItem?.type === 'text') {
+        content += renderText(box, context);
+      } else if (box.dataItem?.type === 'image') {
+        content += renderImage(box.dataItem.image_url, box, context);
+      }
+      break;
+
+    case 'image':
+      content += renderImage(element.image_url, box, context);
+      break;
+
+    case 'svg':
+      content += renderSVGContent(box, context);
+      break;
+
+    case 'container':
+      content += renderBoxes(box.children, context);
+      break;
+  }
+  context.opacity = parentOpacity;
+  context.elementPath = parentPath;
+
+  if (!content) return '';
+
+  if (box.rotation) {
+    const radians = box.rotation * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    // Rotate around the box center: translate(c) rotate translate(-c)
+    const e = cx - cos * cx + sin * cy;
+    const f = cy - sin * cx - cos * cy;
+    return `q\n${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(e)} ${num(f)} cm\n${content}Q\n`;
+  }
+
+  return content;
+}
+
+/** Render sibling boxes in paint order (z-index, then document order). */
+function renderBoxes(boxes: LayoutBox[], context: PDFRenderContext): string {
+  return boxes
+    .map((box, index) => ({ box, index }))
+    .sort((a, b) => a.box.zIndex - b.box.zIndex || a.index - b.index)
+    .map(({ box }) => renderBox(box, context))
+    .join('');
+}
+
+/** Trim marks at each corner of the trim box, kept clear of the bleed. */
+function renderCropMarks(trim: Rect, bleedPt: number, mmToPt: number): string {
+  const offset = bleedPt + CROP_MARK_OFFSET_MM * mmToPt;
+  const length = CROP_MARK_LENGTH_MM * mmToPt;
+  // Registration color so marks print on every separation
+  let ops = `q\n1 1 1 1 K\n${CROP_MARK_WIDTH_PT} w\n`;
+
+  const corners = [
+    { x: trim.x, y: trim.y, dx: -1, dy: -1 },
+    { x: trim.x + trim.width, y: trim.y, dx: 1, dy: -1 },
+    { x: trim.x, y: trim.y + trim.height, dx: -1, dy: 1 },
+    { x: trim.x + trim.width, y: trim.y + trim.height, dx: 1, dy: 1 }
+  ];
+
+  for (const { x, y, dx, dy } of corners) {
+    ops += `${num(x + dx * offset)} ${num(y)} m ${num(x + dx * (offset + length))} ${num(y)} l S\n`;
+    ops += `${num(x)} ${num(y + dy * offset)} m ${num(x)} ${num(y + dy * (offset + length))} l S\n`;
+  }
+
+  return ops + 'Q\n';
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Export a scene as a single-page PDF without a browser.
+ *
+ * The page trim size is the canvas size at the given DPI. Local font files
+ * (TrueType/OpenType) and images (JPEG/PNG) are embedded; inline SVG is
+ * drawn as its basic shapes. What cannot be drawn (remote images, other SVG
+ * content, unsupported colors) is left out and fonts without a local file
+ * fall back to Helvetica; each is returned as a diagnostic.
+ */
+export function exportSceneToPDF(scene: Scene, options: PDFExportOptions = {}): PDFExportResult {
+  scene = prepareScene(scene, options.variables);
+  const { template, theme } = scene;
+  const { page_size: pageSize } = template.canvas;
+  const bleedMm = Math.max(0, options.bleed || 0);
+  const baseDir = options.baseDir || process.cwd();
+
+  // The canvas of a template with a page size was sized from it at the
+  // canvas DPI, so that DPI is kept and the page size is the exact trim size
+  const dpi = pageSize ? getCanvasDPI(template) : options.dpi || getCanvasDPI(template);
+  const pxToPt = POINTS_PER_INCH / dpi;
+  const mmToPt = POINTS_PER_INCH / MM_PER_INCH;
+  const bleedPt = bleedMm * mmToPt;
+  const margin = bleedPt + (options.cropMarks ? (CROP_MARK_OFFSET_MM + CROP_MARK_LENGTH_MM + 2) * mmToPt : 0);
+
+  const trim: Rect = {
+    x: margin,
+    y: margin,
+    width: pageSize ? physicalToPixels(pageSize.width, pageSize.unit, POINTS_PER_INCH) : template.canvas.width * pxToPt,
+    height: pageSize ? physicalToPixels(pageSize.height, pageSize.unit, POINTS_PER_INCH) : template.canvas.height * pxToPt
+  };
+  const pageWidth = trim.width + margin * 2;
+  const pageHeight = trim.height + margin * 2;
+
+  // Layout measures with the embedded font files, so line breaks and
+  // alignment match the glyphs written to the PDF
+  const diagnostics: RenderDiagnostic[] = [];
+  const parsedFonts = loadThemeFonts(theme.font_palette, url => readLocalResource(url, baseDir),
+    (font, message) => diagnostics.push({
+      severity: 'warning', code: 'font_fallback', element_path: `font_palette/${font.font_id}`, message
+    }));
+  const measurer = options.measurer || createFontMeasurer(parsedFonts);
+
+  const doc: PDFDocument = { objects: [] };
+  const context: PDFRenderContext = {
+    doc,
+    colorMap: new Map(theme.color_palette.map(color => [color.id, color])),
+    gradientMap: buildGradientMap(theme),
+    parsedFonts,
+    measurer,
+    baseDir,
+    canvasWidth: template.canvas.width,
+    canvasHeight: template.canvas.height,
+    bleed: bleedPt / pxToPt,
+    fonts: new Map(),
+    images: new Map(),
+    extGStates: new Map(),
+    shadings: [],
+    opacity: 1,
+    fontFallbacks: getFontFallbacks(theme.font_palette, parsedFonts),
+    elementPath: '',
+    diagnostics
+  };
+
+  const layout = layoutPreparedScene(scene, { measurer });
+
+  // Draw in canvas pixels with a y-down origin at the top-left of the trim box,
+  // clipped to the bleed box
+  let content = `q\n${num(pxToPt)} 0 0 ${num(-pxToPt)} ${num(trim.x)} ${num(trim.y + trim.height)} cm\n` +
+    `${num(-context.bleed)} ${num(-context.bleed)} ${num(context.canvasWidth + context.bleed * 2)} ` +
+    `${num(context.canvasHeight + context.bleed * 2)} re\nW\nn\n`;
+  content += renderBoxes(layout.boxes, context);
+  content += 'Q\n';
+
+  if (options.cropMarks) {
+    content += renderCropMarks(trim, bleedPt, mmToPt);
+  }
+
+  const contentRef = addStream(doc, '', Buffer.from(content, 'latin1'));
+
+  const fontResources = [...context.fonts.values()]
+    .map(font => `/${font.resourceName} ${writeFont(font, doc)} 0 R`)
+    .join(' ');
+  const imageResources = [...context.images.values()]
+    .filter((image): image is PDFImage => image !== null)
+    .map(image => `/${image.resourceName} ${image.ref} 0 R`)
+    .join(' ');
+  const stateResources = [...context.extGStates.entries()]
+    .map(([alpha, name]) => `/${name} << /Type /ExtGState /ca ${alpha} /CA ${alpha} >>`)
+    .join(' ');
+  const shadingResources = context.shadings
+    .map((shading, index) => `/Sh${index + 1} ${shading}`)
+    .join(' ');
+
+  let resources = '/ProcSet [/PDF /Text /ImageB /ImageC /ImageI]';
+  if (fontResources) resources += ` /Font << ${fontResources} >>`;
+  if (imageResources) resources += ` /XObject << ${imageResources} >>`;
+  if (stateResources) resources += ` /ExtGState << ${stateResources} >>`;
+  if (shadingResources) resources += ` /Shading << ${shadingResources} >>`;
+
+  const box = (x1: number, y1: number, x2: number, y2: number) =>
+    `[${num(x1)} ${num(y1)} ${num(x2)} ${num(y2)}]`;
+
+  const pagesRef = allocateObject(doc);
+  const pageRef = addObject(doc,
+    `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox ${box(0, 0, pageWidth, pageHeight)} ` +
+    `/BleedBox ${box(trim.x - bleedPt, trim.y - bleedPt, trim.x + trim.width + bleedPt, trim.y + trim.height + bleedPt)} ` +
+    `/TrimBox ${box(trim.x, trim.y, trim.x + trim.width, trim.y + trim.height)} ` +
+    `/Resources << ${resources} >> /Contents ${contentRef} 0 R >>`);
+  setObject(doc, pagesRef, `<< /Type /Pages /Kids [${pageRef} 0 R] /Count 1 >>`);
+
+  const catalogRef = addObject(doc, `<< /Type /Catalog /Pages ${pagesRef} 0 R >>`);
+  const infoRef = addObject(doc,
+    `<< /Title ${pdfTextString(options.title || template.template_name)} /Producer (canva-killer) >>`);
+
+  return { pdf: serializeDocument(doc, catalogRef, infoRef), diagnostics };
+}
@@ -0,0 +1,32 @@
+import type { Scene, RenderDiagnostic, VariableValues } from './types';
+import { bindVariables } from './variables';
+import { expandRepeaters } from './repeaters';
+import { applyVisibility } from './visibility';
+import { formatDataItems } from './typed-data';
+import { resolveSceneUnits } from './units';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * The scene every renderer and the layout draw: variables are filled in,
+ * repeaters become one copy of their item template per list record,
+ * elements whose visible_when conditions fail are dropped, typed data items
+ * (dates, numbers, ...) are formatted as text and physical lengths (mm,
+ * pt, ...) become pixels at the canvas DPI. Conditions are evaluated before
+ * formatting, so they test typed values as written.
+ *
+ * Problems with repeaters, conditions and typed values are passed to
+ * `report`; variable problems are collected separately (see
+ * collectVariableDiagnostics). Preparing a prepared scene again would fill
+ * in placeholders inside substituted values, so it is done once per render.
+ */
+export function prepareScene(
+  scene: Scene,
+  variables?: VariableValues,
+  report: (diagnostic: RenderDiagnostic) => void = () => {}
+): Scene {
+  const expanded = expandRepeaters(bindVariables(scene, variables), report);
+  return resolveSceneUnits(formatDataItems(applyVisibility(expanded, variables, report), report));
+}
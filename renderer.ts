@@ -4,14 +4,95 @@ import type {
   DataItem,
   Color,
   Font,
+  Gradient,
   ElementStyle,
-  RenderResult
+  TextRun,
+  RenderResult,
+  RenderOptions
 } from './types';
+import {
+  escapeHTML,
+  sanitizeTextContent,
+  sanitizeSVG,
+  sanitizeCSSValue,
+  escapeCSSString,
+  escapeCSSIdentifier
+} from './sanitize';
+
+import { renderSceneInline } from './inline-renderer';
+import { collectRenderDiagnostics, collectVariableDiagnostics } from './diagnostics';
+import { prepareScene } from './prepare-scene';
+import {
+  layoutPreparedScene,
+  parseAngle,
+  parseLength,
+  parseEdges,
+  parseBorderWidth,
+  getBaselineOffset,
+  approximateMeasurer,
+  getTextFit,
+  LayoutBox
+} from './layout';
+import { isVectorShape, getShapePaint, buildShapeOutline, renderShapeSVG } from './shapes';
+import { buildGradientMap, gradientToCSS, getFallbackColor, renderSVGGradient } from './gradients';
+import { filtersToCSS } from './effects';
+import { getCurvature, buildTextArc, renderArcTextSVG } from './text-arc';
+import { getTextRuns, renderRunsHTML } from './rich-text';
+import { getFontStack, getFontFaces } from './font-stack';
+
+export { escapeHTML, sanitizeTextContent, sanitizeSVG };
+
+// Style keys whose values reference the theme's colors and gradients
+const COLOR_KEYS = ['color', 'fill', 'background_color', 'border_color'];
+
+/**
+ * Solid CSS color for a theme color or gradient id (a gradient's first stop)
+ * or a literal color
+ */
+function resolveSolidColor(
+  value: string,
+  colorMap: Map<string, Color>,
+  gradientMap: Map<string, Gradient>,
+  options: RenderOptions
+): string {
+  const gradient = gradientMap.get(value);
+  const id = gradient ? getFallbackColor(gradient) || '' : value;
+  const color = colorMap.get(id);
+  if (color) return `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})`;
+  return options.trusted ? id : sanitizeCSSValue(id);
+}
+
+/** Width in px of a text outline's stroke (1px when only a color is set) */
+function getTextStrokeWidth(style: ElementStyle): number {
+  return parseLength(style.stroke_width, 0) ?? 1;
+}
+
+/**
+ * Style with the font size auto-fit text was laid out at. The line height
+ * becomes unitless so styled runs scale it as the layout does.
+ */
+function fitTextCSS(style: ElementStyle, box: LayoutBox): ElementStyle {
+  const { fontSize, lineHeight } = box.textStyle;
+  return {
+    ...style,
+    font_size: `${Math.round(fontSize * 100) / 100}px`,
+    line_height: String(Math.round(lineHeight / fontSize * 10000) / 10000)
+  };
+}
 
 /**
  * Main function to render a scene to HTML and CSS
  */
-export function renderScene(scene: Scene): RenderResult {
+export function renderScene(scene: Scene, options: RenderOptions = {}): RenderResult {
+  const sourceDiagnostics = collectVariableDiagnostics(scene, options.variables);
+  scene = prepareScene(scene, options.variables, diagnostic => sourceDiagnostics.push(diagnostic));
+  const layout = layoutPreparedScene(scene, { measurer: options.measurer });
+  const diagnostics = [...collectRenderDiagnostics(scene, layout), ...sourceDiagnostics];
+
+  if (options.mode === 'inline') {
+    return { ...renderSceneInline(scene, options), diagnostics };
+  }
+
   const { data, template, theme } = scene;
 
   // Build lookup maps for quick access
@@ -21,16 +102,27 @@ export function renderScene(scene: Scene): RenderResult {
   const colorMap = new Map<string, Color>();
   theme.color_palette.forEach(color => colorMap.set(color.id, color));
 
+  const gradientMap = buildGradientMap(theme);
+
   const fontMap = new Map<string, Font>();
   theme.font_palette.forEach(font => fontMap.set(font.font_id, font));
 
+  // Vector shapes are drawn at their laid-out size, and auto-fit text at its
+  // fitted font size
+  const layoutBoxes = new Map<Element, LayoutBox>();
+  const collectBoxes = (boxes: LayoutBox[]) => boxes.forEach(box => {
+    layoutBoxes.set(box.element, box);
+    collectBoxes(box.children);
+  });
+  collectBoxes(layout.boxes);
+
   // Generate CSS
-  const css = generateCSS(theme, template, fontMap, colorMap);
+  const css = generateCSS(theme, template, fontMap, colorMap, gradientMap, options, layoutBoxes);
 
   // Generate HTML
-  const html = generateHTML(template, dataItemMap, scene);
+  const html = generateHTML(template, dataItemMap, scene, options, layoutBoxes);
 
-  return { html, css };
+  return { html, css, diagnostics };
 }
 
 /**
@@ -40,33 +132,22 @@ function generateCSS(
   theme: any,
   template: any,
   fontMap: Map<string, Font>,
-  colorMap: Map<string, Color>
+  colorMap: Map<string, Color>,
+  gradientMap: Map<string, Gradient>,
+  options: RenderOptions,
+  layoutBoxes: Map<Element, LayoutBox>
 ): string {
   let css = '';
 
-  // Add font imports — @import rules first, then @font-face (CSS spec requirement)
-  const imports: string[] = [];
-  const fontFaces: string[] = [];
-
-  theme.font_palette.forEach((font: Font) => {
-    if (font.font_url.startsWith('http')) {
-      imports.push(`@import url('${font.font_url}');`);
-    } else {
-      const ext = font.font_url.split('.').pop()?.toLowerCase() || 'otf';
-      const formatMap: Record<string, string> = {
-        otf: 'opentype', ttf: 'truetype', woff: 'woff', woff2: 'woff2'
-      };
-      const format = formatMap[ext] || 'opentype';
-      fontFaces.push(`@font-face {\n  font-family: '${font.font_name}';\n  src: url('${font.font_url}') format('${format}');\n}`);
-    }
-  });
-
-  if (imports.length > 0) css += imports.join('\n') + '\n';
-  if (fontFaces.length > 0) css += fontFaces.join('\n') + '\n';
+  // Add font imports
+  css += generateFontCSS(theme.font_palette);
   css += '\n';
 
+  // Scope all selectors to this scene's root when namespaced
+  const root = options.namespace ? `.scene-container.${escapeCSSIdentifier(options.namespace)}` : '.scene-container';
+
   // Add root container styles
-  css += `.scene-container {
+  css += `${root} {
   width: ${template.canvas.width}px;
   height: ${template.canvas.height}px;
   position: relative;
@@ -75,16 +156,56 @@ function generateCSS(
 }\n\n`;
 
   // Add universal box-sizing
-  css += `.scene-container * {
+  css += `${root} * {
   box-sizing: border-box;
 }\n\n`;
 
   // Generate styles for each element
   const elements = template.elements;
   elements.forEach((element: Element) => {
-    css += generateElementCSS(element, fontMap, colorMap);
+    css += generateElementCSS(element, fontMap, colorMap, gradientMap, options, layoutBoxes, options.namespace);
+  });
+
+  return css;
+}
+
+/**
+ * Generate font loading rules — @import rules first, then @font-face (CSS spec requirement).
+ * Fonts with several faces get one @font-face per face, with its weight and style.
+ */
+export function generateFontCSS(fonts: Font[]): string {
+  const imports: string[] = [];
+  const fontFaces: string[] = [];
+
+  fonts.forEach((font: Font) => {
+    // Web-safe fonts have no URL, so no faces to load
+    const faces = getFontFaces(font);
+    const multiFace = Array.isArray(font.faces) && font.faces.length > 0;
+
+    faces.forEach(face => {
+      if (face.url.startsWith('http')) {
+        const rule = `@import url('${escapeCSSString(face.url)}');`;
+        if (!imports.includes(rule)) imports.push(rule);
+        return;
+      }
+
+      // Embedded fonts carry their type in the data URI's MIME type (e.g. font/ttf)
+      const ext = face.url.startsWith('data:')
+        ? face.url.slice(5).split(/[;,]/)[0].split('/').pop()?.toLowerCase() || 'otf'
+        : face.url.split('.').pop()?.toLowerCase() || 'otf';
+      const formatMap: Record<string, string> = {
+        otf: 'opentype', ttf: 'truetype', woff: 'woff', woff2: 'woff2'
+      };
+      const format = formatMap[ext] || 'opentype';
+      const descriptors = multiFace ? `  font-weight: ${face.weight};\n  font-style: ${face.style};\n` : '';
+      fontFaces.push(`@font-face {\n  font-family: '${escapeCSSString(font.font_name)}';\n${descriptors}` +
+        `  src: url('${escapeCSSString(face.url)}') format('${format}');\n}`);
+    });
   });
 
+  let css = '';
+  if (imports.length > 0) css += imports.join('\n') + '\n';
+  if (fontFaces.length > 0) css += fontFaces.join('\n') + '\n';
   return css;
 }
 
@@ -95,22 +216,48 @@ function generateElementCSS(
   element: Element,
   fontMap: Map<string, Font>,
   colorMap: Map<string, Color>,
+  gradientMap: Map<string, Gradient>,
+  options: RenderOptions,
+  layoutBoxes: Map<Element, LayoutBox>,
   prefix: string = ''
 ): string {
   let css = '';
   const className = prefix ? `${prefix}-${element.element_id}` : element.element_id;
 
   if (element.style) {
-    const styles = convertStyleToCSS(element.style, fontMap, colorMap);
+    // Vector shapes paint their fill and stroke in SVG, not on the box, and
+    // round their corners with corner_radius
+    const style = isVectorShape(element)
+      ? {
+        ...element.style,
+        fill: undefined,
+        background_color: undefined,
+        border: undefined,
+        border_color: undefined,
+        border_radius: undefined,
+        box_shadow: undefined,
+        stroke: undefined,
+        stroke_width: undefined
+      }
+      : getCurvature(element) !== 0
+        // Curved text is drawn in SVG, which outlines it with stroke attributes
+        ? { ...element.style, stroke: undefined, stroke_width: undefined }
+        : element.style;
+    const box = layoutBoxes.get(element);
+    const fitted = box && getTextFit(style) !== 'none' ? fitTextCSS(style, box) : style;
+    const styles = convertStyleToCSS(fitted, fontMap, colorMap, gradientMap, options);
     if (styles) {
-      css += `.${className} {\n${styles}}\n\n`;
+      const selector = options.namespace
+        ? `.${escapeCSSIdentifier(options.namespace)} .${escapeCSSIdentifier(className)}`
+        : `.${escapeCSSIdentifier(className)}`;
+      css += `${selector} {\n${styles}}\n\n`;
     }
   }
 
   // Process children recursively
   if (element.children) {
     element.children.forEach(child => {
-      css += generateElementCSS(child, fontMap, colorMap, className);
+      css += generateElementCSS(child, fontMap, colorMap, gradientMap, options, layoutBoxes, className);
     });
   }
 
@@ -123,7 +270,9 @@ function generateElementCSS(
 function convertStyleToCSS(
   style: ElementStyle,
   fontMap: Map<string, Font>,
-  colorMap: Map<string, Color>
+  colorMap: Map<string, Color>,
+  gradientMap: Map<string, Gradient>,
+  options: RenderOptions
 ): string {
   let css = '';
 
@@ -144,17 +293,84 @@ function convertStyleToCSS(
     css += `  z-index: 1;\n`;
   }
 
-  // Convert each style property
+  getStyleDeclarations(style, fontMap, colorMap, gradientMap, options).forEach(declaration => {
+    css += `  ${declaration};\n`;
+  });
+
+  return css;
+}
+
+/**
+ * CSS declarations (without trailing semicolons) for each property of an
+ * element style
+ */
+function getStyleDeclarations(
+  style: ElementStyle,
+  fontMap: Map<string, Font>,
+  colorMap: Map<string, Color>,
+  gradientMap: Map<string, Gradient>,
+  options: RenderOptions
+): string[] {
+  const declarations: string[] = [];
+
   for (const [key, value] of Object.entries(style)) {
     if (value === undefined) continue;
 
+    // Untrusted styles may only use plain property names
+    if (!options.trusted && !/^[a-z][a-z0-9_]*$/.test(key)) continue;
+
+    // Text outlines, drawn outside the glyphs. Vector shapes draw their
+    // stroke in SVG, so their stroke keys never reach here.
+    if (key === 'stroke_width') continue;
+
+    // Auto-fit settings are applied by layout, which picks the font size
+    if (key === 'text_fit' || key === 'min_font_size' || key === 'max_font_size') continue;
+    if (key === 'stroke') {
+      const width = getTextStrokeWidth(style);
+      declarations.push(`-webkit-text-stroke: ${width}px ${resolveSolidColor(value, colorMap, gradientMap, options)}`);
+      declarations.push('paint-order: stroke fill');
+      continue;
+    }
+
+    if (key === 'filters') {
+      const filter = filtersToCSS(value);
+      if (filter) declarations.push(`filter: ${filter}`);
+      continue;
+    }
+
+    // Rotation is appended to the element's transform
+    if (key === 'rotation') {
+      if (style.transform === undefined) declarations.push(`transform: rotate(${parseAngle(value)}deg)`);
+      continue;
+    }
+
     let cssProperty = key.replace(/_/g, '-');
-    let cssValue = value;
+    let cssValue = options.trusted ? value : sanitizeCSSValue(value);
 
     // Handle special cases
     if (key === 'font' && fontMap.has(value)) {
       const font = fontMap.get(value)!;
-      css += `  font-family: '${font.font_name}', serif;\n`;
+      declarations.push(`font-family: ${getFontStack(font)}`);
+      continue;
+    }
+
+    // Gradients become background images; a gradient text color is the
+    // background clipped to the glyphs
+    const gradient = COLOR_KEYS.includes(key) ? gradientMap.get(value) : undefined;
+    if (gradient) {
+      const image = gradientToCSS(gradient, colorMap, literal => options.trusted ? literal : sanitizeCSSValue(literal));
+      if (key === 'color') {
+        const fallback = colorMap.get(getFallbackColor(gradient) || '');
+        if (fallback) declarations.push(`color: rgba(${fallback.r}, ${fallback.g}, ${fallback.b}, ${fallback.a})`);
+        declarations.push(`background-image: ${image}`);
+        declarations.push('-webkit-background-clip: text');
+        declarations.push('background-clip: text');
+        declarations.push('-webkit-text-fill-color: transparent');
+      } else if (key === 'border_color') {
+        declarations.push(`border-image: ${image} 1`);
+      } else {
+        declarations.push(`background-image: ${image}`);
+      }
       continue;
     }
 
@@ -163,15 +379,23 @@ function convertStyleToCSS(
       cssProperty = 'background-color';
     }
 
-    if ((key === 'color' || key === 'fill' || key === 'background_color' || key === 'border_color') && colorMap.has(value)) {
+    if (key === 'blend_mode') {
+      cssProperty = 'mix-blend-mode';
+    }
+
+    if (key === 'transform' && style.rotation !== undefined) {
+      cssValue += ` rotate(${parseAngle(style.rotation)}deg)`;
+    }
+
+    if (COLOR_KEYS.includes(key) && colorMap.has(value)) {
       const color = colorMap.get(value)!;
       cssValue = `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})`;
     }
 
-    css += `  ${cssProperty}: ${cssValue};\n`;
+    declarations.push(`${cssProperty}: ${cssValue}`);
   }
 
-  return css;
+  return declarations;
 }
 
 /**
@@ -180,12 +404,15 @@ function convertStyleToCSS(
 function generateHTML(
   template: any,
   dataItemMap: Map<string, DataItem>,
-  scene: Scene
+  scene: Scene,
+  options: RenderOptions,
+  layoutBoxes: Map<Element, LayoutBox>
 ): string {
-  let html = '<div class="scene-container">\n';
+  const rootClass = options.namespace ? `scene-container ${escapeHTML(options.namespace)}` : 'scene-container';
+  let html = `<div class="${rootClass}">\n`;
 
   template.elements.forEach((element: Element) => {
-    html += generateElementHTML(element, dataItemMap, scene, 1);
+    html += generateElementHTML(element, dataItemMap, scene, options, layoutBoxes, 1, options.namespace);
   });
 
   html += '</div>';
@@ -200,6 +427,8 @@ function generateElementHTML(
   element: Element,
   dataItemMap: Map<string, DataItem>,
   scene: Scene,
+  options: RenderOptions,
+  layoutBoxes: Map<Element, LayoutBox>,
   indentLevel: number,
   parentPrefix: string = ''
 ): string {
@@ -209,15 +438,15 @@ function generateElementHTML(
 
   switch (element.element_type) {
     case 'data_item':
-      html += generateDataItemHTML(element, dataItemMap, className, indent);
+      html += generateDataItemHTML(element, dataItemMap, className, indent, scene, options, layoutBoxes.get(element));
       break;
 
     case 'shape':
-      html += generateShapeHTML(element, className, indent, scene);
+      html += generateShapeHTML(element, className, indent, scene, options, layoutBoxes.get(element));
       break;
 
     case 'container':
-      html += generateContainerHTML(element, dataItemMap, scene, className, indent, indentLevel);
+      html += generateContainerHTML(element, dataItemMap, scene, options, layoutBoxes, className, indent, indentLevel);
       break;
 
     case 'image':
@@ -225,11 +454,10 @@ function generateElementHTML(
       break;
 
     case 'svg':
-      html += generateSVGHTML(element, className, indent);
+      html += generateSVGHTML(element, className, indent, options);
       break;
 
-    default:
-      console.warn(`Unknown element type: ${element.element_type}`);
+    // Unknown element types are reported through diagnostics
   }
 
   return html;
@@ -242,36 +470,136 @@ function generateDataItemHTML(
   element: Element,
   dataItemMap: Map<string, DataItem>,
   className: string,
-  indent: string
+  indent: string,
+  scene: Scene,
+  options: RenderOptions,
+  box: LayoutBox | undefined
 ): string {
   if (!element.data_item_id) return '';
 
+  // Missing data items are reported through diagnostics
   const dataItem = dataItemMap.get(element.data_item_id);
-  if (!dataItem) {
-    console.warn(`Data item not found: ${element.data_item_id}`);
-    return '';
+  if (!dataItem) return '';
+
+  if (dataItem.type === 'text' && getCurvature(element) !== 0 && box?.lines?.length) {
+    return `${indent}<div class="${escapeHTML(className)}">${generateCurvedTextSVG(element, className, scene, options, box)}</div>\n`;
   }
 
   if (dataItem.type === 'text') {
-    return `${indent}<div class="${className}">${dataItem.content || ''}</div>\n`;
+    const runs = getTextRuns(dataItem);
+    const content = runs
+      ? generateRunsHTML(runs, scene, options)
+      : options.trusted ? dataItem.content || '' : sanitizeTextContent(dataItem.content || '');
+    return `${indent}<div class="${escapeHTML(className)}">${content}</div>\n`;
   } else if (dataItem.type === 'image') {
-    return `${indent}<img class="${className}" src="${dataItem.image_url || ''}" alt="${dataItem.display_name}" />\n`;
+    return `${indent}<img class="${escapeHTML(className)}" src="${escapeHTML(dataItem.image_url || '')}" alt="${escapeHTML(dataItem.display_name)}" />\n`;
   }
 
   return '';
 }
 
 /**
- * Generate HTML for a shape element using CSS
+ * Inline SVG laying a text element's line along its arc. Font properties and
+ * the fill color are inherited from the element's CSS; the outline is set
+ * with stroke attributes.
+ */
+function generateCurvedTextSVG(
+  element: Element,
+  className: string,
+  scene: Scene,
+  options: RenderOptions,
+  box: LayoutBox
+): string {
+  const style = element.style || {};
+  const line = box.lines![0];
+  const padding = parseEdges(style.padding, box.width, box.textStyle.fontSize);
+  const border = parseBorderWidth(style.border);
+  const originX = box.x + padding.left + border;
+  const originY = box.y + padding.top + border;
+  const width = Math.max(0, box.width - padding.left - padding.right - border * 2);
+  const height = Math.max(0, box.height - padding.top - padding.bottom - border * 2);
+
+  // Same measurer as the layout, so the arc matches it
+  const measurer = options.measurer || approximateMeasurer;
+  const baseline = getBaselineOffset(box.textStyle, measurer.getMetrics(box.textStyle));
+  const arc = buildTextArc(line, line.baseline ?? baseline, getCurvature(element));
+
+  let attributes = ' fill="currentColor"';
+  if (style.stroke) {
+    const colorMap = new Map(scene.theme.color_palette.map(color => [color.id, color]));
+    const stroke = resolveSolidColor(style.stroke, colorMap, buildGradientMap(scene.theme), options);
+    attributes += ` stroke="${escapeHTML(stroke)}" stroke-width="${getTextStrokeWidth(style)}" paint-order="stroke"`;
+  }
+
+  const runs = getTextRuns(box.dataItem);
+  const content = runs ? generateRunsHTML(runs, scene, options, true) : escapeHTML(line.text);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * 100) / 100}" height="${Math.round(height * 100) / 100}" ` +
+    `style="display: block; overflow: visible">` +
+    renderArcTextSVG(arc, content, `${className}-arc`, attributes, -originX, -originY) +
+    '</svg>';
+}
+
+/**
+ * Styled spans for a rich text item's runs. Inside SVG text a gradient
+ * color cannot clip to the glyphs, so it falls back to its first stop.
+ */
+function generateRunsHTML(runs: TextRun[], scene: Scene, options: RenderOptions, svg: boolean = false): string {
+  const fontMap = new Map(scene.theme.font_palette.map(font => [font.font_id, font]));
+  const colorMap = new Map(scene.theme.color_palette.map(color => [color.id, color]));
+  const gradientMap = buildGradientMap(scene.theme);
+
+  return renderRunsHTML(runs, style => {
+    const gradient = svg && style.color ? gradientMap.get(style.color) : undefined;
+    const runStyle = gradient ? { ...style, color: getFallbackColor(gradient) } : style;
+    return getStyleDeclarations(runStyle, fontMap, colorMap, gradientMap, options);
+  }, svg);
+}
+
+/**
+ * Generate HTML for a shape element. Plain rectangles are styled divs;
+ * other shapes hold an inline SVG sized to the element's layout box.
  */
 function generateShapeHTML(
   element: Element,
   className: string,
   indent: string,
-  scene: Scene
+  scene: Scene,
+  options: RenderOptions,
+  box: LayoutBox | undefined
 ): string {
-  // Shapes are rendered as divs with CSS styling
-  return `${indent}<div class="${className}"></div>\n`;
+  if (!isVectorShape(element) || !box) {
+    return `${indent}<div class="${escapeHTML(className)}"></div>\n`;
+  }
+
+  const colorMap = new Map(scene.theme.color_palette.map(color => [color.id, color]));
+  const gradientMap = buildGradientMap(scene.theme);
+  const literal = (value: string) => options.trusted ? value : sanitizeCSSValue(value);
+  let defs = '';
+
+  // Gradients are defined inside the shape's SVG, with ids derived from its class
+  const resolvePaint = (value: string | undefined, role: 'fill' | 'stroke'): string | undefined => {
+    if (!value) return undefined;
+    const gradient = gradientMap.get(value);
+    if (gradient) {
+      const id = `${className}-${role}`;
+      defs += renderSVGGradient(id, gradient, { x: 0, y: 0, width: box.width, height: box.height }, colorMap, literal);
+      return `url(#${id})`;
+    }
+    const color = colorMap.get(value);
+    return color ? `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})` : literal(value);
+  };
+
+  const paint = getShapePaint(element);
+  const outline = buildShapeOutline(element, box.width, box.height, paint.strokeWidth);
+  const svg = renderShapeSVG(outline, box.width, box.height, {
+    fill: resolvePaint(paint.fill, 'fill'),
+    stroke: resolvePaint(paint.stroke, 'stroke'),
+    strokeWidth: paint.strokeWidth,
+    defs
+  }, true);
+
+  return `${indent}<div class="${escapeHTML(className)}">${svg}</div>\n`;
 }
 
 /**
@@ -281,15 +609,17 @@ function generateContainerHTML(
   element: Element,
   dataItemMap: Map<string, DataItem>,
   scene: Scene,
+  options: RenderOptions,
+  layoutBoxes: Map<Element, LayoutBox>,
   className: string,
   indent: string,
   indentLevel: number
 ): string {
-  let html = `${indent}<div class="${className}">\n`;
+  let html = `${indent}<div class="${escapeHTML(className)}">\n`;
 
   if (element.children) {
     element.children.forEach(child => {
-      html += generateElementHTML(child, dataItemMap, scene, indentLevel + 1, className);
+      html += generateElementHTML(child, dataItemMap, scene, options, layoutBoxes, indentLevel + 1, className);
     });
   }
 
@@ -305,7 +635,7 @@ function generateImageHTML(
   className: string,
   indent: string
 ): string {
-  return `${indent}<img class="${className}" src="${element.image_url || ''}" alt="" />\n`;
+  return `${indent}<img class="${escapeHTML(className)}" src="${escapeHTML(element.image_url || '')}" alt="" />\n`;
 }
 
 /**
@@ -314,7 +644,9 @@ function generateImageHTML(
 function generateSVGHTML(
   element: Element,
   className: string,
-  indent: string
+  indent: string,
+  options: RenderOptions
 ): string {
-  return `${indent}<div class="${className}">${element.svg_content || ''}</div>\n`;
+  const svgContent = options.trusted ? element.svg_content || '' : sanitizeSVG(element.svg_content || '');
+  return `${indent}<div class="${escapeHTML(className)}">${svgContent}</div>\n`;
 }
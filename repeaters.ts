@@ -0,0 +1,177 @@
+import type { Scene, Element, DataItem, ListRecord, RenderDiagnostic } from './types';
+import { escapeHTML } from './sanitize';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ExpandContext {
+  dataItemMap: Map<string, DataItem>;
+  generated: DataItem[];   // data items created for record fields
+  report: (diagnostic: RenderDiagnostic) => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isRecord(record: unknown): record is ListRecord {
+  return record !== null && typeof record === 'object' && !Array.isArray(record);
+}
+
+function fieldValue(record: ListRecord, field: string): string {
+  const value = record[field];
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Copy of an item template for one record: element ids get the record's
+ * number as a suffix, and elements with a `field` show that record field
+ */
+function instantiate(element: Element, number: number, record: ListRecord, listId: string, context: ExpandContext): Element {
+  const { field, ...rest } = element;
+  const copy: Element = { ...rest, element_id: `${element.element_id}_${number}` };
+
+  if (field) {
+    const value = fieldValue(record, field);
+    if (element.element_type === 'image') {
+      copy.image_url = value;
+    } else {
+      const dataItem: DataItem = {
+        id: `${listId}_${number}_${field}`,
+        type: 'text',
+        display_name: field,
+        content: escapeHTML(value).replace(/\n/g, '<br>')
+      };
+      context.generated.push(dataItem);
+      copy.data_item_id = dataItem.id;
+    }
+  }
+
+  if (element.children) {
+    copy.children = element.children.map(child => instantiate(child, number, record, listId, context));
+  }
+  return copy;
+}
+
+/** The container a repeater renders as */
+function expandRepeater(element: Element, elementPath: string, context: ExpandContext): Element {
+  const { item_template: itemTemplate, empty_template: emptyTemplate, max_count: maxCount, data_item_id: listId, ...rest } = element;
+  const list = listId ? context.dataItemMap.get(listId) : undefined;
+
+  if (!list || list.type !== 'list') {
+    context.report({
+      severity: 'error',
+      code: 'invalid_repeater',
+      element_path: elementPath,
+      message: listId
+        ? `Repeater data item '${listId}' ${list ? 'is not a list' : 'does not exist'}; it renders as empty`
+        : 'Repeater has no data_item_id; it renders as empty'
+    });
+  }
+  if (!itemTemplate) {
+    context.report({
+      severity: 'error',
+      code: 'invalid_repeater',
+      element_path: elementPath,
+      message: 'Repeater has no item_template; it renders as empty'
+    });
+  }
+
+  const listRecords = list && list.type === 'list' ? list.records : undefined;
+  if (listRecords !== undefined && !Array.isArray(listRecords)) {
+    context.report({
+      severity: 'error',
+      code: 'invalid_data_value',
+      element_path: elementPath,
+      message: `List '${list!.id}' records must be an array of objects; it renders as empty`
+    });
+  }
+  const records = Array.isArray(listRecords) ? listRecords.filter(isRecord) : [];
+  if (Array.isArray(listRecords) && records.length < listRecords.length) {
+    context.report({
+      severity: 'error',
+      code: 'invalid_data_value',
+      element_path: elementPath,
+      message: `List '${list!.id}' has ${listRecords.length - records.length} records that are not objects; they are left out`
+    });
+  }
+
+  const validCount = maxCount === undefined || (Number.isInteger(maxCount) && maxCount >= 0);
+  if (!validCount) {
+    context.report({
+      severity: 'error',
+      code: 'invalid_data_value',
+      element_path: elementPath,
+      message: `max_count must be a whole number of 0 or more, got ${JSON.stringify(maxCount)}; every record is shown`
+    });
+  }
+  const limit = validCount && maxCount !== undefined ? maxCount : Infinity;
+  const shown = records.slice(0, limit);
+  if (shown.length < records.length) {
+    context.report({
+      severity: 'info',
+      code: 'list_truncated',
+      element_path: elementPath,
+      message: `List '${list!.id}' has ${records.length} records; the first ${shown.length} are shown`
+    });
+  }
+
+  let children: Element[] = [];
+  if (shown.length > 0 && itemTemplate) {
+    children = shown.map((record, index) => instantiate(itemTemplate, index + 1, record, list!.id, context));
+  } else if (shown.length === 0 && emptyTemplate) {
+    children = [emptyTemplate];
+  }
+
+  return { ...rest, element_type: 'container', children };
+}
+
+function expandElements(elements: Element[], parentPath: string, context: ExpandContext): Element[] {
+  let changed = false;
+
+  const expanded = elements.map(element => {
+    const elementPath = parentPath ? `${parentPath}/${element.element_id}` : element.element_id;
+    let result = element.element_type === 'repeater' ? expandRepeater(element, elementPath, context) : element;
+
+    // Repeaters may sit inside containers, item templates and other repeaters
+    if (result.children) {
+      const children = expandElements(result.children, elementPath, context);
+      if (children !== result.children) result = { ...result, children };
+    }
+
+    if (result !== element) changed = true;
+    return result;
+  });
+
+  return changed ? expanded : elements;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * The scene with every repeater element replaced by a container holding one
+ * copy of its item_template per list record (at most max_count), or its
+ * empty_template when the list is empty. Record fields become text data
+ * items named <list id>_<record number>_<field>. Problems are passed to
+ * `report`. Scenes without repeaters are returned as-is.
+ */
+export function expandRepeaters(scene: Scene, report: (diagnostic: RenderDiagnostic) => void = () => {}): Scene {
+  const { data, template } = scene;
+  const context: ExpandContext = {
+    dataItemMap: new Map(data.data_items.map(item => [item.id, item])),
+    generated: [],
+    report
+  };
+
+  const elements = expandElements(template.elements, '', context);
+  if (elements === template.elements) return scene;
+
+  return {
+    ...scene,
+    data: context.generated.length > 0 ? { ...data, data_items: [...data.data_items, ...context.generated] } : data,
+    template: { ...template, elements }
+  };
+}
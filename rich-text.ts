@@ -0,0 +1,64 @@
+import type { DataItem, ElementStyle, TextRun } from './types';
+import { escapeHTML } from './sanitize';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Element style properties a text run can override */
+export const RUN_STYLE_KEYS = ['font', 'color', 'font_size', 'font_weight', 'font_style'] as const;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Whether a runs entry is a run: an object with text. Other entries are skipped. */
+export function isTextRun(run: unknown): run is TextRun {
+  return typeof run === 'object' && run !== null && !Array.isArray(run) && typeof (run as TextRun).text === 'string';
+}
+
+/**
+ * Styled runs of a text item, or null when it only has plain content
+ */
+export function getTextRuns(dataItem: DataItem | undefined): TextRun[] | null {
+  if (!dataItem || dataItem.type !== 'text' || !Array.isArray(dataItem.runs)) return null;
+  const runs = dataItem.runs.filter(isTextRun);
+  return runs.length > 0 ? runs : null;
+}
+
+/**
+ * The style properties a run overrides, as element style keys
+ */
+export function getRunStyle(run: TextRun): ElementStyle {
+  const style: ElementStyle = {};
+  for (const key of RUN_STYLE_KEYS) {
+    if (typeof run[key] === 'string') style[key] = run[key];
+  }
+  return style;
+}
+
+/**
+ * Plain text content equivalent to a list of runs, for consumers that do not
+ * read runs: text is escaped and newlines become <br> tags
+ */
+export function runsToContent(runs: TextRun[]): string {
+  return runs.map(run => escapeHTML(String(run.text ?? '')).replace(/\n/g, '<br>')).join('');
+}
+
+/**
+ * Markup for a list of runs: one <span> per styled run, with a style
+ * attribute built from `declarations` (which must return sanitized CSS
+ * declarations). Inside SVG text, runs are <tspan>s and newlines spaces.
+ */
+export function renderRunsHTML(
+  runs: TextRun[],
+  declarations: (style: ElementStyle) => string[],
+  svg: boolean = false
+): string {
+  const tag = svg ? 'tspan' : 'span';
+  return runs.map(run => {
+    const text = escapeHTML(String(run.text ?? '')).replace(/\n/g, svg ? ' ' : '<br>');
+    const css = declarations(getRunStyle(run));
+    return css.length > 0 ? `<${tag} style="${escapeHTML(css.join('; '))}">${text}</${tag}>` : text;
+  }).join('');
+}
@@ -0,0 +1,246 @@
+// Inline formatting allowed in text content; all other markup is escaped
+const INLINE_FORMATTING_TAGS = new Set(['br', 'b', 'strong', 'i', 'em', 'u', 's', 'sub', 'sup', 'small']);
+
+// Elements removed from SVG content together with everything inside them
+const UNSAFE_SVG_ELEMENTS = ['script', 'style', 'foreignObject', 'iframe', 'object', 'embed', 'handler', 'listener'];
+
+// SVG elements kept in SVG content, by lowercase name; all other tags are escaped
+const SVG_ELEMENTS = new Map([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'metadata', 'switch', 'a',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'textPath', 'image', 'marker', 'pattern', 'clipPath', 'mask',
+  'linearGradient', 'radialGradient', 'stop', 'filter',
+  'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix',
+  'feDiffuseLighting', 'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood',
+  'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feImage', 'feMerge',
+  'feMergeNode', 'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting',
+  'feSpotLight', 'feTile', 'feTurbulence',
+  'animate', 'animateMotion', 'animateTransform', 'set', 'mpath'
+].map(name => [name.toLowerCase(), name]));
+
+// Named character references XML knows without a DTD
+const XML_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+
+/**
+ * Escape text for use in HTML content or a double-quoted attribute
+ */
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Decode the character references in HTML text
+ */
+export function decodeHTMLEntities(text: string): string {
+  const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return entities[entity] ?? match;
+  });
+}
+
+/**
+ * Sanitize text content: keep whitelisted inline formatting tags (without
+ * attributes) and character references, escape all other markup
+ */
+export function sanitizeTextContent(content: string): string {
+  return content.replace(
+    /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>|[<>"']|&(?!#\d+;|#x[0-9a-fA-F]+;|[a-zA-Z][a-zA-Z0-9]*;)/g,
+    (match: string, slash: string | undefined, tag: string | undefined) => {
+      const name = tag?.toLowerCase();
+      if (name && INLINE_FORMATTING_TAGS.has(name)) {
+        return name === 'br' ? '<br>' : `<${slash}${name}>`;
+      }
+      return escapeHTML(match);
+    }
+  );
+}
+
+/**
+ * Sanitize SVG markup into well-formed markup that reads the same as HTML
+ * and as XML. Only allow-listed SVG elements are kept, each rebuilt from its
+ * attributes without event handlers or script URLs; scripts, styles and
+ * embedded documents are removed with their content; comments, doctypes
+ * and processing instructions are dropped; every other `<` is escaped, and
+ * tags left open are closed.
+ */
+export function sanitizeSVG(svg: string): string {
+  return rebuildSVG(svg, false);
+}
+
+/**
+ * Rebuild SVG markup from a trusted source as well-formed XML, for SVG
+ * documents: every element and attribute is kept, stray `<` and `&` are
+ * escaped and tags left open are closed.
+ */
+export function toWellFormedSVG(svg: string): string {
+  return rebuildSVG(svg, true);
+}
+
+/**
+ * Tokenize SVG markup and write it back as well-formed markup. Untrusted
+ * markup keeps only allow-listed elements and safe attributes.
+ */
+function rebuildSVG(svg: string, trusted: boolean): string {
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<\/([a-zA-Z][\w:.-]*)\s*>|<([a-zA-Z][\w:.-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/y;
+  const unsafe = new Set(trusted ? [] : UNSAFE_SVG_ELEMENTS.map(name => name.toLowerCase()));
+  const elementName = (name: string) => SVG_ELEMENTS.get(name.toLowerCase()) ?? (trusted ? name : undefined);
+  const open: string[] = [];
+  let output = '';
+  let index = 0;
+
+  while (index < svg.length) {
+    const next = svg.indexOf('<', index);
+    if (next === -1) {
+      output += escapeMarkupText(svg.slice(index));
+      break;
+    }
+    output += escapeMarkupText(svg.slice(index, next));
+
+    token.lastIndex = next;
+    const match = token.exec(svg);
+    if (!match) {
+      // Not a complete tag (e.g. unterminated): plain text
+      output += '&lt;';
+      index = next + 1;
+      continue;
+    }
+    index = token.lastIndex;
+
+    const [text, cdata, closingTag, openingTag, attributeText] = match;
+    if (cdata !== undefined) {
+      output += escapeMarkupText(cdata);
+    } else if (closingTag !== undefined) {
+      // Close the matching open element (and any left open inside it)
+      const name = elementName(closingTag);
+      if (!name) {
+        output += escapeMarkupText(text);
+        continue;
+      }
+      const depth = open.lastIndexOf(name);
+      if (depth !== -1) {
+        while (open.length > depth) output += `</${open.pop()}>`;
+      }
+    } else if (openingTag !== undefined) {
+      const lowerName = openingTag.toLowerCase();
+      const selfClosing = /\/\s*$/.test(attributeText);
+
+      if (unsafe.has(lowerName)) {
+        // Skip the element and everything inside it
+        if (!selfClosing) {
+          const end = new RegExp(`<\\/${escapeRegExp(openingTag)}\\s*>`, 'ig');
+          end.lastIndex = index;
+          index = end.exec(svg) ? end.lastIndex : svg.length;
+        }
+        continue;
+      }
+
+      const name = elementName(openingTag);
+      if (!name) {
+        output += escapeMarkupText(text);
+        continue;
+      }
+
+      output += `<${name}${sanitizeAttributes(attributeText, trusted)}${selfClosing ? ' /' : ''}>`;
+      if (!selfClosing) open.push(name);
+    }
+    // Comments, doctypes and processing instructions are dropped
+  }
+
+  while (open.length > 0) output += `</${open.pop()}>`;
+  return output;
+}
+
+/** Attributes rebuilt as name="value", without event handlers or script URLs unless trusted */
+function sanitizeAttributes(attributeText: string, trusted: boolean): string {
+  let attributes = '';
+  const attributePattern = /([^\s"'=\/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+))?/g;
+  let attribute: RegExpExecArray | null;
+
+  while ((attribute = attributePattern.exec(attributeText)) !== null) {
+    const [, name, rawValue] = attribute;
+    if ((!trusted && /^on/i.test(name)) || !/^[a-zA-Z_][\w:.-]*$/.test(name)) continue;
+
+    // Boolean attributes are written out, as XML requires a value
+    const value = rawValue === undefined ? '' : /^["']/.test(rawValue) ? rawValue.slice(1, -1) : rawValue;
+    if (!trusted && isUnsafeAttributeValue(name, value)) continue;
+
+    attributes += ` ${name}="${escapeMarkupText(value).replace(/"/g, '&quot;')}"`;
+  }
+
+  return attributes;
+}
+
+/**
+ * Escape markup characters in text while keeping its character references.
+ * Named references other than XML's own become numeric ones, so the result
+ * is valid in both HTML and XML.
+ */
+function escapeMarkupText(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+;|#\d+;|([a-zA-Z][a-zA-Z0-9]*);)?|[<>]/g, (match: string, reference?: string, named?: string) => {
+    if (match === '<') return '&lt;';
+    if (match === '>') return '&gt;';
+    if (!reference) return '&amp;';
+    if (!named || XML_ENTITIES.has(named)) return match;
+
+    const decoded = named === 'nbsp' ? '\u00a0' : decodeHTMLEntities(match);
+    return decoded === match ? `&amp;${reference}` : `&#${decoded.codePointAt(0)};`;
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Detect script URLs (including entity- or whitespace-obfuscated ones) and
+ * animations that target event handler attributes
+ */
+function isUnsafeAttributeValue(name: string, value: string): boolean {
+  if (name.toLowerCase() === 'attributename' && /^\s*on/i.test(value)) return true;
+
+  const decoded = value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;|&newline;/gi, '')
+    .replace(/[\s\u0000-\u001f]/g, '')
+    .toLowerCase();
+
+  return /(?:javascript|vbscript):|data:text\/html/.test(decoded);
+}
+
+/**
+ * Strip characters that could end a declaration, rule or style block
+ */
+export function sanitizeCSSValue(value: string): string {
+  return value
+    .replace(/[<>{};\\]/g, '')
+    .replace(/expression\s*\(|javascript:/gi, '');
+}
+
+/**
+ * Escape a value for use inside a single-quoted CSS string
+ */
+export function escapeCSSString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/</g, '\\3c ')
+    .replace(/[\r\n]/g, '\\a ');
+}
+
+/**
+ * Escape a class name for use in a CSS selector
+ */
+export function escapeCSSIdentifier(value: string): string {
+  return value
+    .replace(/[^a-zA-Z0-9_-]/g, ch => `\\${ch.charCodeAt(0).toString(16)} `)
+    .replace(/^(-?)(\d)/, (_, dash, digit) => `${dash}\\3${digit} `);
+}
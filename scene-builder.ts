@@ -1,5 +1,9 @@
-import { Theme, Element, Template } from './types';
+import { Theme, Element, Template, ElementStyle, StyleFilter, TextRun, PageSize, VisibilityCondition } from './types';
 import { ExecutionContext, ValidationError } from './operation-types';
+import { BLEND_MODES, FILTER_TYPES, isValidFilter } from './effects';
+import { findFont, getFontsDir, getThemeFont } from './font-registry';
+import { getPageSize, PAGE_SIZES } from './units';
+import { getConditionProblem } from './visibility';
 
 /**
  * Generate a unique ID with a prefix
@@ -35,6 +39,47 @@ export function hexToRGBA(hex: string): { r: number; g: number; b: number; a: nu
   return { r, g, b, a };
 }
 
+/**
+ * Parse a page size: a preset name such as "A5" or "letter landscape", or
+ * an object with width, height and unit ('mm', 'cm', 'in' or 'pt')
+ */
+export function parsePageSize(value: any): PageSize {
+  if (typeof value === 'string') {
+    const size = getPageSize(value);
+    if (!size) {
+      throw new ValidationError(
+        `Unknown page size: ${value} (expected one of ${Object.keys(PAGE_SIZES).join(', ')}, optionally followed by 'landscape')`
+      );
+    }
+    return size;
+  }
+
+  const { width, height, unit } = value || {};
+  if (typeof width !== 'number' || !(width > 0) || typeof height !== 'number' || !(height > 0)) {
+    throw new ValidationError('page_size width and height must be positive numbers');
+  }
+  if (!['mm', 'cm', 'in', 'pt'].includes(unit)) {
+    throw new ValidationError(`page_size unit must be 'mm', 'cm', 'in' or 'pt', got ${unit}`);
+  }
+  return { width, height, unit };
+}
+
+/**
+ * Parse visibility conditions: one condition object, or a list of conditions
+ * that must all hold
+ */
+export function parseVisibilityConditions(value: any): VisibilityCondition | VisibilityCondition[] {
+  const conditions: VisibilityCondition[] = Array.isArray(value) ? value : [value];
+  if (conditions.length === 0) {
+    throw new ValidationError('visible_when must have at least one condition');
+  }
+  for (const condition of conditions) {
+    const problem = getConditionProblem(condition);
+    if (problem) throw new ValidationError(problem);
+  }
+  return value;
+}
+
 /**
  * Ensure a color exists in the theme palette, adding it if necessary
  * Returns the color ID
@@ -72,35 +117,6 @@ export function ensureColorInTheme(theme: Theme, color: string): string {
   return colorId;
 }
 
-/**
- * Cache for Google Fonts availability checks
- */
-const googleFontCache = new Map<string, boolean>();
-
-/**
- * Check if a font is available on Google Fonts by making a HEAD request.
- * Results are cached to avoid repeated network calls.
- */
-export async function isGoogleFont(fontName: string): Promise<boolean> {
-  const key = fontName.toLowerCase();
-  if (googleFontCache.has(key)) {
-    return googleFontCache.get(key)!;
-  }
-
-  const formattedName = fontName.replace(/\s+/g, '+');
-  const url = `https://fonts.googleapis.com/css2?family=${formattedName}:wght@400;700&display=swap`;
-
-  try {
-    const response = await fetch(url, { method: 'HEAD' });
-    const available = response.ok;
-    googleFontCache.set(key, available);
-    return available;
-  } catch {
-    googleFontCache.set(key, false);
-    return false;
-  }
-}
-
 /**
  * Ensure a font exists in the theme palette, adding it if necessary
  * Returns the font ID
@@ -120,30 +136,26 @@ export async function ensureFontInTheme(theme: Theme, fontName: string): Promise
     throw new ValidationError('Font palette limit reached (max 8 fonts)');
   }
 
+  // Resolve the font through the registry: local files, then the Google
+  // Fonts catalog, then system fonts
+  const registered = findFont(fontName);
+  if (!registered) {
+    throw new ValidationError(
+      `Font not found: ${fontName} (not in ${getFontsDir()}, the Google Fonts catalog or the system fonts)`
+    );
+  }
+
   // Add new font to palette
   const fontId = generateId('font');
-  const fontUrl = await getFontUrl(fontName);
 
   theme.font_palette.push({
     font_id: fontId,
-    font_name: fontName,
-    font_url: fontUrl
+    ...getThemeFont(registered)
   });
 
   return fontId;
 }
 
-/**
- * Get font URL — returns Google Fonts URL if available, otherwise local file path
- */
-export async function getFontUrl(fontName: string): Promise<string> {
-  if (await isGoogleFont(fontName)) {
-    const formattedName = fontName.replace(/\s+/g, '+');
-    return `https://fonts.googleapis.com/css2?family=${formattedName}:wght@400;700&display=swap`;
-  }
-  return `fonts/${fontName}.otf`;
-}
-
 /**
  * Recursively find an element by ID in the element tree
  */
@@ -313,3 +325,224 @@ export function calculateAnchorPosition(
     y: y + offsetY
   };
 }
+
+/**
+ * Apply layer opacity, rotation, blend mode and filter parameters to a style.
+ * Parameters that are not given leave the style unchanged; neutral values
+ * (opacity 1, rotation 0, normal blending, no filters) remove the property.
+ */
+export function applyLayerEffects(
+  style: ElementStyle,
+  params: { opacity?: number; rotation?: number; blend_mode?: string; filters?: StyleFilter[] }
+): void {
+  const { opacity, rotation, blend_mode, filters } = params;
+
+  if (opacity !== undefined && opacity !== null) {
+    if (typeof opacity !== 'number' || !(opacity >= 0 && opacity <= 1)) {
+      throw new ValidationError(`opacity must be a number between 0 and 1, got ${opacity}`);
+    }
+    if (opacity < 1) style.opacity = String(opacity);
+    else delete style.opacity;
+  }
+
+  if (rotation !== undefined && rotation !== null) {
+    if (typeof rotation !== 'number' || !Number.isFinite(rotation)) {
+      throw new ValidationError(`rotation must be a number of degrees, got ${rotation}`);
+    }
+    if (rotation !== 0) style.rotation = `${rotation}deg`;
+    else delete style.rotation;
+  }
+
+  if (blend_mode !== undefined && blend_mode !== null) {
+    if (!BLEND_MODES.includes(blend_mode)) {
+      throw new ValidationError(`Unknown blend_mode: ${blend_mode} (expected one of ${BLEND_MODES.join(', ')})`);
+    }
+    if (blend_mode !== 'normal') style.blend_mode = blend_mode;
+    else delete style.blend_mode;
+  }
+
+  if (filters !== undefined && filters !== null) {
+    if (!Array.isArray(filters)) {
+      throw new ValidationError('filters must be a list of { type, value } objects');
+    }
+    const invalid = filters.find(filter => !isValidFilter(filter));
+    if (invalid) {
+      throw new ValidationError(
+        `Invalid filter: ${JSON.stringify(invalid)} (type must be one of ${FILTER_TYPES.join(', ')}, value a non-negative number)`
+      );
+    }
+    if (filters.length > 0) style.filters = filters.map(filter => ({ type: filter.type, value: filter.value }));
+    else delete style.filters;
+  }
+}
+
+/**
+ * Apply text layer wrapping, line height, outline, curvature and auto-fit
+ * parameters. Parameters that are not given leave the element unchanged;
+ * neutral values (no max width, a 0 stroke width, 0 curvature, 'none' fit)
+ * remove the property.
+ */
+export function applyTextLayout(
+  element: Element,
+  theme: Theme,
+  params: {
+    max_width?: number;
+    line_height?: number;
+    stroke_color?: string;
+    stroke_width?: number;
+    curvature?: number;
+    text_fit?: string;
+    min_font_size?: number;
+    max_font_size?: number;
+  }
+): void {
+  const { max_width, line_height, stroke_color, stroke_width, curvature, text_fit, min_font_size, max_font_size } = params;
+  const style = element.style || (element.style = {});
+
+  if (max_width !== undefined) {
+    if (max_width === null || max_width === 0) {
+      delete style.max_width;
+    } else if (typeof max_width !== 'number' || !(max_width > 0)) {
+      throw new ValidationError(`max_width must be a positive number of pixels, got ${max_width}`);
+    } else {
+      style.max_width = `${max_width}px`;
+    }
+  }
+
+  if (line_height !== undefined && line_height !== null) {
+    if (typeof line_height !== 'number' || !(line_height > 0)) {
+      throw new ValidationError(`line_height must be a positive multiplier, got ${line_height}`);
+    }
+    style.line_height = String(line_height);
+  }
+
+  if (stroke_color !== undefined && stroke_color !== null) {
+    style.stroke = ensureColorInTheme(theme, stroke_color);
+  }
+
+  if (stroke_width !== undefined && stroke_width !== null) {
+    if (typeof stroke_width !== 'number' || !(stroke_width >= 0)) {
+      throw new ValidationError(`stroke_width must be a non-negative number of pixels, got ${stroke_width}`);
+    }
+    if (stroke_width > 0) {
+      style.stroke_width = `${stroke_width}px`;
+    } else {
+      delete style.stroke;
+      delete style.stroke_width;
+    }
+  }
+
+  if (curvature !== undefined && curvature !== null) {
+    if (typeof curvature !== 'number' || !(curvature >= -360 && curvature <= 360)) {
+      throw new ValidationError(`curvature must be a number of degrees between -360 and 360, got ${curvature}`);
+    }
+    if (curvature !== 0) element.curvature = curvature;
+    else delete element.curvature;
+  }
+
+  if (text_fit !== undefined && text_fit !== null) {
+    if (!['none', 'shrink', 'fill'].includes(text_fit)) {
+      throw new ValidationError(`text_fit must be 'none', 'shrink' or 'fill', got ${text_fit}`);
+    }
+    if (text_fit !== 'none') {
+      style.text_fit = text_fit;
+    } else {
+      delete style.text_fit;
+      delete style.min_font_size;
+      delete style.max_font_size;
+    }
+  }
+
+  for (const [key, value] of [['min_font_size', min_font_size], ['max_font_size', max_font_size]] as const) {
+    if (value === undefined) continue;
+    if (value === null || value === 0) {
+      delete style[key];
+    } else if (typeof value !== 'number' || !(value > 0)) {
+      throw new ValidationError(`${key} must be a positive number of pixels, got ${value}`);
+    } else {
+      style[key] = `${value}px`;
+    }
+  }
+}
+
+/**
+ * Apply polygon sides and star points and inner radius parameters to a
+ * shape element. Parameters that are not given leave the element unchanged.
+ */
+export function applyShapeParameters(
+  element: Element,
+  params: { sides?: number; points?: number; inner_radius?: number }
+): void {
+  const { sides, points, inner_radius } = params;
+
+  for (const [key, value] of [['sides', sides], ['points', points]] as const) {
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 3) {
+      throw new ValidationError(`${key} must be a whole number of at least 3, got ${value}`);
+    }
+    element[key] = value;
+  }
+
+  if (inner_radius !== undefined && inner_radius !== null) {
+    if (typeof inner_radius !== 'number' || !(inner_radius >= 0 && inner_radius <= 1)) {
+      throw new ValidationError(`inner_radius must be a number between 0 and 1, got ${inner_radius}`);
+    }
+    element.inner_radius = inner_radius;
+  }
+}
+
+/**
+ * Validate text runs given to an operation and resolve their references:
+ * fonts and colors may be theme ids, or font names and hex colors, which are
+ * added to the theme. Numeric sizes are pixels; `bold` and `italic` set the
+ * font weight and style.
+ */
+export async function buildTextRuns(theme: Theme, runs: unknown): Promise<TextRun[]> {
+  if (!Array.isArray(runs)) {
+    throw new ValidationError('runs must be a list of { text, font?, color?, size?, bold?, italic? } objects');
+  }
+
+  const result: TextRun[] = [];
+  for (const run of runs) {
+    if (typeof run !== 'object' || run === null || typeof run.text !== 'string') {
+      throw new ValidationError(`Invalid text run: ${JSON.stringify(run)} (text must be a string)`);
+    }
+
+    const textRun: TextRun = { text: run.text };
+
+    if (run.font !== undefined && run.font !== null) {
+      textRun.font = theme.font_palette.some(font => font.font_id === run.font)
+        ? run.font
+        : await ensureFontInTheme(theme, String(run.font));
+    }
+
+    if (run.color !== undefined && run.color !== null) {
+      const color = String(run.color);
+      const isThemeId = theme.color_palette.some(entry => entry.id === color) ||
+        (theme.gradient_palette || []).some(gradient => gradient.id === color);
+      if (!isThemeId && !color.startsWith('#')) {
+        throw new ValidationError(`Unknown run color: ${color} (expected a theme color id or hex color)`);
+      }
+      textRun.color = isThemeId ? color : ensureColorInTheme(theme, color);
+    }
+
+    const size = run.size ?? run.font_size;
+    if (size !== undefined && size !== null) {
+      textRun.font_size = typeof size === 'number' ? `${size}px` : String(size);
+    }
+
+    const weight = run.weight ?? run.font_weight ?? (typeof run.bold === 'boolean' ? (run.bold ? 'bold' : 'normal') : undefined);
+    if (weight !== undefined && weight !== null) {
+      textRun.font_weight = String(weight);
+    }
+
+    if (run.italic !== undefined || run.font_style !== undefined) {
+      const italic = run.italic ?? run.font_style === 'italic';
+      textRun.font_style = italic ? 'italic' : 'normal';
+    }
+
+    result.push(textRun);
+  }
+
+  return result;
+}
@@ -1,19 +1,24 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { SceneData, Template, Theme, Element, ElementStyle, DataItem, Color, Font, Scene } from './types';
-import { renderScene } from './renderer';
-import { isGoogleFont } from './scene-builder';
+import { SceneData, Template, Theme, Element, ElementStyle, DataItem, Color, Font, Scene, PageSize, RenderDiagnostic } from './types';
+import { exportSceneToHTML } from './bundle-exporter';
+import { resolveFontUrl, getFontsDir } from './font-registry';
+import { getFontMetrics } from './font-metrics';
+import { pageSizeToPixels } from './units';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
+// Positions and sizes are written in mm and pt; the renderer converts them
+// to pixels at the canvas DPI
 const DPI = 300;
-const MM_TO_PX = DPI / 25.4;   // ~11.811 px/mm (print resolution for layout)
-const PT_TO_PX = 300 / 72;      // ~4.167 px/pt (1pt = 1/72 inch at 300 DPI)
+const MM_PER_PT = 25.4 / 72;
 
-const DEFAULT_CANVAS_WIDTH_PX = 1240;
-const DEFAULT_CANVAS_HEIGHT_PX = 1748;
+const DEFAULT_PAGE_SIZE: PageSize = { width: 105, height: 148, unit: 'mm' };   // A6, 1240 x 1748 px at 300 DPI
+
+// $name variables in the input text
+const VARIABLE_PATTERN = /\$([a-zA-Z_][a-zA-Z0-9_]*)/g;
 
 // ============================================================================
 // TYPES
@@ -34,8 +39,7 @@ interface TextEntry {
 
 interface ParsedScene {
   sourceUrl?: string;
-  canvasWidthPx: number;
-  canvasHeightPx: number;
+  pageSize: PageSize;
   textEntries: TextEntry[];
 }
 
@@ -154,8 +158,7 @@ function parseInputFile(content: string): ParsedScene {
 
   return {
     sourceUrl,
-    canvasWidthPx: DEFAULT_CANVAS_WIDTH_PX,
-    canvasHeightPx: DEFAULT_CANVAS_HEIGHT_PX,
+    pageSize: DEFAULT_PAGE_SIZE,
     textEntries
   };
 }
@@ -164,20 +167,21 @@ function parseInputFile(content: string): ParsedScene {
 // CONVERSION HELPERS
 // ============================================================================
 
-function mmToPx(mm: number): number {
-  return Math.round(mm * MM_TO_PX);
+function ptToMm(pt: number): number {
+  return pt * MM_PER_PT;
 }
 
-function ptToPx(pt: number): number {
-  return Math.round(pt * PT_TO_PX * 10) / 10; // one decimal place
+function roundMm(mm: number): number {
+  return Math.round(mm * 100) / 100;
 }
 
-async function getFontUrl(fontName: string): Promise<string> {
-  if (await isGoogleFont(fontName)) {
-    const encoded = fontName.replace(/\s+/g, '+');
-    return `https://fonts.googleapis.com/css2?family=${encoded}:wght@300;400;500;600;700&display=swap`;
-  }
-  return `fonts/${fontName}.otf`;
+function getFontUrl(fontName: string): string {
+  const url = resolveFontUrl(fontName);
+  if (url !== null) return url;
+
+  const fallback = `${getFontsDir()}/${fontName}.otf`;
+  console.warn(`Warning: font '${fontName}' not found in ${getFontsDir()} or the Google Fonts catalog; add ${fallback}`);
+  return fallback;
 }
 
 function sanitizeId(name: string): string {
@@ -192,28 +196,18 @@ function sanitizeId(name: string): string {
 // top (cap-height). The offset between them depends on font metrics + line-height.
 // offset = halfLeading + (ascent - capHeight) * fontSize
 //   where halfLeading = (lineHeight - ascent - descent) * fontSize / 2
-
-interface FontMetrics {
-  ascent: number;     // sTypoAscender / unitsPerEm
-  descent: number;    // abs(sTypoDescender) / unitsPerEm (positive)
-  capHeight: number;  // sCapHeight / unitsPerEm
-}
-
-const FONT_METRICS: Record<string, FontMetrics> = {
-  arial:      { ascent: 1854 / 2048, descent: 434 / 2048, capHeight: 1467 / 2048 },
-  montserrat: { ascent: 1006 / 1000, descent: 194 / 1000, capHeight: 700 / 1000 },
-  _default:   { ascent: 0.9,         descent: 0.2,        capHeight: 0.71 },
-};
-
-function getFontMetrics(fontName: string): FontMetrics {
-  return FONT_METRICS[fontName.toLowerCase()] || FONT_METRICS._default;
-}
-
-/** Pixel offset from CSS line-box top to visible cap-height top. */
-function capHeightOffsetPx(fontName: string, fontSizePx: number, lineHeight: number): number {
-  const m = getFontMetrics(fontName);
-  const halfLeading = (lineHeight - m.ascent - m.descent) * fontSizePx / 2;
-  return halfLeading + (m.ascent - m.capHeight) * fontSizePx;
+// Metrics are read from font files found by the font registry (see font-metrics.ts).
+
+/** Offset in pt from CSS line-box top to visible cap-height top. */
+function capHeightOffsetPt(
+  fontName: string,
+  fontSizePt: number,
+  lineHeight: number,
+  onProblem: (diagnostic: RenderDiagnostic) => void = () => {}
+): number {
+  const m = getFontMetrics(fontName, onProblem);
+  const halfLeading = (lineHeight - m.ascent - m.descent) * fontSizePt / 2;
+  return halfLeading + (m.ascent - m.capHeight) * fontSizePt;
 }
 
 /** Convert canva letter-spacing tracking units to CSS em. */
@@ -249,7 +243,7 @@ async function generateScene(
       fontSet.set(fontId, {
         font_id: fontId,
         font_name: entry.fontName,
-        font_url: await getFontUrl(entry.fontName)
+        font_url: getFontUrl(entry.fontName)
       });
     }
   }
@@ -304,13 +298,16 @@ async function generateScene(
   elements.push(bgElement);
 
   // ---- Build text entries ----
+  // Font files that cannot be parsed, reported once each
+  const fontProblems = new Map<string, string>();
   for (let i = 0; i < parsed.textEntries.length; i++) {
     const entry = parsed.textEntries[i];
     const idx = i + 1;
 
-    // Data item — convert \n to <br> for HTML rendering
+    // Data item — convert \n to <br> for HTML rendering, and $name to a
+    // {{ name }} placeholder bound at render time
     const dataItemId = `text_${idx}`;
-    const htmlContent = entry.text.replace(/\n/g, '<br>');
+    const htmlContent = toPlaceholders(entry.text).replace(/\n/g, '<br>');
     const dataItem: DataItem = {
       id: dataItemId,
       type: 'text',
@@ -321,11 +318,10 @@ async function generateScene(
     };
     dataItems.push(dataItem);
 
-    // Convert positions with cap-height Y correction
-    const xPx = mmToPx(entry.xMm);
-    const fontSizePx = ptToPx(entry.fontSize);
-    const yOffsetPx = capHeightOffsetPx(entry.fontName, fontSizePx, entry.lineSpacing);
-    const yPx = Math.round((mmToPx(entry.yMm) - yOffsetPx) * 10) / 10;
+    // Y position with cap-height correction
+    const yOffsetPt = capHeightOffsetPt(entry.fontName, entry.fontSize, entry.lineSpacing,
+      diagnostic => fontProblems.set(diagnostic.element_path, diagnostic.message));
+    const yMm = roundMm(entry.yMm - ptToMm(yOffsetPt));
 
     const fontId = `font_${sanitizeId(entry.fontName)}`;
     const colorId = `color_${entry.color.replace('#', '').toLowerCase()}`;
@@ -334,7 +330,7 @@ async function generateScene(
     const style: ElementStyle = {
       position: 'absolute',
       font: fontId,
-      font_size: `${fontSizePx}px`,
+      font_size: `${entry.fontSize}pt`,
       color: colorId,
       line_height: `${entry.lineSpacing}`,
       letter_spacing: `${letterSpacingToEm(entry.letterSpacing)}em`,
@@ -344,7 +340,7 @@ async function generateScene(
     if (entry.alignment === 'centered') {
       style.left = '50%';
       style.text_align = 'center';
-      style.top = `${yPx}px`;
+      style.top = `${yMm}mm`;
 
       const transforms: string[] = ['translateX(-50%)'];
       if (entry.angle !== undefined && entry.angle !== 0) {
@@ -352,8 +348,8 @@ async function generateScene(
       }
       style.transform = transforms.join(' ');
     } else {
-      style.left = `${xPx}px`;
-      style.top = `${yPx}px`;
+      style.left = `${entry.xMm}mm`;
+      style.top = `${yMm}mm`;
       style.text_align = entry.alignment === 'right' ? 'right' : 'left';
 
       if (entry.angle !== undefined && entry.angle !== 0) {
@@ -369,22 +365,26 @@ async function generateScene(
     };
     elements.push(element);
   }
+  fontProblems.forEach(message => console.warn(`Warning: ${message}`));
 
   // ---- Build template ----
   const template: Template = {
     template_id: `${sceneId}_template`,
     template_name: `${sceneName} Template`,
     canvas: {
-      width: parsed.canvasWidthPx,
-      height: parsed.canvasHeightPx
+      ...pageSizeToPixels(parsed.pageSize, DPI),
+      dpi: DPI,
+      page_size: parsed.pageSize
     },
     elements
   };
 
   // ---- Build data ----
+  const variables = extractVariables(parsed.textEntries);
   const data: SceneData = {
     scene_id: sceneId,
-    data_items: dataItems
+    data_items: dataItems,
+    ...(variables.length > 0 ? { variables: variables.map(name => ({ name, type: 'text' as const, display_name: name })) } : {})
   };
 
   return { data, template, theme };
@@ -436,25 +436,9 @@ async function saveScene(
   fs.writeFileSync(scenePath, JSON.stringify(sceneMetadata, null, 2));
   files.push(scenePath);
 
-  // Render preview HTML
+  // Render a self-contained preview with local images and fonts embedded
   const scene: Scene = { data, template, theme };
-  const { html, css } = renderScene(scene);
-
-  const previewHtml = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${sceneId} - Preview</title>
-  <style>
-    body { margin: 0; display: flex; justify-content: center; padding: 40px; background: #e0e0e0; }
-${css}
-  </style>
-</head>
-<body>
-${html}
-</body>
-</html>`;
+  const previewHtml = exportSceneToHTML(scene, { title: `${sceneId} - Preview`, pageBackground: '#e0e0e0' });
 
   const previewPath = path.join(sceneDir, 'preview.html');
   fs.writeFileSync(previewPath, previewHtml);
@@ -470,7 +454,7 @@ ${html}
 function extractVariables(textEntries: TextEntry[]): string[] {
   const vars = new Set<string>();
   for (const entry of textEntries) {
-    const matches = entry.text.matchAll(/\$([a-zA-Z_][a-zA-Z0-9_]*)/g);
+    const matches = entry.text.matchAll(VARIABLE_PATTERN);
     for (const m of matches) {
       vars.add(m[1]);
     }
@@ -478,6 +462,11 @@ function extractVariables(textEntries: TextEntry[]): string[] {
   return Array.from(vars);
 }
 
+/** Replace $name variables with {{ name }} placeholders. */
+function toPlaceholders(text: string): string {
+  return text.replace(VARIABLE_PATTERN, '{{ $1 }}');
+}
+
 // ============================================================================
 // MAIN
 // ============================================================================
@@ -519,19 +508,19 @@ async function main() {
   const parsed = parseInputFile(content);
 
   console.log(`\nSource URL: ${parsed.sourceUrl || '(none)'}`);
-  console.log(`Canvas: ${parsed.canvasWidthPx} x ${parsed.canvasHeightPx} px`);
+  const canvasPx = pageSizeToPixels(parsed.pageSize, DPI);
+  console.log(`Canvas: ${parsed.pageSize.width} x ${parsed.pageSize.height} ${parsed.pageSize.unit} (${canvasPx.width} x ${canvasPx.height} px at ${DPI} DPI)`);
   console.log(`Text entries: ${parsed.textEntries.length}`);
 
   // Show parsed entries
   for (const entry of parsed.textEntries) {
     const textPreview = entry.text.replace(/\n/g, ' ');
     const preview = textPreview.length > 50 ? textPreview.substring(0, 50) + '...' : textPreview;
-    const fontSizePx = ptToPx(entry.fontSize);
-    const yOffset = capHeightOffsetPx(entry.fontName, fontSizePx, entry.lineSpacing);
-    const correctedY = Math.round((mmToPx(entry.yMm) - yOffset) * 10) / 10;
+    const yOffset = capHeightOffsetPt(entry.fontName, entry.fontSize, entry.lineSpacing);
+    const correctedY = roundMm(entry.yMm - ptToMm(yOffset));
     console.log(`  - "${preview}"`);
-    console.log(`    Font: ${entry.fontName} ${entry.fontSize}pt (${fontSizePx}px), color: ${entry.color}`);
-    console.log(`    Position: x=${entry.xMm}mm (${mmToPx(entry.xMm)}px), y=${entry.yMm}mm (${mmToPx(entry.yMm)}px → ${correctedY}px corrected)`);
+    console.log(`    Font: ${entry.fontName} ${entry.fontSize}pt, color: ${entry.color}`);
+    console.log(`    Position: x=${entry.xMm}mm, y=${entry.yMm}mm (${correctedY}mm corrected)`);
     console.log(`    Align: ${entry.alignment}${entry.angle ? `, angle: ${entry.angle}deg` : ''}`);
     console.log(`    Letter-spacing: ${entry.letterSpacing} → ${letterSpacingToEm(entry.letterSpacing)}em, line-height: ${entry.lineSpacing}`);
   }
@@ -539,7 +528,7 @@ async function main() {
   // Extract variables
   const variables = extractVariables(parsed.textEntries);
   if (variables.length > 0) {
-    console.log(`\nVariables found: ${variables.map(v => '$' + v).join(', ')}`);
+    console.log(`\nVariables found: ${variables.map(v => '$' + v).join(', ')} (declared in data.json; pass values to renderScene)`);
   }
 
   // Generate scene
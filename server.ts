@@ -1,9 +1,11 @@
 import { renderScene } from "./renderer";
+import { createThemeMeasurer } from "./text-measure";
 import { convertSvgToScene } from "./svg-converter";
 import { createEmptyScene, addDataItemToScene, saveSceneToFile } from "./ckengine";
 import { callGrokCompletionMultiTurn, type ChatMessage } from "./ck_backend";
-import type { Scene, SceneData, Template, Theme, DataItem } from "./types";
+import type { Scene, SceneData, Template, Theme, DataItem, RenderResult } from "./types";
 import { executeOperations } from "./operation-executor";
+import { readBrowserBundle } from "./browser-bundle-loader";
 import { execSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
@@ -121,7 +123,7 @@ async function loadJsonFile(filename: string): Promise<unknown> {
   return null;
 }
 
-function tryRenderScene(ws: unknown): { html: string; css: string } | null {
+function tryRenderScene(ws: unknown): RenderResult | null {
   const components = clientScenes.get(ws);
   if (!components) return null;
 
@@ -130,14 +132,22 @@ function tryRenderScene(ws: unknown): { html: string; css: string } | null {
 
   try {
     const scene: Scene = { data, template, theme };
-    return renderScene(scene);
+    return renderScene(scene, { measurer: createThemeMeasurer(theme) });
   } catch (e) {
     console.error("Render error:", e);
     return null;
   }
 }
 
-const server = Bun.serve({
+// Browser build of renderer.ts, read from dist/ on first request
+let browserBundle: string | null = null;
+
+/** Which client a WebSocket belongs to: the scene editor or the assistant chat */
+interface ClientData {
+  type: "editor" | "assistant";
+}
+
+const server = Bun.serve<ClientData>({
   port: 3000,
   async fetch(req, server) {
     const url = new URL(req.url);
@@ -164,6 +174,13 @@ const server = Bun.serve({
       });
     }
 
+    if (url.pathname === "/scene-renderer.js") {
+      browserBundle ??= readBrowserBundle();
+      return new Response(browserBundle, {
+        headers: { "Content-Type": "application/javascript" },
+      });
+    }
+
     if (url.pathname === "/assistant") {
       return new Response(Bun.file("scene-assistant.html"), {
         headers: { "Content-Type": "text/html" },
@@ -174,7 +191,7 @@ const server = Bun.serve({
     if (url.pathname === "/render-scene" && req.method === "POST") {
       try {
         const body = await req.json() as any;
-        const { data, template, theme } = body;
+        const { data, template, theme, variables } = body;
 
         if (!data || !template || !theme) {
           return new Response(JSON.stringify({ error: "Missing scene data" }), {
@@ -184,7 +201,7 @@ const server = Bun.serve({
         }
 
         const scene: Scene = { data, template, theme };
-        const rendered = renderScene(scene);
+        const rendered = renderScene(scene, { measurer: createThemeMeasurer(theme), variables });
 
         return new Response(JSON.stringify(rendered), {
           headers: { "Content-Type": "application/json" }
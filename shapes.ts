@@ -0,0 +1,336 @@
+import type { Element, ElementStyle } from './types';
+import { parseLength, parseBorderWidth } from './layout';
+import { escapeHTML } from './sanitize';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Path segments in box-local pixels (origin at the element's top-left corner) */
+export type PathCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface ShapeOutline {
+  path: PathCommand[];
+  closed: boolean;             // closed outlines are filled; lines are only stroked
+  arrowHeads: PathCommand[][]; // filled with the stroke color
+}
+
+/** Color references (theme ids or literal CSS colors) and stroke width in pixels */
+export interface ShapePaint {
+  fill?: string;
+  stroke?: string;
+  strokeWidth: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Control point distance for approximating a quarter ellipse with a cubic Bézier
+const KAPPA = 0.5522847498;
+
+const DEFAULT_POLYGON_SIDES = 6;
+const DEFAULT_STAR_POINTS = 5;
+const DEFAULT_STAR_INNER_RADIUS = 0.5;
+
+const BORDER_STYLES = ['solid', 'dashed', 'dotted', 'double'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isLineShape(element: Element): boolean {
+  return element.shape_type === 'line' || element.shape_type === 'arrow';
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathCommand[] {
+  const ox = rx * KAPPA;
+  const oy = ry * KAPPA;
+  return [
+    { type: 'M', x: cx - rx, y: cy },
+    { type: 'C', x1: cx - rx, y1: cy - oy, x2: cx - ox, y2: cy - ry, x: cx, y: cy - ry },
+    { type: 'C', x1: cx + ox, y1: cy - ry, x2: cx + rx, y2: cy - oy, x: cx + rx, y: cy },
+    { type: 'C', x1: cx + rx, y1: cy + oy, x2: cx + ox, y2: cy + ry, x: cx, y: cy + ry },
+    { type: 'C', x1: cx - ox, y1: cy + ry, x2: cx - rx, y2: cy + oy, x: cx - rx, y: cy },
+    { type: 'Z' }
+  ];
+}
+
+/** Closed polygon through points on the ellipse inscribed in the box, starting at the top */
+function radialPath(cx: number, cy: number, rx: number, ry: number, radii: number[]): PathCommand[] {
+  const path: PathCommand[] = radii.map((radius, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / radii.length;
+    return {
+      type: i === 0 ? 'M' : 'L',
+      x: cx + rx * radius * Math.cos(angle),
+      y: cy + ry * radius * Math.sin(angle)
+    };
+  });
+  path.push({ type: 'Z' });
+  return path;
+}
+
+/**
+ * Corner radii (top-left, top-right, bottom-right, bottom-left) from a 1-4
+ * value shorthand, scaled down like CSS when adjacent radii overlap.
+ */
+function parseCornerRadii(value: string | undefined, width: number, height: number): [number, number, number, number] {
+  if (!value) return [0, 0, 0, 0];
+
+  const reference = Math.min(width, height);
+  const parts = value.trim().split(/\s+/).map(part => Math.max(0, parseLength(part, reference) ?? 0));
+  const [tl, tr = tl, br = tl, bl = tr] = parts;
+
+  const scale = Math.min(
+    1,
+    width / ((tl + tr) || 1),
+    width / ((bl + br) || 1),
+    height / ((tl + bl) || 1),
+    height / ((tr + br) || 1)
+  );
+  return [tl * scale, tr * scale, br * scale, bl * scale];
+}
+
+function roundedRectPath(x: number, y: number, width: number, height: number, radii: [number, number, number, number]): PathCommand[] {
+  const [tl, tr, br, bl] = radii;
+  const right = x + width;
+  const bottom = y + height;
+  const path: PathCommand[] = [{ type: 'M', x: x + tl, y }];
+
+  path.push({ type: 'L', x: right - tr, y });
+  if (tr > 0) path.push({ type: 'C', x1: right - tr + tr * KAPPA, y1: y, x2: right, y2: y + tr - tr * KAPPA, x: right, y: y + tr });
+  path.push({ type: 'L', x: right, y: bottom - br });
+  if (br > 0) path.push({ type: 'C', x1: right, y1: bottom - br + br * KAPPA, x2: right - br + br * KAPPA, y2: bottom, x: right - br, y: bottom });
+  path.push({ type: 'L', x: x + bl, y: bottom });
+  if (bl > 0) path.push({ type: 'C', x1: x + bl - bl * KAPPA, y1: bottom, x2: x, y2: bottom - bl + bl * KAPPA, x, y: bottom - bl });
+  path.push({ type: 'L', x, y: y + tl });
+  if (tl > 0) path.push({ type: 'C', x1: x, y1: y + tl - tl * KAPPA, x2: x + tl - tl * KAPPA, y2: y, x: x + tl, y });
+  path.push({ type: 'Z' });
+
+  return path;
+}
+
+/** Line endpoints for a line/arrow crossing its box */
+function lineEndpoints(element: Element, width: number, height: number): [number, number, number, number] {
+  switch (element.line_direction) {
+    case 'vertical':
+      return [width / 2, 0, width / 2, height];
+    case 'diagonal_down':
+      return [0, 0, width, height];
+    case 'diagonal_up':
+      return [0, height, width, 0];
+    default:
+      return [0, height / 2, width, height / 2];
+  }
+}
+
+/**
+ * Triangle with its tip at (tipX, tipY) pointing away from (fromX, fromY).
+ * Returns the head and the point the line should stop at: the head's base,
+ * so translucent strokes do not overlap it.
+ */
+function arrowHead(
+  fromX: number, fromY: number, tipX: number, tipY: number, strokeWidth: number
+): { head: PathCommand[]; lineEndX: number; lineEndY: number } {
+  const dx = tipX - fromX;
+  const dy = tipY - fromY;
+  const length = Math.hypot(dx, dy) || 1;
+  const ux = dx / length;
+  const uy = dy / length;
+
+  const headLength = Math.min(Math.max(strokeWidth * 4, 8), length / 2);
+  const halfWidth = headLength / 2;
+  const baseX = tipX - ux * headLength;
+  const baseY = tipY - uy * headLength;
+
+  return {
+    head: [
+      { type: 'M', x: tipX, y: tipY },
+      { type: 'L', x: baseX - uy * halfWidth, y: baseY + ux * halfWidth },
+      { type: 'L', x: baseX + uy * halfWidth, y: baseY - ux * halfWidth },
+      { type: 'Z' }
+    ],
+    lineEndX: baseX,
+    lineEndY: baseY
+  };
+}
+
+/** Color of a `border` shorthand, for shapes that predate `stroke` */
+function getBorderColor(style: ElementStyle): string {
+  const literalColor = style.border!.trim().split(/\s+/)
+    .find(part => parseLength(part, 0) === null && !BORDER_STYLES.includes(part));
+  return style.border_color || literalColor || 'black';
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Shapes drawn as vector outlines. Plain rectangles without a stroke or
+ * rounded corners stay ordinary boxes with a background and border.
+ */
+export function isVectorShape(element: Element): boolean {
+  if (element.element_type !== 'shape') return false;
+  const shapeType = element.shape_type || 'rectangle';
+  return shapeType !== 'rectangle' || !!element.corner_radius || !!element.style?.stroke;
+}
+
+/**
+ * Fill and stroke of a vector shape. Without a `stroke`, a `border` is
+ * drawn as the stroke; lines fall back to a 1px black stroke.
+ */
+export function getShapePaint(element: Element): ShapePaint {
+  const style = element.style || {};
+  const borderWidth = parseBorderWidth(style.border);
+
+  let stroke = style.stroke;
+  let defaultWidth = 1;
+  if (!stroke && borderWidth > 0) {
+    stroke = getBorderColor(style);
+    defaultWidth = borderWidth;
+  }
+
+  if (isLineShape(element)) {
+    stroke = stroke || style.fill || 'black';
+    return { stroke, strokeWidth: Math.max(0, parseLength(style.stroke_width, 0) ?? defaultWidth) };
+  }
+
+  return {
+    fill: style.fill || style.background_color,
+    stroke,
+    strokeWidth: stroke ? Math.max(0, parseLength(style.stroke_width, 0) ?? defaultWidth) : 0
+  };
+}
+
+/**
+ * Outline of a shape filling a width x height box. Closed outlines are
+ * inset by half the stroke width so the stroke stays inside the box.
+ */
+export function buildShapeOutline(element: Element, width: number, height: number, strokeWidth: number): ShapeOutline {
+  if (isLineShape(element)) {
+    let [x1, y1, x2, y2] = lineEndpoints(element, width, height);
+    const heads = element.arrow_head || (element.shape_type === 'arrow' ? 'end' : 'none');
+    const arrowHeads: PathCommand[][] = [];
+
+    if (heads === 'end' || heads === 'both') {
+      const end = arrowHead(x1, y1, x2, y2, strokeWidth);
+      arrowHeads.push(end.head);
+      [x2, y2] = [end.lineEndX, end.lineEndY];
+    }
+    if (heads === 'start' || heads === 'both') {
+      const start = arrowHead(x2, y2, x1, y1, strokeWidth);
+      arrowHeads.push(start.head);
+      [x1, y1] = [start.lineEndX, start.lineEndY];
+    }
+
+    return {
+      path: [{ type: 'M', x: x1, y: y1 }, { type: 'L', x: x2, y: y2 }],
+      closed: false,
+      arrowHeads
+    };
+  }
+
+  const inset = strokeWidth / 2;
+  const x = inset;
+  const y = inset;
+  const innerWidth = Math.max(0, width - strokeWidth);
+  const innerHeight = Math.max(0, height - strokeWidth);
+  const cx = x + innerWidth / 2;
+  const cy = y + innerHeight / 2;
+
+  let path: PathCommand[];
+  switch (element.shape_type) {
+    case 'circle': {
+      const radius = Math.min(innerWidth, innerHeight) / 2;
+      path = ellipsePath(cx, cy, radius, radius);
+      break;
+    }
+
+    case 'ellipse':
+      path = ellipsePath(cx, cy, innerWidth / 2, innerHeight / 2);
+      break;
+
+    case 'polygon': {
+      const sides = Math.max(3, Math.round(element.sides ?? DEFAULT_POLYGON_SIDES));
+      path = radialPath(cx, cy, innerWidth / 2, innerHeight / 2, new Array(sides).fill(1));
+      break;
+    }
+
+    case 'star': {
+      const points = Math.max(3, Math.round(element.points ?? DEFAULT_STAR_POINTS));
+      const inner = Math.min(1, Math.max(0, element.inner_radius ?? DEFAULT_STAR_INNER_RADIUS));
+      const radii = new Array(points * 2).fill(0).map((_, i) => i % 2 === 0 ? 1 : inner);
+      path = radialPath(cx, cy, innerWidth / 2, innerHeight / 2, radii);
+      break;
+    }
+
+    default: {
+      // Radii follow the outer edge, so the stroke's centerline uses them minus the inset
+      const radii = parseCornerRadii(element.corner_radius, width, height)
+        .map(radius => Math.max(0, radius - inset)) as [number, number, number, number];
+      path = roundedRectPath(x, y, innerWidth, innerHeight, radii);
+    }
+  }
+
+  return { path, closed: true, arrowHeads: [] };
+}
+
+/**
+ * SVG path data for path commands
+ */
+export function toSVGPathData(path: PathCommand[], offsetX: number = 0, offsetY: number = 0): string {
+  return path.map(command => {
+    switch (command.type) {
+      case 'Z':
+        return 'Z';
+      case 'C':
+        return `C${round(command.x1 + offsetX)} ${round(command.y1 + offsetY)} ` +
+          `${round(command.x2 + offsetX)} ${round(command.y2 + offsetY)} ` +
+          `${round(command.x + offsetX)} ${round(command.y + offsetY)}`;
+      default:
+        return `${command.type}${round(command.x + offsetX)} ${round(command.y + offsetY)}`;
+    }
+  }).join(' ');
+}
+
+/**
+ * An <svg> drawing a shape, for embedding in HTML. Colors must already be
+ * resolved to CSS colors or url(#id) references to gradients in `defs`.
+ * With `fluid`, the drawing stretches to fill its parent; otherwise it has a
+ * fixed pixel size.
+ */
+export function renderShapeSVG(
+  outline: ShapeOutline,
+  width: number,
+  height: number,
+  paint: { fill?: string; stroke?: string; strokeWidth: number; defs?: string },
+  fluid: boolean
+): string {
+  const size = fluid
+    ? 'width="100%" height="100%" preserveAspectRatio="none"'
+    : `width="${round(width)}" height="${round(height)}"`;
+
+  const fill = outline.closed && paint.fill ? escapeHTML(paint.fill) : 'none';
+  const stroke = paint.stroke && paint.strokeWidth > 0
+    ? ` stroke="${escapeHTML(paint.stroke)}" stroke-width="${round(paint.strokeWidth)}"`
+    : '';
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" ${size} viewBox="0 0 ${round(width)} ${round(height)}" ` +
+    `style="display: block; overflow: visible">`;
+  if (paint.defs) svg += `<defs>${paint.defs}</defs>`;
+  svg += `<path d="${toSVGPathData(outline.path)}" fill="${fill}"${stroke} />`;
+  outline.arrowHeads.forEach(head => {
+    svg += `<path d="${toSVGPathData(head)}" fill="${escapeHTML(paint.stroke || 'black')}" />`;
+  });
+  svg += '</svg>';
+
+  return svg;
+}
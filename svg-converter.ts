@@ -0,0 +1,862 @@
+import type { SceneData, Template, Theme, DataItem, Element, ElementStyle, Color, Font, RenderDiagnostic } from './types';
+import { findFont, getFontsDir, getThemeFont } from './font-registry';
+import { escapeHTML } from './sanitize';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SvgNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: SvgNode[];
+  text: string;       // Concatenated character data of this node and its descendants
+  source: string;     // Original markup, used when an element is kept as raw SVG
+}
+
+/** The canvas and the mapping from the root's user units to canvas pixels */
+interface CanvasBox {
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+  viewBox: string;              // of raw SVG fallbacks, so their coordinates line up
+  preserveAspectRatio?: string;
+}
+
+interface ConversionState {
+  dataItems: DataItem[];
+  elements: Element[];
+  colors: Map<string, Color>;
+  fonts: Map<string, Font>;
+  defs: string[];
+  idPrefix: string;             // of ids in raw SVG fallbacks, from the scene id
+  canvas: CanvasBox;
+  diagnostics: RenderDiagnostic[];
+  counters: Record<string, number>;
+}
+
+type Presentation = Record<string, string>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_COLORS = 16;
+const MAX_FONTS = 8;
+
+const DEFAULT_CANVAS_WIDTH = 800;
+const DEFAULT_CANVAS_HEIGHT = 600;
+
+// Presentation attributes that are inherited from <svg> and <g> ancestors
+const INHERITED_ATTRIBUTES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'letter-spacing'
+];
+
+// Fonts every renderer can be expected to have, so no font file is referenced
+const WEB_SAFE_FONTS = new Set([
+  'arial', 'helvetica', 'times', 'times new roman', 'georgia', 'verdana', 'tahoma',
+  'trebuchet ms', 'courier', 'courier new', 'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy'
+]);
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  cyan: [0, 255, 255],
+  magenta: [255, 0, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  maroon: [128, 0, 0],
+  navy: [0, 0, 128],
+  olive: [128, 128, 0],
+  purple: [128, 0, 128],
+  teal: [0, 128, 128],
+  orange: [255, 165, 0],
+  pink: [255, 192, 203],
+  gold: [255, 215, 0],
+  brown: [165, 42, 42]
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+// ============================================================================
+// XML PARSING
+// ============================================================================
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attrRegex = /([^\s=\/]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attrRegex.exec(raw)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse an XML document into a node tree and return the root element.
+ * Comments, processing instructions and doctypes are skipped.
+ */
+function parseXml(source: string): SvgNode {
+  const root: SvgNode = { name: '#document', attributes: {}, children: [], text: '', source };
+  const stack: Array<{ node: SvgNode; start: number }> = [{ node: root, start: 0 }];
+  let pos = 0;
+
+  const appendText = (text: string) => {
+    stack.forEach(entry => { entry.node.text += text; });
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(decodeEntities(source.slice(pos)));
+      break;
+    }
+
+    if (lt > pos) {
+      appendText(decodeEntities(source.slice(pos, lt)));
+    }
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      const stop = end === -1 ? source.length : end;
+      appendText(source.slice(lt + 9, stop));
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+
+    if (source.startsWith('<?', lt) || source.startsWith('<!', lt)) {
+      const end = source.indexOf('>', lt);
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const gt = findTagEnd(source, lt);
+    if (gt === -1) {
+      throw new Error('Unterminated tag in SVG markup');
+    }
+
+    const tagBody = source.slice(lt + 1, gt);
+
+    if (tagBody.startsWith('/')) {
+      const name = tagBody.slice(1).trim();
+      const entry = stack.pop();
+      if (!entry || entry.node.name !== name) {
+        throw new Error(`Mismatched closing tag </${name}>`);
+      }
+      entry.node.source = source.slice(entry.start, gt + 1);
+      pos = gt + 1;
+      continue;
+    }
+
+    const selfClosing = tagBody.endsWith('/');
+    const body = selfClosing ? tagBody.slice(0, -1) : tagBody;
+    const nameMatch = body.match(/^([^\s\/>]+)/);
+    if (!nameMatch) {
+      throw new Error('Malformed tag in SVG markup');
+    }
+
+    const node: SvgNode = {
+      name: nameMatch[1],
+      attributes: parseAttributes(body.slice(nameMatch[1].length)),
+      children: [],
+      text: '',
+      source: source.slice(lt, gt + 1)
+    };
+
+    stack[stack.length - 1].node.children.push(node);
+    if (!selfClosing) {
+      stack.push({ node, start: lt });
+    }
+    pos = gt + 1;
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].node.name}>`);
+  }
+
+  const svg = root.children.find(child => localName(child.name) === 'svg');
+  if (!svg) {
+    throw new Error('No <svg> root element found');
+  }
+
+  return svg;
+}
+
+/** Find the closing '>' of a tag, skipping over quoted attribute values. */
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+// ============================================================================
+// ATTRIBUTE HELPERS
+// ============================================================================
+
+/** Merge presentation attributes with inline `style` declarations (style wins). */
+function getPresentation(node: SvgNode, inherited: Presentation): Presentation {
+  const result: Presentation = { ...inherited };
+
+  for (const [key, value] of Object.entries(node.attributes)) {
+    result[key] = value;
+  }
+
+  if (node.attributes.style) {
+    node.attributes.style.split(';').forEach(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) return;
+      const key = declaration.slice(0, colon).trim();
+      const value = declaration.slice(colon + 1).trim();
+      if (key) result[key] = value;
+    });
+  }
+
+  return result;
+}
+
+function inheritablePresentation(presentation: Presentation): Presentation {
+  const result: Presentation = {};
+  INHERITED_ATTRIBUTES.forEach(key => {
+    if (presentation[key] !== undefined) result[key] = presentation[key];
+  });
+  return result;
+}
+
+function parseNumber(value: string | undefined, fallback: number = 0): number {
+  if (value === undefined) return fallback;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? fallback : parsed;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** A user-unit x coordinate as canvas pixels */
+function toCanvasX(state: ConversionState, x: number): number {
+  return x * state.canvas.scaleX + state.canvas.offsetX;
+}
+
+function toCanvasY(state: ConversionState, y: number): number {
+  return y * state.canvas.scaleY + state.canvas.offsetY;
+}
+
+/** A user-unit length without a direction (stroke width, font size) as canvas pixels */
+function toCanvasLength(state: ConversionState, length: number): number {
+  return length * Math.sqrt(state.canvas.scaleX * state.canvas.scaleY);
+}
+
+function sanitizeId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function nextId(state: ConversionState, prefix: string): string {
+  state.counters[prefix] = (state.counters[prefix] || 0) + 1;
+  return `${prefix}_${state.counters[prefix]}`;
+}
+
+/**
+ * Parse an SVG paint value into RGBA components.
+ * Returns null for 'none', gradients/patterns (url(...)) and unrecognised values.
+ */
+function parseColor(value: string | undefined, opacity: number = 1): { r: number; g: number; b: number; a: number } | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+
+  if (color === 'none' || color === 'transparent' || color.startsWith('url(')) {
+    return null;
+  }
+
+  const hexMatch = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map(ch => ch + ch).join('');
+    }
+    if (hex.length !== 6 && hex.length !== 8) return null;
+    const alpha = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      a: round(alpha * opacity)
+    };
+  }
+
+  const rgbMatch = color.match(/^rgba?\(([^)]+)\)$/);
+  if (rgbMatch) {
+    const parts = rgbMatch[1].split(/[\s,\/]+/).filter(Boolean);
+    const channel = (part: string) => part.endsWith('%')
+      ? Math.round(parseFloat(part) * 2.55)
+      : Math.round(parseFloat(part));
+    const alpha = parts[3] !== undefined
+      ? (parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]))
+      : 1;
+    return { r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]), a: round(alpha * opacity) };
+  }
+
+  const named = NAMED_COLORS[color];
+  if (named) {
+    return { r: named[0], g: named[1], b: named[2], a: round(opacity) };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// PALETTE COLLECTION
+// ============================================================================
+
+/**
+ * Add a color to the palette, returning its id.
+ * Returns null when the value can't be parsed or the palette is full.
+ */
+function collectColor(state: ConversionState, value: string | undefined, opacity: number): string | null {
+  const rgba = parseColor(value, opacity);
+  if (!rgba) return null;
+
+  for (const color of state.colors.values()) {
+    if (color.r === rgba.r && color.g === rgba.g && color.b === rgba.b && color.a === rgba.a) {
+      return color.id;
+    }
+  }
+
+  if (state.colors.size >= MAX_COLORS) {
+    return null;
+  }
+
+  const hex = [rgba.r, rgba.g, rgba.b].map(c => c.toString(16).padStart(2, '0')).join('');
+  const alphaSuffix = rgba.a < 1 ? `_${Math.round(rgba.a * 100)}` : '';
+  const id = `color_${hex}${alphaSuffix}`;
+
+  state.colors.set(id, { id, name: `#${hex}`, ...rgba });
+  return id;
+}
+
+/**
+ * Add the first family of a font-family list to the palette, returning its id,
+ * with its file from the font registry. Families the registry does not know
+ * are reported and fall back to the rest of the list.
+ * Returns null when the palette is full.
+ */
+function collectFont(state: ConversionState, fontFamily: string | undefined): string | null {
+  if (!fontFamily) return null;
+
+  const [fontName, ...fallback] = fontFamily.split(',')
+    .map(family => family.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(Boolean);
+  if (!fontName) return null;
+
+  const id = `font_${sanitizeId(fontName)}`;
+  if (state.fonts.has(id)) return id;
+
+  if (state.fonts.size >= MAX_FONTS) {
+    return null;
+  }
+
+  const registered = WEB_SAFE_FONTS.has(fontName.toLowerCase()) ? null : findFont(fontName);
+  if (registered) {
+    state.fonts.set(id, { font_id: id, ...getThemeFont(registered) });
+    return id;
+  }
+
+  state.fonts.set(id, {
+    font_id: id,
+    font_name: fontName,
+    font_url: '',
+    ...(fallback.length > 0 ? { fallback } : {})
+  });
+  if (!WEB_SAFE_FONTS.has(fontName.toLowerCase())) {
+    state.diagnostics.push({
+      severity: 'warning',
+      code: 'unknown_font',
+      element_path: `font_palette/${id}`,
+      message: `Font '${fontName}' is not in ${getFontsDir()}, the Google Fonts catalog or the system fonts; ` +
+        `text set in it falls back to ${fallback.length > 0 ? fallback.join(', ') : 'the default font'}`
+    });
+  }
+  return id;
+}
+
+/**
+ * Markup with the ids that `definitions` defines prefixed, along with the
+ * url(#id) and href="#id" references to them
+ */
+function prefixIds(markup: string, definitions: string, prefix: string): string {
+  const ids = new Set([...definitions.matchAll(/\sid\s*=\s*(["'])([^"']+)\1/g)].map(match => match[2]));
+  if (ids.size === 0) return markup;
+
+  return markup
+    .replace(/(\sid\s*=\s*)(["'])([^"']+)\2/g, (match, attribute: string, quote: string, id: string) =>
+      ids.has(id) ? `${attribute}${quote}${prefix}${id}${quote}` : match)
+    .replace(/url\(\s*(["']?)#([^"')\s]+)\1\s*\)/g, (match, quote: string, id: string) =>
+      ids.has(id) ? `url(${quote}#${prefix}${id}${quote})` : match)
+    .replace(/(\s(?:xlink:)?href\s*=\s*)(["'])#([^"']+)\2/g, (match, attribute: string, quote: string, id: string) =>
+      ids.has(id) ? `${attribute}${quote}#${prefix}${id}${quote}` : match);
+}
+
+// ============================================================================
+// ELEMENT CONVERSION
+// ============================================================================
+
+/**
+ * Keep an SVG node as an `svg` element covering the whole canvas, so its
+ * original coordinates still line up. Each one carries its own copy of the
+ * definitions, with their ids prefixed by the scene and element id so the
+ * copies in one page (or of the same SVG imported twice) do not clash.
+ */
+function keepAsSvg(state: ConversionState, node: SvgNode, inherited: Presentation): void {
+  // Re-apply inherited presentation attributes on a wrapping group
+  const groupAttributes = Object.entries(inherited)
+    .map(([key, value]) => ` ${key}="${escapeHTML(value)}"`)
+    .join('');
+
+  const elementId = nextId(state, 'svg');
+  const defs = state.defs.length > 0 ? `<defs>${state.defs.join('')}</defs>` : '';
+  const { canvas } = state;
+  const aspect = canvas.preserveAspectRatio
+    ? ` preserveAspectRatio="${escapeHTML(canvas.preserveAspectRatio)}"`
+    : '';
+  const svgContent =
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${canvas.width}" height="${canvas.height}" ` +
+    `viewBox="${canvas.viewBox}"${aspect} overflow="visible">` +
+    `${prefixIds(`${defs}<g${groupAttributes}>${node.source}</g>`, defs, `${state.idPrefix}-${elementId}-`)}</svg>`;
+
+  state.elements.push({
+    element_id: elementId,
+    element_type: 'svg',
+    svg_content: svgContent,
+    style: {
+      position: 'absolute',
+      left: '0px',
+      top: '0px',
+      width: `${canvas.width}px`,
+      height: `${canvas.height}px`
+    }
+  });
+}
+
+/**
+ * Express a shape's stroke as a border.
+ * Returns false when the stroke can't be expressed.
+ */
+function convertStroke(state: ConversionState, presentation: Presentation, style: ElementStyle): boolean {
+  const stroke = presentation['stroke'];
+  if (!stroke || stroke === 'none') return true;
+
+  const colorId = collectColor(state, stroke, parseNumber(presentation['stroke-opacity'], 1));
+  if (!colorId) return false;
+
+  style.border = `${round(toCanvasLength(state, parseNumber(presentation['stroke-width'], 1)))}px solid`;
+  style.border_color = colorId;
+  return true;
+}
+
+function convertRect(state: ConversionState, node: SvgNode, presentation: Presentation): boolean {
+  const width = parseNumber(node.attributes.width) * state.canvas.scaleX;
+  const height = parseNumber(node.attributes.height) * state.canvas.scaleY;
+  if (width <= 0 || height <= 0) return false;
+
+  // A missing corner radius takes the other one's value; both are capped at half the side
+  const rxValue = node.attributes.rx ?? node.attributes.ry;
+  const ryValue = node.attributes.ry ?? node.attributes.rx;
+  const rx = Math.min(Math.max(0, parseNumber(rxValue) * state.canvas.scaleX), width / 2);
+  const ry = Math.min(Math.max(0, parseNumber(ryValue) * state.canvas.scaleY), height / 2);
+  // Elliptical corners have no equivalent in the element model
+  if (Math.abs(rx - ry) > 0.01) return false;
+
+  const style: ElementStyle = {
+    position: 'absolute',
+    left: `${round(toCanvasX(state, parseNumber(node.attributes.x)))}px`,
+    top: `${round(toCanvasY(state, parseNumber(node.attributes.y)))}px`,
+    width: `${round(width)}px`,
+    height: `${round(height)}px`
+  };
+
+  if (!applyFill(state, presentation, style)) return false;
+  if (!convertStroke(state, presentation, style)) return false;
+
+  state.elements.push({
+    element_id: nextId(state, 'rect'),
+    element_type: 'shape',
+    shape_type: 'rectangle',
+    ...(rx > 0 ? { corner_radius: `${round(rx)}px` } : {}),
+    style
+  });
+  return true;
+}
+
+function convertCircle(state: ConversionState, node: SvgNode, presentation: Presentation): boolean {
+  const r = parseNumber(node.attributes.r);
+  if (r <= 0) return false;
+
+  // A viewBox stretched by preserveAspectRatio="none" turns circles into ellipses
+  const rx = r * state.canvas.scaleX;
+  const ry = r * state.canvas.scaleY;
+  const cx = toCanvasX(state, parseNumber(node.attributes.cx));
+  const cy = toCanvasY(state, parseNumber(node.attributes.cy));
+
+  const style: ElementStyle = {
+    position: 'absolute',
+    left: `${round(cx - rx)}px`,
+    top: `${round(cy - ry)}px`,
+    width: `${round(rx * 2)}px`,
+    height: `${round(ry * 2)}px`
+  };
+
+  if (!applyFill(state, presentation, style)) return false;
+  if (!convertStroke(state, presentation, style)) return false;
+
+  state.elements.push({
+    element_id: nextId(state, 'circle'),
+    element_type: 'shape',
+    shape_type: Math.abs(rx - ry) > 0.01 ? 'ellipse' : 'circle',
+    style
+  });
+  return true;
+}
+
+/** Resolve the fill into the palette. SVG fills default to black. */
+function applyFill(state: ConversionState, presentation: Presentation, style: ElementStyle): boolean {
+  const fill = presentation['fill'] ?? 'black';
+  if (fill === 'none') return true;
+
+  const opacity = parseNumber(presentation['fill-opacity'], 1);
+  const colorId = collectColor(state, fill, opacity);
+  if (!colorId) return false;
+
+  style.fill = colorId;
+  return true;
+}
+
+function convertText(state: ConversionState, node: SvgNode, presentation: Presentation): boolean {
+  // Individually positioned or styled tspans can't be expressed as a single text item
+  const attributedSpan = node.children.some(child =>
+    localName(child.name) === 'tspan' && Object.keys(child.attributes).length > 0
+  );
+  if (attributedSpan) return false;
+
+  const content = node.text.replace(/\s+/g, ' ').trim();
+  if (!content) return true;
+
+  const fontSize = toCanvasLength(state, parseNumber(presentation['font-size'], 16));
+  const x = toCanvasX(state, parseNumber(node.attributes.x));
+  const y = toCanvasY(state, parseNumber(node.attributes.y));
+
+  const style: ElementStyle = {
+    position: 'absolute',
+    left: `${round(x)}px`,
+    // SVG positions text by its baseline; approximate the line-box top with a 0.8em ascent
+    top: `${round(y - fontSize * 0.8)}px`,
+    font_size: `${round(fontSize)}px`,
+    line_height: '1',
+    white_space: 'nowrap'
+  };
+
+  const fontId = collectFont(state, presentation['font-family']);
+  if (fontId) style.font = fontId;
+
+  const fill = presentation['fill'] ?? 'black';
+  if (fill !== 'none') {
+    const colorId = collectColor(state, fill, parseNumber(presentation['fill-opacity'], 1));
+    if (!colorId) return false;
+    style.color = colorId;
+  }
+
+  if (presentation['font-weight']) style.font_weight = presentation['font-weight'];
+  if (presentation['font-style']) style.font_style = presentation['font-style'];
+  const letterSpacing = presentation['letter-spacing'];
+  if (letterSpacing) {
+    // User-unit spacing scales with the viewBox; em and other units scale with the font
+    style.letter_spacing = /^-?[\d.]+(px)?$/.test(letterSpacing.trim())
+      ? `${round(toCanvasLength(state, parseNumber(letterSpacing)))}px`
+      : letterSpacing;
+  }
+
+  const anchor = presentation['text-anchor'];
+  if (anchor === 'middle') {
+    style.transform = 'translateX(-50%)';
+    style.text_align = 'center';
+  } else if (anchor === 'end') {
+    style.transform = 'translateX(-100%)';
+    style.text_align = 'right';
+  }
+
+  const dataItemId = nextId(state, 'text');
+  state.dataItems.push({
+    id: dataItemId,
+    type: 'text',
+    display_name: content.length > 40 ? content.substring(0, 40) + '...' : content,
+    content
+  });
+
+  state.elements.push({
+    element_id: `${dataItemId}_element`,
+    element_type: 'data_item',
+    data_item_id: dataItemId,
+    style
+  });
+  return true;
+}
+
+function convertImage(state: ConversionState, node: SvgNode): boolean {
+  const href = node.attributes.href ?? node.attributes['xlink:href'];
+  if (!href) return true;
+
+  // preserveAspectRatio other than the default/none maps onto object-fit
+  const aspect = node.attributes.preserveAspectRatio || 'xMidYMid meet';
+  if (!/^(none|xMidYMid( meet| slice)?)$/.test(aspect.trim())) return false;
+
+  const style: ElementStyle = {
+    position: 'absolute',
+    left: `${round(toCanvasX(state, parseNumber(node.attributes.x)))}px`,
+    top: `${round(toCanvasY(state, parseNumber(node.attributes.y)))}px`
+  };
+
+  if (node.attributes.width) style.width = `${round(parseNumber(node.attributes.width) * state.canvas.scaleX)}px`;
+  if (node.attributes.height) style.height = `${round(parseNumber(node.attributes.height) * state.canvas.scaleY)}px`;
+
+  style.object_fit = aspect === 'none' ? 'fill' : aspect.endsWith('slice') ? 'cover' : 'contain';
+
+  const dataItemId = nextId(state, 'image');
+  state.dataItems.push({
+    id: dataItemId,
+    type: 'image',
+    display_name: `Image ${state.counters['image']}`,
+    image_url: href
+  });
+
+  state.elements.push({
+    element_id: `${dataItemId}_element`,
+    element_type: 'data_item',
+    data_item_id: dataItemId,
+    style
+  });
+  return true;
+}
+
+/**
+ * Convert a node and (for groups) its children. Transformed or otherwise
+ * unsupported nodes are kept verbatim as `svg` elements.
+ */
+function convertNode(state: ConversionState, node: SvgNode, inherited: Presentation): void {
+  const name = localName(node.name);
+
+  if (name === 'defs' || name === 'linearGradient' || name === 'radialGradient' ||
+      name === 'pattern' || name === 'clipPath' || name === 'mask' || name === 'symbol' ||
+      name === 'style' || name === 'filter' || name === 'marker') {
+    state.defs.push(name === 'defs' ? node.children.map(child => child.source).join('') : node.source);
+    return;
+  }
+
+  if (name === 'title' || name === 'desc' || name === 'metadata') {
+    return;
+  }
+
+  const presentation = getPresentation(node, inherited);
+
+  if (presentation['display'] === 'none') {
+    return;
+  }
+
+  // Anything transformed, clipped, masked, filtered or semi-transparent as a whole
+  // can't be flattened into independent elements
+  const needsRawSvg = presentation['transform'] !== undefined ||
+    presentation['clip-path'] !== undefined ||
+    presentation['mask'] !== undefined ||
+    presentation['filter'] !== undefined ||
+    parseNumber(presentation['opacity'], 1) !== 1;
+
+  if (name === 'g' && !needsRawSvg) {
+    const childInherited = inheritablePresentation(presentation);
+    node.children.forEach(child => convertNode(state, child, childInherited));
+    return;
+  }
+
+  let converted = false;
+  if (!needsRawSvg) {
+    switch (name) {
+      case 'rect':
+        converted = convertRect(state, node, presentation);
+        break;
+      case 'circle':
+        converted = convertCircle(state, node, presentation);
+        break;
+      case 'text':
+        converted = convertText(state, node, presentation);
+        break;
+      case 'image':
+        converted = convertImage(state, node);
+        break;
+    }
+  }
+
+  if (!converted) {
+    keepAsSvg(state, node, inherited);
+  }
+}
+
+/**
+ * Determine the canvas from the root width/height, falling back to the
+ * viewBox size, and map the viewBox onto it per preserveAspectRatio.
+ */
+function getCanvasBox(svg: SvgNode): CanvasBox {
+  const viewBox = svg.attributes.viewBox?.trim().split(/[\s,]+/).map(parseFloat);
+  const hasViewBox = !!viewBox && viewBox.length === 4 && viewBox.every(v => !isNaN(v)) && viewBox[2] > 0 && viewBox[3] > 0;
+
+  // Percentages have nothing to resolve against; the viewBox size is used instead
+  const size = (value: string | undefined, fallback: number) =>
+    value && !value.trim().endsWith('%') && parseNumber(value) > 0 ? parseNumber(value) : fallback;
+  const width = Math.max(1, Math.round(size(svg.attributes.width, hasViewBox ? viewBox![2] : DEFAULT_CANVAS_WIDTH)));
+  const height = Math.max(1, Math.round(size(svg.attributes.height, hasViewBox ? viewBox![3] : DEFAULT_CANVAS_HEIGHT)));
+
+  if (!hasViewBox) {
+    return { width, height, scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0, viewBox: `0 0 ${width} ${height}` };
+  }
+
+  const [minX, minY, boxWidth, boxHeight] = viewBox!;
+  const preserveAspectRatio = svg.attributes.preserveAspectRatio?.trim();
+  const [align = 'xMidYMid', meetOrSlice = 'meet'] = (preserveAspectRatio || '').split(/\s+/).filter(Boolean);
+
+  let scaleX = width / boxWidth;
+  let scaleY = height / boxHeight;
+  let spareX = 0;
+  let spareY = 0;
+  if (align !== 'none') {
+    scaleX = scaleY = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    spareX = width - boxWidth * scaleX;
+    spareY = height - boxHeight * scaleY;
+  }
+  const alignX = align.includes('xMid') ? 0.5 : align.includes('xMax') ? 1 : 0;
+  const alignY = align.includes('YMid') ? 0.5 : align.includes('YMax') ? 1 : 0;
+
+  return {
+    width,
+    height,
+    scaleX,
+    scaleY,
+    offsetX: spareX * alignX - minX * scaleX,
+    offsetY: spareY * alignY - minY * scaleY,
+    viewBox: viewBox!.join(' '),
+    preserveAspectRatio
+  };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Convert an SVG document into scene data, template and theme.
+ *
+ * `<text>` and `<image>` become data items, `<rect>` and `<circle>` become shape
+ * elements, and fills and fonts are collected into the theme palettes. The
+ * canvas takes the root's size, with viewBox coordinates scaled onto it.
+ * Anything the element model can't express is kept as an `svg` element so
+ * nothing is lost. Fonts the font registry cannot find are reported in
+ * `diagnostics`.
+ */
+export function convertSvgToScene(
+  svgContent: string,
+  sceneId: string
+): { data: SceneData; template: Template; theme: Theme; diagnostics: RenderDiagnostic[] } {
+  const svg = parseXml(svgContent);
+  const canvas = getCanvasBox(svg);
+  const { width, height } = canvas;
+
+  const state: ConversionState = {
+    dataItems: [],
+    elements: [],
+    colors: new Map(),
+    fonts: new Map(),
+    defs: [],
+    idPrefix: sceneId.replace(/[^\w-]+/g, '_'),
+    canvas,
+    diagnostics: [],
+    counters: {}
+  };
+
+  // Collect definitions up front so raw SVG fallbacks can reference gradients etc.
+  const isDefinition = (node: SvgNode) => localName(node.name) === 'defs' || localName(node.name) === 'style';
+  svg.children.filter(isDefinition).forEach(child => convertNode(state, child, {}));
+
+  const rootPresentation = inheritablePresentation(getPresentation(svg, {}));
+  svg.children
+    .filter(child => !isDefinition(child))
+    .forEach(child => convertNode(state, child, rootPresentation));
+
+  if (state.fonts.size === 0) {
+    state.fonts.set('default', { font_id: 'default', font_name: 'Arial', font_url: '' });
+  }
+  if (state.colors.size === 0) {
+    state.colors.set('color_000000', { id: 'color_000000', name: 'Black', r: 0, g: 0, b: 0, a: 1 });
+  }
+
+  const data: SceneData = {
+    scene_id: sceneId,
+    data_items: state.dataItems
+  };
+
+  const template: Template = {
+    template_id: `${sceneId}_template`,
+    template_name: `${sceneId} Template`,
+    canvas: { width, height },
+    elements: state.elements
+  };
+
+  const theme: Theme = {
+    theme_id: `${sceneId}_theme`,
+    theme_name: `${sceneId} Theme`,
+    color_palette: Array.from(state.colors.values()),
+    font_palette: Array.from(state.fonts.values())
+  };
+
+  return { data, template, theme, diagnostics: state.diagnostics };
+}
@@ -0,0 +1,381 @@
+import type { Scene, Color, Font, Gradient, ElementStyle, RenderOptions } from './types';
+import { generateFontCSS } from './renderer';
+import { sanitizeSVG, toWellFormedSVG } from './sanitize';
+import { inlineSceneAssets } from './bundle-exporter';
+import {
+  layoutPreparedScene,
+  parseLength,
+  getBaselineOffset,
+  TextMeasurer,
+  LayoutBox,
+  TextLine,
+  TextSegment,
+  approximateMeasurer
+} from './layout';
+import { isVectorShape, getShapePaint, buildShapeOutline, toSVGPathData } from './shapes';
+import { buildGradientMap, renderSVGGradient } from './gradients';
+import { filtersToCSS, parseOpacity, BLEND_MODES } from './effects';
+import { getCurvature, buildTextArc, renderArcTextSVG } from './text-arc';
+import { getFontStack } from './font-stack';
+import { prepareScene } from './prepare-scene';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SVGRenderOptions extends RenderOptions {
+  baseDir?: string;   // directory that relative image and font paths resolve against
+}
+
+interface SVGRenderContext {
+  colorMap: Map<string, Color>;
+  gradientMap: Map<string, Gradient>;
+  gradientDefs: Map<string, string>;   // gradient definitions by id, written to <defs>
+  fontMap: Map<string, Font>;
+  measurer: TextMeasurer;
+  trusted: boolean;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Resolve a theme color or gradient id (or literal CSS color) into SVG paint
+ * attributes. Gradients are laid over the box and defined once per box and
+ * role. Returns an empty string when there is nothing to paint.
+ */
+function paintAttributes(
+  attribute: 'fill' | 'stroke',
+  value: string | undefined,
+  box: LayoutBox,
+  context: SVGRenderContext,
+  role: string = attribute
+): string {
+  if (!value || value === 'none' || value === 'transparent') return '';
+
+  const gradient = context.gradientMap.get(value);
+  if (gradient) {
+    const id = `${box.path}-${role}`;
+    if (!context.gradientDefs.has(id)) {
+      context.gradientDefs.set(id, renderSVGGradient(id, gradient, box, context.colorMap, color => color));
+    }
+    return ` ${attribute}="url(#${escapeXML(id)})"`;
+  }
+
+  const color = context.colorMap.get(value);
+  if (!color) {
+    return ` ${attribute}="${escapeXML(value)}"`;
+  }
+
+  const opacity = color.a < 1 ? ` ${attribute}-opacity="${color.a}"` : '';
+  return ` ${attribute}="rgb(${color.r}, ${color.g}, ${color.b})"${opacity}`;
+}
+
+/** Border width and color from the `border` shorthand and `border_color`. */
+function getBorder(style: ElementStyle): { width: number; color?: string } {
+  if (!style.border || style.border.trim() === 'none') return { width: 0 };
+
+  const parts = style.border.trim().split(/\s+/);
+  let width = 0;
+  let literalColor: string | undefined;
+
+  for (const part of parts) {
+    const length = parseLength(part, 0);
+    if (length !== null) width = length;
+    else if (!['solid', 'dashed', 'dotted', 'double'].includes(part)) literalColor = part;
+  }
+
+  if (width === 0 && parts.some(part => ['solid', 'dashed', 'dotted', 'double'].includes(part))) {
+    width = 3;  // CSS 'medium'
+  }
+
+  return { width, color: style.border_color || literalColor || 'black' };
+}
+
+function getFontFamily(fontId: string | undefined, context: SVGRenderContext): string | undefined {
+  if (!fontId) return undefined;
+  const font = context.fontMap.get(fontId);
+  return font ? getFontStack(font) : undefined;
+}
+
+function getPreserveAspectRatio(objectFit: string | undefined): string {
+  switch (objectFit) {
+    case 'cover':
+      return 'xMidYMid slice';
+    case 'contain':
+    case 'scale-down':
+      return 'xMidYMid meet';
+    default:
+      // <img> defaults to object-fit: fill
+      return 'none';
+  }
+}
+
+// ============================================================================
+// ELEMENT RENDERING
+// ============================================================================
+
+function renderBoxBackground(box: LayoutBox, context: SVGRenderContext, indent: string): string {
+  const style = box.element.style || {};
+  let svg = '';
+
+  // Shapes use fill; any element can have a background color
+  const background = box.element.element_type === 'shape'
+    ? style.fill || style.background_color
+    : style.background_color;
+  const border = getBorder(style);
+
+  if (isVectorShape(box.element)) {
+    const paint = getShapePaint(box.element);
+    const outline = buildShapeOutline(box.element, box.width, box.height, paint.strokeWidth);
+    const fill = outline.closed ? paintAttributes('fill', paint.fill, box, context) || ' fill="none"' : ' fill="none"';
+    const stroke = paint.strokeWidth > 0
+      ? `${paintAttributes('stroke', paint.stroke, box, context)} stroke-width="${round(paint.strokeWidth)}"`
+      : '';
+    svg += `${indent}<path d="${toSVGPathData(outline.path, box.x, box.y)}"${fill}${stroke} />\n`;
+    outline.arrowHeads.forEach(head => {
+      svg += `${indent}<path d="${toSVGPathData(head, box.x, box.y)}"${paintAttributes('fill', paint.stroke, box, context, 'stroke')} />\n`;
+    });
+    return svg;
+  }
+
+  // Corners use the first border_radius value
+  const radius = Math.min(parseLength(style.border_radius?.trim().split(/\s+/)[0], box.width) ?? 0, box.width / 2, box.height / 2);
+  const corners = radius > 0 ? ` rx="${round(radius)}"` : '';
+
+  if (background) {
+    svg += `${indent}<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}"${corners}${paintAttributes('fill', background, box, context)} />\n`;
+  }
+
+  if (border.width > 0) {
+    // SVG strokes are centered on the path; CSS borders sit inside the border box
+    const inset = border.width / 2;
+    svg += `${indent}<rect x="${round(box.x + inset)}" y="${round(box.y + inset)}" ` +
+      `width="${round(Math.max(0, box.width - border.width))}" height="${round(Math.max(0, box.height - border.width))}" ` +
+      (radius > 0 ? `rx="${round(Math.max(0, radius - border.width / 2))}" ` : '') +
+      `fill="none"${paintAttributes('stroke', border.color, box, context)} stroke-width="${border.width}" />\n`;
+  }
+
+  return svg;
+}
+
+/**
+ * Attributes for the parts of a segment's style that differ from the box's
+ * own text style
+ */
+function segmentAttributes(segment: TextSegment, box: LayoutBox, context: SVGRenderContext): string {
+  const base = box.textStyle;
+  const textStyle = segment.textStyle;
+  let attributes = '';
+  if (textStyle.fontSize !== base.fontSize) attributes += ` font-size="${round(textStyle.fontSize)}"`;
+  if (textStyle.font !== base.font) {
+    const fontFamily = getFontFamily(textStyle.font, context);
+    if (fontFamily) attributes += ` font-family="${escapeXML(fontFamily)}"`;
+  }
+  if (textStyle.fontWeight !== base.fontWeight) attributes += ` font-weight="${escapeXML(textStyle.fontWeight)}"`;
+  if (textStyle.fontStyle !== base.fontStyle) attributes += ` font-style="${escapeXML(textStyle.fontStyle)}"`;
+  if (textStyle.color !== base.color) {
+    attributes += paintAttributes('fill', textStyle.color || 'black', box, context, `text-${textStyle.color}`);
+  }
+  return attributes;
+}
+
+/** Escaped content of a line: its text, or a tspan per styled segment. */
+function lineContent(line: TextLine, box: LayoutBox, context: SVGRenderContext): string {
+  if (!line.segments) return escapeXML(line.text);
+  return line.segments.map(segment => {
+    const attributes = segmentAttributes(segment, box, context);
+    return attributes ? `<tspan${attributes}>${escapeXML(segment.text)}</tspan>` : escapeXML(segment.text);
+  }).join('');
+}
+
+function renderText(box: LayoutBox, context: SVGRenderContext, indent: string): string {
+  if (!box.lines || box.lines.length === 0) return '';
+
+  const textStyle = box.textStyle;
+  const metrics = context.measurer.getMetrics(textStyle);
+  const fontFamily = getFontFamily(textStyle.font, context);
+
+  let attributes = ` font-size="${round(textStyle.fontSize)}"`;
+  if (fontFamily) attributes += ` font-family="${escapeXML(fontFamily)}"`;
+  if (textStyle.fontWeight !== 'normal') attributes += ` font-weight="${escapeXML(textStyle.fontWeight)}"`;
+  if (textStyle.fontStyle !== 'normal') attributes += ` font-style="${escapeXML(textStyle.fontStyle)}"`;
+  if (textStyle.letterSpacing) attributes += ` letter-spacing="${round(textStyle.letterSpacing)}"`;
+  attributes += paintAttributes('fill', textStyle.color || 'black', box, context, 'text');
+
+  // Outlines are painted under the fill, so only their outer half shows
+  const style = box.element.style || {};
+  if (style.stroke) {
+    attributes += `${paintAttributes('stroke', style.stroke, box, context, 'text-stroke')} ` +
+      `stroke-width="${round(parseLength(style.stroke_width, 0) ?? 1)}" paint-order="stroke"`;
+  }
+
+  const baselineOffset = getBaselineOffset(textStyle, metrics);
+
+  const curvature = getCurvature(box.element);
+  if (curvature !== 0) {
+    const line = box.lines[0];
+    const arc = buildTextArc(line, line.baseline ?? baselineOffset, curvature);
+    return `${indent}${renderArcTextSVG(arc, lineContent(line, box, context), `${box.path}-arc`, attributes)}\n`;
+  }
+
+  const anchor = textStyle.textAlign === 'center' ? 'middle' : textStyle.textAlign === 'right' ? 'end' : 'start';
+  if (anchor !== 'start') attributes += ` text-anchor="${anchor}"`;
+
+  let svg = `${indent}<text${attributes} xml:space="preserve">\n`;
+  box.lines.forEach(line => {
+    const x = anchor === 'middle' ? line.x + line.width / 2 : anchor === 'end' ? line.x + line.width : line.x;
+    const y = line.y + (line.baseline ?? baselineOffset);
+    svg += `${indent}  <tspan x="${round(x)}" y="${round(y)}">${lineContent(line, box, context)}</tspan>\n`;
+  });
+  svg += `${indent}</text>\n`;
+
+  return svg;
+}
+
+function renderImage(url: string | undefined, box: LayoutBox, indent: string): string {
+  if (!url) return '';
+
+  const style = box.element.style || {};
+  const size = box.width > 0 && box.height > 0
+    ? ` width="${round(box.width)}" height="${round(box.height)}"`
+    : '';
+
+  return `${indent}<image href="${escapeXML(url)}" x="${round(box.x)}" y="${round(box.y)}"${size} ` +
+    `preserveAspectRatio="${getPreserveAspectRatio(style.object_fit)}" />\n`;
+}
+
+function renderInlineSVG(svgContent: string | undefined, box: LayoutBox, context: SVGRenderContext, indent: string): string {
+  if (!svgContent) return '';
+
+  let content = (context.trusted ? toWellFormedSVG(svgContent) : sanitizeSVG(svgContent)).trim();
+  const rootTag = content.match(/^<svg\b[^>]*>/i)?.[0];
+
+  if (!rootTag) {
+    content = `<svg width="${round(box.width)}" height="${round(box.height)}">${content}</svg>`;
+  } else if (!/\swidth\s*=/.test(rootTag) && box.width > 0) {
+    // Inline SVG without explicit size fills its element, as in HTML
+    content = content.replace(/^<svg\b/i, `<svg width="${round(box.width)}" height="${round(box.height)}"`);
+  }
+
+  return `${indent}<g transform="translate(${round(box.x)}, ${round(box.y)})">\n${indent}  ${content}\n${indent}</g>\n`;
+}
+
+function renderBox(box: LayoutBox, context: SVGRenderContext, indent: string): string {
+  const element = box.element;
+  if (element.style?.display === 'none') return '';
+
+  let content = renderBoxBackground(box, context, indent + '  ');
+
+  switch (element.element_type) {
+    case 'data_item':
+      if (box.dataItem?.type === 'text') {
+        content += renderText(box, context, indent + '  ');
+      } else if (box.dataItem?.type === 'image') {
+        content += renderImage(box.dataItem.image_url, box, indent + '  ');
+      }
+      break;
+
+    case 'image':
+      content += renderImage(element.image_url, box, indent + '  ');
+      break;
+
+    case 'svg':
+      content += renderInlineSVG(element.svg_content, box, context, indent + '  ');
+      break;
+
+    case 'container':
+      content += renderBoxes(box.children, context, indent + '  ');
+      break;
+  }
+
+  if (!content) return '';
+
+  const transform = box.rotation
+    ? ` transform="rotate(${round(box.rotation)}, ${round(box.x + box.width / 2)}, ${round(box.y + box.height / 2)})"`
+    : '';
+  const opacity = parseOpacity(element.style?.opacity);
+  const filter = filtersToCSS(element.style?.filters);
+  const effects = [
+    BLEND_MODES.includes(element.style?.blend_mode || '') && `mix-blend-mode: ${element.style!.blend_mode}`,
+    filter && `filter: ${filter}`
+  ].filter(Boolean).join('; ');
+  const attributes = transform +
+    (opacity < 1 ? ` opacity="${round(opacity)}"` : '') +
+    (effects ? ` style="${escapeXML(effects)}"` : '');
+  return `${indent}<g id="${escapeXML(box.path)}"${attributes}>\n${content}${indent}</g>\n`;
+}
+
+/** Render sibling boxes in paint order (z-index, then document order). */
+function renderBoxes(boxes: LayoutBox[], context: SVGRenderContext, indent: string): string {
+  return boxes
+    .map((box, index) => ({ box, index }))
+    .sort((a, b) => a.box.zIndex - b.box.zIndex || a.index - b.index)
+    .map(({ box }) => renderBox(box, context, indent))
+    .join('');
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Render a scene to a single self-contained SVG document.
+ *
+ * Containers are flattened to absolutely positioned shapes, text and images;
+ * theme colors and fonts are resolved inline. Local images and fonts are
+ * embedded as data URIs; remote ones still load from their URLs.
+ */
+export function renderSceneToSVG(scene: Scene, options: SVGRenderOptions = {}): string {
+  scene = inlineSceneAssets(scene, options.baseDir);
+  scene = prepareScene(scene, options.variables);
+  const { template, theme } = scene;
+  const measurer = options.measurer || approximateMeasurer;
+
+  const context: SVGRenderContext = {
+    colorMap: new Map(theme.color_palette.map(color => [color.id, color])),
+    gradientMap: buildGradientMap(theme),
+    gradientDefs: new Map(),
+    fontMap: new Map(theme.font_palette.map(font => [font.font_id, font])),
+    measurer,
+    trusted: options.trusted === true
+  };
+
+  const layout = layoutPreparedScene(scene, { measurer });
+  const { width, height } = template.canvas;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n`;
+
+  // Boxes are rendered first so the gradients they reference are known
+  const content = renderBoxes(layout.boxes, context, '  ');
+
+  const fontCSS = generateFontCSS(theme.font_palette);
+  // A ']]>' in the CSS (e.g. in a font URL) would end the CDATA section early
+  const fontCDATA = fontCSS.replace(/\]\]>/g, ']]]]><![CDATA[>');
+  let defs = fontCSS ? `    <style><![CDATA[\n${fontCDATA}    ]]></style>\n` : '';
+  context.gradientDefs.forEach(definition => {
+    defs += `    ${definition}\n`;
+  });
+  if (defs) {
+    svg += `  <defs>\n${defs}  </defs>\n`;
+  }
+
+  svg += content;
+  svg += '</svg>\n';
+
+  return svg;
+}
@@ -0,0 +1,687 @@
+import type { PathCommand } from './shapes';
+import { decodeHTMLEntities } from './sanitize';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** An outline drawn by inline SVG content, in box-local pixels */
+export interface SVGShape {
+  path: PathCommand[];
+  fill?: string;          // CSS color; undefined when the outline is not filled
+  stroke?: string;        // CSS color; undefined when the outline is not stroked
+  strokeWidth: number;    // px, scaled by the element's transforms
+  fillOpacity: number;    // including the opacity of the element and its groups
+  strokeOpacity: number;
+  evenOdd: boolean;       // fill-rule: evenodd
+}
+
+export interface SVGShapeConversion {
+  shapes: SVGShape[];
+  skipped: string[];      // what is drawn but cannot be converted, e.g. '<text>'
+}
+
+interface SVGNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: SVGNode[];
+}
+
+// a b c d e f, as in SVG's matrix(): x' = a x + c y + e, y' = b x + d y + f
+type Matrix = [number, number, number, number, number, number];
+
+interface Paint {
+  fill?: string;
+  stroke?: string;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  evenOdd: boolean;
+  color: string;          // currentColor
+}
+
+interface Viewport {
+  width: number;
+  height: number;
+}
+
+interface ConversionState {
+  shapes: SVGShape[];
+  skipped: Set<string>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const DEFAULT_PAINT: Paint = {
+  fill: 'black',
+  strokeWidth: 1,
+  fillOpacity: 1,
+  strokeOpacity: 1,
+  evenOdd: false,
+  color: 'black'
+};
+
+// Elements whose children are drawn
+const GROUP_ELEMENTS = new Set(['svg', 'g', 'a', 'switch']);
+
+// Elements that draw something other than an outline
+const UNSUPPORTED_ELEMENTS = new Set(['text', 'image', 'use', 'foreignObject']);
+
+// Everything else (defs, gradients, clip paths, markers, titles, animations)
+// draws nothing by itself and is ignored
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Node tree of well-formed SVG markup, such as sanitizeSVG's output; text is dropped */
+function parseMarkup(markup: string): SVGNode[] {
+  const root: SVGNode = { name: '', attributes: {}, children: [] };
+  const stack = [root];
+  const tag = /<(\/?)([a-zA-Z][\w:.-]*)((?:\s+[^\s=\/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(markup)) !== null) {
+    const [, closing, name, attributeText, selfClosing] = match;
+    if (closing) {
+      if (stack.length > 1 && stack[stack.length - 1].name === name) stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, key, , doubleQuoted, singleQuoted] of attributeText.matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      attributes[key] = decodeHTMLEntities(doubleQuoted ?? singleQuoted ?? '');
+    }
+
+    const node: SVGNode = { name, attributes, children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  return root.children;
+}
+
+/** Presentation attributes merged with inline `style` declarations (style wins) */
+function getProperties(node: SVGNode): Record<string, string> {
+  const properties = { ...node.attributes };
+  (node.attributes.style || '').split(';').forEach(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) return;
+    const key = declaration.slice(0, colon).trim();
+    if (key) properties[key] = declaration.slice(colon + 1).trim();
+  });
+  return properties;
+}
+
+function parseNumber(value: string | undefined, fallback: number = 0): number {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/** A length in user units; percentages are of the viewport's width, height or diagonal */
+function parseLength(value: string | undefined, viewport: Viewport, axis: 'x' | 'y' | 'diagonal', fallback: number = 0): number {
+  if (value === undefined) return fallback;
+  if (!value.trim().endsWith('%')) return parseNumber(value, fallback);
+  const size = axis === 'x' ? viewport.width
+    : axis === 'y' ? viewport.height
+    : Math.sqrt((viewport.width ** 2 + viewport.height ** 2) / 2);
+  return parseNumber(value, 0) / 100 * size;
+}
+
+function parseOpacityValue(value: string | undefined): number {
+  if (value === undefined) return 1;
+  const opacity = value.trim().endsWith('%') ? parseNumber(value, 100) / 100 : parseNumber(value, 1);
+  return Math.min(1, Math.max(0, opacity));
+}
+
+function numberList(text: string | undefined): number[] {
+  return (text || '').match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g)?.map(Number) || [];
+}
+
+// ============================================================================
+// TRANSFORMS
+// ============================================================================
+
+/** The transform applying `inner`, then `outer` */
+function multiply(outer: Matrix, inner: Matrix): Matrix {
+  const [a, b, c, d, e, f] = outer;
+  const [a2, b2, c2, d2, e2, f2] = inner;
+  return [
+    a * a2 + c * b2,
+    b * a2 + d * b2,
+    a * c2 + c * d2,
+    b * c2 + d * d2,
+    a * e2 + c * f2 + e,
+    b * e2 + d * f2 + f
+  ];
+}
+
+function parseTransform(value: string | undefined): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of (value || '').matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const n = numberList(args);
+    const radians = (n[0] || 0) * Math.PI / 180;
+    let step: Matrix;
+    switch (name) {
+      case 'matrix':
+        step = n.length === 6 ? n as Matrix : IDENTITY;
+        break;
+      case 'translate':
+        step = [1, 0, 0, 1, n[0] || 0, n[1] || 0];
+        break;
+      case 'scale':
+        step = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const [cx, cy] = [n[1] || 0, n[2] || 0];
+        step = multiply(multiply([1, 0, 0, 1, cx, cy],
+          [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0]),
+          [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        step = [1, 0, Math.tan(radians), 1, 0, 0];
+        break;
+      default:
+        step = [1, Math.tan(radians), 0, 1, 0, 0];
+    }
+    matrix = multiply(matrix, step);
+  }
+  return matrix;
+}
+
+/** The transform from an svg element's viewBox to its viewport, per preserveAspectRatio */
+function viewBoxTransform(properties: Record<string, string>, width: number, height: number): Matrix {
+  const viewBox = numberList(properties.viewBox);
+  if (viewBox.length !== 4 || viewBox[2] <= 0 || viewBox[3] <= 0) return IDENTITY;
+
+  const [minX, minY, boxWidth, boxHeight] = viewBox;
+  let scaleX = width / boxWidth;
+  let scaleY = height / boxHeight;
+  const [align = 'xMidYMid', meetOrSlice = 'meet'] = (properties.preserveAspectRatio || '').trim().split(/\s+/).filter(Boolean);
+
+  let offsetX = 0;
+  let offsetY = 0;
+  if (align !== 'none') {
+    const scale = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    scaleX = scaleY = scale;
+    const spareX = width - boxWidth * scale;
+    const spareY = height - boxHeight * scale;
+    offsetX = align.includes('xMid') ? spareX / 2 : align.includes('xMax') ? spareX : 0;
+    offsetY = align.includes('YMid') ? spareY / 2 : align.includes('YMax') ? spareY : 0;
+  }
+
+  return [scaleX, 0, 0, scaleY, offsetX - minX * scaleX, offsetY - minY * scaleY];
+}
+
+function transformPath(path: PathCommand[], [a, b, c, d, e, f]: Matrix): PathCommand[] {
+  const x = (px: number, py: number) => a * px + c * py + e;
+  const y = (px: number, py: number) => b * px + d * py + f;
+  return path.map(command => {
+    switch (command.type) {
+      case 'Z':
+        return command;
+      case 'C':
+        return {
+          type: 'C',
+          x1: x(command.x1, command.y1), y1: y(command.x1, command.y1),
+          x2: x(command.x2, command.y2), y2: y(command.x2, command.y2),
+          x: x(command.x, command.y), y: y(command.x, command.y)
+        };
+      default:
+        return { type: command.type, x: x(command.x, command.y), y: y(command.x, command.y) };
+    }
+  });
+}
+
+// ============================================================================
+// OUTLINES
+// ============================================================================
+
+/** Cubic Béziers along an SVG elliptical arc (SVG 1.1, appendix F.6) */
+function arcToCurves(
+  x1: number, y1: number,
+  rx: number, ry: number, angle: number,
+  largeArc: boolean, sweep: boolean,
+  x2: number, y2: number
+): PathCommand[] {
+  if (x1 === x2 && y1 === y2) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [{ type: 'L', x: x2, y: y2 }];
+
+  const phi = angle * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = x1p ** 2 / rx ** 2 + y1p ** 2 / ry ** 2;
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx ** 2 * ry ** 2 - rx ** 2 * y1p ** 2 - ry ** 2 * x1p ** 2;
+  const denominator = rx ** 2 * y1p ** 2 + ry ** 2 * x1p ** 2;
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coefficient = -coefficient;
+  const cxp = coefficient * rx * y1p / ry;
+  const cyp = -coefficient * ry * x1p / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angleBetween = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angleBetween(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angleBetween((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // At most a quarter turn per curve
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / count;
+  const k = 4 / 3 * Math.tan(step / 4);
+  const point = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+  });
+  const tangent = (t: number) => ({
+    x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+  });
+
+  const curves: PathCommand[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    const [p1, p2, d1, d2] = [point(t1), point(t2), tangent(t1), tangent(t2)];
+    curves.push({
+      type: 'C',
+      x1: p1.x + k * d1.x, y1: p1.y + k * d1.y,
+      x2: p2.x - k * d2.x, y2: p2.y - k * d2.y,
+      // The last curve ends exactly on the end point
+      x: i === count - 1 ? x2 : p2.x,
+      y: i === count - 1 ? y2 : p2.y
+    });
+  }
+  return curves;
+}
+
+function ellipseOutline(cx: number, cy: number, rx: number, ry: number): PathCommand[] {
+  return [
+    { type: 'M', x: cx + rx, y: cy },
+    ...arcToCurves(cx + rx, cy, rx, ry, 0, false, true, cx - rx, cy),
+    ...arcToCurves(cx - rx, cy, rx, ry, 0, false, true, cx + rx, cy),
+    { type: 'Z' }
+  ];
+}
+
+function rectOutline(x: number, y: number, width: number, height: number, rx: number, ry: number): PathCommand[] {
+  if (rx <= 0 || ry <= 0) {
+    return [
+      { type: 'M', x, y },
+      { type: 'L', x: x + width, y },
+      { type: 'L', x: x + width, y: y + height },
+      { type: 'L', x, y: y + height },
+      { type: 'Z' }
+    ];
+  }
+
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { type: 'M', x: x + rx, y },
+    { type: 'L', x: right - rx, y },
+    ...arcToCurves(right - rx, y, rx, ry, 0, false, true, right, y + ry),
+    { type: 'L', x: right, y: bottom - ry },
+    ...arcToCurves(right, bottom - ry, rx, ry, 0, false, true, right - rx, bottom),
+    { type: 'L', x: x + rx, y: bottom },
+    ...arcToCurves(x + rx, bottom, rx, ry, 0, false, true, x, bottom - ry),
+    { type: 'L', x, y: y + ry },
+    ...arcToCurves(x, y + ry, rx, ry, 0, false, true, x + rx, y),
+    { type: 'Z' }
+  ];
+}
+
+function pointsOutline(points: string | undefined, closed: boolean): PathCommand[] {
+  const numbers = numberList(points);
+  const path: PathCommand[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    path.push({ type: path.length === 0 ? 'M' : 'L', x: numbers[i], y: numbers[i + 1] });
+  }
+  if (closed && path.length > 0) path.push({ type: 'Z' });
+  return path;
+}
+
+/**
+ * Path commands for SVG path data, with relative, shorthand, quadratic and
+ * arc commands rewritten as absolute lines and cubic curves. Like browsers,
+ * drawing stops at the first malformed command.
+ */
+function parsePathData(data: string): PathCommand[] {
+  const token = /\s*,?\s*([MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/y;
+  const flag = /\s*,?\s*([01])/y;
+  const path: PathCommand[] = [];
+  let index = 0;
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflected control points for S and T
+  let lastCubic: { x: number; y: number } | null = null;
+  let lastQuadratic: { x: number; y: number } | null = null;
+
+  const next = (): string | null => {
+    token.lastIndex = index;
+    const match = token.exec(data);
+    if (!match) return null;
+    index = token.lastIndex;
+    return match[1];
+  };
+  const peekIsNumber = (): boolean => {
+    token.lastIndex = index;
+    const match = token.exec(data);
+    return !!match && !/[a-z]/i.test(match[1]);
+  };
+  const numbers = (count: number): number[] | null => {
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      if (!peekIsNumber()) return null;
+      values.push(Number(next()));
+    }
+    return values;
+  };
+  const readFlag = (): boolean | null => {
+    flag.lastIndex = index;
+    const match = flag.exec(data);
+    if (!match) return null;
+    index = flag.lastIndex;
+    return match[1] === '1';
+  };
+
+  while (index < data.length) {
+    if (!peekIsNumber()) {
+      const letter = next();
+      if (letter === null) break;
+      command = letter;
+      if (command === 'Z' || command === 'z') {
+        path.push({ type: 'Z' });
+        x = startX;
+        y = startY;
+        lastCubic = lastQuadratic = null;
+        continue;
+      }
+    } else if (!command || command === 'Z' || command === 'z') {
+      break;
+    }
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    let cubic: { x: number; y: number } | null = null;
+    let quadratic: { x: number; y: number } | null = null;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        const n = numbers(2);
+        if (!n) return path;
+        x = startX = ox + n[0];
+        y = startY = oy + n[1];
+        path.push({ type: 'M', x, y });
+        // Further coordinate pairs are lines
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L': {
+        const n = numbers(2);
+        if (!n) return path;
+        x = ox + n[0];
+        y = oy + n[1];
+        path.push({ type: 'L', x, y });
+        break;
+      }
+      case 'H': {
+        const n = numbers(1);
+        if (!n) return path;
+        x = ox + n[0];
+        path.push({ type: 'L', x, y });
+        break;
+      }
+      case 'V': {
+        const n = numbers(1);
+        if (!n) return path;
+        y = oy + n[0];
+        path.push({ type: 'L', x, y });
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const smooth = command.toUpperCase() === 'S';
+        const n = numbers(smooth ? 4 : 6);
+        if (!n) return path;
+        const values: number[] = smooth
+          ? [lastCubic ? 2 * x - lastCubic.x : x, lastCubic ? 2 * y - lastCubic.y : y, ox + n[0], oy + n[1], ox + n[2], oy + n[3]]
+          : [ox + n[0], oy + n[1], ox + n[2], oy + n[3], ox + n[4], oy + n[5]];
+        path.push({ type: 'C', x1: values[0], y1: values[1], x2: values[2], y2: values[3], x: values[4], y: values[5] });
+        cubic = { x: values[2], y: values[3] };
+        x = values[4];
+        y = values[5];
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const smooth = command.toUpperCase() === 'T';
+        const n = numbers(smooth ? 2 : 4);
+        if (!n) return path;
+        const control: { x: number; y: number } = smooth
+          ? { x: lastQuadratic ? 2 * x - lastQuadratic.x : x, y: lastQuadratic ? 2 * y - lastQuadratic.y : y }
+          : { x: ox + n[0], y: oy + n[1] };
+        const endX = ox + n[smooth ? 0 : 2];
+        const endY = oy + n[smooth ? 1 : 3];
+        path.push({
+          type: 'C',
+          x1: x + 2 / 3 * (control.x - x), y1: y + 2 / 3 * (control.y - y),
+          x2: endX + 2 / 3 * (control.x - endX), y2: endY + 2 / 3 * (control.y - endY),
+          x: endX, y: endY
+        });
+        quadratic = control;
+        x = endX;
+        y = endY;
+        break;
+      }
+      case 'A': {
+        const radii = numbers(3);
+        const largeArc = radii ? readFlag() : null;
+        const sweep = largeArc !== null ? readFlag() : null;
+        const end = sweep !== null ? numbers(2) : null;
+        if (!radii || largeArc === null || sweep === null || !end) return path;
+        path.push(...arcToCurves(x, y, radii[0], radii[1], radii[2], largeArc, sweep, ox + end[0], oy + end[1]));
+        x = ox + end[0];
+        y = oy + end[1];
+        break;
+      }
+      default:
+        return path;
+    }
+
+    lastCubic = cubic;
+    lastQuadratic = quadratic;
+  }
+
+  return path;
+}
+
+/** Outline of a basic shape element in its user units; null for elements that draw nothing */
+function getOutline(node: SVGNode, properties: Record<string, string>, viewport: Viewport): PathCommand[] | null {
+  const length = (name: string, axis: 'x' | 'y' | 'diagonal') => parseLength(properties[name], viewport, axis);
+
+  switch (node.name) {
+    case 'rect': {
+      const width = length('width', 'x');
+      const height = length('height', 'y');
+      if (width <= 0 || height <= 0) return null;
+      // A missing radius takes the other one's value; both are capped at half the side
+      const rx = properties.rx !== undefined ? length('rx', 'x') : length('ry', 'y');
+      const ry = properties.ry !== undefined ? length('ry', 'y') : rx;
+      return rectOutline(length('x', 'x'), length('y', 'y'), width, height,
+        Math.min(Math.max(0, rx), width / 2), Math.min(Math.max(0, ry), height / 2));
+    }
+    case 'circle': {
+      const r = length('r', 'diagonal');
+      return r > 0 ? ellipseOutline(length('cx', 'x'), length('cy', 'y'), r, r) : null;
+    }
+    case 'ellipse': {
+      const rx = length('rx', 'x');
+      const ry = length('ry', 'y');
+      return rx > 0 && ry > 0 ? ellipseOutline(length('cx', 'x'), length('cy', 'y'), rx, ry) : null;
+    }
+    case 'line':
+      return [
+        { type: 'M', x: length('x1', 'x'), y: length('y1', 'y') },
+        { type: 'L', x: length('x2', 'x'), y: length('y2', 'y') }
+      ];
+    case 'polyline':
+    case 'polygon':
+      return pointsOutline(properties.points, node.name === 'polygon');
+    case 'path':
+      return parsePathData(properties.d || '');
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/** A fill or stroke paint as a CSS color; gradients and patterns are noted as skipped */
+function resolvePaint(value: string | undefined, inherited: string | undefined, paint: Paint, state: ConversionState): string | undefined {
+  if (value === undefined || value === 'inherit') return inherited;
+  const trimmed = value.trim();
+  if (trimmed === 'none') return undefined;
+  if (trimmed === 'currentColor') return paint.color;
+  if (trimmed.startsWith('url(')) {
+    // Use the fallback color after the reference, if any
+    const fallback = trimmed.replace(/^url\([^)]*\)\s*/, '');
+    if (!fallback) state.skipped.add('gradient or pattern paints');
+    return fallback && fallback !== 'none' ? fallback : undefined;
+  }
+  return trimmed;
+}
+
+function getPaint(properties: Record<string, string>, inherited: Paint, state: ConversionState): Paint {
+  const paint: Paint = { ...inherited };
+  if (properties.color !== undefined && properties.color !== 'inherit') paint.color = properties.color;
+  paint.fill = resolvePaint(properties.fill, inherited.fill, paint, state);
+  paint.stroke = resolvePaint(properties.stroke, inherited.stroke, paint, state);
+  if (properties['stroke-width'] !== undefined) paint.strokeWidth = Math.max(0, parseNumber(properties['stroke-width'], 1));
+  if (properties['fill-opacity'] !== undefined) paint.fillOpacity = parseOpacityValue(properties['fill-opacity']);
+  if (properties['stroke-opacity'] !== undefined) paint.strokeOpacity = parseOpacityValue(properties['stroke-opacity']);
+  if (properties['fill-rule'] !== undefined) paint.evenOdd = properties['fill-rule'].trim() === 'evenodd';
+  return paint;
+}
+
+function convertNodes(
+  nodes: SVGNode[],
+  matrix: Matrix,
+  paint: Paint,
+  opacity: number,
+  viewport: Viewport,
+  state: ConversionState
+): void {
+  for (const node of nodes) {
+    const properties = getProperties(node);
+    if (properties.display === 'none') continue;
+
+    if (UNSUPPORTED_ELEMENTS.has(node.name)) {
+      state.skipped.add(`<${node.name}>`);
+      continue;
+    }
+
+    const isGroup = GROUP_ELEMENTS.has(node.name);
+    const outline = isGroup ? null : getOutline(node, properties, viewport);
+    if (!isGroup && !outline) continue;
+
+    const nodePaint = getPaint(properties, paint, state);
+    const nodeOpacity = opacity * parseOpacityValue(properties.opacity);
+    let nodeMatrix = multiply(matrix, parseTransform(properties.transform));
+
+    if (isGroup) {
+      let nodeViewport = viewport;
+      if (node.name === 'svg') {
+        // A nested svg element establishes a new viewport
+        nodeViewport = {
+          width: parseLength(properties.width, viewport, 'x', viewport.width),
+          height: parseLength(properties.height, viewport, 'y', viewport.height)
+        };
+        nodeMatrix = multiply(multiply(matrix, [1, 0, 0, 1, parseLength(properties.x, viewport, 'x'), parseLength(properties.y, viewport, 'y')]),
+          viewBoxTransform(properties, nodeViewport.width, nodeViewport.height));
+        const viewBox = numberList(properties.viewBox);
+        if (viewBox.length === 4) nodeViewport = { width: viewBox[2], height: viewBox[3] };
+      }
+      convertNodes(node.children, nodeMatrix, nodePaint, nodeOpacity, nodeViewport, state);
+      continue;
+    }
+
+    if (outline!.length === 0 || properties.visibility === 'hidden') continue;
+    // Lines have no inside to fill
+    const fill = node.name === 'line' ? undefined : nodePaint.fill;
+    const stroke = nodePaint.strokeWidth > 0 ? nodePaint.stroke : undefined;
+    if (!fill && !stroke) continue;
+
+    const [a, b, c, d] = nodeMatrix;
+    state.shapes.push({
+      path: transformPath(outline!, nodeMatrix),
+      fill,
+      stroke,
+      strokeWidth: nodePaint.strokeWidth * Math.sqrt(Math.abs(a * d - b * c)),
+      fillOpacity: nodePaint.fillOpacity * nodeOpacity,
+      strokeOpacity: nodePaint.strokeOpacity * nodeOpacity,
+      evenOdd: nodePaint.evenOdd
+    });
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * The basic shapes (rect, circle, ellipse, line, polyline, polygon and path)
+ * drawn by an svg element's sanitized content, as outlines in box-local
+ * pixels for a box of the given size. Transforms, viewBox scaling and
+ * inherited fill and stroke are applied. Text, images, `use` references and
+ * gradient or pattern paints cannot be converted and are listed in `skipped`.
+ */
+export function getSVGShapes(svgContent: string, width: number, height: number): SVGShapeConversion {
+  const state: ConversionState = { shapes: [], skipped: new Set() };
+  const nodes = parseMarkup(svgContent);
+  const viewport = { width, height };
+
+  // The root svg element is sized by its own width and height, as in HTML,
+  // or fills the box; content without one is drawn in box pixels
+  const root = nodes.length === 1 && nodes[0].name === 'svg' ? nodes[0] : null;
+  if (root) {
+    const properties = getProperties(root);
+    const rootViewport = {
+      width: parseLength(properties.width, viewport, 'x', width),
+      height: parseLength(properties.height, viewport, 'y', height)
+    };
+    const viewBox = numberList(properties.viewBox);
+    convertNodes(root.children, viewBoxTransform(properties, rootViewport.width, rootViewport.height),
+      getPaint(properties, DEFAULT_PAINT, state), parseOpacityValue(properties.opacity),
+      viewBox.length === 4 ? { width: viewBox[2], height: viewBox[3] } : rootViewport, state);
+  } else {
+    convertNodes(nodes, IDENTITY, DEFAULT_PAINT, 1, viewport, state);
+  }
+
+  return { shapes: state.shapes, skipped: [...state.skipped] };
+}
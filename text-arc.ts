@@ -0,0 +1,125 @@
+import type { Element } from './types';
+import type { TextLine } from './layout';
+import { escapeHTML } from './sanitize';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Circle arc a curved text line's baseline follows, in the same coordinates
+ * as the line it was built from
+ */
+export interface TextArc {
+  cx: number;
+  cy: number;
+  radius: number;
+  startAngle: number;  // radians, where the first glyph sits
+  sweep: number;       // signed radians covered by the text; positive runs clockwise (bulging upward)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// A full circle would start and end at the same point
+const MAX_CURVATURE = 359;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Curvature of a text element in degrees (0 for straight text). Positive
+ * values arc upward, negative values downward.
+ */
+export function getCurvature(element: Element): number {
+  const curvature = element.curvature;
+  if (typeof curvature !== 'number' || !Number.isFinite(curvature)) return 0;
+  return Math.max(-MAX_CURVATURE, Math.min(MAX_CURVATURE, curvature));
+}
+
+/**
+ * Size of a line of the given width bent by `curvature` degrees: the width
+ * it spans and how far its ends drop below (or rise above) its middle.
+ */
+export function getArcExtent(textWidth: number, curvature: number): { width: number; sagitta: number } {
+  const angle = Math.abs(curvature) * Math.PI / 180;
+  if (angle === 0 || textWidth <= 0) return { width: textWidth, sagitta: 0 };
+
+  const radius = textWidth / angle;
+  return {
+    width: angle <= Math.PI ? 2 * radius * Math.sin(angle / 2) : 2 * radius,
+    sagitta: radius * (1 - Math.cos(angle / 2))
+  };
+}
+
+/**
+ * Arc for a laid-out text line. `baseline` is the baseline's offset from the
+ * top of the line box. The arc's length equals the line's width and its
+ * middle sits at the line's horizontal center; upward arcs keep the middle on
+ * the straight baseline, downward arcs keep the ends there.
+ */
+export function buildTextArc(line: TextLine, baseline: number, curvature: number): TextArc {
+  const angle = Math.abs(curvature) * Math.PI / 180;
+  const radius = Math.max(line.width, 1) / angle;
+  const midX = line.x + line.width / 2;
+
+  if (curvature > 0) {
+    const midY = line.y + baseline;
+    return { cx: midX, cy: midY + radius, radius, startAngle: -Math.PI / 2 - angle / 2, sweep: angle };
+  }
+
+  const midY = line.y + baseline + getArcExtent(line.width, curvature).sagitta;
+  return { cx: midX, cy: midY - radius, radius, startAngle: Math.PI / 2 + angle / 2, sweep: -angle };
+}
+
+/**
+ * Point at a distance along the arc, with the direction of the baseline
+ * there (radians, 0 = pointing right)
+ */
+export function pointOnArc(arc: TextArc, distance: number): { x: number; y: number; angle: number } {
+  const direction = Math.sign(arc.sweep);
+  const theta = arc.startAngle + direction * distance / arc.radius;
+  return {
+    x: arc.cx + arc.radius * Math.cos(theta),
+    y: arc.cy + arc.radius * Math.sin(theta),
+    angle: theta + direction * Math.PI / 2
+  };
+}
+
+/** SVG path data for the arc, offset by the given amount */
+export function arcPathData(arc: TextArc, offsetX: number = 0, offsetY: number = 0): string {
+  const start = pointOnArc(arc, 0);
+  const end = pointOnArc(arc, arc.radius * Math.abs(arc.sweep));
+  const largeArc = Math.abs(arc.sweep) > Math.PI ? 1 : 0;
+  const sweepFlag = arc.sweep > 0 ? 1 : 0;
+  return `M${round(start.x + offsetX)} ${round(start.y + offsetY)} ` +
+    `A${round(arc.radius)} ${round(arc.radius)} 0 ${largeArc} ${sweepFlag} ${round(end.x + offsetX)} ${round(end.y + offsetY)}`;
+}
+
+/**
+ * SVG markup drawing text along an arc: the (invisible) path and a <text>
+ * whose textPath is centered on it. `content` (the text, or styled tspans)
+ * and `attributes` are added as-is and must already be escaped.
+ */
+export function renderArcTextSVG(
+  arc: TextArc,
+  content: string,
+  pathId: string,
+  attributes: string,
+  offsetX: number = 0,
+  offsetY: number = 0
+): string {
+  const id = escapeHTML(pathId);
+  return `<path id="${id}" d="${arcPathData(arc, offsetX, offsetY)}" fill="none" />` +
+    `<text${attributes}><textPath href="#${id}" startOffset="50%" text-anchor="middle">${content}</textPath></text>`;
+}
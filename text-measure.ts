@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ElementStyle, Font, Theme } from './types';
+import { parseFont, getAdvanceWidth, ParsedFont } from './opentype';
+import {
+  approximateMeasurer,
+  breakLines,
+  resolveTextStyle,
+  TextMeasurer,
+  ResolvedTextStyle
+} from './layout';
+import { getFontFaces, matchFontFace, parseFontWeight } from './font-stack';
+import { metricsFromFont } from './font-metrics';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A font face whose file was parsed, with the weight and style it is used for */
+export interface LoadedFace {
+  weight: number;
+  italic: boolean;
+  font: ParsedFont;
+}
+
+/** Size of a block of text, in px */
+export interface TextMeasurement {
+  width: number;        // widest line
+  height: number;       // line count times line height
+  lines: Array<{ text: string; width: number }>;
+  lineHeight: number;
+  ascent: number;       // font ascent above the baseline
+  descent: number;      // font descent below the baseline
+  capHeight: number;    // height of flat capitals above the baseline
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** True for URLs with a scheme other than data: and file: (http, https, ...) */
+export function isRemoteURL(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(url) && !url.startsWith('file://');
+}
+
+/**
+ * Read a local file or data: URI. Returns null for remote URLs, which are
+ * never fetched, and for files that cannot be read.
+ */
+export function readLocalResource(url: string, baseDir: string): Buffer | null {
+  const dataUri = url.match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (dataUri) {
+    return dataUri[1]
+      ? Buffer.from(dataUri[2], 'base64')
+      : Buffer.from(decodeURIComponent(dataUri[2]), 'latin1');
+  }
+
+  if (isRemoteURL(url)) return null;
+
+  try {
+    return fs.readFileSync(path.resolve(baseDir, url.replace(/^file:\/\//, '')));
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Parse a theme's font files, by font_id: one entry per face with a
+ * readable TrueType/OpenType file. Fonts without one are left out;
+ * `onProblem` hears about unparseable files.
+ */
+export function loadThemeFonts(
+  fonts: Font[],
+  read: (url: string) => Buffer | null,
+  onProblem: (font: Font, message: string) => void = () => {}
+): Map<string, LoadedFace[]> {
+  const parsed = new Map<string, LoadedFace[]>();
+
+  for (const font of fonts) {
+    const faces: LoadedFace[] = [];
+
+    for (const face of getFontFaces(font)) {
+      const data = read(face.url);
+      if (!data) continue;
+
+      try {
+        faces.push({ weight: face.weight, italic: face.style === 'italic', font: parseFont(data) });
+      } catch (error: any) {
+        onProblem(font, `Cannot parse font '${font.font_name}' (${face.weight} ${face.style}): ${error.message}`);
+      }
+    }
+
+    if (faces.length > 0) parsed.set(font.font_id, faces);
+  }
+
+  return parsed;
+}
+
+/**
+ * The loaded face of a font that a text style is drawn with, matched by
+ * weight and style as browsers do
+ */
+export function selectFace(faces: LoadedFace[] | undefined, style: ResolvedTextStyle): ParsedFont | undefined {
+  if (!faces) return undefined;
+  const italic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
+  return matchFontFace(faces, face => face, parseFontWeight(style.fontWeight), italic)?.font;
+}
+
+/**
+ * Text measurer backed by parsed font files. Fonts without a file fall back
+ * to the approximate measurer.
+ */
+export function createFontMeasurer(parsedFonts: Map<string, LoadedFace[]>): TextMeasurer {
+  const getFace = (style: ResolvedTextStyle) => style.font ? selectFace(parsedFonts.get(style.font), style) : undefined;
+
+  return {
+    measureWidth(text: string, style: ResolvedTextStyle): number {
+      const font = getFace(style);
+      if (!font) return approximateMeasurer.measureWidth(text, style);
+      return getAdvanceWidth(font, text) / font.unitsPerEm * style.fontSize +
+        style.letterSpacing * [...text].length;
+    },
+
+    getMetrics(style: ResolvedTextStyle) {
+      const font = getFace(style);
+      if (!font) return approximateMeasurer.getMetrics(style);
+      return metricsFromFont(font);
+    }
+  };
+}
+
+/**
+ * Measurer for a theme's local font files and data: URI fonts, resolved
+ * against `baseDir`. Pass it as the `measurer` render option so server-side
+ * layout (line breaks, auto-fit text sizes) uses real glyph widths.
+ */
+export function createThemeMeasurer(theme: Theme, baseDir: string = process.cwd()): TextMeasurer {
+  return createFontMeasurer(loadThemeFonts(theme.font_palette, url => readLocalResource(url, baseDir)));
+}
+
+/**
+ * Measure text set in an element style, wrapping at `maxWidth` (Infinity
+ * breaks only at newlines). Styles inherit the canvas defaults for anything
+ * they do not set.
+ */
+export function measureText(
+  text: string,
+  style: ElementStyle,
+  measurer: TextMeasurer = approximateMeasurer,
+  maxWidth: number = Infinity
+): TextMeasurement {
+  const textStyle = resolveTextStyle(style);
+  const lines = breakLines(text.split('\n'), maxWidth, textStyle, measurer);
+  const metrics = measurer.getMetrics(textStyle);
+
+  return {
+    width: lines.reduce((max, line) => Math.max(max, line.width), 0),
+    height: lines.length * textStyle.lineHeight,
+    lines,
+    lineHeight: textStyle.lineHeight,
+    ascent: metrics.ascent * textStyle.fontSize,
+    descent: metrics.descent * textStyle.fontSize,
+    capHeight: metrics.capHeight * textStyle.fontSize
+  };
+}
@@ -0,0 +1,162 @@
+import type { Scene, DataItem, NumberFormat, RenderDiagnostic } from './types';
+import { escapeHTML } from './sanitize';
+import { DEFAULT_LOCALE, toDate, formatDate, isValidLocale } from './variables';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TYPED_DATA_ITEM_TYPES = ['date', 'number', 'url', 'email'] as const;
+
+export const NUMBER_FORMATS: NumberFormat[] = ['decimal', 'currency', 'percent'];
+
+// ISO date, optionally with a time of day and offset
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+const EMAIL_VALUE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Date-times are shown in the item's time zone when it declares one. Without
+ * one, a value with an offset keeps the wall-clock time it was written in
+ * (16:30+02:00 shows as 16:30) and a value without one is a local time.
+ */
+function formatDateValue(value: string | number, item: DataItem, locale: string): string {
+  const text = String(value).trim();
+  const match = text.match(DATE_VALUE);
+  if (!match) throw new Error(`'${value}' is not an ISO date such as 2026-05-01 or 2026-05-01T16:30`);
+  let date = toDate(text);
+  if (!date) throw new Error(`'${value}' is not a day of the calendar`);
+
+  const withTime = text.includes('T');
+  const offset = match[4];
+  let timeZone: string | undefined;
+  if (withTime && item.time_zone) {
+    timeZone = item.time_zone;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+      throw new Error(`Unknown time zone '${timeZone}' (expected an IANA name such as Europe/Paris, or UTC)`);
+    }
+  } else if (offset) {
+    // Shift the instant by the offset and read it back in UTC
+    const [, sign, hours, minutes] = offset.match(/([+-])(\d{2}):(\d{2})/) || ['', '+', '0', '0'];
+    const offsetMinutes = (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+    date = new Date(date.getTime() + offsetMinutes * 60000);
+    timeZone = 'UTC';
+  }
+
+  return formatDate(date, item.format || 'long', locale, withTime, timeZone);
+}
+
+function formatNumberValue(value: string | number, item: DataItem, locale: string): string {
+  const number = typeof value === 'number' ? value : Number(value);
+  if ((typeof value === 'string' && value.trim() === '') || !Number.isFinite(number)) {
+    throw new Error(`'${value}' is not a number`);
+  }
+
+  const format = (item.format || 'decimal') as NumberFormat;
+  if (!NUMBER_FORMATS.includes(format)) {
+    throw new Error(`Unknown number format '${item.format}' (expected one of ${NUMBER_FORMATS.join(', ')})`);
+  }
+  if (format === 'currency' && !/^[A-Za-z]{3}$/.test(item.currency || '')) {
+    throw new Error('The currency format needs a three-letter currency code, e.g. EUR');
+  }
+
+  const decimals = typeof item.decimals === 'number' ? Math.min(20, Math.max(0, Math.floor(item.decimals))) : undefined;
+  return new Intl.NumberFormat(locale, {
+    style: format,
+    currency: format === 'currency' ? item.currency!.toUpperCase() : undefined,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  }).format(number);
+}
+
+/** URLs are shown without their scheme and trailing slash, e.g. example.com/rsvp */
+function formatURLValue(value: string | number): string {
+  const text = String(value).trim();
+  let url: URL | null = null;
+  try {
+    url = new URL(text);
+  } catch {
+    // Reported below
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    throw new Error(`'${value}' is not an http or https URL`);
+  }
+  return text.replace(/^https?:\/\//i, '').replace(/\/$/, '');
+}
+
+function formatEmailValue(value: string | number): string {
+  const text = String(value).trim();
+  if (!EMAIL_VALUE.test(text)) throw new Error(`'${value}' is not an email address`);
+  return text;
+}
+
+/** Text for a typed value; throws when the value does not fit the type */
+function formatValue(value: string | number, item: DataItem, locale: string): string {
+  switch (item.type) {
+    case 'date': return formatDateValue(value, item, locale);
+    case 'number': return formatNumberValue(value, item, locale);
+    case 'url': return formatURLValue(value);
+    default: return formatEmailValue(value);
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Whether a data item holds a typed value rather than text, an image or a list */
+export function isTypedDataItem(item: DataItem): boolean {
+  return (TYPED_DATA_ITEM_TYPES as readonly string[]).includes(item.type);
+}
+
+/**
+ * The scene with its date, number, URL and email data items replaced by text
+ * items showing their formatted values, in the item's locale, then the
+ * data's. Values that do not fit their type are passed to `report` and
+ * shown as written; items without a value are empty. Scenes without typed
+ * items are returned as-is.
+ */
+export function formatDataItems(scene: Scene, report: (diagnostic: RenderDiagnostic) => void = () => {}): Scene {
+  const { data } = scene;
+  if (!data.data_items.some(isTypedDataItem)) return scene;
+
+  const dataItems = data.data_items.map((item): DataItem => {
+    if (!isTypedDataItem(item)) return item;
+
+    const { value, format, currency, decimals, locale, ...rest } = item;
+    let text = '';
+    if (value !== undefined && value !== null && value !== '') {
+      let itemLocale = locale || data.locale || DEFAULT_LOCALE;
+      if (!isValidLocale(itemLocale)) {
+        report({
+          severity: 'warning',
+          code: 'invalid_locale',
+          element_path: `data_items/${item.id}`,
+          message: `Locale '${itemLocale}' is not a BCP 47 language tag such as en-US; the value is formatted for ${DEFAULT_LOCALE}`
+        });
+        itemLocale = DEFAULT_LOCALE;
+      }
+      try {
+        text = formatValue(value, item, itemLocale);
+      } catch (error: any) {
+        report({
+          severity: 'warning',
+          code: 'invalid_data_value',
+          element_path: `data_items/${item.id}`,
+          message: `${error.message}; it is shown as written`
+        });
+        text = String(value);
+      }
+    }
+
+    return { ...rest, type: 'text', content: escapeHTML(text) };
+  });
+
+  return { ...scene, data: { ...data, data_items: dataItems } };
+}
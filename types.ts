@@ -1,5 +1,7 @@
 // Type definitions for the scene visualization system
 
+import type { TextMeasurer } from './layout';
+
 export interface Color {
   id: string;
   name: string;
@@ -9,30 +11,112 @@ export interface Color {
   a: number;
 }
 
+/** A font file for one weight and style of a font */
+export interface FontFaceSource {
+  url: string;
+  weight?: number;   // 100-900, default 400
+  style?: 'normal' | 'italic';
+}
+
 export interface Font {
   font_id: string;
   font_name: string;
-  font_url: string;
+  font_url: string;            // regular face, or a stylesheet (e.g. Google Fonts) loading every face
+  faces?: FontFaceSource[];    // further faces, used for their weight and style
+  fallback?: string[];         // families tried when the font is unavailable, e.g. ["Georgia", "serif"]
+}
+
+export interface GradientStop {
+  color: string;   // References color id from theme
+  offset: number;  // position along the gradient, 0-1
+}
+
+export interface Gradient {
+  id: string;
+  name: string;
+  type: 'linear' | 'radial';
+  angle?: number;  // linear only: degrees clockwise from "to top", as in CSS (default 180, top to bottom)
+  stops: GradientStop[];
 }
 
 export interface Theme {
   theme_id: string;
   theme_name: string;
   color_palette: Color[];
+  gradient_palette?: Gradient[];  // usable wherever a color id is
   font_palette: Font[];
 }
 
+/**
+ * Styled span of a rich text item. Unset properties follow the element's
+ * style; newlines in `text` are line breaks.
+ */
+export interface TextRun {
+  text: string;
+  font?: string;         // font_id from theme
+  color?: string;        // color_id or gradient id from theme
+  font_size?: string;
+  font_weight?: string;
+  font_style?: string;   // 'normal' or 'italic'
+}
+
+/** One record of a list data item: values by field name */
+export type ListRecord = Record<string, string | number>;
+
+/**
+ * Data item types. Date, number, URL and email items hold a typed `value`
+ * that is formatted into text when the scene renders.
+ */
+export type DataItemType = 'text' | 'image' | 'list' | 'date' | 'number' | 'url' | 'email';
+
+export type NumberFormat = 'decimal' | 'currency' | 'percent';
+
 export interface DataItem {
   id: string;
-  type: 'text' | 'image';
+  type: DataItemType;
   display_name: string;
   content?: string;  // For text items
+  runs?: TextRun[];  // For text items: styled runs, rendered instead of content
   image_url?: string;  // For image items
+  records?: ListRecord[];  // For list items, shown by repeater elements
+
+  // For date, number, url and email items
+  value?: string | number;  // dates are ISO strings, e.g. '2026-05-01', '2026-05-01T16:30' or '2026-05-01T16:30+02:00'
+  format?: string;          // date: 'short', 'medium', 'long' (default), 'full', 'iso' or a pattern such as 'MMMM Do, YYYY'; number: a NumberFormat
+  currency?: string;        // number items with the currency format: ISO 4217 code, e.g. 'EUR'
+  decimals?: number;        // number items: fraction digits shown
+  locale?: string;          // BCP 47 locale, overriding the data's locale
+  time_zone?: string;       // date items: IANA time zone date-times are shown in, e.g. 'Europe/Paris'
+}
+
+export type VariableType = 'text' | 'number' | 'date' | 'boolean';
+
+/**
+ * A mail-merge variable that text content interpolates as {{ name }}, with
+ * optional formatters: {{ name | default: "Guest" | upper }}
+ */
+export interface VariableDefinition {
+  name: string;
+  type?: VariableType;     // default 'text'; dates are ISO strings, e.g. '2026-05-01'
+  display_name?: string;
+  default?: string | number | boolean;  // used when no value is given
 }
 
+/** Variable values by name, e.g. one row of a mail merge */
+export type VariableValues = Record<string, string | number | boolean | Date | null | undefined>;
+
 export interface SceneData {
   scene_id: string;
   data_items: DataItem[];
+  variables?: VariableDefinition[];
+  locale?: string;  // BCP 47 locale for formatting variables (default 'en-US')
+}
+
+export type FilterType = 'blur' | 'brightness' | 'contrast' | 'saturate' | 'grayscale' | 'sepia';
+
+export interface StyleFilter {
+  type: FilterType;
+  value: number;  // blur radius in px; otherwise an amount where 1 is 100%
 }
 
 export interface ElementStyle {
@@ -68,31 +152,69 @@ export interface ElementStyle {
   letter_spacing?: string;
   text_transform?: string;
   text_shadow?: string;
+  white_space?: string;
+  max_width?: string;
+  text_fit?: string;       // 'none', 'shrink' (down from font_size) or 'fill' (largest size that fits)
+  min_font_size?: string;  // text_fit bounds
+  max_font_size?: string;
   transform?: string;
 
   // Colors
   color?: string;  // References color id from theme
   fill?: string;   // References color id from theme (for shapes)
+  stroke?: string; // References color id from theme (shape outline, or text outline)
+  stroke_width?: string;
   background_color?: string;  // References color id from theme
   border?: string;
   border_color?: string;  // References color id from theme
 
   // Image
   object_fit?: string;  // cover, contain, fill, none, scale-down
+
+  // Effects
+  opacity?: string;        // 0-1
+  rotation?: string;       // degrees clockwise around the center, e.g. "15" or "15deg"
+  blend_mode?: string;     // normal, multiply, screen, overlay, darken, lighten, ...
+  box_shadow?: string;
+  border_radius?: string;
+  filters?: StyleFilter[]; // applied in order
 }
 
-export type ElementType = 'data_item' | 'shape' | 'svg' | 'container' | 'image';
-export type ShapeType = 'rectangle' | 'circle';
+export type ElementType = 'data_item' | 'shape' | 'svg' | 'container' | 'image' | 'repeater';
+export type ShapeType = 'rectangle' | 'circle' | 'ellipse' | 'polygon' | 'star' | 'line' | 'arrow';
+export type LineDirection = 'horizontal' | 'vertical' | 'diagonal_down' | 'diagonal_up';
+export type ArrowHead = 'none' | 'start' | 'end' | 'both';
+
+export type VisibilityOperator = 'empty' | 'not_empty' | 'equals' | 'not_equals' | 'truthy' | 'falsy';
+
+/**
+ * A test on a data item's content or a variable's value, evaluated when the
+ * scene renders, e.g. { variable: 'plus_one', operator: 'truthy' }
+ */
+export interface VisibilityCondition {
+  data_item_id?: string;          // the data item tested (text content, typed value as written, image URL or list records)
+  variable?: string;              // or the variable tested, falling back to its default
+  operator: VisibilityOperator;
+  value?: string | number | boolean;  // for equals and not_equals
+}
 
 export interface Element {
   element_id: string;
   element_type: ElementType;
 
-  // For data_item type
+  // For data_item type (and repeater type: the list data item)
   data_item_id?: string;
+  field?: string;                  // inside a repeater's item_template: the record field shown, instead of data_item_id
+  curvature?: number;              // text: degrees of arc the text is bent along, -360 to 360 (positive arcs upward)
 
   // For shape type
   shape_type?: ShapeType;
+  sides?: number;                  // polygon: number of sides (default 6)
+  points?: number;                 // star: number of points (default 5)
+  inner_radius?: number;           // star: inner radius as a fraction of the outer radius (default 0.5)
+  corner_radius?: string;          // rectangle: 1-4 lengths, clockwise from top-left
+  line_direction?: LineDirection;  // line/arrow: how the line crosses its box (default horizontal)
+  arrow_head?: ArrowHead;          // line/arrow: default 'end' for arrows, 'none' for lines
 
   // For svg type
   svg_content?: string;
@@ -105,6 +227,24 @@ export interface Element {
 
   // For container type
   children?: Element[];
+
+  // For repeater type: a container holding one copy of item_template per
+  // record of its list, laid out by the repeater's own (e.g. flex) style
+  item_template?: Element;
+  empty_template?: Element;        // shown instead when the list has no records
+  max_count?: number;              // show at most this many records
+
+  // Rendered only when the condition (or every condition of a list) holds
+  visible_when?: VisibilityCondition | VisibilityCondition[];
+}
+
+export type PhysicalUnit = 'mm' | 'cm' | 'in' | 'pt';
+
+/** Physical size of the printed page */
+export interface PageSize {
+  width: number;
+  height: number;
+  unit: PhysicalUnit;
 }
 
 export interface Template {
@@ -113,6 +253,8 @@ export interface Template {
   canvas: {
     width: number;
     height: number;
+    dpi?: number;  // pixels per inch: converts mm/cm/in/pt lengths and sizes the PDF page (default 72)
+    page_size?: PageSize;  // when set, width and height follow it at the canvas DPI
   };
   elements: Element[];
 }
@@ -123,7 +265,53 @@ export interface Scene {
   theme: Theme;
 }
 
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'missing_data_item'
+  | 'unknown_color'
+  | 'unknown_font'
+  | 'unknown_element_type'
+  | 'invalid_css_value'
+  | 'outside_canvas'
+  | 'text_overflow'
+  | 'missing_variable'
+  | 'invalid_variable'
+  | 'invalid_locale'
+  | 'invalid_repeater'
+  | 'list_truncated'
+  | 'invalid_condition'
+  | 'invalid_data_value'
+  | 'unsupported_feature'
+  | 'missing_resource'
+  | 'font_fallback';
+
+export interface RenderDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  element_path: string;  // slash-separated element ids, e.g. "venue_container/venue_name_display"
+  message: string;
+}
+
 export interface RenderResult {
   html: string;
   css: string;
+  diagnostics: RenderDiagnostic[];
+}
+
+export interface RenderOptions {
+  // Skip sanitization of text, SVG and style values. Only for content from trusted sources.
+  trusted?: boolean;
+  // Unique root class; scopes every selector and prefixes every element class
+  // so several scenes can share one page
+  namespace?: string;
+  // 'classes' (default) emits HTML plus a stylesheet; 'inline' emits one
+  // email-safe HTML fragment with every style inlined and an empty css string
+  mode?: 'classes' | 'inline';
+  // Measures text for layout, e.g. from the theme's font files (see
+  // createThemeMeasurer); defaults to an approximation
+  measurer?: TextMeasurer;
+  // Values for the scene's {{ variable }} placeholders; declared defaults
+  // fill in the rest
+  variables?: VariableValues;
 }
@@ -0,0 +1,151 @@
+import type { Scene, Template, Element, DataItem, ElementStyle, PageSize, PhysicalUnit } from './types';
+import { isTextRun } from './rich-text';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Canvas resolution when the template sets none; one pixel is one point */
+export const DEFAULT_DPI = 72;
+
+/** Inches per physical unit */
+const UNIT_INCHES: Record<PhysicalUnit, number> = {
+  in: 1,
+  cm: 1 / 2.54,
+  mm: 1 / 25.4,
+  pt: 1 / 72
+};
+
+/** Common page sizes, in millimetres (portrait) */
+export const PAGE_SIZES: Record<string, PageSize> = {
+  a3: { width: 297, height: 420, unit: 'mm' },
+  a4: { width: 210, height: 297, unit: 'mm' },
+  a5: { width: 148, height: 210, unit: 'mm' },
+  a6: { width: 105, height: 148, unit: 'mm' },
+  dl: { width: 99, height: 210, unit: 'mm' },
+  letter: { width: 8.5, height: 11, unit: 'in' },
+  legal: { width: 8.5, height: 14, unit: 'in' },
+  postcard: { width: 4, height: 6, unit: 'in' },
+  square: { width: 150, height: 150, unit: 'mm' }
+};
+
+// A number with a physical unit, not part of a longer word or identifier
+const PHYSICAL_LENGTH = /(^|[^\w.#-])(-?(?:\d+\.?\d*|\.\d+))(mm|cm|in|pt)(?![\w%])/g;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Copy of a style with physical lengths in pixels, or the style itself when it has none */
+function resolveStyleUnits<T extends object>(style: T, dpi: number): T {
+  let resolved: T | null = null;
+
+  for (const [key, value] of Object.entries(style)) {
+    if (typeof value !== 'string') continue;
+    const converted = resolvePhysicalUnits(value, dpi);
+    if (converted !== value) {
+      resolved = resolved || { ...style };
+      (resolved as Record<string, unknown>)[key] = converted;
+    }
+  }
+
+  return resolved || style;
+}
+
+function resolveElementUnits(element: Element, dpi: number): Element {
+  const style = element.style ? resolveStyleUnits<ElementStyle>(element.style, dpi) : element.style;
+  const children = element.children?.map(child => resolveElementUnits(child, dpi));
+  const childrenChanged = children?.some((child, index) => child !== element.children![index]);
+
+  if (style === element.style && !childrenChanged) return element;
+  return { ...element, style, ...(childrenChanged ? { children } : {}) };
+}
+
+function resolveDataItemUnits(item: DataItem, dpi: number): DataItem {
+  if (!Array.isArray(item.runs)) return item;
+  const runs = item.runs.map(run => isTextRun(run) ? resolveStyleUnits(run, dpi) : run);
+  return runs.some((run, index) => run !== item.runs![index]) ? { ...item, runs } : item;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Pixels per inch of a template's canvas */
+export function getCanvasDPI(template: Template): number {
+  const dpi = template.canvas?.dpi;
+  return typeof dpi === 'number' && dpi > 0 ? dpi : DEFAULT_DPI;
+}
+
+/** Pixels covered by a physical length at the given resolution */
+export function physicalToPixels(value: number, unit: PhysicalUnit, dpi: number): number {
+  return value * UNIT_INCHES[unit] * dpi;
+}
+
+/**
+ * Page size by preset name ("A4", "letter", ...), optionally followed by
+ * "landscape", or null for unknown names
+ */
+export function getPageSize(name: string): PageSize | null {
+  const [preset, orientation] = name.trim().toLowerCase().split(/\s+/);
+  const size = PAGE_SIZES[preset];
+  if (!size) return null;
+  return orientation === 'landscape' ? { ...size, width: size.height, height: size.width } : { ...size };
+}
+
+/** Canvas size in whole pixels of a page size at the given resolution */
+export function pageSizeToPixels(pageSize: PageSize, dpi: number): { width: number; height: number } {
+  return {
+    width: Math.round(physicalToPixels(pageSize.width, pageSize.unit, dpi)),
+    height: Math.round(physicalToPixels(pageSize.height, pageSize.unit, dpi))
+  };
+}
+
+/**
+ * Replace mm, cm, in and pt lengths in a CSS value with pixels at the given
+ * resolution, e.g. "10mm 1in" at 300 DPI becomes "118.11px 300px"
+ */
+export function resolvePhysicalUnits(value: string, dpi: number): string {
+  if (!/\d(mm|cm|in|pt)/.test(value) || /url\(/i.test(value)) return value;
+  return value.replace(PHYSICAL_LENGTH, (match, prefix: string, number: string, unit: PhysicalUnit) =>
+    `${prefix}${round(physicalToPixels(parseFloat(number), unit, dpi))}px`
+  );
+}
+
+/**
+ * The scene with every physical length in element styles and text runs
+ * converted to pixels at the canvas DPI, and the canvas sized from its page
+ * size. Unchanged elements and data items are shared with the input, and a
+ * scene without physical units is returned as-is.
+ */
+export function resolveSceneUnits(scene: Scene): Scene {
+  const { template, data } = scene;
+  const dpi = getCanvasDPI(template);
+
+  const pageSize = template.canvas?.page_size;
+  const pagePixels = pageSize && UNIT_INCHES[pageSize.unit] ? pageSizeToPixels(pageSize, dpi) : null;
+  const canvasChanged = pagePixels !== null &&
+    (pagePixels.width !== template.canvas.width || pagePixels.height !== template.canvas.height);
+
+  const elements = template.elements.map(element => resolveElementUnits(element, dpi));
+  const elementsChanged = elements.some((element, index) => element !== template.elements[index]);
+
+  const dataItems = data.data_items.map(item => resolveDataItemUnits(item, dpi));
+  const dataChanged = dataItems.some((item, index) => item !== data.data_items[index]);
+
+  if (!canvasChanged && !elementsChanged && !dataChanged) return scene;
+
+  return {
+    ...scene,
+    data: dataChanged ? { ...data, data_items: dataItems } : data,
+    template: {
+      ...template,
+      canvas: canvasChanged ? { ...template.canvas, ...pagePixels } : template.canvas,
+      elements: elementsChanged ? elements : template.elements
+    }
+  };
+}
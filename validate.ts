@@ -3,6 +3,384 @@ import * as path from 'path';
 import Ajv from 'ajv';
 import addFormats from 'ajv-formats';
 
+/**
+ * A document a schema must accept or reject, pinning down one schema rule
+ */
+interface SchemaCase {
+  name: string;
+  schema: 'data' | 'template' | 'theme';
+  document: any;
+  valid: boolean;
+}
+
+/** Schema cases of one feature, reported as "name (feature)" */
+interface SchemaCaseGroup {
+  feature: string;
+  cases: SchemaCase[];
+}
+
+/** Smallest documents each schema accepts; schema cases extend them */
+function baseDocument(schema: SchemaCase['schema']): any {
+  switch (schema) {
+    case 'data':
+      return { scene_id: 'case', data_items: [] };
+    case 'template':
+      return { template_id: 'case', template_name: 'Case', canvas: { width: 400, height: 300 }, elements: [] };
+    default:
+      return {
+        theme_id: 'case',
+        theme_name: 'Case',
+        color_palette: [
+          { id: 'ink', name: 'Ink', r: 20, g: 20, b: 20, a: 1 },
+          { id: 'paper', name: 'Paper', r: 250, g: 245, b: 235, a: 1 }
+        ],
+        font_palette: [{ font_id: 'lora', font_name: 'Lora', font_url: 'https://fonts.googleapis.com/css2?family=Lora' }]
+      };
+  }
+}
+
+function templateWith(...elements: any[]): any {
+  return { ...baseDocument('template'), elements };
+}
+
+function dataWith(...dataItems: any[]): any {
+  return { ...baseDocument('data'), data_items: dataItems };
+}
+
+const SCHEMA_CASES: SchemaCaseGroup[] = [
+  {
+    feature: 'scene documents',
+    cases: [
+      ...(['data', 'template', 'theme'] as const).map(schema => ({
+        name: `the smallest ${schema} document is valid`,
+        schema,
+        document: baseDocument(schema),
+        valid: true
+      }))
+    ]
+  },
+  {
+    feature: 'shapes',
+    cases: [
+      {
+        name: 'shape elements take the extended shape types and their parameters',
+        schema: 'template',
+        document: templateWith(
+          { element_id: 'hex', element_type: 'shape', shape_type: 'polygon', sides: 6 },
+          { element_id: 'star', element_type: 'shape', shape_type: 'star', points: 5, inner_radius: 0.4 },
+          { element_id: 'card', element_type: 'shape', shape_type: 'rectangle', corner_radius: '12px 0' },
+          { element_id: 'rule', element_type: 'shape', shape_type: 'arrow', line_direction: 'diagonal_up', arrow_head: 'both' }
+        ),
+        valid: true
+      },
+      {
+        name: 'polygons need at least three sides',
+        schema: 'template',
+        document: templateWith({ element_id: 'flat', element_type: 'shape', shape_type: 'polygon', sides: 2 }),
+        valid: false
+      },
+      {
+        name: 'stars need at least three points',
+        schema: 'template',
+        document: templateWith({ element_id: 'spike', element_type: 'shape', shape_type: 'star', points: 2 }),
+        valid: false
+      },
+      {
+        name: 'star inner radius is a fraction of the outer radius',
+        schema: 'template',
+        document: templateWith({ element_id: 'burst', element_type: 'shape', shape_type: 'star', inner_radius: 1.5 }),
+        valid: false
+      },
+      {
+        name: 'shape types outside the shape library are rejected',
+        schema: 'template',
+        document: templateWith({ element_id: 'blob', element_type: 'shape', shape_type: 'blob' }),
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'gradients',
+    cases: [
+      {
+        name: 'themes hold linear and radial gradients of palette colors',
+        schema: 'theme',
+        document: {
+          ...baseDocument('theme'),
+          gradient_palette: [
+            { id: 'dawn', name: 'Dawn', type: 'linear', angle: 90, stops: [{ color: 'ink', offset: 0 }, { color: 'paper', offset: 1 }] },
+            { id: 'glow', name: 'Glow', type: 'radial', stops: [{ color: '#ffffff', offset: 0.25 }] }
+          ]
+        },
+        valid: true
+      },
+      {
+        name: 'gradient stop offsets lie between 0 and 1',
+        schema: 'theme',
+        document: {
+          ...baseDocument('theme'),
+          gradient_palette: [{ id: 'dawn', name: 'Dawn', type: 'linear', stops: [{ color: 'ink', offset: 1.5 }] }]
+        },
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'effects',
+    cases: [
+      {
+        name: 'styles take opacity, rotation, blend modes and filter lists',
+        schema: 'template',
+        document: templateWith({
+          element_id: 'card', element_type: 'shape', shape_type: 'rectangle',
+          style: { opacity: '50%', rotation: '-15deg', blend_mode: 'multiply', filters: [{ type: 'blur', value: 2 }, { type: 'sepia', value: 0.5 }] }
+        }),
+        valid: true
+      },
+      {
+        name: 'filters are one of the supported types',
+        schema: 'template',
+        document: templateWith({ element_id: 'card', element_type: 'shape', shape_type: 'rectangle', style: { filters: [{ type: 'glow', value: 1 }] } }),
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'text layout',
+    cases: [
+      {
+        name: 'text takes an outline, a max width and a curvature',
+        schema: 'template',
+        document: templateWith({
+          element_id: 'names', element_type: 'data_item', data_item_id: 'names', curvature: -120,
+          style: { stroke: 'ink', stroke_width: '1px', max_width: '60%' }
+        }),
+        valid: true
+      },
+      {
+        name: 'curvature stays within a full circle',
+        schema: 'template',
+        document: templateWith({ element_id: 'names', element_type: 'data_item', data_item_id: 'names', curvature: 400 }),
+        valid: false
+      },
+      {
+        name: 'text fits its box within a font size range',
+        schema: 'template',
+        document: templateWith({
+          element_id: 'names', element_type: 'data_item', data_item_id: 'names',
+          style: { width: '200px', height: '40px', text_fit: 'fill', min_font_size: '12px', max_font_size: '96px' }
+        }),
+        valid: true
+      },
+      {
+        name: 'text_fit is none, shrink or fill',
+        schema: 'template',
+        document: templateWith({ element_id: 'names', element_type: 'data_item', data_item_id: 'names', style: { text_fit: 'squeeze' } }),
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'rich text',
+    cases: [
+      {
+        name: 'text items take styled runs',
+        schema: 'data',
+        document: dataWith({
+          id: 'names', type: 'text', display_name: 'Names', content: 'Emma & Caden',
+          runs: [{ text: 'Emma ' }, { text: '&', font: 'script', color: 'ink', font_size: '24px', font_style: 'italic' }, { text: ' Caden' }]
+        }),
+        valid: true
+      },
+      {
+        name: 'runs need their text and take only text styles',
+        schema: 'data',
+        document: dataWith({ id: 'names', type: 'text', display_name: 'Names', runs: [{ color: 'ink', width: '10px' }] }),
+        valid: false
+      },
+      {
+        name: 'runs are objects',
+        schema: 'data',
+        document: dataWith({ id: 'names', type: 'text', display_name: 'Names', runs: [null, 'Emma'] }),
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'fonts',
+    cases: [
+      {
+        name: 'font URLs may be local paths, or empty for system fonts',
+        schema: 'theme',
+        document: {
+          ...baseDocument('theme'),
+          font_palette: [
+            { font_id: 'script', font_name: 'Great Vibes', font_url: 'fonts/GreatVibes-Regular.ttf' },
+            { font_id: 'body', font_name: 'Georgia', font_url: '' }
+          ]
+        },
+        valid: true
+      },
+      {
+        name: 'fonts list faces by weight and style and a fallback stack',
+        schema: 'theme',
+        document: {
+          ...baseDocument('theme'),
+          font_palette: [{
+            font_id: 'body', font_name: 'Case Serif', font_url: 'fonts/CaseSerif-Regular.ttf',
+            faces: [{ url: 'fonts/CaseSerif-Bold.ttf', weight: 700 }, { url: 'fonts/CaseSerif-Italic.ttf', style: 'italic' }],
+            fallback: ['Georgia', 'serif']
+          }]
+        },
+        valid: true
+      },
+      {
+        name: 'face weights lie between 100 and 900',
+        schema: 'theme',
+        document: {
+          ...baseDocument('theme'),
+          font_palette: [{ font_id: 'body', font_name: 'Case Serif', font_url: '', faces: [{ url: 'fonts/CaseSerif-Black.ttf', weight: 950 }] }]
+        },
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'page sizes',
+    cases: [
+      {
+        name: 'canvases take a DPI and a physical page size',
+        schema: 'template',
+        document: { ...baseDocument('template'), canvas: { width: 620, height: 874, dpi: 150, page_size: { width: 105, height: 148, unit: 'mm' } } },
+        valid: true
+      },
+      {
+        name: 'page sizes use mm, cm, in or pt',
+        schema: 'template',
+        document: { ...baseDocument('template'), canvas: { width: 620, height: 874, page_size: { width: 105, height: 148, unit: 'px' } } },
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'variables',
+    cases: [
+      {
+        name: 'data declares typed variables with defaults and a locale',
+        schema: 'data',
+        document: {
+          ...dataWith({ id: 'greeting', type: 'text', display_name: 'Greeting', content: 'Dear {{ guest | default: "Friend" }}' }),
+          variables: [{ name: 'guest', display_name: 'Guest' }, { name: 'day', type: 'date', default: '2026-05-01' }, { name: 'plus_one', type: 'boolean', default: false }],
+          locale: 'de-DE'
+        },
+        valid: true
+      },
+      {
+        name: 'variable names are identifiers',
+        schema: 'data',
+        document: { ...baseDocument('data'), variables: [{ name: 'guest name' }] },
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'repeaters',
+    cases: [
+      {
+        name: 'repeaters take item and empty templates and a max_count',
+        schema: 'template',
+        document: templateWith({
+          element_id: 'guest_list', element_type: 'repeater', data_item_id: 'guests', max_count: 12,
+          item_template: { element_id: 'guest', element_type: 'data_item', field: 'name' },
+          empty_template: { element_id: 'no_guests', element_type: 'data_item', data_item_id: 'note' }
+        }),
+        valid: true
+      },
+      {
+        name: 'max_count is not negative',
+        schema: 'template',
+        document: templateWith({ element_id: 'guest_list', element_type: 'repeater', data_item_id: 'guests', max_count: -1 }),
+        valid: false
+      },
+      {
+        name: 'lists hold records of text and number fields',
+        schema: 'data',
+        document: dataWith({ id: 'guests', type: 'list', display_name: 'Guests', records: [{ name: 'Ana', seat: 1 }] }),
+        valid: true
+      },
+      {
+        name: 'lists need their records',
+        schema: 'data',
+        document: dataWith({ id: 'guests', type: 'list', display_name: 'Guests' }),
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'visibility',
+    cases: [
+      {
+        name: 'elements take one visibility condition or a list of them',
+        schema: 'template',
+        document: templateWith(
+          { element_id: 'photo', element_type: 'data_item', data_item_id: 'photo', visible_when: { data_item_id: 'photo', operator: 'not_empty' } },
+          { element_id: 'partner', element_type: 'data_item', data_item_id: 'partner', visible_when: [
+            { variable: 'plus_one', operator: 'truthy' },
+            { variable: 'table', operator: 'not_equals', value: 3 }
+          ] }
+        ),
+        valid: true
+      },
+      {
+        name: 'equals conditions need a value',
+        schema: 'template',
+        document: templateWith({ element_id: 'partner', element_type: 'data_item', data_item_id: 'partner', visible_when: { variable: 'time', operator: 'equals' } }),
+        valid: false
+      }
+    ]
+  },
+  {
+    feature: 'typed data',
+    cases: [
+      {
+        name: 'typed data items hold dates, numbers, URLs and email addresses',
+        schema: 'data',
+        document: dataWith(
+          { id: 'day', type: 'date', display_name: 'Day', value: '2026-05-01T16:30+02:00', format: 'full', time_zone: 'Europe/Paris' },
+          { id: 'price', type: 'number', display_name: 'Price', value: 1234.5, format: 'currency', currency: 'EUR', decimals: 2, locale: 'de-DE' },
+          { id: 'site', type: 'url', display_name: 'Site', value: 'https://example.com/rsvp' },
+          { id: 'mail', type: 'email', display_name: 'Mail', value: 'emma@example.com' }
+        ),
+        valid: true
+      },
+      {
+        name: 'currency numbers need a currency code',
+        schema: 'data',
+        document: dataWith({ id: 'price', type: 'number', display_name: 'Price', value: 5, format: 'currency' }),
+        valid: false
+      },
+      {
+        name: 'URL values are http or https',
+        schema: 'data',
+        document: dataWith({ id: 'site', type: 'url', display_name: 'Site', value: 'javascript:alert(1)' }),
+        valid: false
+      },
+      {
+        name: 'date values are ISO dates',
+        schema: 'data',
+        document: dataWith({ id: 'day', type: 'date', display_name: 'Day', value: 'May 1st' }),
+        valid: false
+      },
+      {
+        name: 'date values name a day of the calendar',
+        schema: 'data',
+        document: dataWith({ id: 'day', type: 'date', display_name: 'Day', value: '2026-02-30' }),
+        valid: false
+      }
+    ]
+  }
+];
+
 /**
  * Load a JSON schema from file
  */
@@ -17,6 +395,25 @@ function loadSchema(schemaPath: string) {
 export function validateJson(
   jsonPath: string,
   schemaPath: string
+): { valid: boolean; errors: any[] | null } {
+  try {
+    // Load and parse the JSON file
+    const jsonContent = fs.readFileSync(jsonPath, 'utf-8');
+    return validateDocument(JSON.parse(jsonContent), schemaPath);
+  } catch (error: any) {
+    return {
+      valid: false,
+      errors: [{ message: error.message }]
+    };
+  }
+}
+
+/**
+ * Validate a parsed document against a schema
+ */
+export function validateDocument(
+  data: any,
+  schemaPath: string
 ): { valid: boolean; errors: any[] | null } {
   try {
     // Create a new Ajv instance for each validation to avoid schema conflicts
@@ -27,10 +424,6 @@ export function validateJson(
     const schema = loadSchema(schemaPath);
     const validate = ajv.compile(schema);
 
-    // Load and parse the JSON file
-    const jsonContent = fs.readFileSync(jsonPath, 'utf-8');
-    const data = JSON.parse(jsonContent);
-
     // Validate
     const valid = validate(data);
 
@@ -95,6 +488,22 @@ function validateSampleFiles() {
     }
   });
 
+  console.log('\nChecking schema cases...\n');
+
+  SCHEMA_CASES.forEach(({ feature, cases }) => cases.forEach(({ name, schema, document, valid }) => {
+    const result = validateDocument(document, path.join(rootDir, `scene-${schema}-schema.json`));
+
+    if (result.valid === valid) {
+      console.log(`✓ ${name} (${feature})`);
+    } else {
+      console.log(`✗ ${name} (${feature}): expected the document to be ${valid ? 'valid' : 'invalid'}`);
+      result.errors?.forEach(error => {
+        console.log(`    - ${error.instancePath || '/'}: ${error.message}`);
+      });
+      allValid = false;
+    }
+  }));
+
   console.log('\n' + (allValid ? 'All files are valid!' : 'Some files have validation errors.'));
   process.exit(allValid ? 0 : 1);
 }
@@ -0,0 +1,377 @@
+import type { Scene, DataItem, TextRun, VariableDefinition, VariableValues } from './types';
+import { escapeHTML } from './sanitize';
+import { isTextRun } from './rich-text';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A placeholder that could not be filled in as written */
+export interface VariableProblem {
+  kind: 'missing' | 'invalid' | 'locale';
+  variable: string;
+  dataItemId: string;
+  message: string;
+}
+
+type Value = string | number | Date;
+
+interface InterpolationContext {
+  definitions: Map<string, VariableDefinition>;
+  values: VariableValues;
+  locale: string;
+  report: (kind: VariableProblem['kind'], variable: string, message: string) => void;
+}
+
+type Formatter = (value: Value | null, argument: string | undefined, context: InterpolationContext) => Value | null;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// {{ name }} or {{ name | formatter | formatter: argument }}
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*((?:\|\s*[A-Za-z_]\w*\s*(?::\s*(?:"[^"]*"|'[^']*'|[^|}]*?))?\s*)*)\}\}/g;
+
+const FORMATTER = /\|\s*([A-Za-z_]\w*)\s*(?::\s*("[^"]*"|'[^']*'|[^|}]*?))?\s*(?=\||$)/g;
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+
+const TRUE_WORDS = ['true', 'yes', 'on', '1'];
+const FALSE_WORDS = ['false', 'no', 'off', '0'];
+
+// Year, month and day at the start of an ISO date or date-time
+const ISO_DATE_FIELDS = /^(\d{4})-(\d{2})-(\d{2})/;
+
+// Pattern tokens, longest first; [text] is literal
+const DATE_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|Do|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function ordinal(day: number): string {
+  const suffix = day % 100 >= 11 && day % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][day % 10] || 'th';
+  return `${day}${suffix}`;
+}
+
+/** Whether a year, month and day name a calendar day, e.g. not February 30 */
+function isCalendarDate(year: number, month: number, day: number): boolean {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Date of a value: Date objects, and ISO strings and timestamps. Date-only
+ * strings are local dates, so they format as the same day everywhere. ISO
+ * strings naming a day the calendar does not have (2026-02-30) are not
+ * dates, rather than rolling over into the next month.
+ */
+export function toDate(value: Value): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  const text = typeof value === 'string' ? value.trim() : '';
+  const fields = text.match(ISO_DATE_FIELDS);
+  const [year, month, day] = fields ? fields.slice(1).map(Number) : [];
+  if (fields && !isCalendarDate(year, month, day)) return null;
+
+  const date = fields && text.length === fields[0].length ? new Date(year, month - 1, day) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** Calendar and clock fields of a date in a time zone, or in local time */
+function getDateFields(date: Date, timeZone?: string) {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(),
+      hours: date.getHours(), minutes: date.getMinutes(), seconds: date.getSeconds()
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+  }).formatToParts(date);
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: field('year'), month: field('month'), day: field('day'),
+    hours: field('hour'), minutes: field('minute'), seconds: field('second')
+  };
+}
+
+function formatDatePattern(date: Date, pattern: string, locale: string, timeZone?: string): string {
+  const name = (options: Intl.DateTimeFormatOptions) => new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(date);
+  const { year, month, day, hours, minutes, seconds } = getDateFields(date, timeZone);
+
+  return pattern.replace(DATE_TOKENS, (token: string, literal: string | undefined) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(year);
+      case 'YY': return pad(year % 100);
+      case 'MMMM': return name({ month: 'long' });
+      case 'MMM': return name({ month: 'short' });
+      case 'MM': return pad(month);
+      case 'M': return String(month);
+      case 'Do': return ordinal(day);
+      case 'DD': return pad(day);
+      case 'D': return String(day);
+      case 'dddd': return name({ weekday: 'long' });
+      case 'ddd': return name({ weekday: 'short' });
+      case 'HH': return pad(hours);
+      case 'H': return String(hours);
+      case 'hh': return pad(hours % 12 || 12);
+      case 'h': return String(hours % 12 || 12);
+      case 'mm': return pad(minutes);
+      case 'ss': return pad(seconds);
+      default: return hours < 12 ? 'AM' : 'PM';
+    }
+  });
+}
+
+/**
+ * Run a locale-dependent step. When the data's locale is not a valid tag
+ * (e.g. 'en_US') it is reported and the step runs in the default locale.
+ */
+function withLocale<T>(context: InterpolationContext, name: string, step: (locale: string) => T): T {
+  try {
+    return step(context.locale);
+  } catch (error) {
+    if (isValidLocale(context.locale)) throw error;
+    context.report('locale', name,
+      `Locale '${context.locale}' is not a BCP 47 language tag such as en-US; values are formatted for ${DEFAULT_LOCALE}`);
+    return step(DEFAULT_LOCALE);
+  }
+}
+
+function toText(value: Value, locale: string): string {
+  if (value instanceof Date) return new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(value);
+  return String(value);
+}
+
+function titleCase(text: string, locale: string): string {
+  return text.toLocaleLowerCase(locale).replace(/(^|[\s\-/(])(\p{L})/gu,
+    (match, separator: string, letter: string) => separator + letter.toLocaleUpperCase(locale));
+}
+
+const FORMATTERS: Record<string, Formatter> = {
+  upper: (value, argument, context) => value === null ? null : toText(value, context.locale).toLocaleUpperCase(context.locale),
+  lower: (value, argument, context) => value === null ? null : toText(value, context.locale).toLocaleLowerCase(context.locale),
+  title: (value, argument, context) => value === null ? null : titleCase(toText(value, context.locale), context.locale),
+  capitalize: (value, argument, context) => {
+    if (value === null) return null;
+    const text = toText(value, context.locale);
+    return text.charAt(0).toLocaleUpperCase(context.locale) + text.slice(1);
+  },
+  trim: (value, argument, context) => value === null ? null : toText(value, context.locale).trim(),
+  default: (value, argument) => value === null || value === '' ? argument ?? '' : value,
+  date: (value, argument, context) => {
+    if (value === null) return null;
+    const date = toDate(value);
+    if (!date) throw new Error(`'${value}' is not a date`);
+    return formatDate(date, argument || 'long', context.locale);
+  },
+  number: (value, argument, context) => {
+    if (value === null) return null;
+    const number = typeof value === 'number' ? value : Number(value);
+    if ((typeof value === 'string' && value.trim() === '') || !Number.isFinite(number)) {
+      throw new Error(`'${value}' is not a number`);
+    }
+    const digits = argument !== undefined ? Math.min(20, Math.max(0, parseInt(argument, 10) || 0)) : undefined;
+    return new Intl.NumberFormat(context.locale, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits ?? 3
+    }).format(number);
+  }
+};
+
+function unquote(argument: string | undefined): string | undefined {
+  if (argument === undefined) return undefined;
+  const trimmed = argument.trim();
+  return /^(["']).*\1$/s.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * The value of a variable, checked against its declared type; null when
+ * missing. Values of the wrong type are reported and kept as text.
+ */
+function lookupValue(name: string, context: InterpolationContext): { value: Value | null; valid: boolean } {
+  const definition = context.definitions.get(name);
+  const given = context.values[name];
+  const raw = given === undefined || given === null || given === '' ? definition?.default : given;
+  if (raw === undefined || raw === null || raw === '') return { value: null, valid: true };
+
+  const value = typeof raw === 'boolean' ? String(raw) : raw;
+  switch (definition?.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (value instanceof Date || !Number.isFinite(number)) {
+        context.report('invalid', name, `Variable '${name}' should be a number, got '${value}'`);
+        return { value: String(value), valid: false };
+      }
+      return { value: number, valid: true };
+    }
+    case 'boolean': {
+      if (parseBoolean(value) === null) {
+        context.report('invalid', name, `Variable '${name}' should be true or false, got '${value}'`);
+        return { value: String(value), valid: false };
+      }
+      return { value, valid: true };
+    }
+    case 'date': {
+      const date = toDate(value);
+      if (!date) {
+        context.report('invalid', name, `Variable '${name}' should be a date, got '${value}'`);
+        return { value: String(value), valid: false };
+      }
+      return { value: date, valid: true };
+    }
+    default:
+      return { value, valid: true };
+  }
+}
+
+/** Replace the placeholders in a string; `escape` is applied to substituted values */
+function interpolate(text: string, context: InterpolationContext, escape: (value: string) => string): string {
+  if (!text.includes('{{')) return text;
+
+  return text.replace(PLACEHOLDER, (placeholder, name: string, chain: string) => {
+    const lookup = lookupValue(name, context);
+    let value = lookup.value;
+    const formatters = [...chain.matchAll(FORMATTER)];
+
+    for (const [, formatterName, argument] of formatters) {
+      const formatter = FORMATTERS[formatterName];
+      if (!formatter) {
+        context.report('invalid', name, `Unknown formatter '${formatterName}' for variable '${name}'`);
+        continue;
+      }
+      try {
+        const input = value;
+        value = withLocale(context, name, locale => formatter(input, unquote(argument), { ...context, locale }));
+      } catch (error: any) {
+        // A value already reported as the wrong type is not reported again
+        if (lookup.valid) context.report('invalid', name, `Cannot format variable '${name}' with '${formatterName}': ${error.message}`);
+      }
+    }
+
+    if (value === null) {
+      if (!formatters.some(([, formatterName]) => formatterName === 'default')) {
+        context.report('missing', name, `Variable '${name}' has no value; it renders as empty text`);
+      }
+      return '';
+    }
+    const shown = value;
+    return escape(withLocale(context, name, locale => toText(shown, locale)));
+  });
+}
+
+function bindDataItem(item: DataItem, context: InterpolationContext): DataItem {
+  if (item.type !== 'text') return item;
+
+  const content = typeof item.content === 'string'
+    ? interpolate(item.content, context, value => escapeHTML(value).replace(/\n/g, '<br>'))
+    : item.content;
+
+  let runs: TextRun[] | undefined = item.runs;
+  if (Array.isArray(item.runs)) {
+    const bound = item.runs.map(run => {
+      if (!isTextRun(run)) return run;
+      const text = interpolate(run.text, context, value => value);
+      return text === run.text ? run : { ...run, text };
+    });
+    if (bound.some((run, index) => run !== item.runs![index])) runs = bound;
+  }
+
+  return content === item.content && runs === item.runs ? item : { ...item, content, runs };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Format a date as a style ('short', 'medium', 'long' or 'full'), 'iso' or
+ * a pattern such as 'dddd, MMMM Do [at] h:mm A'. Styles include the time
+ * of day when `withTime` is set. The date is shown in `timeZone` (an IANA
+ * name such as 'Europe/Paris', or 'UTC'), or in local time without one.
+ */
+export function formatDate(
+  date: Date,
+  format: string,
+  locale: string,
+  withTime: boolean = false,
+  timeZone?: string
+): string {
+  if (format === 'iso') return formatDatePattern(date, withTime ? 'YYYY-MM-DD[T]HH:mm' : 'YYYY-MM-DD', locale, timeZone);
+  if ((DATE_STYLES as readonly string[]).includes(format)) {
+    return new Intl.DateTimeFormat(locale, {
+      dateStyle: format as typeof DATE_STYLES[number],
+      timeStyle: withTime ? 'short' : undefined,
+      timeZone
+    }).format(date);
+  }
+  return formatDatePattern(date, format, locale, timeZone);
+}
+
+/** Whether a locale is a BCP 47 language tag Intl accepts, e.g. 'en-US' but not 'en_US' */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A boolean value, or a string such as 'yes', 'off' or '1'; null for
+ * anything else
+ */
+export function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  if (typeof value !== 'string') return null;
+
+  const word = value.trim().toLowerCase();
+  return TRUE_WORDS.includes(word) ? true : FALSE_WORDS.includes(word) ? false : null;
+}
+
+/** Names of the variables a string's placeholders refer to */
+export function findPlaceholders(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+/**
+ * The scene with the {{ variable }} placeholders in its text content and
+ * runs filled in from `values`, then the declared defaults. Unknown or
+ * missing variables render as empty text and are passed to `onProblem`.
+ * Data items without placeholders are shared with the input.
+ */
+export function bindVariables(
+  scene: Scene,
+  values: VariableValues = {},
+  onProblem: (problem: VariableProblem) => void = () => {}
+): Scene {
+  const { data } = scene;
+  let dataItemId = '';
+
+  const context: InterpolationContext = {
+    definitions: new Map((data.variables || []).map(definition => [definition.name, definition])),
+    values,
+    locale: data.locale || DEFAULT_LOCALE,
+    report: (kind, variable, message) => onProblem({ kind, variable, dataItemId, message })
+  };
+
+  const dataItems = data.data_items.map(item => {
+    dataItemId = item.id;
+    return bindDataItem(item, context);
+  });
+
+  if (dataItems.every((item, index) => item === data.data_items[index])) return scene;
+  return { ...scene, data: { ...data, data_items: dataItems } };
+}
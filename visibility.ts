@@ -0,0 +1,186 @@
+import type {
+  Scene,
+  Element,
+  DataItem,
+  VisibilityCondition,
+  VisibilityOperator,
+  VariableDefinition,
+  VariableValues,
+  RenderDiagnostic
+} from './types';
+import { decodeHTMLEntities } from './sanitize';
+import { parseBoolean } from './variables';
+import { isTypedDataItem } from './typed-data';
+import { isTextRun } from './rich-text';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface VisibilityContext {
+  dataItemMap: Map<string, DataItem>;
+  definitions: Map<string, VariableDefinition>;
+  values: VariableValues;
+  report: (diagnostic: RenderDiagnostic) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const VISIBILITY_OPERATORS: VisibilityOperator[] = ['empty', 'not_empty', 'equals', 'not_equals', 'truthy', 'falsy'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * What a data item shows, as plain text; lists count their records and
+ * typed items give their value as written, e.g. '2026-05-01' or '2'
+ */
+function dataItemText(item: DataItem): string {
+  if (isTypedDataItem(item)) return item.value === undefined || item.value === null ? '' : String(item.value);
+
+  switch (item.type) {
+    case 'image':
+      return item.image_url || '';
+    case 'list':
+      return Array.isArray(item.records) && item.records.length > 0 ? String(item.records.length) : '';
+    default:
+      if (Array.isArray(item.runs) && item.runs.length > 0) {
+        return item.runs.filter(isTextRun).map(run => run.text).join('');
+      }
+      return decodeHTMLEntities((item.content || '').replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, ''));
+  }
+}
+
+/** A variable's value as text: the given value, then the declared default */
+function variableText(name: string, context: VisibilityContext): string {
+  const given = context.values[name];
+  const value = given === undefined || given === null || given === '' ? context.definitions.get(name)?.default : given;
+  if (value === undefined || value === null) return '';
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/** Truthy text: anything but empty text and words such as 'false', 'no' or '0' */
+function isTruthy(text: string): boolean {
+  return text.trim() !== '' && parseBoolean(text) !== false;
+}
+
+/** equals test: number items compare as numbers ('2.50' equals 2.5), anything else as text */
+function isEqual(text: string, expected: VisibilityCondition['value'], numeric: boolean): boolean {
+  const expectedText = String(expected).trim();
+  if (numeric && text.trim() !== '' && expectedText !== '') return Number(text) === Number(expectedText);
+  return text.trim() === expectedText;
+}
+
+/** Whether a condition holds; invalid conditions are reported and hold */
+function evaluate(condition: VisibilityCondition, elementPath: string, context: VisibilityContext): boolean {
+  const problem = getConditionProblem(condition);
+  const dataItem = condition?.data_item_id !== undefined ? context.dataItemMap.get(condition.data_item_id) : undefined;
+  const unknownItem = !problem && condition.data_item_id !== undefined && !dataItem;
+
+  if (problem || unknownItem) {
+    context.report({
+      severity: 'warning',
+      code: 'invalid_condition',
+      element_path: elementPath,
+      message: `${problem || `Data item '${condition.data_item_id}' does not exist`}; the element is shown`
+    });
+    return true;
+  }
+
+  const text = dataItem ? dataItemText(dataItem) : variableText(condition.variable!, context);
+  switch (condition.operator) {
+    case 'empty': return text.trim() === '';
+    case 'not_empty': return text.trim() !== '';
+    case 'equals': return isEqual(text, condition.value, dataItem?.type === 'number');
+    case 'not_equals': return !isEqual(text, condition.value, dataItem?.type === 'number');
+    case 'truthy': return isTruthy(text);
+    default: return !isTruthy(text);
+  }
+}
+
+function isVisible(element: Element, elementPath: string, context: VisibilityContext): boolean {
+  const conditions = Array.isArray(element.visible_when) ? element.visible_when : [element.visible_when!];
+  // Every condition is evaluated, so each invalid one is reported
+  return conditions.map(condition => evaluate(condition, elementPath, context)).every(Boolean);
+}
+
+function filterElements(elements: Element[], parentPath: string, context: VisibilityContext): Element[] {
+  let changed = false;
+  const filtered: Element[] = [];
+
+  for (const element of elements) {
+    const elementPath = parentPath ? `${parentPath}/${element.element_id}` : element.element_id;
+    let result = element;
+
+    if (element.visible_when !== undefined) {
+      if (!isVisible(element, elementPath, context)) {
+        changed = true;
+        continue;
+      }
+      // Drop the evaluated condition so that later passes keep the element
+      const { visible_when: _, ...rest } = element;
+      result = rest;
+    }
+
+    if (result.children) {
+      const children = filterElements(result.children, elementPath, context);
+      if (children !== result.children) result = { ...result, children };
+    }
+
+    if (result !== element) changed = true;
+    filtered.push(result);
+  }
+
+  return changed ? filtered : elements;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Why a visibility condition cannot be evaluated, or null when it is valid
+ */
+export function getConditionProblem(condition: VisibilityCondition): string | null {
+  if (!condition || typeof condition !== 'object') return 'Visibility condition must be an object';
+
+  const targets = [condition.data_item_id, condition.variable].filter(target => target !== undefined);
+  if (targets.length !== 1 || typeof targets[0] !== 'string' || targets[0] === '') {
+    return 'Visibility condition needs either a data_item_id or a variable';
+  }
+  if (!VISIBILITY_OPERATORS.includes(condition.operator)) {
+    return `Unknown visibility operator '${condition.operator}' (expected one of ${VISIBILITY_OPERATORS.join(', ')})`;
+  }
+  if ((condition.operator === 'equals' || condition.operator === 'not_equals') &&
+      !['string', 'number', 'boolean'].includes(typeof condition.value)) {
+    return `Visibility operator '${condition.operator}' needs a value`;
+  }
+  return null;
+}
+
+/**
+ * The scene without the elements whose visible_when conditions do not hold
+ * for its data items and the variable `values` (then the declared defaults).
+ * Elements that are kept lose their conditions, so applying this again
+ * changes nothing. Invalid conditions are passed to `report` and count as
+ * holding. Scenes without conditions are returned as-is.
+ */
+export function applyVisibility(
+  scene: Scene,
+  values: VariableValues = {},
+  report: (diagnostic: RenderDiagnostic) => void = () => {}
+): Scene {
+  const { data, template } = scene;
+  const context: VisibilityContext = {
+    dataItemMap: new Map(data.data_items.map(item => [item.id, item])),
+    definitions: new Map((data.variables || []).map(definition => [definition.name, definition])),
+    values,
+    report
+  };
+
+  const elements = filterElements(template.elements, '', context);
+  return elements === template.elements ? scene : { ...scene, template: { ...template, elements } };
+}